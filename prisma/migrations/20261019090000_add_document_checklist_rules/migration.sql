@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "DocumentChecklistRule" (
+    "id" TEXT NOT NULL,
+    "serviceType" "ServiceType" NOT NULL,
+    "destinationId" TEXT,
+    "documentType" "DocumentType" NOT NULL,
+    "label" TEXT,
+    "description" TEXT,
+    "minCount" INTEGER NOT NULL DEFAULT 1,
+    "maxAgeDays" INTEGER,
+    "isRequired" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "DocumentChecklistRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentChecklistRule_serviceType_idx" ON "DocumentChecklistRule"("serviceType");
+CREATE INDEX "DocumentChecklistRule_destinationId_idx" ON "DocumentChecklistRule"("destinationId");
+CREATE INDEX "DocumentChecklistRule_documentType_idx" ON "DocumentChecklistRule"("documentType");
+CREATE INDEX "DocumentChecklistRule_isActive_idx" ON "DocumentChecklistRule"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "DocumentChecklistRule"
+ADD CONSTRAINT "DocumentChecklistRule_destinationId_fkey" FOREIGN KEY ("destinationId") REFERENCES "Destination"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "supersedesId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Document_supersedesId_key" ON "Document"("supersedesId");
+
+-- AddForeignKey
+ALTER TABLE "Document"
+ADD CONSTRAINT "Document_supersedesId_fkey" FOREIGN KEY ("supersedesId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'DOCUMENT_EXPIRING';
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "issuedAt" TIMESTAMP(3),
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "expiryReminderSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Document_expiresAt_idx" ON "Document"("expiresAt");
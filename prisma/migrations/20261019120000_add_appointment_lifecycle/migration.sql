@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'APPOINTMENT_UPDATED';
+ALTER TYPE "NotificationType" ADD VALUE 'APPOINTMENT_REMINDER';
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN "statusReason" TEXT,
+ADD COLUMN "statusChangedAt" TIMESTAMP(3);
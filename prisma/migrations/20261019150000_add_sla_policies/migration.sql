@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "SlaState" AS ENUM ('ON_TRACK', 'AT_RISK', 'BREACHED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SLA_ALERT';
+
+-- AlterTable
+ALTER TABLE "Case" ADD COLUMN     "slaDueAt" TIMESTAMP(3),
+ADD COLUMN     "slaState" "SlaState",
+ADD COLUMN     "slaStatus" "CaseStatus";
+
+-- CreateTable
+CREATE TABLE "SlaPolicy" (
+    "id" TEXT NOT NULL,
+    "status" "CaseStatus" NOT NULL,
+    "priority" "Priority",
+    "targetHours" INTEGER NOT NULL,
+    "businessDaysOnly" BOOLEAN NOT NULL DEFAULT true,
+    "atRiskPercent" INTEGER NOT NULL DEFAULT 75,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Case_slaState_idx" ON "Case"("slaState");
+
+-- CreateIndex
+CREATE INDEX "SlaPolicy_status_idx" ON "SlaPolicy"("status");
+
+-- CreateIndex
+CREATE INDEX "SlaPolicy_isActive_idx" ON "SlaPolicy"("isActive");
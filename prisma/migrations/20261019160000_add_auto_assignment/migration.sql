@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "AssignmentStrategy" AS ENUM ('ROUND_ROBIN', 'LEAST_ACTIVE', 'SPECIALIZATION');
+
+-- CreateTable
+CREATE TABLE "AutoAssignmentRule" (
+    "id" TEXT NOT NULL,
+    "serviceType" "ServiceType" NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "strategy" "AssignmentStrategy" NOT NULL DEFAULT 'LEAST_ACTIVE',
+    "lastAssignedAgentId" TEXT,
+    "lastAssignedAt" TIMESTAMP(3),
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutoAssignmentRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AgentAssignmentProfile" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "autoAssignOptOut" BOOLEAN NOT NULL DEFAULT false,
+    "isOutOfOffice" BOOLEAN NOT NULL DEFAULT false,
+    "serviceTypes" "ServiceType"[],
+    "destinationIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgentAssignmentProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AutoAssignmentRule_serviceType_key" ON "AutoAssignmentRule"("serviceType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentAssignmentProfile_agentId_key" ON "AgentAssignmentProfile"("agentId");
+
+-- AddForeignKey
+ALTER TABLE "AgentAssignmentProfile" ADD CONSTRAINT "AgentAssignmentProfile_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
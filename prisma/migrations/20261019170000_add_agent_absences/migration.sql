@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "CoverageMode" AS ENUM ('TRANSFER', 'SHADOW');
+
+-- CreateEnum
+CREATE TYPE "AbsenceStatus" AS ENUM ('SCHEDULED', 'ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Case" ADD COLUMN     "coveringAgentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AgentAbsence" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "mode" "CoverageMode" NOT NULL DEFAULT 'TRANSFER',
+    "status" "AbsenceStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "notifyClient" BOOLEAN NOT NULL DEFAULT true,
+    "handoverNotes" TEXT,
+    "createdById" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgentAbsence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AbsenceCoverage" (
+    "id" TEXT NOT NULL,
+    "absenceId" TEXT NOT NULL,
+    "caseId" TEXT NOT NULL,
+    "coveredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "returnedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AbsenceCoverage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Case_coveringAgentId_idx" ON "Case"("coveringAgentId");
+
+-- CreateIndex
+CREATE INDEX "AgentAbsence_agentId_idx" ON "AgentAbsence"("agentId");
+
+-- CreateIndex
+CREATE INDEX "AgentAbsence_delegateId_idx" ON "AgentAbsence"("delegateId");
+
+-- CreateIndex
+CREATE INDEX "AgentAbsence_status_startsAt_idx" ON "AgentAbsence"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "AgentAbsence_status_endsAt_idx" ON "AgentAbsence"("status", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "AbsenceCoverage_caseId_idx" ON "AbsenceCoverage"("caseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AbsenceCoverage_absenceId_caseId_key" ON "AbsenceCoverage"("absenceId", "caseId");
+
+-- AddForeignKey
+ALTER TABLE "Case" ADD CONSTRAINT "Case_coveringAgentId_fkey" FOREIGN KEY ("coveringAgentId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AgentAbsence" ADD CONSTRAINT "AgentAbsence_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AgentAbsence" ADD CONSTRAINT "AgentAbsence_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceCoverage" ADD CONSTRAINT "AbsenceCoverage_absenceId_fkey" FOREIGN KEY ("absenceId") REFERENCES "AgentAbsence"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceCoverage" ADD CONSTRAINT "AbsenceCoverage_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "Case"("id") ON DELETE CASCADE ON UPDATE CASCADE;
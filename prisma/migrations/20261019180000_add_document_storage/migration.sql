@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "StorageProvider" AS ENUM ('UPLOADTHING', 'CLOUDINARY', 'LOCAL', 'S3');
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "storageKey" TEXT,
+ADD COLUMN     "storageProvider" "StorageProvider";
+
+-- CreateIndex
+CREATE INDEX "Document_storageProvider_idx" ON "Document"("storageProvider");
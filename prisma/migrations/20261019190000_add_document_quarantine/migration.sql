@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "DocumentStatus" ADD VALUE 'QUARANTINED';
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "quarantineReason" TEXT,
+ADD COLUMN     "scannedAt" TIMESTAMP(3);
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ExtractionStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "DocumentExtraction" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "status" "ExtractionStatus" NOT NULL DEFAULT 'PENDING',
+    "engine" TEXT,
+    "mrzFormat" TEXT,
+    "mrzValid" BOOLEAN NOT NULL DEFAULT false,
+    "fields" JSONB,
+    "mismatches" JSONB,
+    "rawText" TEXT,
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentExtraction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentExtraction_documentId_key" ON "DocumentExtraction"("documentId");
+
+-- CreateIndex
+CREATE INDEX "DocumentExtraction_status_idx" ON "DocumentExtraction"("status");
+
+-- AddForeignKey
+ALTER TABLE "DocumentExtraction" ADD CONSTRAINT "DocumentExtraction_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
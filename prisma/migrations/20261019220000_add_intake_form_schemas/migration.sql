@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "CaseFormData" ADD COLUMN "schemaId" TEXT;
+
+-- CreateTable
+CREATE TABLE "IntakeFormSchema" (
+    "id" TEXT NOT NULL,
+    "serviceType" "ServiceType" NOT NULL,
+    "destinationId" TEXT,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "definition" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IntakeFormSchema_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CaseFormData_schemaId_idx" ON "CaseFormData"("schemaId");
+
+-- CreateIndex
+CREATE INDEX "IntakeFormSchema_serviceType_destinationId_idx" ON "IntakeFormSchema"("serviceType", "destinationId");
+
+-- CreateIndex
+CREATE INDEX "IntakeFormSchema_isActive_idx" ON "IntakeFormSchema"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "CaseFormData" ADD CONSTRAINT "CaseFormData_schemaId_fkey" FOREIGN KEY ("schemaId") REFERENCES "IntakeFormSchema"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IntakeFormSchema" ADD CONSTRAINT "IntakeFormSchema_destinationId_fkey" FOREIGN KEY ("destinationId") REFERENCES "Destination"("id") ON DELETE CASCADE ON UPDATE CASCADE;
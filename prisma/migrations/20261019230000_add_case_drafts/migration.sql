@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "CaseStatus" ADD VALUE 'DRAFT' BEFORE 'SUBMITTED';
+
+-- AlterTable
+ALTER TABLE "Case" ADD COLUMN "draftExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Case_draftExpiresAt_idx" ON "Case"("draftExpiresAt");
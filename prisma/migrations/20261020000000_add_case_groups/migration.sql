@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Case" ADD COLUMN "groupId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "sharedWithGroup" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CaseGroup" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "principalCaseId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaseGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CaseGroup_principalCaseId_key" ON "CaseGroup"("principalCaseId");
+
+-- CreateIndex
+CREATE INDEX "Case_groupId_idx" ON "Case"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "Case" ADD CONSTRAINT "Case_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "CaseGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseGroup" ADD CONSTRAINT "CaseGroup_principalCaseId_fkey" FOREIGN KEY ("principalCaseId") REFERENCES "Case"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TASK_OVERDUE';
+
+-- CreateTable
+CREATE TABLE "CaseTask" (
+    "id" TEXT NOT NULL,
+    "caseId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "dueAt" TIMESTAMP(3),
+    "assigneeId" TEXT,
+    "isDone" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "completedById" TEXT,
+    "templateId" TEXT,
+    "createdById" TEXT,
+    "overdueNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaseTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CaseTaskTemplate" (
+    "id" TEXT NOT NULL,
+    "serviceType" "ServiceType" NOT NULL,
+    "triggerStatus" "CaseStatus" NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "dueInDays" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CaseTaskTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CaseTask_caseId_idx" ON "CaseTask"("caseId");
+
+-- CreateIndex
+CREATE INDEX "CaseTask_assigneeId_idx" ON "CaseTask"("assigneeId");
+
+-- CreateIndex
+CREATE INDEX "CaseTask_isDone_dueAt_idx" ON "CaseTask"("isDone", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "CaseTaskTemplate_serviceType_triggerStatus_idx" ON "CaseTaskTemplate"("serviceType", "triggerStatus");
+
+-- CreateIndex
+CREATE INDEX "CaseTaskTemplate_isActive_idx" ON "CaseTaskTemplate"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "CaseTask" ADD CONSTRAINT "CaseTask_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "Case"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseTask" ADD CONSTRAINT "CaseTask_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CaseTask" ADD CONSTRAINT "CaseTask_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "CaseTaskTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "recoveryCodeHashes" TEXT[],
+ADD COLUMN     "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "twoFactorLastStep" INTEGER,
+ADD COLUMN     "twoFactorSecret" TEXT;
+
+-- CreateTable
+CREATE TABLE "TwoFactorSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "authTime" INTEGER NOT NULL,
+    "verifiedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TwoFactorSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TwoFactorSession_verifiedAt_idx" ON "TwoFactorSession"("verifiedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TwoFactorSession_userId_authTime_key" ON "TwoFactorSession"("userId", "authTime");
+
+-- AddForeignKey
+ALTER TABLE "TwoFactorSession" ADD CONSTRAINT "TwoFactorSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SessionPlatform" AS ENUM ('WEB', 'MOBILE');
+
+-- CreateTable
+CREATE TABLE "UserSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "authTime" INTEGER NOT NULL,
+    "platform" "SessionPlatform" NOT NULL DEFAULT 'WEB',
+    "deviceName" TEXT,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserSession_userId_revokedAt_idx" ON "UserSession"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "UserSession_lastSeenAt_idx" ON "UserSession"("lastSeenAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserSession_userId_authTime_key" ON "UserSession"("userId", "authTime");
+
+-- AddForeignKey
+ALTER TABLE "UserSession" ADD CONSTRAINT "UserSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AgentAbsence" ADD COLUMN     "setOutOfOffice" BOOLEAN NOT NULL DEFAULT false;
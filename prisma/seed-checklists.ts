@@ -0,0 +1,168 @@
+// Prisma database seed script for Document Checklist Rules
+// Run with: pnpm tsx prisma/seed-checklists.ts
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+import type { DocumentType, ServiceType } from '@prisma/client';
+
+interface ChecklistRuleData {
+  serviceType: ServiceType;
+  documentType: DocumentType;
+  label?: string;
+  description?: string;
+  minCount?: number;
+  maxAgeDays?: number;
+  isRequired?: boolean;
+}
+
+async function main() {
+  console.log('🌱 Starting document checklist rules seed...');
+
+  // Generic rules (apply to every destination)
+  // Destination-specific overrides can be added through /api/admin/checklist-rules
+  const rules: ChecklistRuleData[] = [
+    // Student Visa
+    { serviceType: 'STUDENT_VISA', documentType: 'PASSPORT' },
+    { serviceType: 'STUDENT_VISA', documentType: 'PHOTO', minCount: 2 },
+    {
+      serviceType: 'STUDENT_VISA',
+      documentType: 'DIPLOMA',
+      description: 'Highest completed diploma and transcripts',
+    },
+    {
+      serviceType: 'STUDENT_VISA',
+      documentType: 'BANK_STATEMENT',
+      description: 'Proof of funds covering tuition and living expenses',
+      minCount: 3,
+      maxAgeDays: 90,
+    },
+    {
+      serviceType: 'STUDENT_VISA',
+      documentType: 'OTHER',
+      label: 'Letter of Acceptance',
+      description: 'Letter of acceptance from a designated learning institution',
+    },
+
+    // Work Permit
+    { serviceType: 'WORK_PERMIT', documentType: 'PASSPORT' },
+    { serviceType: 'WORK_PERMIT', documentType: 'PHOTO', minCount: 2 },
+    {
+      serviceType: 'WORK_PERMIT',
+      documentType: 'EMPLOYMENT_LETTER',
+      description: 'Signed job offer or employment contract',
+      maxAgeDays: 180,
+    },
+    { serviceType: 'WORK_PERMIT', documentType: 'DIPLOMA' },
+    {
+      serviceType: 'WORK_PERMIT',
+      documentType: 'BANK_STATEMENT',
+      minCount: 3,
+      maxAgeDays: 90,
+      isRequired: false,
+    },
+
+    // Family Reunification
+    { serviceType: 'FAMILY_REUNIFICATION', documentType: 'PASSPORT' },
+    { serviceType: 'FAMILY_REUNIFICATION', documentType: 'BIRTH_CERTIFICATE' },
+    {
+      serviceType: 'FAMILY_REUNIFICATION',
+      documentType: 'MARRIAGE_CERTIFICATE',
+      description: 'Required when joining a spouse or partner',
+      isRequired: false,
+    },
+    {
+      serviceType: 'FAMILY_REUNIFICATION',
+      documentType: 'PROOF_OF_RESIDENCE',
+      description: "Proof of the sponsor's residence",
+      maxAgeDays: 90,
+    },
+
+    // Tourist Visa
+    { serviceType: 'TOURIST_VISA', documentType: 'PASSPORT' },
+    { serviceType: 'TOURIST_VISA', documentType: 'PHOTO' },
+    {
+      serviceType: 'TOURIST_VISA',
+      documentType: 'BANK_STATEMENT',
+      minCount: 3,
+      maxAgeDays: 90,
+    },
+
+    // Business Visa
+    { serviceType: 'BUSINESS_VISA', documentType: 'PASSPORT' },
+    { serviceType: 'BUSINESS_VISA', documentType: 'PHOTO' },
+    {
+      serviceType: 'BUSINESS_VISA',
+      documentType: 'EMPLOYMENT_LETTER',
+      description: 'Letter from employer describing the purpose of the trip',
+      maxAgeDays: 90,
+    },
+    {
+      serviceType: 'BUSINESS_VISA',
+      documentType: 'BANK_STATEMENT',
+      minCount: 3,
+      maxAgeDays: 90,
+    },
+
+    // Permanent Residency
+    { serviceType: 'PERMANENT_RESIDENCY', documentType: 'PASSPORT' },
+    { serviceType: 'PERMANENT_RESIDENCY', documentType: 'PHOTO', minCount: 2 },
+    { serviceType: 'PERMANENT_RESIDENCY', documentType: 'BIRTH_CERTIFICATE' },
+    { serviceType: 'PERMANENT_RESIDENCY', documentType: 'DIPLOMA' },
+    {
+      serviceType: 'PERMANENT_RESIDENCY',
+      documentType: 'BANK_STATEMENT',
+      minCount: 6,
+      maxAgeDays: 90,
+    },
+    {
+      serviceType: 'PERMANENT_RESIDENCY',
+      documentType: 'PROOF_OF_RESIDENCE',
+      maxAgeDays: 90,
+    },
+  ];
+
+  console.log(`📝 Creating ${rules.length} checklist rules...`);
+
+  for (const rule of rules) {
+    // Check if a generic rule already exists for this service type and document type
+    const existing = await prisma.documentChecklistRule.findFirst({
+      where: {
+        serviceType: rule.serviceType,
+        documentType: rule.documentType,
+        destinationId: null,
+      },
+    });
+
+    if (existing) {
+      console.log(`   ⏭️  Skipping existing rule: ${rule.serviceType} / ${rule.documentType}`);
+      continue;
+    }
+
+    await prisma.documentChecklistRule.create({
+      data: {
+        serviceType: rule.serviceType,
+        documentType: rule.documentType,
+        label: rule.label ?? null,
+        description: rule.description ?? null,
+        minCount: rule.minCount ?? 1,
+        maxAgeDays: rule.maxAgeDays ?? null,
+        isRequired: rule.isRequired ?? true,
+      },
+    });
+
+    console.log(`   ✅ Created rule: ${rule.serviceType} / ${rule.documentType}`);
+  }
+
+  console.log('🎉 Document checklist rules seeding completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during seeding:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
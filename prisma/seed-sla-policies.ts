@@ -0,0 +1,76 @@
+// Prisma database seed script for SLA Policies
+// Run with: pnpm tsx prisma/seed-sla-policies.ts
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+import type { CaseStatus, Priority } from '@prisma/client';
+
+interface SlaPolicyData {
+  status: CaseStatus;
+  priority: Priority | null;
+  targetHours: number;
+  businessDaysOnly?: boolean;
+  atRiskPercent?: number;
+}
+
+const BUSINESS_DAY = 24;
+
+async function main() {
+  console.log('🌱 Starting SLA policies seed...');
+
+  // Catch-all targets (priority: null) plus tighter targets for urgent and high priority cases
+  // Adjust through /api/admin/sla-policies
+  const policies: SlaPolicyData[] = [
+    // New cases must be picked up quickly
+    { status: 'SUBMITTED', priority: null, targetHours: 2 * BUSINESS_DAY },
+    { status: 'SUBMITTED', priority: 'HIGH', targetHours: BUSINESS_DAY },
+    { status: 'SUBMITTED', priority: 'URGENT', targetHours: 8, atRiskPercent: 50 },
+
+    // Review
+    { status: 'UNDER_REVIEW', priority: null, targetHours: 5 * BUSINESS_DAY },
+    { status: 'UNDER_REVIEW', priority: 'HIGH', targetHours: 4 * BUSINESS_DAY },
+    { status: 'UNDER_REVIEW', priority: 'URGENT', targetHours: 3 * BUSINESS_DAY },
+
+    // Processing with the authorities
+    { status: 'PROCESSING', priority: null, targetHours: 10 * BUSINESS_DAY },
+    { status: 'PROCESSING', priority: 'URGENT', targetHours: 5 * BUSINESS_DAY },
+  ];
+
+  for (const policy of policies) {
+    const existing = await prisma.slaPolicy.findFirst({
+      where: { status: policy.status, priority: policy.priority },
+    });
+
+    if (existing) {
+      console.log(
+        `   ⏭️  Skipping existing policy: ${policy.status} / ${policy.priority ?? 'ANY'}`
+      );
+      continue;
+    }
+
+    await prisma.slaPolicy.create({
+      data: {
+        status: policy.status,
+        priority: policy.priority,
+        targetHours: policy.targetHours,
+        businessDaysOnly: policy.businessDaysOnly ?? true,
+        atRiskPercent: policy.atRiskPercent ?? 75,
+      },
+    });
+
+    console.log(`   ✅ Created policy: ${policy.status} / ${policy.priority ?? 'ANY'}`);
+  }
+
+  console.log('🎉 SLA policies seeding completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during seeding:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
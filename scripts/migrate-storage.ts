@@ -0,0 +1,183 @@
+#!/usr/bin/env tsx
+/**
+ * Document Storage Migration Script
+ *
+ * Copies document files from one storage backend to another and points the
+ * document records at the new copy. Safe to re-run: documents already on the
+ * target backend are skipped.
+ *
+ * Usage:
+ *   pnpm storage:migrate --to local
+ *   pnpm storage:migrate --to s3 --from uploadthing --limit 100 --dry-run
+ *   pnpm storage:migrate --to s3 --delete-source
+ *
+ * Options:
+ *   --to <provider>     Target backend (uploadthing | cloudinary | local | s3) - required
+ *   --from <provider>   Only migrate documents currently on this backend
+ *   --limit <n>         Stop after n documents
+ *   --dry-run           Report what would be migrated without copying anything
+ *   --delete-source     Delete the original file once the copy is recorded
+ *
+ * Process:
+ * 1. Resolve where each document lives (storage columns, or its URL for older rows)
+ * 2. Download it from the source backend and upload it to the target
+ * 3. Update filePath, storageProvider and storageKey
+ * 4. Optionally delete the source file
+ */
+
+import { PrismaClient, type StorageProvider } from '@prisma/client';
+import {
+  DOCUMENT_KEY_PREFIX,
+  getStorageDriver,
+  isStorageProvider,
+  resolveStorageLocation,
+} from '../src/lib/storage';
+import { sanitizeFilename } from '../src/lib/utils/file-validation';
+
+const prisma = new PrismaClient();
+
+interface MigrationOptions {
+  to: StorageProvider;
+  from: StorageProvider | null;
+  limit: number | null;
+  dryRun: boolean;
+  deleteSource: boolean;
+}
+
+interface MigrationStats {
+  migrated: number;
+  skipped: number;
+  unresolved: number;
+  errors: number;
+}
+
+function parseProvider(value: string | undefined, flag: string): StorageProvider {
+  const provider = (value ?? '').toUpperCase();
+  if (!isStorageProvider(provider)) {
+    throw new Error(`${flag} must be one of uploadthing, cloudinary, local, s3`);
+  }
+  return provider;
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const limit = valueOf('--limit');
+  if (limit !== undefined && !(Number(limit) > 0)) {
+    throw new Error('--limit must be a positive number');
+  }
+
+  return {
+    to: parseProvider(valueOf('--to'), '--to'),
+    from: argv.includes('--from') ? parseProvider(valueOf('--from'), '--from') : null,
+    limit: limit !== undefined ? Number(limit) : null,
+    dryRun: argv.includes('--dry-run'),
+    deleteSource: argv.includes('--delete-source'),
+  };
+}
+
+async function migrateStorage(options: MigrationOptions): Promise<MigrationStats> {
+  const stats: MigrationStats = { migrated: 0, skipped: 0, unresolved: 0, errors: 0 };
+  const target = getStorageDriver(options.to);
+
+  console.log(`📦 Migrating documents to ${options.to}${options.dryRun ? ' (dry run)' : ''}`);
+  if (options.from) {
+    console.log(`   Source: ${options.from}`);
+  }
+
+  const documents = await prisma.document.findMany({
+    where: { OR: [{ storageProvider: null }, { storageProvider: { not: options.to } }] },
+    select: {
+      id: true,
+      fileName: true,
+      filePath: true,
+      mimeType: true,
+      uploadedById: true,
+      storageProvider: true,
+      storageKey: true,
+    },
+    orderBy: { uploadDate: 'asc' },
+  });
+
+  for (const document of documents) {
+    if (options.limit !== null && stats.migrated >= options.limit) {
+      break;
+    }
+
+    const source = resolveStorageLocation(document);
+
+    if (!source) {
+      console.warn(`   ⚠️  ${document.id}: unknown storage location (${document.filePath})`);
+      stats.unresolved++;
+      continue;
+    }
+
+    if (source.provider === options.to || (options.from && source.provider !== options.from)) {
+      stats.skipped++;
+      continue;
+    }
+
+    if (options.dryRun) {
+      console.log(`   ➡️  ${document.id}: ${source.provider} ${source.key}`);
+      stats.migrated++;
+      continue;
+    }
+
+    try {
+      const sourceDriver = getStorageDriver(source.provider);
+      const body = await sourceDriver.get(source.key);
+      const stored = await target.put(
+        `${DOCUMENT_KEY_PREFIX}/${document.uploadedById}/${document.id}-${sanitizeFilename(document.fileName)}`,
+        body,
+        { contentType: document.mimeType, fileName: document.fileName }
+      );
+
+      await prisma.document.update({
+        where: { id: document.id },
+        data: { filePath: stored.url, storageProvider: options.to, storageKey: stored.key },
+      });
+
+      if (options.deleteSource) {
+        try {
+          await sourceDriver.delete(source.key);
+        } catch (error: any) {
+          console.warn(`   ⚠️  ${document.id}: copied but source not deleted (${error.message})`);
+        }
+      }
+
+      console.log(`   ✅ ${document.id}: ${source.provider} → ${options.to} (${stored.size} bytes)`);
+      stats.migrated++;
+    } catch (error: any) {
+      console.error(`   ❌ ${document.id}: ${error.message}`);
+      stats.errors++;
+    }
+  }
+
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 STORAGE MIGRATION SUMMARY');
+  console.log('='.repeat(50));
+  console.log(`✅ ${options.dryRun ? 'To migrate' : 'Migrated'}:   ${stats.migrated}`);
+  console.log(`⏭️  Skipped:      ${stats.skipped}`);
+  console.log(`⚠️  Unresolved:   ${stats.unresolved}`);
+  console.log(`❌ Errors:       ${stats.errors}`);
+  console.log('='.repeat(50));
+
+  return stats;
+}
+
+// Run the script
+Promise.resolve()
+  .then(() => migrateStorage(parseArgs(process.argv.slice(2))))
+  .then((stats) => {
+    process.exit(stats.errors > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Storage migration failed:', error.message ?? error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -9,6 +9,8 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { requireRecentTwoFactor } from '@/lib/services/two-factor.service';
 import { NextResponse } from 'next/server';
 
 // Helper function to escape CSV fields
@@ -27,10 +29,13 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const req = request as AuthenticatedRequest;
 
   // Only ADMIN can export activity logs
-  if (!req.user || req.user.role !== 'ADMIN') {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'audit.export');
+  await requireRecentTwoFactor(req.user, req.firebaseToken?.auth_time);
+
   const searchParams = request.nextUrl.searchParams;
 
   // Filters (same as main endpoint but no pagination)
@@ -11,16 +11,19 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 
 // GET /api/admin/activity-logs
 const getHandler = asyncHandler(async (request: NextRequest) => {
   const req = request as AuthenticatedRequest;
 
   // Only ADMIN can access activity logs
-  if (!req.user || req.user.role !== 'ADMIN') {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'audit.view');
+
   const searchParams = request.nextUrl.searchParams;
 
   // Pagination
@@ -0,0 +1,96 @@
+// GET /api/admin/auto-assignment - Auto-assignment rule of every service type (ADMIN only)
+// PUT /api/admin/auto-assignment - Turn auto-assignment on/off for a service type (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { AssignmentStrategy, ServiceType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { getAssignmentCandidates } from '@/lib/services/case-assignment.service';
+
+const updateRuleSchema = z.object({
+  serviceType: z.enum(ServiceType),
+  isEnabled: z.boolean(),
+  strategy: z.enum(AssignmentStrategy).optional(),
+});
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const [savedRules, candidates] = await Promise.all([
+    prisma.autoAssignmentRule.findMany(),
+    getAssignmentCandidates(),
+  ]);
+
+  // Service types without a saved rule are reported as disabled
+  const rules = Object.values(ServiceType).map(
+    (serviceType) =>
+      savedRules.find((rule) => rule.serviceType === serviceType) ?? {
+        serviceType,
+        isEnabled: false,
+        strategy: AssignmentStrategy.LEAST_ACTIVE,
+        lastAssignedAgentId: null,
+        lastAssignedAt: null,
+      }
+  );
+
+  return successResponse(
+    { rules, availableAgents: candidates },
+    'Auto-assignment rules retrieved successfully'
+  );
+});
+
+const putHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const body = await request.json();
+  const validationResult = updateRuleSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const { serviceType, isEnabled, strategy } = validationResult.data;
+
+  const rule = await prisma.autoAssignmentRule.upsert({
+    where: { serviceType },
+    create: { serviceType, isEnabled, strategy, updatedById: req.user.userId },
+    update: { isEnabled, strategy, updatedById: req.user.userId },
+  });
+
+  logger.info('Auto-assignment rule updated', {
+    serviceType,
+    isEnabled: rule.isEnabled,
+    strategy: rule.strategy,
+    updatedBy: req.user.userId,
+  });
+
+  return successResponse({ rule }, 'Auto-assignment rule updated successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PUT = withCorsMiddleware(
+  withRateLimit(authenticateToken(putHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,92 @@
+// PATCH /api/admin/checklist-rules/[id] - Update a document checklist rule (ADMIN only)
+// DELETE /api/admin/checklist-rules/[id] - Delete a document checklist rule (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+
+// Service type, destination and document type identify a rule and cannot change
+const updateRuleSchema = z.object({
+  label: z.string().max(200).nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+  minCount: z.number().int().min(1).max(20).optional(),
+  maxAgeDays: z.number().int().min(1).max(3650).nullable().optional(),
+  isRequired: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+  const body = await request.json();
+
+  const validationResult = updateRuleSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const existing = await prisma.documentChecklistRule.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const rule = await prisma.documentChecklistRule.update({
+    where: { id },
+    data: validationResult.data,
+  });
+
+  logger.info('Checklist rule updated', { ruleId: id, updatedBy: req.user.userId });
+
+  return successResponse({ rule }, 'Checklist rule updated successfully');
+});
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+
+  const existing = await prisma.documentChecklistRule.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await prisma.documentChecklistRule.delete({ where: { id } });
+
+  logger.info('Checklist rule deleted', { ruleId: id, deletedBy: req.user.userId });
+
+  return successResponse(null, 'Checklist rule deleted successfully');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,118 @@
+// GET /api/admin/checklist-rules - List document checklist rules (ADMIN only)
+// POST /api/admin/checklist-rules - Create a document checklist rule (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { DocumentType, ServiceType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+
+const createRuleSchema = z.object({
+  serviceType: z.enum(ServiceType),
+  destinationId: z.string().uuid().nullable().optional(),
+  documentType: z.enum(DocumentType),
+  label: z.string().max(200).optional(),
+  description: z.string().max(1000).optional(),
+  minCount: z.number().int().min(1).max(20).optional().default(1),
+  maxAgeDays: z.number().int().min(1).max(3650).nullable().optional(),
+  isRequired: z.boolean().optional().default(true),
+  isActive: z.boolean().optional().default(true),
+});
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { searchParams } = new URL(request.url);
+  const serviceType = searchParams.get('serviceType');
+  const destinationId = searchParams.get('destinationId');
+
+  if (serviceType && !Object.values(ServiceType).includes(serviceType as ServiceType)) {
+    throw new ApiError('Invalid service type', HttpStatus.BAD_REQUEST);
+  }
+
+  const rules = await prisma.documentChecklistRule.findMany({
+    where: {
+      ...(serviceType && { serviceType: serviceType as ServiceType }),
+      ...(destinationId && { destinationId }),
+    },
+    include: {
+      destination: { select: { id: true, name: true, code: true, flagEmoji: true } },
+    },
+    orderBy: [{ serviceType: 'asc' }, { documentType: 'asc' }],
+  });
+
+  return successResponse({ rules }, 'Checklist rules retrieved successfully');
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const body = await request.json();
+  const validationResult = createRuleSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const data = validationResult.data;
+
+  // One rule per service type + destination + document type
+  const duplicate = await prisma.documentChecklistRule.findFirst({
+    where: {
+      serviceType: data.serviceType,
+      destinationId: data.destinationId ?? null,
+      documentType: data.documentType,
+    },
+  });
+
+  if (duplicate) {
+    throw new ApiError(
+      'A checklist rule already exists for this service type, destination and document type',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  const rule = await prisma.documentChecklistRule.create({
+    data: {
+      ...data,
+      destinationId: data.destinationId ?? null,
+      createdById: req.user.userId,
+    },
+  });
+
+  logger.info('Checklist rule created', {
+    ruleId: rule.id,
+    serviceType: rule.serviceType,
+    documentType: rule.documentType,
+    createdBy: req.user.userId,
+  });
+
+  return successResponse({ rule }, 'Checklist rule created successfully', HttpStatus.CREATED);
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
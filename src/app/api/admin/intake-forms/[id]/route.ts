@@ -0,0 +1,87 @@
+// GET /api/admin/intake-forms/[id] - Get one intake form version (ADMIN only)
+// PATCH /api/admin/intake-forms/[id] - Activate or retire an intake form version (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { setIntakeFormActive } from '@/lib/services/intake-form.service';
+
+// Published versions are immutable - changing the questions means publishing a new version
+const updateFormSchema = z.object({
+  isActive: z.boolean(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const getHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+
+  const form = await prisma.intakeFormSchema.findUnique({
+    where: { id },
+    include: {
+      destination: { select: { id: true, name: true, code: true, flagEmoji: true } },
+      _count: { select: { submissions: true } },
+    },
+  });
+
+  if (!form) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  return successResponse({ form }, 'Intake form retrieved successfully');
+});
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+  const body = await request.json();
+
+  const validationResult = updateFormSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const form = await setIntakeFormActive(id, validationResult.data.isActive);
+
+  logger.info('Intake form updated', {
+    formId: id,
+    isActive: form.isActive,
+    updatedBy: req.user.userId,
+  });
+
+  return successResponse({ form }, 'Intake form updated successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
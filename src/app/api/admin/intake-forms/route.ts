@@ -0,0 +1,103 @@
+// GET /api/admin/intake-forms - List intake form versions (ADMIN only)
+// POST /api/admin/intake-forms - Publish a new intake form version (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ServiceType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { intakeFormDefinitionSchema } from '@/lib/utils/intake-form';
+import { publishIntakeForm } from '@/lib/services/intake-form.service';
+
+const publishFormSchema = z.object({
+  serviceType: z.enum(ServiceType),
+  destinationId: z.string().uuid().nullable().optional(),
+  title: z.string().trim().min(1).max(200),
+  definition: intakeFormDefinitionSchema,
+});
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { searchParams } = new URL(request.url);
+  const serviceType = searchParams.get('serviceType');
+  const destinationId = searchParams.get('destinationId');
+  const activeOnly = searchParams.get('active') === 'true';
+
+  if (serviceType && !Object.values(ServiceType).includes(serviceType as ServiceType)) {
+    throw new ApiError('Invalid service type', HttpStatus.BAD_REQUEST);
+  }
+
+  const forms = await prisma.intakeFormSchema.findMany({
+    where: {
+      ...(serviceType && { serviceType: serviceType as ServiceType }),
+      ...(destinationId && { destinationId }),
+      ...(activeOnly && { isActive: true }),
+    },
+    include: {
+      destination: { select: { id: true, name: true, code: true, flagEmoji: true } },
+      _count: { select: { submissions: true } },
+    },
+    orderBy: [{ serviceType: 'asc' }, { destinationId: 'asc' }, { version: 'desc' }],
+  });
+
+  return successResponse({ forms }, 'Intake forms retrieved successfully');
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const body = await request.json();
+  const validationResult = publishFormSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues
+      .map((err) => (err.path.length ? `${err.path.join('.')}: ${err.message}` : err.message))
+      .join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const data = validationResult.data;
+
+  if (data.destinationId) {
+    const destination = await prisma.destination.findUnique({
+      where: { id: data.destinationId },
+      select: { id: true },
+    });
+    if (!destination) {
+      throw new ApiError('Invalid destination', HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  const form = await publishIntakeForm(
+    { ...data, destinationId: data.destinationId ?? null },
+    req.user.userId
+  );
+
+  return successResponse({ form }, 'Intake form published successfully', HttpStatus.CREATED);
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
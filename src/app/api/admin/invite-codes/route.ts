@@ -1,14 +1,18 @@
-// POST /api/admin/invite-codes - Generate invite code (ADMIN only)
-// GET /api/admin/invite-codes - List all invite codes (ADMIN only)
+// POST /api/admin/invite-codes - Generate invite code (invite_code.manage)
+// GET /api/admin/invite-codes - List all invite codes (invite_code.manage)
 
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
+import type { Role } from '@prisma/client';
 import { adminAuth } from '@/lib/firebase/firebase-admin';
 import { logger } from '@/lib/utils/logger';
 import { successResponse, errorResponse } from '@/lib/utils/api-response';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { assertTwoFactorSatisfied } from '@/lib/services/two-factor.service';
+import { trackSession } from '@/lib/services/session.service';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
 
@@ -20,8 +24,8 @@ const createInviteCodeSchema = z.object({
   purpose: z.string().optional(), // Optional purpose for tracking (e.g., 'ADMIN_CREATED', 'SEED')
 });
 
-// Helper to verify admin role
-async function verifyAdminAccess(request: NextRequest): Promise<string> {
+// Helper to verify the caller may manage invite codes
+async function verifyInviteCodeAccess(request: NextRequest): Promise<{ id: string; role: Role }> {
   const authHeader = request.headers.get('authorization');
 
   if (!authHeader?.startsWith('Bearer ')) {
@@ -38,22 +42,26 @@ async function verifyAdminAccess(request: NextRequest): Promise<string> {
   }
   const decodedToken = await adminAuth.verifyIdToken(token);
 
-  // Check if user is admin
   const user = await prisma.user.findUnique({
     where: { id: decodedToken.uid },
     select: { id: true, role: true },
   });
 
-  if (!user || user.role !== 'ADMIN') {
+  if (!user) {
     throw new ApiError('Forbidden: Admin access required', HttpStatus.FORBIDDEN);
   }
 
-  return user.id;
+  await trackSession(user.id, decodedToken.auth_time, request);
+  await assertTwoFactorSatisfied({ userId: user.id, role: user.role }, decodedToken.auth_time);
+  await requirePermission({ userId: user.id, role: user.role }, 'invite_code.manage');
+
+  return user;
 }
 
 // POST - Generate new invite code
 const postHandler = asyncHandler(async (request: NextRequest) => {
-  const adminId = await verifyAdminAccess(request);
+  const admin = await verifyInviteCodeAccess(request);
+  const adminId = admin.id;
   const body = await request.json();
 
   const validationResult = createInviteCodeSchema.safeParse(body);
@@ -63,6 +71,11 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
 
   const { role, expiresInDays, maxUses, purpose } = validationResult.data;
 
+  // Inviting an admin hands out every permission - reserved to administrators themselves
+  if (role === 'ADMIN' && admin.role !== 'ADMIN') {
+    throw new ApiError('Forbidden: Admin access required', HttpStatus.FORBIDDEN);
+  }
+
   // Generate secure random code
   const code = `${role.toLowerCase()}-${nanoid(16)}`;
 
@@ -93,7 +106,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
 
 // GET - List all invite codes with server-side filtering
 const getHandler = asyncHandler(async (request: NextRequest) => {
-  await verifyAdminAccess(request);
+  await verifyInviteCodeAccess(request);
 
   const { searchParams } = new URL(request.url);
 
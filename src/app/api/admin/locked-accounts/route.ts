@@ -0,0 +1,29 @@
+// GET /api/admin/locked-accounts - Accounts locked after repeated failed logins (user.manage)
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { listLockedAccounts } from '@/lib/services/login-security.service';
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'user.manage');
+
+  const accounts = await listLockedAccounts();
+
+  return successResponse({ accounts }, 'Locked accounts retrieved successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,108 @@
+// PATCH /api/admin/roles/[id] - Update a custom role (role.manage)
+// DELETE /api/admin/roles/[id] - Delete a custom role (role.manage)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { clearPermissionCache, requirePermission } from '@/lib/auth/require-permission';
+import { isPermission } from '@/lib/auth/permissions';
+
+// The base role cannot change - users holding the role were given it for that base role
+const updateRoleSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(60).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: z
+    .array(z.string().refine(isPermission, { message: 'Unknown permission' }))
+    .transform((permissions) => Array.from(new Set(permissions)))
+    .optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'role.manage');
+
+  const { id } = await context.params;
+  const body = await request.json();
+
+  const validationResult = updateRoleSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const data = validationResult.data;
+
+  const existing = await prisma.customRole.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (data.name && data.name !== existing.name) {
+    const clash = await prisma.customRole.findUnique({ where: { name: data.name } });
+    if (clash) {
+      throw new ApiError(`A role named "${data.name}" already exists`, HttpStatus.CONFLICT);
+    }
+  }
+
+  const role = await prisma.customRole.update({
+    where: { id },
+    data,
+  });
+
+  // Holders pick up the new permissions on their next request
+  clearPermissionCache();
+
+  logger.info('Custom role updated', { roleId: id, updatedBy: req.user.userId });
+
+  return successResponse({ role }, 'Role updated successfully');
+});
+
+// Users holding the role fall back to the built-in bundle of their base role
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'role.manage');
+
+  const { id } = await context.params;
+
+  const existing = await prisma.customRole.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await prisma.customRole.delete({ where: { id } });
+
+  clearPermissionCache();
+
+  logger.info('Custom role deleted', { roleId: id, deletedBy: req.user.userId });
+
+  return successResponse(null, 'Role deleted successfully');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,99 @@
+// GET /api/admin/roles - List permissions, built-in role bundles and custom roles (role.manage)
+// POST /api/admin/roles - Create a custom role (role.manage)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import {
+  CUSTOM_ROLE_BASE_ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  isPermission,
+} from '@/lib/auth/permissions';
+
+const createRoleSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(60),
+  description: z.string().trim().max(500).nullable().optional(),
+  baseRole: z.enum(['AGENT', 'ADMIN'], { message: 'Custom roles extend AGENT or ADMIN' }),
+  permissions: z
+    .array(z.string().refine(isPermission, { message: 'Unknown permission' }))
+    .transform((permissions) => Array.from(new Set(permissions))),
+});
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'role.manage');
+
+  const roles = await prisma.customRole.findMany({
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { users: true } } },
+  });
+
+  return successResponse(
+    {
+      permissions: PERMISSIONS,
+      builtInRoles: ROLE_PERMISSIONS,
+      baseRoles: CUSTOM_ROLE_BASE_ROLES,
+      roles,
+    },
+    'Roles retrieved successfully'
+  );
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'role.manage');
+
+  const body = await request.json();
+  const validationResult = createRoleSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const data = validationResult.data;
+
+  const existing = await prisma.customRole.findUnique({ where: { name: data.name } });
+  if (existing) {
+    throw new ApiError(`A role named "${data.name}" already exists`, HttpStatus.CONFLICT);
+  }
+
+  const role = await prisma.customRole.create({
+    data: { ...data, createdById: req.user.userId },
+  });
+
+  logger.info('Custom role created', {
+    roleId: role.id,
+    name: role.name,
+    baseRole: role.baseRole,
+    createdBy: req.user.userId,
+  });
+
+  return successResponse({ role }, 'Role created successfully', HttpStatus.CREATED);
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,96 @@
+// PATCH /api/admin/sla-policies/[id] - Update an SLA policy (ADMIN only)
+// DELETE /api/admin/sla-policies/[id] - Delete an SLA policy (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+
+// Status and priority identify a policy and cannot change
+// Updated targets apply from the next evaluator run
+const updatePolicySchema = z.object({
+  targetHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 365)
+    .optional(),
+  businessDaysOnly: z.boolean().optional(),
+  atRiskPercent: z.number().int().min(1).max(99).optional(),
+  isActive: z.boolean().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+  const body = await request.json();
+
+  const validationResult = updatePolicySchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const existing = await prisma.slaPolicy.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const policy = await prisma.slaPolicy.update({
+    where: { id },
+    data: validationResult.data,
+  });
+
+  logger.info('SLA policy updated', { policyId: id, updatedBy: req.user.userId });
+
+  return successResponse({ policy }, 'SLA policy updated successfully');
+});
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+
+  const existing = await prisma.slaPolicy.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await prisma.slaPolicy.delete({ where: { id } });
+
+  logger.info('SLA policy deleted', { policyId: id, deletedBy: req.user.userId });
+
+  return successResponse(null, 'SLA policy deleted successfully');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
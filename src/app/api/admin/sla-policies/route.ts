@@ -0,0 +1,103 @@
+// GET /api/admin/sla-policies - List SLA policies (ADMIN only)
+// POST /api/admin/sla-policies - Create an SLA policy (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { CaseStatus, Priority } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { SLA_EXEMPT_STATUSES } from '@/lib/services/sla-policy.service';
+
+const createPolicySchema = z.object({
+  status: z.enum(CaseStatus).refine((status) => !SLA_EXEMPT_STATUSES.includes(status), {
+    message: 'SLA policies cannot target a final status',
+  }),
+  priority: z.enum(Priority).nullable().optional(),
+  targetHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 365),
+  businessDaysOnly: z.boolean().optional().default(true),
+  atRiskPercent: z.number().int().min(1).max(99).optional().default(75),
+  isActive: z.boolean().optional().default(true),
+});
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const policies = await prisma.slaPolicy.findMany({
+    orderBy: [{ status: 'asc' }, { priority: 'asc' }],
+  });
+
+  return successResponse({ policies }, 'SLA policies retrieved successfully');
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const body = await request.json();
+  const validationResult = createPolicySchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const data = validationResult.data;
+
+  // One policy per status + priority (null priority = catch-all)
+  const duplicate = await prisma.slaPolicy.findFirst({
+    where: { status: data.status, priority: data.priority ?? null },
+  });
+
+  if (duplicate) {
+    throw new ApiError(
+      'An SLA policy already exists for this status and priority',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  const policy = await prisma.slaPolicy.create({
+    data: {
+      ...data,
+      priority: data.priority ?? null,
+      createdById: req.user.userId,
+    },
+  });
+
+  logger.info('SLA policy created', {
+    policyId: policy.id,
+    status: policy.status,
+    priority: policy.priority,
+    createdBy: req.user.userId,
+  });
+
+  return successResponse({ policy }, 'SLA policy created successfully', HttpStatus.CREATED);
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
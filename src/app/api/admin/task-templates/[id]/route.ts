@@ -0,0 +1,92 @@
+// PATCH /api/admin/task-templates/[id] - Update a case task template (ADMIN only)
+// DELETE /api/admin/task-templates/[id] - Delete a case task template (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+
+// Service type and trigger status identify when a template applies and cannot change
+// Changes only affect tasks created afterwards
+const updateTemplateSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  dueInDays: z.number().int().min(0).max(365).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+  const body = await request.json();
+
+  const validationResult = updateTemplateSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const existing = await prisma.caseTaskTemplate.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const template = await prisma.caseTaskTemplate.update({
+    where: { id },
+    data: validationResult.data,
+  });
+
+  logger.info('Case task template updated', { templateId: id, updatedBy: req.user.userId });
+
+  return successResponse({ template }, 'Task template updated successfully');
+});
+
+// Tasks already created from the template are kept
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { id } = await context.params;
+
+  const existing = await prisma.caseTaskTemplate.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await prisma.caseTaskTemplate.delete({ where: { id } });
+
+  logger.info('Case task template deleted', { templateId: id, deletedBy: req.user.userId });
+
+  return successResponse(null, 'Task template deleted successfully');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
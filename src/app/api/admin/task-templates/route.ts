@@ -0,0 +1,89 @@
+// GET /api/admin/task-templates - List case task templates (ADMIN only)
+// POST /api/admin/task-templates - Create a case task template (ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { CaseStatus, ServiceType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+
+const createTemplateSchema = z.object({
+  serviceType: z.enum(ServiceType),
+  // Drafts are not visible to staff - SUBMITTED covers new cases
+  triggerStatus: z.enum(CaseStatus).refine((status) => status !== 'DRAFT', {
+    message: 'Task templates cannot target drafts',
+  }),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(2000).nullable().optional(),
+  dueInDays: z.number().int().min(0).max(365).nullable().optional(),
+  isActive: z.boolean().optional().default(true),
+});
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const { searchParams } = new URL(request.url);
+  const serviceType = searchParams.get('serviceType');
+
+  if (serviceType && !Object.values(ServiceType).includes(serviceType as ServiceType)) {
+    throw new ApiError('Invalid service type', HttpStatus.BAD_REQUEST);
+  }
+
+  const templates = await prisma.caseTaskTemplate.findMany({
+    where: { ...(serviceType && { serviceType: serviceType as ServiceType }) },
+    orderBy: [{ serviceType: 'asc' }, { triggerStatus: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return successResponse({ templates }, 'Task templates retrieved successfully');
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'workflow.configure');
+
+  const body = await request.json();
+  const validationResult = createTemplateSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const template = await prisma.caseTaskTemplate.create({
+    data: { ...validationResult.data, createdById: req.user.userId },
+  });
+
+  logger.info('Case task template created', {
+    templateId: template.id,
+    serviceType: template.serviceType,
+    triggerStatus: template.triggerStatus,
+    createdBy: req.user.userId,
+  });
+
+  return successResponse({ template }, 'Task template created successfully', HttpStatus.CREATED);
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,79 @@
+// GET /api/admin/two-factor-policy - Which staff roles must use two-factor authentication
+// PUT /api/admin/two-factor-policy - Change the requirement per role (security.manage)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import {
+  getTwoFactorPolicy,
+  logTwoFactorEvent,
+  setTwoFactorPolicy,
+} from '@/lib/services/two-factor.service';
+
+const updatePolicySchema = z
+  .object({
+    AGENT: z.boolean().optional(),
+    ADMIN: z.boolean().optional(),
+  })
+  .strict();
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'security.manage');
+
+  const policy = await getTwoFactorPolicy();
+
+  return successResponse({ policy }, 'Two-factor policy retrieved successfully');
+});
+
+const putHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'security.manage');
+
+  const body = await request.json();
+  const validationResult = updatePolicySchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  // Staff of a newly covered role are asked to enroll on their next request
+  const policy = await setTwoFactorPolicy(validationResult.data, req.user.userId);
+
+  await logTwoFactorEvent(
+    request,
+    req.user.userId,
+    'TWO_FACTOR_POLICY_UPDATED',
+    'Updated two-factor requirements',
+    { policy }
+  );
+
+  logger.info('Two-factor policy updated', { policy, updatedBy: req.user.userId });
+
+  return successResponse({ policy }, 'Two-factor policy updated successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PUT = withCorsMiddleware(
+  withRateLimit(authenticateToken(putHandler), RateLimitPresets.STANDARD)
+);
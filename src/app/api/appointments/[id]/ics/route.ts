@@ -0,0 +1,64 @@
+// GET /api/appointments/[id]/ics - Download an appointment as an iCalendar (.ics) file
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  buildAppointmentCalendar,
+  toCalendarAppointment,
+} from '@/lib/services/appointment-calendar.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const appointment = await prisma.appointment.findUnique({
+    where: { id },
+    include: {
+      case: { select: { referenceNumber: true, assignedAgentId: true, coveringAgentId: true } },
+    },
+  });
+
+  if (!appointment) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (req.user.role === 'CLIENT' && appointment.clientId !== req.user.userId) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (
+    req.user.role === 'AGENT' &&
+    appointment.assignedAgentId !== req.user.userId &&
+    !isCaseHandler(appointment.case, req.user.userId)
+  ) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  const content = buildAppointmentCalendar([toCalendarAppointment(appointment)]);
+
+  return new NextResponse(content, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="appointment-${appointment.case.referenceNumber}.ics"`,
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,310 @@
+// PATCH /api/appointments/[id] - Reschedule, cancel or complete an appointment (AGENT/ADMIN only)
+// Every change records a reason and notifies the client
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { AppointmentStatus } from '@prisma/client';
+
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES, NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
+import { sendAppointmentUpdatedEmail } from '@/lib/notifications/email.service';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  assertAgentSlotFree,
+  lockAgentSchedule,
+} from '@/lib/services/appointment-availability.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+
+const reasonSchema = z.string().trim().min(1, 'reason is required').max(1000);
+
+const updateAppointmentSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('reschedule'),
+    scheduledAt: z
+      .string()
+      .min(1, 'scheduledAt is required')
+      .refine((value) => !Number.isNaN(new Date(value).getTime()), {
+        message: 'scheduledAt must be a valid date',
+      }),
+    location: z.string().trim().min(1).max(255).optional(),
+    reason: reasonSchema,
+  }),
+  z.object({
+    action: z.literal('cancel'),
+    reason: reasonSchema,
+  }),
+  z.object({
+    action: z.literal('complete'),
+    reason: z.string().trim().max(1000).optional(),
+  }),
+]);
+
+type UpdateAppointmentAction = z.infer<typeof updateAppointmentSchema>['action'];
+
+const ACTION_STATUS: Record<
+  UpdateAppointmentAction,
+  Extract<AppointmentStatus, 'RESCHEDULED' | 'CANCELLED' | 'COMPLETED'>
+> = {
+  reschedule: 'RESCHEDULED',
+  cancel: 'CANCELLED',
+  complete: 'COMPLETED',
+};
+
+const ACTION_TITLES: Record<UpdateAppointmentAction, string> = {
+  reschedule: 'Appointment Rescheduled',
+  cancel: 'Appointment Cancelled',
+  complete: 'Appointment Completed',
+};
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const userSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+};
+
+const appointmentInclude = {
+  assignedAgent: { select: userSelect },
+  createdBy: { select: userSelect },
+};
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'appointment.manage');
+
+  const body = await request.json();
+  const parsed = updateAppointmentSchema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new ApiError(
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const input = parsed.data;
+
+  const existing = await prisma.appointment.findUnique({
+    where: { id },
+    include: {
+      case: {
+        select: { id: true, referenceNumber: true, assignedAgentId: true, coveringAgentId: true },
+      },
+      client: {
+        select: { id: true, email: true, firstName: true, lastName: true },
+      },
+    },
+  });
+
+  if (!existing) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (
+    req.user.role === 'AGENT' &&
+    existing.assignedAgentId !== req.user.userId &&
+    !isCaseHandler(existing.case, req.user.userId)
+  ) {
+    throw new ApiError(
+      'Only the assigned agent or an administrator can update this appointment',
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  if (!ACTIVE_APPOINTMENT_STATUSES.includes(existing.status)) {
+    throw new ApiError(
+      `Cannot update an appointment with status '${existing.status}'`,
+      HttpStatus.CONFLICT
+    );
+  }
+
+  const status = ACTION_STATUS[input.action];
+  const data: {
+    status: AppointmentStatus;
+    statusReason: string | null;
+    statusChangedAt: Date;
+    scheduledAt?: Date;
+    location?: string;
+    reminderSentAt?: null;
+    sequence?: { increment: number };
+  } = {
+    status,
+    statusReason: input.reason && input.reason.length > 0 ? input.reason : null,
+    statusChangedAt: new Date(),
+  };
+
+  // Calendar apps only apply an update whose SEQUENCE is higher than the one they hold
+  if (input.action !== 'complete') {
+    data.sequence = { increment: 1 };
+  }
+
+  const scheduledDate = input.action === 'reschedule' ? new Date(input.scheduledAt) : null;
+
+  if (input.action === 'reschedule' && scheduledDate) {
+    if (scheduledDate.getTime() <= Date.now()) {
+      throw new ApiError('Appointment must be scheduled in the future', HttpStatus.BAD_REQUEST);
+    }
+
+    data.scheduledAt = scheduledDate;
+    data.location = input.location ?? existing.location;
+    // The new slot gets its own 24h / 1h reminders
+    data.reminderSentAt = null;
+  }
+
+  const agentId = existing.assignedAgentId;
+  const updated = await prisma.$transaction(async (tx) => {
+    // Reject double-booking the agent on the new slot
+    if (scheduledDate && agentId) {
+      await lockAgentSchedule(tx, agentId);
+      await assertAgentSlotFree(tx, agentId, scheduledDate, { excludeAppointmentId: id });
+    }
+
+    // Guard on the current status so two concurrent updates cannot both apply
+    return tx.appointment.updateMany({
+      where: { id, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+      data,
+    });
+  });
+
+  if (updated.count === 0) {
+    throw new ApiError('Appointment was updated by someone else', HttpStatus.CONFLICT);
+  }
+
+  const appointment = await prisma.appointment.findUniqueOrThrow({
+    where: { id },
+    include: appointmentInclude,
+  });
+
+  const appointmentActionUrl = NOTIFICATION_ACTION_URLS.APPOINTMENT_DETAILS(
+    existing.caseId,
+    appointment.id
+  );
+  const title = ACTION_TITLES[input.action];
+  const timeLabel = formatDateTime(appointment.scheduledAt);
+  const reasonSuffix = appointment.statusReason ? ` Reason: ${appointment.statusReason}` : '';
+  const message =
+    input.action === 'reschedule'
+      ? `Your appointment for case ${existing.case.referenceNumber} has been moved to ${timeLabel} at ${appointment.location}.${reasonSuffix}`
+      : input.action === 'cancel'
+        ? `Your appointment for case ${existing.case.referenceNumber} on ${timeLabel} has been cancelled.${reasonSuffix}`
+        : `Your appointment for case ${existing.case.referenceNumber} on ${timeLabel} has been completed.`;
+
+  const notification = await prisma.notification.create({
+    data: {
+      userId: existing.clientId,
+      caseId: existing.caseId,
+      appointmentId: appointment.id,
+      type: 'APPOINTMENT_UPDATED',
+      title,
+      message,
+      actionUrl: appointmentActionUrl,
+    },
+  });
+
+  const clientName =
+    `${existing.client.firstName ?? ''} ${existing.client.lastName ?? ''}`.trim() ||
+    existing.client.email ||
+    'Client';
+
+  Promise.allSettled([
+    (async () => {
+      try {
+        await createRealtimeNotification(existing.clientId, {
+          type: 'APPOINTMENT_UPDATED',
+          title,
+          message,
+          actionUrl: appointmentActionUrl,
+        });
+      } catch (error) {
+        logger.warn('Failed to create realtime notification for appointment update', {
+          error,
+          appointmentId: appointment.id,
+        });
+      }
+    })(),
+    (async () => {
+      try {
+        await sendPushNotificationToUser(existing.clientId, {
+          title,
+          body: message,
+          data: {
+            type: 'APPOINTMENT_UPDATED',
+            appointmentId: appointment.id,
+            caseId: existing.caseId,
+            notificationId: notification.id,
+            actionUrl: appointmentActionUrl,
+            screen: 'cases',
+            params: { caseId: existing.caseId, appointmentId: appointment.id },
+          },
+          channelId: 'cases',
+        });
+      } catch (error) {
+        logger.warn('Failed to send push notification for appointment update', {
+          error,
+          appointmentId: appointment.id,
+        });
+      }
+    })(),
+    (async () => {
+      try {
+        if (existing.client.email) {
+          await sendAppointmentUpdatedEmail({
+            to: existing.client.email,
+            clientName,
+            caseReference: existing.case.referenceNumber,
+            caseId: existing.caseId,
+            appointmentId: appointment.id,
+            status,
+            scheduledAt: appointment.scheduledAt.toISOString(),
+            previousScheduledAt:
+              input.action === 'reschedule' ? existing.scheduledAt.toISOString() : undefined,
+            location: appointment.location,
+            reason: appointment.statusReason ?? undefined,
+            sequence: appointment.sequence,
+          });
+        }
+      } catch (error) {
+        logger.warn('Failed to send appointment update email', {
+          error,
+          appointmentId: appointment.id,
+        });
+      }
+    })(),
+  ]).catch((error) => {
+    logger.error('Unhandled error while dispatching appointment update notifications', error);
+  });
+
+  logger.info('Appointment updated', {
+    appointmentId: appointment.id,
+    action: input.action,
+    status,
+    updatedBy: req.user.userId,
+  });
+
+  return successResponse({ appointment }, 'Appointment updated successfully');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,51 @@
+// GET /api/appointments/feed/[token].ics - Subscribable iCalendar feed of a user's upcoming appointments
+// Authenticated by the secret token in the URL, since calendar apps cannot send bearer tokens
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { prisma } from '@/lib/db/prisma';
+import {
+  buildAppointmentCalendar,
+  getFeedAppointments,
+  resolveCalendarFeedToken,
+} from '@/lib/services/appointment-calendar.service';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const handler = asyncHandler(async (_request: NextRequest, context: RouteContext) => {
+  const { token } = await context.params;
+
+  const feedToken = await resolveCalendarFeedToken(token.replace(/\.ics$/, ''));
+
+  if (!feedToken) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const appointments = await getFeedAppointments(feedToken.user);
+
+  prisma.calendarFeedToken
+    .update({ where: { id: feedToken.id }, data: { lastUsedAt: new Date() } })
+    .catch((error) => {
+      logger.warn('Failed to record calendar feed access', { error, feedTokenId: feedToken.id });
+    });
+
+  const content = buildAppointmentCalendar(appointments, {
+    name: 'Patrick Travel Services - Appointments',
+  });
+
+  return new NextResponse(content, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="appointments.ics"',
+      'Cache-Control': 'private, no-cache',
+    },
+  });
+});
+
+export const GET = withCorsMiddleware(withRateLimit(handler, RateLimitPresets.STANDARD));
@@ -0,0 +1,88 @@
+// GET /api/appointments/feed - Status of the current user's calendar feed
+// POST /api/appointments/feed - Issue a new feed URL (revokes the previous one)
+// DELETE /api/appointments/feed - Revoke the feed URL
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  revokeCalendarFeedTokens,
+  rotateCalendarFeedToken,
+} from '@/lib/services/appointment-calendar.service';
+
+// GET /api/appointments/feed
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  // The URL itself cannot be shown again - only its hash is stored
+  const feedToken = await prisma.calendarFeedToken.findFirst({
+    where: { userId: req.user.userId, revokedAt: null },
+    select: { createdAt: true, lastUsedAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return successResponse(
+    {
+      active: Boolean(feedToken),
+      createdAt: feedToken?.createdAt ?? null,
+      lastUsedAt: feedToken?.lastUsedAt ?? null,
+    },
+    'Calendar feed retrieved successfully'
+  );
+});
+
+// POST /api/appointments/feed
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const feed = await rotateCalendarFeedToken(req.user.userId);
+
+  logger.info('Calendar feed token issued', { userId: req.user.userId });
+
+  return successResponse(
+    { url: feed.url, createdAt: feed.createdAt },
+    'Calendar feed created successfully',
+    HttpStatus.CREATED
+  );
+});
+
+// DELETE /api/appointments/feed
+const deleteHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const revoked = await revokeCalendarFeedTokens(req.user.userId);
+
+  logger.info('Calendar feed token revoked', { userId: req.user.userId, revoked });
+
+  return successResponse(null, 'Calendar feed revoked successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STRICT)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
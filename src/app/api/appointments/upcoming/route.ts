@@ -31,7 +31,11 @@ const handler = asyncHandler(async (request: NextRequest) => {
         }
       : role === 'AGENT'
         ? {
-            assignedAgentId: req.user.userId,
+            // Shadowing delegates also see the appointments of the cases they cover
+            OR: [
+              { assignedAgentId: req.user.userId },
+              { case: { coveringAgentId: req.user.userId } },
+            ],
             scheduledAt: { gte: edgeBuffer },
             status: { in: activeStatuses },
           }
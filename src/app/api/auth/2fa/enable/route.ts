@@ -0,0 +1,65 @@
+// POST /api/auth/2fa/enable - Confirm enrollment with a first code
+// Returns the recovery codes - they are only shown this once
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  confirmTwoFactorEnrollment,
+  consumeTwoFactorAttempt,
+  logTwoFactorEvent,
+} from '@/lib/services/two-factor.service';
+
+const enableSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(20),
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user || !req.firebaseToken) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const body = await request.json();
+  const validationResult = enableSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const refundAttempt = await consumeTwoFactorAttempt(req.user.userId);
+
+  const recoveryCodes = await confirmTwoFactorEnrollment(
+    req.user.userId,
+    validationResult.data.code,
+    req.firebaseToken.auth_time
+  );
+
+  // Valid codes do not count towards the limit
+  await refundAttempt();
+
+  await logTwoFactorEvent(
+    request,
+    req.user.userId,
+    'TWO_FACTOR_ENABLED',
+    'Turned on two-factor authentication'
+  );
+
+  logger.info('Two-factor authentication enabled', { userId: req.user.userId });
+
+  return successResponse({ recoveryCodes }, 'Two-factor authentication turned on');
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(
+    authenticateToken(postHandler, { allowPendingTwoFactor: true }),
+    RateLimitPresets.AUTH
+  )
+);
@@ -0,0 +1,43 @@
+// POST /api/auth/2fa/recovery-codes - Replace the recovery codes (needs a fresh code)
+// Previous codes stop working; the new ones are only shown this once
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  logTwoFactorEvent,
+  regenerateRecoveryCodes,
+  requireRecentTwoFactor,
+} from '@/lib/services/two-factor.service';
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requireRecentTwoFactor(req.user, req.firebaseToken?.auth_time);
+
+  const recoveryCodes = await regenerateRecoveryCodes(req.user.userId);
+
+  await logTwoFactorEvent(
+    request,
+    req.user.userId,
+    'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+    'Generated new two-factor recovery codes'
+  );
+
+  logger.info('Two-factor recovery codes regenerated', { userId: req.user.userId });
+
+  return successResponse({ recoveryCodes }, 'New recovery codes generated');
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STRICT)
+);
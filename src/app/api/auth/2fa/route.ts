@@ -0,0 +1,82 @@
+// GET /api/auth/2fa - Two-factor status of the current user and sign-in
+// DELETE /api/auth/2fa - Turn off two-factor authentication (needs a fresh code)
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  getTwoFactorStatus,
+  logTwoFactorEvent,
+  removeTwoFactor,
+  requireRecentTwoFactor,
+} from '@/lib/services/two-factor.service';
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user || !req.firebaseToken) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const [status, user] = await Promise.all([
+    getTwoFactorStatus(req.user, req.firebaseToken.auth_time),
+    prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { twoFactorEnabledAt: true, recoveryCodeHashes: true },
+    }),
+  ]);
+
+  return successResponse(
+    {
+      ...status,
+      enabledAt: user?.twoFactorEnabledAt ?? null,
+      recoveryCodesLeft: user?.recoveryCodeHashes.length ?? 0,
+    },
+    'Two-factor status retrieved successfully'
+  );
+});
+
+const deleteHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user || !req.firebaseToken) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const status = await getTwoFactorStatus(req.user, req.firebaseToken.auth_time);
+  if (status.required) {
+    throw new ApiError(
+      'Two-factor authentication is required for your role and cannot be turned off',
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  await requireRecentTwoFactor(req.user, req.firebaseToken.auth_time);
+
+  await removeTwoFactor(req.user.userId);
+
+  await logTwoFactorEvent(
+    request,
+    req.user.userId,
+    'TWO_FACTOR_DISABLED',
+    'Turned off two-factor authentication'
+  );
+
+  return successResponse(null, 'Two-factor authentication turned off');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(
+    authenticateToken(getHandler, { allowPendingTwoFactor: true }),
+    RateLimitPresets.STANDARD
+  )
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STRICT)
+);
@@ -0,0 +1,41 @@
+// POST /api/auth/2fa/setup - Start two-factor enrollment (staff only)
+// Returns the secret for the authenticator app; nothing is enforced until it is confirmed
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { beginTwoFactorEnrollment, isTwoFactorRole } from '@/lib/services/two-factor.service';
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  if (!isTwoFactorRole(req.user.role)) {
+    throw new ApiError(
+      'Two-factor authentication is available for staff accounts',
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  const enrollment = await beginTwoFactorEnrollment(req.user.userId);
+
+  logger.info('Two-factor enrollment started', { userId: req.user.userId });
+
+  return successResponse(enrollment, 'Scan the code with your authenticator app');
+});
+
+// Reachable before the second factor so staff required to use 2FA can set it up
+export const POST = withCorsMiddleware(
+  withRateLimit(
+    authenticateToken(postHandler, { allowPendingTwoFactor: true }),
+    RateLimitPresets.AUTH
+  )
+);
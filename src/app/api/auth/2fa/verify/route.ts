@@ -0,0 +1,78 @@
+// POST /api/auth/2fa/verify - Enter an authenticator or recovery code
+// Completes the sign-in challenge and refreshes step-up for sensitive actions
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  consumeTwoFactorAttempt,
+  logTwoFactorEvent,
+  verifySecondFactor,
+} from '@/lib/services/two-factor.service';
+
+const verifySchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(20),
+});
+
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user || !req.firebaseToken) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const body = await request.json();
+  const validationResult = verifySchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const refundAttempt = await consumeTwoFactorAttempt(req.user.userId);
+
+  const result = await verifySecondFactor(
+    req.user.userId,
+    validationResult.data.code,
+    req.firebaseToken.auth_time
+  );
+
+  if (!result) {
+    await logTwoFactorEvent(
+      request,
+      req.user.userId,
+      'TWO_FACTOR_FAILED',
+      'Entered an invalid two-factor code'
+    );
+    throw new ApiError('Invalid authentication code', HttpStatus.BAD_REQUEST);
+  }
+
+  // Valid codes do not count towards the limit
+  await refundAttempt();
+
+  await logTwoFactorEvent(
+    request,
+    req.user.userId,
+    result.method === 'recovery_code' ? 'TWO_FACTOR_RECOVERY_CODE_USED' : 'TWO_FACTOR_VERIFIED',
+    result.method === 'recovery_code'
+      ? `Signed in with a recovery code (${result.recoveryCodesLeft} left)`
+      : 'Verified two-factor code',
+    { method: result.method, recoveryCodesLeft: result.recoveryCodesLeft }
+  );
+
+  logger.info('Two-factor code verified', { userId: req.user.userId, method: result.method });
+
+  return successResponse(result, 'Code verified');
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(
+    authenticateToken(postHandler, { allowPendingTwoFactor: true }),
+    RateLimitPresets.AUTH
+  )
+);
@@ -14,6 +14,10 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import { setCustomClaimsWithRetry, rollbackUserCreation } from '@/lib/utils/firebase-claims';
 import { createSafeLogIdentifier, hashPII } from '@/lib/utils/pii-hash';
 import { normalizeEmail } from '@/lib/utils/email';
+import {
+  assertAccountNotLocked,
+  recordSuccessfulLogin,
+} from '@/lib/services/login-security.service';
 
 const handler = asyncHandler(async (request: NextRequest) => {
   // Check if Firebase Admin is initialized
@@ -139,6 +143,9 @@ const handler = asyncHandler(async (request: NextRequest) => {
   }
 
   if (user) {
+    // Google sign-in does not bypass a password lockout
+    await assertAccountNotLocked(user.id);
+
     // Update last login
     user = await prisma.user.update({
       where: { firebaseId: firebaseUid },
@@ -186,6 +193,8 @@ const handler = asyncHandler(async (request: NextRequest) => {
       // Continue with login - this isn't critical enough to block the user
     }
 
+    await recordSuccessfulLogin(user, request);
+
     logger.info('User logged in with Google', { userId: user.id });
     return successResponse({ user }, 'Login successful');
   }
@@ -0,0 +1,38 @@
+// POST /api/auth/login/password - Email and password sign-in
+// The server checks the password with Firebase so every failed attempt counts towards the
+// account lockout; the client signs in to Firebase with the returned custom token
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { signInWithPassword } from '@/lib/services/login-security.service';
+
+const passwordLoginSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required').max(4096),
+});
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+  const validation = passwordLoginSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ApiError(
+      validation.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const customToken = await signInWithPassword(
+    validation.data.email,
+    validation.data.password,
+    request
+  );
+
+  return successResponse({ customToken }, 'Password verified');
+});
+
+export const POST = withCorsMiddleware(withRateLimit(handler, RateLimitPresets.AUTH));
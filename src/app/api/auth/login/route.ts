@@ -15,6 +15,11 @@ import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { createSafeLogIdentifier } from '@/lib/utils/pii-hash';
 import { setCustomClaimsWithRetry } from '@/lib/utils/firebase-claims';
 import { normalizeEmail } from '@/lib/utils/email';
+import { getTwoFactorStatus } from '@/lib/services/two-factor.service';
+import {
+  assertAccountNotLocked,
+  recordSuccessfulLogin,
+} from '@/lib/services/login-security.service';
 
 const handler = asyncHandler(async (request: NextRequest) => {
   // Check if Firebase Admin is initialized
@@ -221,6 +226,9 @@ const handler = asyncHandler(async (request: NextRequest) => {
     throw new ApiError(ERROR_MESSAGES.ACCOUNT_INACTIVE, HttpStatus.FORBIDDEN);
   }
 
+  // The token may have been minted before the account was locked
+  await assertAccountNotLocked(user.id);
+
   // Update last login
   await prisma.user.update({
     where: { firebaseId: firebaseUid },
@@ -252,6 +260,15 @@ const handler = asyncHandler(async (request: NextRequest) => {
     // Continue with login - this isn't critical enough to block the user
   }
 
+  // Staff may still have to enter (or set up) their second factor before using the API
+  const twoFactor = await getTwoFactorStatus(
+    { userId: user.id, role: user.role },
+    decodedToken.auth_time
+  );
+
+  // Clears failed attempts and alerts the user about new devices or countries
+  await recordSuccessfulLogin(user, request);
+
   // Log with hashed identifiers to prevent PII leakage
   logger.info('User logged in successfully', createSafeLogIdentifier(user.id, user.email));
 
@@ -260,6 +277,7 @@ const handler = asyncHandler(async (request: NextRequest) => {
       user: {
         ...user,
         lastLogin: new Date(),
+        twoFactor,
       },
     },
     SUCCESS_MESSAGES.LOGIN_SUCCESS
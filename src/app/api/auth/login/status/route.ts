@@ -0,0 +1,32 @@
+// POST /api/auth/login/status - Lock state of an account, checked before signing in
+// Public - unknown emails read as unlocked so the endpoint does not reveal accounts
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { getLoginLockState } from '@/lib/services/login-security.service';
+
+const loginStatusSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+  const validation = loginStatusSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ApiError(
+      validation.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const state = await getLoginLockState(validation.data.email);
+
+  return successResponse(state, 'Login status retrieved');
+});
+
+export const POST = withCorsMiddleware(withRateLimit(handler, RateLimitPresets.AUTH));
@@ -4,7 +4,7 @@ import { NextResponse } from 'next/server';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
 import { SUCCESS_MESSAGES, ERROR_MESSAGES } from '@/lib/constants';
 import { logger } from '@/lib/utils/logger';
-import { adminAuth } from '@/lib/firebase/firebase-admin';
+import { revokeCurrentSession } from '@/lib/services/session.service';
 
 async function handler(request: AuthenticatedRequest) {
   try {
@@ -13,13 +13,14 @@ async function handler(request: AuthenticatedRequest) {
     if (userId) {
       logger.info('User logged out', { userId });
 
-      // Optionally revoke refresh tokens for added security
-      if (adminAuth) {
+      // Ends this device's sign-in only - other devices stay signed in
+      // (DELETE /api/users/sessions signs out everywhere)
+      if (request.firebaseToken) {
         try {
-          await adminAuth.revokeRefreshTokens(userId);
+          await revokeCurrentSession(userId, request.firebaseToken.auth_time);
         } catch (error) {
           // Log but don't fail the logout
-          logger.warn('Failed to revoke refresh tokens', {
+          logger.warn('Failed to revoke session', {
             userId,
             error: error instanceof Error ? error.message : String(error),
           });
@@ -47,4 +48,4 @@ async function handler(request: AuthenticatedRequest) {
   }
 }
 
-export const POST = authenticateToken(handler);
+export const POST = authenticateToken(handler, { allowPendingTwoFactor: true });
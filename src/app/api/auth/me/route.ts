@@ -3,6 +3,8 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getUserPermissions } from '@/lib/auth/require-permission';
+import { getTwoFactorStatus } from '@/lib/services/two-factor.service';
 import { ERROR_MESSAGES } from '@/lib/constants';
 import { logger } from '@/lib/utils/logger';
 
@@ -39,6 +41,7 @@ async function handler(request: AuthenticatedRequest) {
         city: true,
         country: true,
         role: true,
+        customRole: { select: { id: true, name: true } },
         profilePicture: true,
         isActive: true,
         isVerified: true,
@@ -89,6 +92,7 @@ async function handler(request: AuthenticatedRequest) {
           city: true,
           country: true,
           role: true,
+          customRole: { select: { id: true, name: true } },
           profilePicture: true,
           isActive: true,
           isVerified: true,
@@ -112,12 +116,23 @@ async function handler(request: AuthenticatedRequest) {
       });
     }
 
+    // Resolved here so the dashboard can build its navigation from the same source as the API
+    const permissions = await getUserPermissions({ userId: user.id, role: user.role });
+
+    // Tells the dashboard whether this sign-in still has to enter (or set up) a second factor
+    const twoFactor = request.firebaseToken
+      ? await getTwoFactorStatus(
+          { userId: user.id, role: user.role },
+          request.firebaseToken.auth_time
+        )
+      : undefined;
+
     logger.debug('User info retrieved', { userId: user.id });
 
     return NextResponse.json(
       {
         success: true,
-        data: user,
+        data: { ...user, permissions, twoFactor },
       },
       { status: 200 }
     );
@@ -134,4 +149,5 @@ async function handler(request: AuthenticatedRequest) {
   }
 }
 
-export const GET = authenticateToken(handler);
+// Reachable before the second factor - the dashboard needs the user to show the challenge
+export const GET = authenticateToken(handler, { allowPendingTwoFactor: true });
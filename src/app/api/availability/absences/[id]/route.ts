@@ -0,0 +1,59 @@
+// DELETE /api/availability/absences/[id] - Cancel an upcoming absence or end an ongoing one early
+// Covered cases are handed back to the agent straight away
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { resolveCalendarOwner } from '@/lib/services/appointment-availability.service';
+import { endAbsenceCoverage } from '@/lib/services/agent-absence.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const absence = await prisma.agentAbsence.findUnique({ where: { id } });
+
+  if (!absence) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await resolveCalendarOwner(req.user, absence.agentId);
+
+  if (absence.status !== 'SCHEDULED' && absence.status !== 'ACTIVE') {
+    throw new ApiError('This absence is already over', HttpStatus.BAD_REQUEST);
+  }
+
+  const status = absence.status === 'ACTIVE' ? 'COMPLETED' : 'CANCELLED';
+  const returnedCases = await endAbsenceCoverage(id, status, req.user.userId);
+
+  logger.info('Agent absence ended early', {
+    absenceId: id,
+    agentId: absence.agentId,
+    status,
+    returnedCases,
+    endedBy: req.user.userId,
+  });
+
+  return successResponse(
+    { status, returnedCases },
+    status === 'CANCELLED' ? 'Absence cancelled successfully' : 'Absence ended successfully'
+  );
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
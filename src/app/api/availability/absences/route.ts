@@ -0,0 +1,150 @@
+// GET /api/availability/absences - Current and upcoming absences of an agent
+// POST /api/availability/absences - Declare an absence and the delegate covering it
+// Cases are handed over when the absence starts and handed back when it ends (agent coverage cron)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { CoverageMode } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { resolveCalendarOwner } from '@/lib/services/appointment-availability.service';
+import { startAbsenceCoverage } from '@/lib/services/agent-absence.service';
+
+const createAbsenceSchema = z
+  .object({
+    agentId: z.string().uuid().optional(),
+    delegateId: z.string().uuid({ message: 'delegateId must be a valid user ID' }),
+    startsAt: z.coerce.date({ message: 'startsAt must be a valid date' }),
+    endsAt: z.coerce.date({ message: 'endsAt must be a valid date' }),
+    mode: z.enum(CoverageMode).optional().default(CoverageMode.TRANSFER),
+    notifyClient: z.boolean().optional().default(true),
+    handoverNotes: z.string().trim().max(2000).optional(),
+  })
+  .refine((absence) => absence.startsAt < absence.endsAt, {
+    message: 'startsAt must be before endsAt',
+  })
+  .refine((absence) => absence.endsAt > new Date(), {
+    message: 'endsAt must be in the future',
+  });
+
+const personSelect = { id: true, firstName: true, lastName: true, email: true };
+
+// GET /api/availability/absences
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const agentId = await resolveCalendarOwner(req.user, searchParams.get('agentId'));
+
+  const absences = await prisma.agentAbsence.findMany({
+    where: { agentId, status: { in: ['SCHEDULED', 'ACTIVE'] } },
+    include: { delegate: { select: personSelect }, _count: { select: { coverages: true } } },
+    orderBy: { startsAt: 'asc' },
+  });
+
+  return successResponse({ agentId, absences }, 'Absences retrieved successfully');
+});
+
+// POST /api/availability/absences
+const postHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const body = await request.json();
+  const parsed = createAbsenceSchema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new ApiError(
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const agentId = await resolveCalendarOwner(req.user, parsed.data.agentId);
+  const { delegateId, startsAt, endsAt, mode, notifyClient, handoverNotes } = parsed.data;
+
+  if (delegateId === agentId) {
+    throw new ApiError('An agent cannot delegate to themselves', HttpStatus.BAD_REQUEST);
+  }
+
+  // Cases may only be assigned to active agents
+  const delegate = await prisma.user.findUnique({
+    where: { id: delegateId },
+    select: { role: true, isActive: true },
+  });
+
+  if (!delegate || delegate.role !== 'AGENT' || !delegate.isActive) {
+    throw new ApiError('Delegate must be an active agent', HttpStatus.BAD_REQUEST);
+  }
+
+  const overlapping = await prisma.agentAbsence.findFirst({
+    where: {
+      agentId,
+      status: { in: ['SCHEDULED', 'ACTIVE'] },
+      startsAt: { lt: endsAt },
+      endsAt: { gt: startsAt },
+    },
+    select: { id: true },
+  });
+
+  if (overlapping) {
+    throw new ApiError('This absence overlaps an existing one', HttpStatus.CONFLICT);
+  }
+
+  const absence = await prisma.agentAbsence.create({
+    data: {
+      agentId,
+      delegateId,
+      startsAt,
+      endsAt,
+      mode,
+      notifyClient,
+      handoverNotes: handoverNotes && handoverNotes.length > 0 ? handoverNotes : null,
+      createdById: req.user.userId,
+    },
+  });
+
+  // Absences that already started are covered right away instead of waiting for the cron
+  const coveredCases = startsAt <= new Date() ? await startAbsenceCoverage(absence.id) : 0;
+
+  logger.info('Agent absence created', {
+    absenceId: absence.id,
+    agentId,
+    delegateId,
+    mode,
+    coveredCases,
+    createdBy: req.user.userId,
+  });
+
+  const saved = await prisma.agentAbsence.findUnique({
+    where: { id: absence.id },
+    include: { delegate: { select: personSelect } },
+  });
+
+  return successResponse(
+    { absence: saved, coveredCases },
+    SUCCESS_MESSAGES.CREATED,
+    HttpStatus.CREATED
+  );
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,105 @@
+// GET /api/availability/assignment - How an agent takes part in automatic case assignment
+// PUT /api/availability/assignment - Update opt-out, out-of-office and specializations
+// Agents manage their own profile; admins may pass ?agentId= / agentId
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ServiceType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { resolveCalendarOwner } from '@/lib/services/appointment-availability.service';
+
+const updateProfileSchema = z.object({
+  agentId: z.string().uuid().optional(),
+  autoAssignOptOut: z.boolean().optional(),
+  isOutOfOffice: z.boolean().optional(),
+  serviceTypes: z.array(z.enum(ServiceType)).max(Object.keys(ServiceType).length).optional(),
+  destinationIds: z.array(z.string().uuid()).max(100).optional(),
+});
+
+const defaultProfile = {
+  autoAssignOptOut: false,
+  isOutOfOffice: false,
+  serviceTypes: [] as ServiceType[],
+  destinationIds: [] as string[],
+};
+
+// GET /api/availability/assignment
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const agentId = await resolveCalendarOwner(req.user, searchParams.get('agentId'));
+
+  const profile = await prisma.agentAssignmentProfile.findUnique({ where: { agentId } });
+
+  return successResponse(
+    { profile: profile ?? { agentId, ...defaultProfile } },
+    'Assignment profile retrieved successfully'
+  );
+});
+
+// PUT /api/availability/assignment
+const putHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const body = await request.json();
+  const parsed = updateProfileSchema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new ApiError(
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const { agentId: requestedAgentId, ...data } = parsed.data;
+  const agentId = await resolveCalendarOwner(req.user, requestedAgentId);
+
+  if (data.destinationIds?.length) {
+    const destinations = await prisma.destination.count({
+      where: { id: { in: data.destinationIds } },
+    });
+
+    if (destinations !== new Set(data.destinationIds).size) {
+      throw new ApiError('Invalid destination', HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  const profile = await prisma.agentAssignmentProfile.upsert({
+    where: { agentId },
+    create: { ...defaultProfile, ...data, agentId },
+    update: data,
+  });
+
+  logger.info('Agent assignment profile updated', {
+    agentId,
+    autoAssignOptOut: profile.autoAssignOptOut,
+    isOutOfOffice: profile.isOutOfOffice,
+    updatedBy: req.user.userId,
+  });
+
+  return successResponse({ profile }, 'Assignment profile updated successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PUT = withCorsMiddleware(
+  withRateLimit(authenticateToken(putHandler), RateLimitPresets.STANDARD)
+);
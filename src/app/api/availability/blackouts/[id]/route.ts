@@ -0,0 +1,47 @@
+// DELETE /api/availability/blackouts/[id] - Remove a blackout period
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { resolveCalendarOwner } from '@/lib/services/appointment-availability.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const blackout = await prisma.agentBlackout.findUnique({ where: { id } });
+
+  if (!blackout) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await resolveCalendarOwner(req.user, blackout.agentId);
+
+  await prisma.agentBlackout.delete({ where: { id } });
+
+  logger.info('Agent blackout deleted', {
+    blackoutId: id,
+    agentId: blackout.agentId,
+    deletedBy: req.user.userId,
+  });
+
+  return successResponse(null, SUCCESS_MESSAGES.DELETED);
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,84 @@
+// POST /api/availability/blackouts - Block a period in an agent's calendar
+// Existing appointments inside the period are not cancelled automatically
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  resolveCalendarOwner,
+} from '@/lib/services/appointment-availability.service';
+
+const createBlackoutSchema = z
+  .object({
+    agentId: z.string().uuid().optional(),
+    startsAt: z.coerce.date({ message: 'startsAt must be a valid date' }),
+    endsAt: z.coerce.date({ message: 'endsAt must be a valid date' }),
+    reason: z.string().trim().max(255).optional(),
+  })
+  .refine((blackout) => blackout.startsAt < blackout.endsAt, {
+    message: 'startsAt must be before endsAt',
+  });
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const body = await request.json();
+  const parsed = createBlackoutSchema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new ApiError(
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const agentId = await resolveCalendarOwner(req.user, parsed.data.agentId);
+  const { startsAt, endsAt, reason } = parsed.data;
+
+  const blackout = await prisma.agentBlackout.create({
+    data: {
+      agentId,
+      startsAt,
+      endsAt,
+      reason: reason && reason.length > 0 ? reason : null,
+    },
+  });
+
+  // Surface appointments that now fall inside the blackout so they can be rescheduled
+  const affectedAppointments = await prisma.appointment.count({
+    where: {
+      assignedAgentId: agentId,
+      status: { in: ACTIVE_APPOINTMENT_STATUSES },
+      scheduledAt: { gte: startsAt, lt: endsAt },
+    },
+  });
+
+  logger.info('Agent blackout created', {
+    blackoutId: blackout.id,
+    agentId,
+    affectedAppointments,
+    createdBy: req.user.userId,
+  });
+
+  return successResponse(
+    { blackout, affectedAppointments },
+    SUCCESS_MESSAGES.CREATED,
+    HttpStatus.CREATED
+  );
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,113 @@
+// GET /api/availability - Weekly availability windows and upcoming blackouts of an agent
+// PUT /api/availability - Replace the agent's weekly availability windows
+// Agents manage their own calendar; admins may pass ?agentId= / agentId
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  TIME_OF_DAY_PATTERN,
+  isValidTimeZone,
+  parseTimeOfDay,
+  resolveCalendarOwner,
+} from '@/lib/services/appointment-availability.service';
+
+const windowSchema = z
+  .object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: z.string().regex(TIME_OF_DAY_PATTERN, 'startTime must use HH:mm'),
+    endTime: z.string().regex(TIME_OF_DAY_PATTERN, 'endTime must use HH:mm'),
+    location: z.string().trim().min(1, 'location is required').max(255),
+  })
+  .refine((window) => parseTimeOfDay(window.startTime) < parseTimeOfDay(window.endTime), {
+    message: 'startTime must be before endTime',
+  });
+
+const updateAvailabilitySchema = z.object({
+  agentId: z.string().uuid().optional(),
+  timezone: z.string().refine(isValidTimeZone, { message: 'timezone must be a valid time zone' }),
+  windows: z.array(windowSchema).max(50),
+});
+
+// GET /api/availability
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const agentId = await resolveCalendarOwner(req.user, searchParams.get('agentId'));
+
+  const [windows, blackouts] = await Promise.all([
+    prisma.agentAvailability.findMany({
+      where: { agentId },
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+    }),
+    prisma.agentBlackout.findMany({
+      where: { agentId, endsAt: { gt: new Date() } },
+      orderBy: { startsAt: 'asc' },
+    }),
+  ]);
+
+  return successResponse({ agentId, windows, blackouts }, 'Availability retrieved successfully');
+});
+
+// PUT /api/availability
+const putHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const body = await request.json();
+  const parsed = updateAvailabilitySchema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new ApiError(
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const { timezone, windows } = parsed.data;
+  const agentId = await resolveCalendarOwner(req.user, parsed.data.agentId);
+
+  // Existing appointments are kept - only future slot generation changes
+  const [, , saved] = await prisma.$transaction([
+    prisma.agentAvailability.deleteMany({ where: { agentId } }),
+    prisma.agentAvailability.createMany({
+      data: windows.map((window) => ({ ...window, agentId, timezone })),
+    }),
+    prisma.agentAvailability.findMany({
+      where: { agentId },
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+    }),
+  ]);
+
+  logger.info('Agent availability updated', {
+    agentId,
+    windows: saved.length,
+    timezone,
+    updatedBy: req.user.userId,
+  });
+
+  return successResponse({ agentId, windows: saved }, 'Availability updated successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PUT = withCorsMiddleware(
+  withRateLimit(authenticateToken(putHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,31 @@
+// DELETE /api/case-groups/[id]/members/[caseId] - Take a dependant case out of a group
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { removeCaseGroupMember } from '@/lib/services/case-group.service';
+
+interface RouteContext {
+  params: Promise<{ id: string; caseId: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id, caseId } = await context.params;
+  const group = await removeCaseGroupMember(id, caseId, req.user);
+
+  return successResponse({ group }, 'Case removed from group');
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,45 @@
+// POST /api/case-groups/[id]/members - Add dependant cases to a group
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { addCaseGroupMembers } from '@/lib/services/case-group.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const addMembersSchema = z.object({
+  caseIds: z.array(z.string().min(1)).min(1, 'caseIds must not be empty'),
+});
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  const validation = addMembersSchema.safeParse(await request.json());
+
+  if (!validation.success) {
+    throw new ApiError(
+      validation.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const group = await addCaseGroupMembers(id, validation.data.caseIds, req.user);
+
+  return successResponse({ group }, 'Cases added to group');
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
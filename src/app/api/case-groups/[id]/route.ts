@@ -0,0 +1,89 @@
+// GET /api/case-groups/[id] - Group members and status summary
+// PATCH /api/case-groups/[id] - Rename the group
+// DELETE /api/case-groups/[id] - Dissolve the group (the cases themselves are kept)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  assertCanViewGroup,
+  dissolveCaseGroup,
+  getCaseGroupSummary,
+  updateCaseGroup,
+} from '@/lib/services/case-group.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const updateGroupSchema = z.object({
+  name: z.string().trim().min(1).max(120).nullable(),
+});
+
+const getHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  await assertCanViewGroup(id, req.user);
+  const group = await getCaseGroupSummary(id);
+
+  return successResponse({ group }, 'Case group retrieved successfully');
+});
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  const validation = updateGroupSchema.safeParse(await request.json());
+
+  if (!validation.success) {
+    throw new ApiError(
+      validation.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const group = await updateCaseGroup(id, validation.data.name, req.user);
+
+  return successResponse({ group }, 'Case group updated');
+});
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  await dissolveCaseGroup(id, req.user);
+
+  return successResponse(null, 'Case group dissolved');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
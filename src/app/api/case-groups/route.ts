@@ -0,0 +1,43 @@
+// POST /api/case-groups - Group a principal case with its dependants' cases
+// Admins, the principal case's agent and the principal client (for their own cases)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { createCaseGroup } from '@/lib/services/case-group.service';
+
+const createGroupSchema = z.object({
+  principalCaseId: z.string().min(1),
+  memberCaseIds: z.array(z.string().min(1)).min(1, 'Add at least one dependant case'),
+  name: z.string().trim().min(1).max(120).nullable().optional(),
+});
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const validation = createGroupSchema.safeParse(await request.json());
+
+  if (!validation.success) {
+    throw new ApiError(
+      validation.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const group = await createCaseGroup(validation.data, req.user);
+
+  return successResponse({ group }, 'Case group created', HttpStatus.CREATED);
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
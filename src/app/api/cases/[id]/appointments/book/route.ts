@@ -0,0 +1,222 @@
+// POST /api/cases/[id]/appointments/book - Client books one of the agent's open slots
+// The slot must be published by the agent and is re-checked under a per-agent lock,
+// so two clients can never book the same agent at the same time
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES, NOTIFICATION_ACTION_URLS, SUCCESS_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { sendAppointmentScheduledEmail } from '@/lib/notifications/email.service';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  assertAgentSlotFree,
+  findAvailableSlot,
+  lockAgentSchedule,
+} from '@/lib/services/appointment-availability.service';
+
+const bookAppointmentSchema = z.object({
+  scheduledAt: z
+    .string()
+    .min(1, 'scheduledAt is required')
+    .refine((value) => !Number.isNaN(new Date(value).getTime()), {
+      message: 'scheduledAt must be a valid date',
+    }),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const userSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+};
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id: caseId } = await context.params;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  if (req.user.role !== 'CLIENT') {
+    throw new ApiError(
+      'Staff schedule appointments from the case appointments endpoint',
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  const body = await request.json();
+  const parsed = bookAppointmentSchema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new ApiError(
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const scheduledDate = new Date(parsed.data.scheduledAt);
+  const notes = parsed.data.notes;
+
+  const caseRecord = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: {
+      id: true,
+      status: true,
+      clientId: true,
+      assignedAgentId: true,
+      referenceNumber: true,
+      client: {
+        select: { id: true, email: true, firstName: true, lastName: true },
+      },
+      assignedAgent: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  });
+
+  if (!caseRecord) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (caseRecord.clientId !== req.user.userId) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (caseRecord.status !== 'APPROVED') {
+    throw new ApiError(
+      'Appointments can only be booked when a case is approved',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const agentId = caseRecord.assignedAgentId;
+  if (!agentId) {
+    throw new ApiError('No agent has been assigned to this case yet', HttpStatus.CONFLICT);
+  }
+
+  const slot = await findAvailableSlot(agentId, scheduledDate);
+  if (!slot) {
+    throw new ApiError('This time slot is no longer available', HttpStatus.CONFLICT);
+  }
+
+  const clientId = req.user.userId;
+  const appointment = await prisma.$transaction(async (tx) => {
+    // Re-check under the agent lock: the slot list above may already be stale
+    await lockAgentSchedule(tx, agentId);
+
+    // Bookings for the same case take the same agent lock, so only one of them can get here
+    const upcoming = await tx.appointment.findFirst({
+      where: {
+        caseId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        scheduledAt: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+
+    if (upcoming) {
+      throw new ApiError('This case already has an upcoming appointment', HttpStatus.CONFLICT);
+    }
+
+    await assertAgentSlotFree(tx, agentId, scheduledDate);
+
+    return tx.appointment.create({
+      data: {
+        caseId,
+        clientId,
+        createdById: clientId,
+        assignedAgentId: agentId,
+        scheduledAt: scheduledDate,
+        location: slot.location,
+        notes: notes && notes.length > 0 ? notes : undefined,
+      },
+      include: {
+        assignedAgent: { select: userSelect },
+        createdBy: { select: userSelect },
+      },
+    });
+  });
+
+  const appointmentActionUrl = NOTIFICATION_ACTION_URLS.APPOINTMENT_DETAILS(
+    caseRecord.id,
+    appointment.id
+  );
+  const appointmentTimeLabel = formatDateTime(appointment.scheduledAt);
+  const clientName =
+    `${caseRecord.client.firstName ?? ''} ${caseRecord.client.lastName ?? ''}`.trim() ||
+    caseRecord.client.email;
+
+  // Let the agent know their calendar changed
+  try {
+    await prisma.notification.create({
+      data: {
+        userId: agentId,
+        caseId: caseRecord.id,
+        appointmentId: appointment.id,
+        type: 'APPOINTMENT_SCHEDULED',
+        title: 'Appointment Booked',
+        message: `${clientName} booked an appointment for case ${caseRecord.referenceNumber} on ${appointmentTimeLabel}.`,
+        actionUrl: appointmentActionUrl,
+      },
+    });
+    await createRealtimeNotification(agentId, {
+      type: 'APPOINTMENT_SCHEDULED',
+      title: 'Appointment Booked',
+      message: `${clientName} booked ${appointmentTimeLabel} for case ${caseRecord.referenceNumber}`,
+      actionUrl: appointmentActionUrl,
+    });
+  } catch (error) {
+    logger.warn('Failed to notify agent of booked appointment', {
+      error,
+      appointmentId: appointment.id,
+    });
+  }
+
+  sendAppointmentScheduledEmail({
+    to: caseRecord.client.email,
+    clientName,
+    caseReference: caseRecord.referenceNumber,
+    caseId: caseRecord.id,
+    appointmentId: appointment.id,
+    scheduledAt: appointment.scheduledAt.toISOString(),
+    location: appointment.location,
+    advisorName: caseRecord.assignedAgent
+      ? `${caseRecord.assignedAgent.firstName} ${caseRecord.assignedAgent.lastName}`.trim()
+      : undefined,
+    notes: appointment.notes ?? undefined,
+  }).catch((error) => {
+    logger.warn('Failed to send appointment confirmation email', {
+      error,
+      appointmentId: appointment.id,
+    });
+  });
+
+  logger.info('Appointment booked by client', {
+    appointmentId: appointment.id,
+    caseId,
+    agentId,
+    scheduledAt: appointment.scheduledAt.toISOString(),
+  });
+
+  return successResponse({ appointment }, SUCCESS_MESSAGES.CREATED, HttpStatus.CREATED);
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -9,10 +9,16 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { formatDateTime } from '@/lib/utils/helpers';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
 import { sendAppointmentScheduledEmail } from '@/lib/notifications/email.service';
+import {
+  assertAgentSlotFree,
+  lockAgentSchedule,
+} from '@/lib/services/appointment-availability.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
 
 const createAppointmentSchema = z.object({
   scheduledAt: z
@@ -70,6 +76,7 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
       id: true,
       clientId: true,
       assignedAgentId: true,
+      coveringAgentId: true,
     },
   });
 
@@ -81,7 +88,7 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
-  if (req.user.role === 'AGENT' && caseRecord.assignedAgentId !== req.user.userId) {
+  if (req.user.role === 'AGENT' && !isCaseHandler(caseRecord, req.user.userId)) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
@@ -105,10 +112,12 @@ const postHandler = asyncHandler(async (request: NextRequest, context: RouteCont
   const req = request as AuthenticatedRequest;
   const { id: caseId } = await context.params;
 
-  if (!req.user || !['AGENT', 'ADMIN'].includes(req.user.role)) {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'appointment.manage');
+
   const body = await request.json();
   const parsed = createAppointmentSchema.safeParse(body);
 
@@ -137,6 +146,7 @@ const postHandler = asyncHandler(async (request: NextRequest, context: RouteCont
       status: true,
       clientId: true,
       assignedAgentId: true,
+      coveringAgentId: true,
       referenceNumber: true,
       client: {
         select: {
@@ -169,7 +179,7 @@ const postHandler = asyncHandler(async (request: NextRequest, context: RouteCont
     );
   }
 
-  if (req.user.role === 'AGENT' && caseRecord.assignedAgentId !== req.user.userId) {
+  if (req.user.role === 'AGENT' && !isCaseHandler(caseRecord, req.user.userId)) {
     throw new ApiError(
       'Only the assigned agent or an administrator can schedule appointments for this case',
       HttpStatus.FORBIDDEN
@@ -204,33 +214,42 @@ const postHandler = asyncHandler(async (request: NextRequest, context: RouteCont
     appointmentAgentId = req.user.userId;
   }
 
-  const appointment = await prisma.appointment.create({
-    data: {
-      caseId,
-      clientId: caseRecord.clientId,
-      createdById: req.user.userId,
-      assignedAgentId: appointmentAgentId,
-      scheduledAt: scheduledDate,
-      location,
-      notes: notes && notes.length > 0 ? notes : undefined,
-    },
-    include: {
-      ...appointmentInclude,
-      case: {
-        select: {
-          id: true,
-          referenceNumber: true,
-        },
+  const createdById = req.user.userId;
+  const agentId = appointmentAgentId;
+
+  const appointment = await prisma.$transaction(async (tx) => {
+    // Reject double-booking the agent (serialized per agent)
+    await lockAgentSchedule(tx, agentId);
+    await assertAgentSlotFree(tx, agentId, scheduledDate);
+
+    return tx.appointment.create({
+      data: {
+        caseId,
+        clientId: caseRecord.clientId,
+        createdById,
+        assignedAgentId: agentId,
+        scheduledAt: scheduledDate,
+        location,
+        notes: notes && notes.length > 0 ? notes : undefined,
       },
-      client: {
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
+      include: {
+        ...appointmentInclude,
+        case: {
+          select: {
+            id: true,
+            referenceNumber: true,
+          },
+        },
+        client: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+          },
         },
       },
-    },
+    });
   });
 
   const appointmentActionUrl = NOTIFICATION_ACTION_URLS.APPOINTMENT_DETAILS(
@@ -0,0 +1,97 @@
+// GET /api/cases/[id]/appointments/slots - Open slots of the case's assigned agent
+// Slots are returned in UTC together with the agent's time zone for display
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { APPOINTMENT_BOOKING, ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAvailableSlots } from '@/lib/services/appointment-availability.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function parseDateParam(value: string | null, fallback: Date): Date {
+  if (!value) return fallback;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError('from and to must be valid dates', HttpStatus.BAD_REQUEST);
+  }
+  return date;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id: caseId } = await context.params;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const caseRecord = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: {
+      id: true,
+      clientId: true,
+      assignedAgentId: true,
+      coveringAgentId: true,
+      assignedAgent: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  });
+
+  if (!caseRecord) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (req.user.role === 'CLIENT' && caseRecord.clientId !== req.user.userId) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (req.user.role === 'AGENT' && !isCaseHandler(caseRecord, req.user.userId)) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (!caseRecord.assignedAgentId) {
+    return successResponse({ slots: [], agent: null }, 'No agent assigned to this case yet');
+  }
+
+  const { searchParams } = new URL(request.url);
+  const now = new Date();
+  const from = parseDateParam(searchParams.get('from'), now);
+  const to = parseDateParam(
+    searchParams.get('to'),
+    new Date(now.getTime() + APPOINTMENT_BOOKING.HORIZON_DAYS * DAY_MS)
+  );
+
+  if (from >= to) {
+    throw new ApiError('from must be before to', HttpStatus.BAD_REQUEST);
+  }
+
+  const slots = await getAvailableSlots(caseRecord.assignedAgentId, from, to);
+
+  return successResponse(
+    {
+      slots: slots.map((slot) => ({
+        startsAt: slot.startsAt.toISOString(),
+        endsAt: slot.endsAt.toISOString(),
+        timezone: slot.timezone,
+        location: slot.location,
+      })),
+      agent: caseRecord.assignedAgent,
+    },
+    'Available slots retrieved successfully'
+  );
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
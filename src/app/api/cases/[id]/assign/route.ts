@@ -9,6 +9,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
 import { sendEmail } from '@/lib/notifications/email.service';
@@ -24,15 +25,14 @@ const handler = asyncHandler(
 
     const req = request as AuthenticatedRequest;
 
-    // SECURITY: Only ADMIN users can assign cases
+    // SECURITY: Assigning needs case.assign (admins by default)
     // Agents receive case assignments but cannot create or modify assignments
-    if (!req.user || req.user.role !== 'ADMIN') {
-      throw new ApiError(
-        'Only administrators can assign cases. Agents receive assignments but cannot create them.',
-        HttpStatus.FORBIDDEN
-      );
+    if (!req.user) {
+      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
     }
 
+    await requirePermission(req.user, 'case.assign');
+
     const body = await request.json();
     const { agentId } = body;
 
@@ -80,7 +80,8 @@ const handler = asyncHandler(
       },
     });
 
-    if (!existingCase) {
+    // Drafts are invisible to staff until the client submits them
+    if (!existingCase || existingCase.status === 'DRAFT') {
       throw new ApiError('Case not found', HttpStatus.NOT_FOUND);
     }
 
@@ -168,7 +169,6 @@ const handler = asyncHandler(
             id: true,
             fileName: true,
             originalName: true,
-            filePath: true,
             mimeType: true,
             fileSize: true,
             documentType: true,
@@ -0,0 +1,64 @@
+// GET /api/cases/[id]/checklist - Required document checklist for a case
+// Reports satisfied/pending/rejected/expired/missing items for the case's service type and destination
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getCaseChecklist } from '@/lib/services/document-checklist.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const getHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  const caseAccess = await prisma.case.findUnique({
+    where: { id },
+    select: { clientId: true, assignedAgentId: true, coveringAgentId: true },
+  });
+
+  if (!caseAccess) {
+    throw new ApiError(ERROR_MESSAGES.CASE_NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  // Clients see their own cases, agents their assigned cases, admins everything
+  if (req.user.role === 'CLIENT' && caseAccess.clientId !== req.user.userId) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (req.user.role === 'AGENT' && !isCaseHandler(caseAccess, req.user.userId)) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  const checklist = await getCaseChecklist(id);
+
+  if (!checklist) {
+    throw new ApiError(ERROR_MESSAGES.CASE_NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  logger.info('Case checklist retrieved', {
+    caseId: id,
+    userId: req.user.userId,
+    progress: checklist.summary.progress,
+  });
+
+  return successResponse(checklist, 'Checklist retrieved successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,139 @@
+// GET /api/cases/[id]/documents/bundle - Download all case documents as one file (AGENT/ADMIN only)
+// ?format=zip (default) streams a ZIP with a manifest.csv; ?format=pdf merges everything into
+// one PDF with a cover page and table of contents.
+// ?status=APPROVED,PENDING picks the statuses to include (default APPROVED)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+import {
+  type BundleFormat,
+  createPdfBundle,
+  createZipBundle,
+  DEFAULT_BUNDLE_STATUSES,
+  getBundleDocuments,
+  MAX_PDF_BUNDLE_BYTES,
+} from '@/lib/services/document-bundle.service';
+
+const BUNDLE_FORMATS: BundleFormat[] = ['zip', 'pdf'];
+
+// Statuses a bundle may include - quarantined files never leave storage this way
+const BUNDLE_STATUSES: DocumentStatus[] = ['APPROVED', 'PENDING', 'REJECTED'];
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  const { searchParams } = new URL(request.url);
+
+  const format = (searchParams.get('format') || 'zip') as BundleFormat;
+  if (!BUNDLE_FORMATS.includes(format)) {
+    throw new ApiError('Invalid format. Use zip or pdf', HttpStatus.BAD_REQUEST);
+  }
+
+  const statusParam = searchParams.get('status');
+  const statuses = statusParam
+    ? (statusParam.split(',').map((status) => status.trim().toUpperCase()) as DocumentStatus[])
+    : DEFAULT_BUNDLE_STATUSES;
+  if (statuses.some((status) => !BUNDLE_STATUSES.includes(status))) {
+    throw new ApiError(
+      `Invalid status. Use a comma-separated list of ${BUNDLE_STATUSES.join(', ')}`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const caseData = await prisma.case.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      referenceNumber: true,
+      serviceType: true,
+      assignedAgentId: true,
+      coveringAgentId: true,
+      client: { select: { firstName: true, lastName: true } },
+    },
+  });
+
+  if (!caseData) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const { role, userId } = req.user;
+  if (role !== 'ADMIN' && !(role === 'AGENT' && isCaseHandler(caseData, userId))) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  const documents = await getBundleDocuments(id, statuses);
+  if (documents.length === 0) {
+    throw new ApiError('No documents match the requested statuses', HttpStatus.NOT_FOUND);
+  }
+
+  if (format === 'pdf') {
+    const totalSize = documents.reduce((sum, document) => sum + document.fileSize, 0);
+    if (totalSize > MAX_PDF_BUNDLE_BYTES) {
+      throw new ApiError(
+        'These documents are too large to merge into one PDF - download the ZIP bundle instead',
+        HttpStatus.UNPROCESSABLE_ENTITY
+      );
+    }
+  }
+
+  await prisma.activityLog.create({
+    data: {
+      userId,
+      action: 'DOCUMENT_BUNDLE_DOWNLOADED',
+      description: `Downloaded ${documents.length} documents of case ${caseData.referenceNumber} as ${format.toUpperCase()}`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { caseId: id, format, statuses, documentIds: documents.map((d) => d.id) },
+    },
+  });
+
+  logger.info('Document bundle requested', {
+    caseId: id,
+    format,
+    count: documents.length,
+    userId,
+  });
+
+  const fileName = `${caseData.referenceNumber}-documents.${format}`;
+  const headers = {
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff',
+  };
+
+  if (format === 'pdf') {
+    const pdf = await createPdfBundle(caseData, documents);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        ...headers,
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+      },
+    });
+  }
+
+  return new NextResponse(createZipBundle(documents), {
+    headers: { ...headers, 'Content-Type': 'application/zip' },
+  });
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
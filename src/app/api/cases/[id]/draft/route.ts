@@ -0,0 +1,75 @@
+// Case Draft API Routes - PATCH (autosave) and DELETE (discard) a client's unsubmitted case
+// Only the owning client can touch a draft; it disappears once submitted
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { Priority, ServiceType } from '@prisma/client';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { deleteDraft, getOwnDraft, updateDraft } from '@/lib/services/case-submission.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const draftUpdateSchema = z.object({
+  serviceType: z.enum(ServiceType).optional(),
+  destinationId: z.string().min(1).optional(),
+  priority: z.enum(Priority).optional(),
+  // Partial answers - checked against the intake form on submission
+  formData: z.record(z.string(), z.unknown()).optional(),
+});
+
+// PATCH /api/cases/[id]/draft - Autosave draft progress
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  const validation = draftUpdateSchema.safeParse(await request.json());
+
+  if (!validation.success) {
+    throw new ApiError(
+      validation.error.issues.map((issue) => issue.message).join(', '),
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const draft = await updateDraft(id, req.user.userId, validation.data);
+
+  return successResponse({ case: draft }, 'Draft saved');
+});
+
+// DELETE /api/cases/[id]/draft - Discard a draft and its uploaded documents
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  await getOwnDraft(id, req.user.userId);
+  await deleteDraft(id);
+
+  logger.info('Draft case discarded', { caseId: id, userId: req.user.userId });
+
+  return successResponse(null, 'Draft discarded');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
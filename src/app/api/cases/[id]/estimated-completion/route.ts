@@ -9,16 +9,19 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 
 const handler = asyncHandler(
   async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
     const req = request as AuthenticatedRequest;
     const params = await context.params;
 
-    if (!req.user || !['AGENT', 'ADMIN'].includes(req.user.role)) {
-      throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+    if (!req.user) {
+      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
     }
 
+    await requirePermission(req.user, 'case.update');
+
     const body = await request.json();
     const { estimatedCompletion } = body;
 
@@ -1,4 +1,5 @@
 // POST /api/cases/[id]/request-documents - Request specific documents from client (AGENT/ADMIN only)
+// Pass { autoRequestMissing: true } instead of documentTypes to request every outstanding checklist item
 
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
@@ -9,26 +10,59 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { sendEmail } from '@/lib/notifications/email.service';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { escapeHtml } from '@/lib/utils/helpers';
+import {
+  assertTransitionAllowed,
+  STATUS_CONFLICT_MESSAGE,
+  transitionCaseStatus,
+} from '@/lib/services/case-workflow.service';
+import { LATEST_VERSION_FILTER } from '@/lib/services/document-version.service';
+import { instantiateTaskTemplates } from '@/lib/services/case-task.service';
+import {
+  getCaseChecklist,
+  getOutstandingDocumentTypes,
+} from '@/lib/services/document-checklist.service';
 
 const handler = asyncHandler(
   async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
     const req = request as AuthenticatedRequest;
     const params = await context.params;
 
-    if (!req.user || !['AGENT', 'ADMIN'].includes(req.user.role)) {
-      throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+    if (!req.user) {
+      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
     }
 
+    await requirePermission(req.user, 'case.update');
+
     // Validate that NEXT_PUBLIC_APP_URL is configured before processing
     if (!process.env.NEXT_PUBLIC_APP_URL) {
       throw new ApiError('Application URL not configured', HttpStatus.INTERNAL_SERVER_ERROR);
     }
 
     const body = await request.json();
-    const { documentTypes, message } = body;
+    const { message, autoRequestMissing } = body;
+    let { documentTypes } = body;
+
+    // Derive the request from the case checklist (missing, rejected or expired required items)
+    if (autoRequestMissing) {
+      const checklist = await getCaseChecklist(params.id);
+
+      if (!checklist) {
+        throw new ApiError('Case not found', HttpStatus.NOT_FOUND);
+      }
+
+      documentTypes = getOutstandingDocumentTypes(checklist);
+
+      if (documentTypes.length === 0) {
+        throw new ApiError(
+          'All required documents have already been provided',
+          HttpStatus.BAD_REQUEST
+        );
+      }
+    }
 
     if (!documentTypes || !Array.isArray(documentTypes) || documentTypes.length === 0) {
       throw new ApiError('Document types array is required', HttpStatus.BAD_REQUEST);
@@ -49,6 +83,7 @@ const handler = asyncHandler(
       where: { id: params?.id },
       include: {
         client: true,
+        documents: { where: LATEST_VERSION_FILTER, select: { status: true } },
       },
     });
 
@@ -56,25 +91,35 @@ const handler = asyncHandler(
       throw new ApiError('Case not found', HttpStatus.NOT_FOUND);
     }
 
-    const caseData = await prisma
-      .$transaction([
-        prisma.case.update({
-          where: { id: params.id },
-          data: { status: 'DOCUMENTS_REQUIRED' },
-          include: {
-            client: true,
-          },
-        }),
-        prisma.statusHistory.create({
-          data: {
-            caseId: params.id,
-            status: 'DOCUMENTS_REQUIRED',
-            changedBy: req.user.userId,
-            notes: `Requested: ${documentTypes.join(', ')}. ${message || ''}`,
-          },
-        }),
-      ])
-      .then(([updatedCase]) => updatedCase);
+    if (existingCase.status !== 'DOCUMENTS_REQUIRED') {
+      assertTransitionAllowed(existingCase, 'DOCUMENTS_REQUIRED', req.user.role);
+    }
+
+    const caseData = await prisma.$transaction(async (tx) => {
+      const applied = await transitionCaseStatus(
+        tx,
+        params.id,
+        existingCase.status,
+        'DOCUMENTS_REQUIRED',
+        {
+          changedBy: req.user!.userId,
+          notes: `Requested: ${documentTypes.join(', ')}. ${message || ''}`,
+        }
+      );
+
+      if (!applied) {
+        throw new ApiError(STATUS_CONFLICT_MESSAGE, HttpStatus.CONFLICT);
+      }
+
+      return tx.case.findUniqueOrThrow({
+        where: { id: params.id },
+        include: { client: true },
+      });
+    });
+
+    if (existingCase.status !== 'DOCUMENTS_REQUIRED') {
+      await instantiateTaskTemplates(params.id, 'DOCUMENTS_REQUIRED', req.user.userId);
+    }
 
     // Escape all user-controlled content before injecting into HTML to prevent XSS
     const docList = documentTypes
@@ -10,6 +10,16 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import {
+  assertTransitionAllowed,
+  STATUS_CONFLICT_MESSAGE,
+  transitionCaseStatus,
+} from '@/lib/services/case-workflow.service';
+import { LATEST_VERSION_FILTER } from '@/lib/services/document-version.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+import { canClientManageCase } from '@/lib/services/case-group.service';
+import { instantiateTaskTemplates } from '@/lib/services/case-task.service';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -57,15 +67,27 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
           id: true,
           fileName: true,
           originalName: true,
-          filePath: true,
           mimeType: true,
           fileSize: true,
           documentType: true,
           status: true,
           uploadDate: true,
+          sharedWithGroup: true,
+        },
+      },
+      formData: {
+        include: {
+          schema: { select: { id: true, version: true, title: true, definition: true } },
+        },
+      },
+      group: {
+        select: {
+          id: true,
+          name: true,
+          principalCaseId: true,
+          principalCase: { select: { clientId: true } },
         },
       },
-      formData: true,
       appointments: {
         orderBy: { scheduledAt: 'asc' },
         include: {
@@ -90,17 +112,18 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     },
   });
 
-  if (!caseData) {
+  // Drafts are private to the client until submitted - staff must not learn they exist
+  if (!caseData || (caseData.status === 'DRAFT' && caseData.clientId !== req.user.userId)) {
     throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
   }
 
-  // Check permissions
-  if (req.user.role === 'CLIENT' && caseData.clientId !== req.user.userId) {
+  // Check permissions - the principal client of a family group can see the dependants' cases
+  if (req.user.role === 'CLIENT' && !canClientManageCase(caseData, req.user.userId)) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
-  // Agents can only view their assigned cases
-  if (req.user.role === 'AGENT' && caseData.assignedAgentId !== req.user.userId) {
+  // Agents can only view their assigned cases (or the ones they cover)
+  if (req.user.role === 'AGENT' && !isCaseHandler(caseData, req.user.userId)) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
@@ -125,9 +148,13 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
   // Check if case exists
   const existingCase = await prisma.case.findUnique({
     where: { id },
+    include: { documents: { where: LATEST_VERSION_FILTER, select: { status: true } } },
   });
 
-  if (!existingCase) {
+  if (
+    !existingCase ||
+    (existingCase.status === 'DRAFT' && existingCase.clientId !== req.user.userId)
+  ) {
     throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
   }
 
@@ -136,6 +163,11 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
+  // Drafts are edited through PATCH /api/cases/[id]/draft
+  if (existingCase.status === 'DRAFT') {
+    throw new ApiError('Draft cases are updated through the draft endpoint', HttpStatus.CONFLICT);
+  }
+
   // Only the client who owns the case can change the destination
   if (body.destinationId !== undefined && existingCase.clientId !== req.user.userId) {
     throw new ApiError(
@@ -144,75 +176,103 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     );
   }
 
-  // Update case
-  const updatedCase = await prisma.case.update({
-    where: { id },
-    data: {
-      ...(body.serviceType && { serviceType: body.serviceType }),
-      ...(body.destinationId && { destinationId: body.destinationId }),
-      ...(body.status && { status: body.status }),
-      ...(body.priority && { priority: body.priority }),
-      ...(body.internalNotes && { internalNotes: body.internalNotes }),
-    },
-    include: {
-      client: {
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          phone: true,
-          street: true,
-          city: true,
-          country: true,
-        },
+  // Status changes must follow the same workflow as PATCH /api/cases/[id]/status
+  if (body.status && body.status !== existingCase.status) {
+    if (req.user.role === 'CLIENT') {
+      throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+    }
+    assertTransitionAllowed(existingCase, body.status, req.user.role);
+  }
+
+  const statusChanged = !!body.status && body.status !== existingCase.status;
+
+  // Update case - a status change only applies if nobody moved the case since it was checked
+  const updatedCase = await prisma.$transaction(async (tx) => {
+    if (statusChanged) {
+      const applied = await transitionCaseStatus(tx, id, existingCase.status, body.status, {
+        changedBy: req.user!.userId,
+      });
+
+      if (!applied) {
+        throw new ApiError(STATUS_CONFLICT_MESSAGE, HttpStatus.CONFLICT);
+      }
+    }
+
+    return tx.case.update({
+      where: { id },
+      data: {
+        ...(body.serviceType && { serviceType: body.serviceType }),
+        ...(body.destinationId && { destinationId: body.destinationId }),
+        ...(body.priority && { priority: body.priority }),
+        ...(body.internalNotes && { internalNotes: body.internalNotes }),
       },
-      assignedAgent: {
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
+      include: {
+        client: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            phone: true,
+            street: true,
+            city: true,
+            country: true,
+          },
         },
-      },
-      documents: {
-        select: {
-          id: true,
-          fileName: true,
-          originalName: true,
-          filePath: true,
-          mimeType: true,
-          fileSize: true,
-          documentType: true,
-          status: true,
-          uploadDate: true,
+        assignedAgent: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+          },
         },
-      },
-      formData: true,
-      appointments: {
-        orderBy: { scheduledAt: 'asc' },
-        include: {
-          assignedAgent: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
-            },
+        documents: {
+          select: {
+            id: true,
+            fileName: true,
+            originalName: true,
+            mimeType: true,
+            fileSize: true,
+            documentType: true,
+            status: true,
+            uploadDate: true,
           },
-          createdBy: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
+        },
+        formData: {
+          include: {
+            schema: { select: { id: true, version: true, title: true, definition: true } },
+          },
+        },
+        appointments: {
+          orderBy: { scheduledAt: 'asc' },
+          include: {
+            assignedAgent: {
+              select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+            createdBy: {
+              select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+              },
             },
           },
         },
       },
-    },
+    });
   });
 
+  if (statusChanged) {
+    await instantiateTaskTemplates(id, body.status, req.user.userId);
+  }
+
   logger.info('Case updated', { caseId: id, userId: req.user.userId });
 
   return successResponse(updatedCase, SUCCESS_MESSAGES.CASE_UPDATED);
@@ -226,10 +286,7 @@ const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteCo
     throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
-  // Only ADMIN can delete cases
-  if (req.user.role !== 'ADMIN') {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-  }
+  await requirePermission(req.user, 'case.delete');
 
   const { id } = await context.params;
 
@@ -1,3 +1,4 @@
+// GET /api/cases/[id]/status - List legal next statuses for a case (AGENT/ADMIN only)
 // PATCH /api/cases/[id]/status - Update case status (AGENT/ADMIN only)
 
 import { NextRequest } from 'next/server';
@@ -9,20 +10,75 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { sendCaseStatusEmail } from '@/lib/notifications/email.service';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
+import {
+  assertTransitionAllowed,
+  getAvailableTransitions,
+  STATUS_CONFLICT_MESSAGE,
+  transitionCaseStatus,
+} from '@/lib/services/case-workflow.service';
+import { LATEST_VERSION_FILTER } from '@/lib/services/document-version.service';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+import { instantiateTaskTemplates } from '@/lib/services/case-task.service';
 
-const handler = asyncHandler(
+const getHandler = asyncHandler(
   async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
     const params = await context.params;
 
     const req = request as AuthenticatedRequest;
 
-    if (!req.user || !['AGENT', 'ADMIN'].includes(req.user.role)) {
+    if (!req.user) {
+      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+    }
+
+    await requirePermission(req.user, 'case.status.update');
+
+    const existingCase = await prisma.case.findUnique({
+      where: { id: params.id },
+      select: {
+        status: true,
+        serviceType: true,
+        assignedAgentId: true,
+        coveringAgentId: true,
+        documents: { where: LATEST_VERSION_FILTER, select: { status: true } },
+      },
+    });
+
+    if (!existingCase) {
+      throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+    }
+
+    if (req.user.role !== 'ADMIN' && !isCaseHandler(existingCase, req.user.userId)) {
       throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
     }
 
+    const transitions =
+      existingCase.status === 'APPROVED' && req.user.role !== 'ADMIN'
+        ? []
+        : getAvailableTransitions(existingCase, req.user.role);
+
+    return successResponse(
+      { currentStatus: existingCase.status, transitions },
+      'Status transitions retrieved successfully'
+    );
+  }
+);
+
+const handler = asyncHandler(
+  async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+    const params = await context.params;
+
+    const req = request as AuthenticatedRequest;
+
+    if (!req.user) {
+      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+    }
+
+    await requirePermission(req.user, 'case.status.update');
+
     const VALID_STATUSES = [
       'SUBMITTED',
       'UNDER_REVIEW',
@@ -47,7 +103,13 @@ const handler = asyncHandler(
     // Fetch case for resource-level authorization
     const existingCase = await prisma.case.findUnique({
       where: { id: params.id },
-      select: { assignedAgentId: true, status: true },
+      select: {
+        assignedAgentId: true,
+        coveringAgentId: true,
+        status: true,
+        serviceType: true,
+        documents: { where: LATEST_VERSION_FILTER, select: { status: true } },
+      },
     });
 
     if (!existingCase) {
@@ -62,62 +124,66 @@ const handler = asyncHandler(
       );
     }
 
-    // Resource-level authorization: only ADMIN or the assigned agent can update status
+    // Resource-level authorization: only ADMIN or the assigned (or covering) agent can update status
     if (req.user.role !== 'ADMIN') {
-      if (existingCase.assignedAgentId !== req.user.userId) {
+      if (!isCaseHandler(existingCase, req.user.userId)) {
         throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
       }
     }
 
-    const caseData = await prisma.case.update({
-      where: { id: params.id },
-      data: { status },
-      include: {
-        client: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            street: true,
-            city: true,
-            country: true,
+    // Enforce the service type's transition graph and guard conditions
+    assertTransitionAllowed(existingCase, status, req.user.role);
+
+    const caseData = await prisma.$transaction(async (tx) => {
+      const applied = await transitionCaseStatus(tx, params.id, existingCase.status, status, {
+        changedBy: req.user!.userId,
+        notes: note,
+      });
+
+      if (!applied) {
+        throw new ApiError(STATUS_CONFLICT_MESSAGE, HttpStatus.CONFLICT);
+      }
+
+      return tx.case.findUniqueOrThrow({
+        where: { id: params.id },
+        include: {
+          client: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+              phone: true,
+              street: true,
+              city: true,
+              country: true,
+            },
           },
-        },
-        assignedAgent: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
+          assignedAgent: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
           },
-        },
-        documents: {
-          select: {
-            id: true,
-            fileName: true,
-            originalName: true,
-            filePath: true,
-            mimeType: true,
-            fileSize: true,
-            documentType: true,
-            status: true,
-            uploadDate: true,
+          documents: {
+            select: {
+              id: true,
+              fileName: true,
+              originalName: true,
+              mimeType: true,
+              fileSize: true,
+              documentType: true,
+              status: true,
+              uploadDate: true,
+            },
           },
         },
-      },
+      });
     });
 
-    // Create status history
-    await prisma.statusHistory.create({
-      data: {
-        caseId: params.id,
-        status,
-        changedBy: req.user.userId,
-        notes: note,
-      },
-    });
+    await instantiateTaskTemplates(params.id, status, req.user.userId);
 
     // Send notifications
     try {
@@ -197,6 +263,10 @@ const handler = asyncHandler(
   }
 );
 
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
 export const PATCH = withCorsMiddleware(
   withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
 );
@@ -0,0 +1,33 @@
+// POST /api/cases/[id]/submit - Submit a draft case
+// Same payment and intake checks as POST /api/cases; sends the submission confirmation and
+// hands the case to staff
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { submitDraft } from '@/lib/services/case-submission.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  const submitted = await submitDraft(id, req.user);
+
+  return successResponse({ case: submitted }, SUCCESS_MESSAGES.CASE_SUBMITTED);
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,112 @@
+// PATCH /api/cases/[id]/tasks/[taskId] - Edit, reassign or tick off a task (AGENT/ADMIN only)
+// DELETE /api/cases/[id]/tasks/[taskId] - Delete a task (AGENT/ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  CASE_TASK_INCLUDE,
+  assertAssignableUser,
+  assertCanManageCaseTasks,
+} from '@/lib/services/case-task.service';
+
+const updateTaskSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  dueAt: z.coerce.date().nullable().optional(),
+  assigneeId: z.string().nullable().optional(),
+  isDone: z.boolean().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string; taskId: string }>;
+}
+
+async function findCaseTask(caseId: string, taskId: string) {
+  const task = await prisma.caseTask.findUnique({ where: { id: taskId } });
+  if (!task || task.caseId !== caseId) {
+    throw new ApiError('Task not found', HttpStatus.NOT_FOUND);
+  }
+  return task;
+}
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id, taskId } = await context.params;
+  await assertCanManageCaseTasks(id, req.user);
+  const existing = await findCaseTask(id, taskId);
+
+  const body = await request.json();
+  const validationResult = updateTaskSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const { isDone, ...fields } = validationResult.data;
+
+  if (fields.assigneeId) {
+    await assertAssignableUser(fields.assigneeId);
+  }
+
+  const dueAtChanged =
+    fields.dueAt !== undefined && fields.dueAt?.getTime() !== existing.dueAt?.getTime();
+
+  const task = await prisma.caseTask.update({
+    where: { id: taskId },
+    data: {
+      ...fields,
+      // A new due date gets its own overdue reminder
+      ...(dueAtChanged && { overdueNotifiedAt: null }),
+      ...(isDone !== undefined &&
+        isDone !== existing.isDone && {
+          isDone,
+          completedAt: isDone ? new Date() : null,
+          completedById: isDone ? req.user.userId : null,
+        }),
+    },
+    include: CASE_TASK_INCLUDE,
+  });
+
+  logger.info('Case task updated', { caseId: id, taskId, updatedBy: req.user.userId });
+
+  return successResponse({ task }, 'Task updated successfully');
+});
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id, taskId } = await context.params;
+  await assertCanManageCaseTasks(id, req.user);
+  await findCaseTask(id, taskId);
+
+  await prisma.caseTask.delete({ where: { id: taskId } });
+
+  logger.info('Case task deleted', { caseId: id, taskId, deletedBy: req.user.userId });
+
+  return successResponse(null, 'Task deleted successfully');
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
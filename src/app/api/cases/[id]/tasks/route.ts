@@ -0,0 +1,97 @@
+// GET /api/cases/[id]/tasks - List the internal tasks of a case (AGENT/ADMIN only)
+// POST /api/cases/[id]/tasks - Add a task to a case (AGENT/ADMIN only)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  CASE_TASK_INCLUDE,
+  assertAssignableUser,
+  assertCanManageCaseTasks,
+} from '@/lib/services/case-task.service';
+
+const createTaskSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(2000).nullable().optional(),
+  dueAt: z.coerce.date().nullable().optional(),
+  assigneeId: z.string().nullable().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const getHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  await assertCanManageCaseTasks(id, req.user);
+
+  // Open tasks first, soonest due first
+  const tasks = await prisma.caseTask.findMany({
+    where: { caseId: id },
+    include: CASE_TASK_INCLUDE,
+    orderBy: [{ isDone: 'asc' }, { dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+  });
+
+  return successResponse({ tasks }, 'Case tasks retrieved successfully');
+});
+
+const postHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  await assertCanManageCaseTasks(id, req.user);
+
+  const body = await request.json();
+  const validationResult = createTaskSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const data = validationResult.data;
+
+  if (data.assigneeId) {
+    await assertAssignableUser(data.assigneeId);
+  }
+
+  const task = await prisma.caseTask.create({
+    data: {
+      caseId: id,
+      title: data.title,
+      description: data.description ?? null,
+      dueAt: data.dueAt ?? null,
+      assigneeId: data.assigneeId ?? null,
+      createdById: req.user.userId,
+    },
+    include: CASE_TASK_INCLUDE,
+  });
+
+  logger.info('Case task created', { caseId: id, taskId: task.id, createdBy: req.user.userId });
+
+  return successResponse({ task }, 'Task created successfully', HttpStatus.CREATED);
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
@@ -9,6 +9,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { sendEmail } from '@/lib/notifications/email.service';
 import { escapeHtml, textToSafeHtml } from '@/lib/utils/helpers';
@@ -28,11 +29,13 @@ const handler = asyncHandler(
 
     const req = request as AuthenticatedRequest;
 
-    // Only ADMIN can transfer cases
-    if (!req.user || req.user.role !== 'ADMIN') {
-      throw new ApiError('Only administrators can transfer cases', HttpStatus.FORBIDDEN);
+    // Transferring needs case.transfer (admins by default)
+    if (!req.user) {
+      throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
     }
 
+    await requirePermission(req.user, 'case.transfer');
+
     const body = await request.json();
 
     // Validate request body
@@ -139,7 +142,6 @@ const handler = asyncHandler(
               id: true,
               fileName: true,
               originalName: true,
-              filePath: true,
               mimeType: true,
               fileSize: true,
               documentType: true,
@@ -10,23 +10,32 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
+import {
+  getTransitionError,
+  STATUS_CONFLICT_MESSAGE,
+  transitionCaseStatus,
+} from '@/lib/services/case-workflow.service';
+import { LATEST_VERSION_FILTER } from '@/lib/services/document-version.service';
+import { SUBMITTED_CASES_FILTER } from '@/lib/services/case-submission.service';
+import { expandToGroupMembers } from '@/lib/services/case-group.service';
+import { instantiateTaskTemplates } from '@/lib/services/case-task.service';
 
 // POST /api/cases/bulk - Bulk operations on cases
 // ADMIN ONLY: Agents cannot assign/unassign cases
 const postHandler = asyncHandler(async (request: NextRequest) => {
   const req = request as AuthenticatedRequest;
 
-  // SECURITY: Only ADMIN users can perform bulk operations (assign/unassign cases)
+  // SECURITY: Bulk operations (assign/unassign cases) need case.bulk - admins by default
   // Agents can only view cases assigned to them, never assign or unassign
-  if (!req.user || req.user.role !== 'ADMIN') {
-    throw new ApiError(
-      'Only administrators can perform bulk operations on cases',
-      HttpStatus.FORBIDDEN
-    );
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'case.bulk');
+
   const body = await request.json();
   const { operation, caseIds, data } = body;
 
@@ -66,6 +75,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       const casesToAssign = await prisma.case.findMany({
         where: {
           id: { in: caseIds },
+          ...SUBMITTED_CASES_FILTER,
           // Only exclude approved cases if user is not ADMIN
           ...(req.user.role !== 'ADMIN' ? { status: { not: 'APPROVED' } } : {}),
         },
@@ -244,46 +254,89 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
         throw new ApiError('Invalid status value', HttpStatus.BAD_REQUEST);
       }
 
+      // Optionally apply the change to every case of the selected cases' family groups
+      const statusCaseIds: string[] =
+        data.propagateToGroup === true ? await expandToGroupMembers(caseIds) : caseIds;
+
+      if (statusCaseIds.length > 100) {
+        throw new ApiError('Cannot process more than 100 cases at once', HttpStatus.BAD_REQUEST);
+      }
+
       // Filter out approved cases for non-admin users (ADMIN can update approved cases)
       const casesToUpdate = await prisma.case.findMany({
         where: {
-          id: { in: caseIds },
+          id: { in: statusCaseIds },
+          ...SUBMITTED_CASES_FILTER,
           // Only exclude approved cases if user is not ADMIN
           ...(req.user.role !== 'ADMIN' ? { status: { not: 'APPROVED' } } : {}),
         },
-        select: { id: true },
+        select: {
+          id: true,
+          status: true,
+          serviceType: true,
+          assignedAgentId: true,
+          documents: { where: LATEST_VERSION_FILTER, select: { status: true } },
+        },
       });
 
-      const validCaseIds = casesToUpdate.map((c) => c.id);
+      // Enforce each case's transition graph; illegal transitions are skipped, not applied
+      const skippedCases: { caseId: string; reason: string }[] = [];
+      const validCaseIds: string[] = [];
+      for (const caseItem of casesToUpdate) {
+        const transitionError = getTransitionError(caseItem, data.status, req.user.role);
+        if (transitionError) {
+          skippedCases.push({ caseId: caseItem.id, reason: transitionError });
+        } else {
+          validCaseIds.push(caseItem.id);
+        }
+      }
 
       if (validCaseIds.length === 0) {
         const errorMessage =
-          req.user.role === 'ADMIN'
-            ? 'No valid cases to update.'
-            : 'No valid cases to update. Approved cases cannot have their status changed.';
-        throw new ApiError(errorMessage, HttpStatus.BAD_REQUEST);
+          skippedCases.length > 0
+            ? `No valid cases to update. ${skippedCases[0].reason}.`
+            : req.user.role === 'ADMIN'
+              ? 'No valid cases to update.'
+              : 'No valid cases to update. Approved cases cannot have their status changed.';
+        throw new ApiError(errorMessage, HttpStatus.BAD_REQUEST, { skippedCases });
       }
 
-      if (req.user.role !== 'ADMIN' && validCaseIds.length < caseIds.length) {
-        logger.warn('Some cases were excluded from bulk status update (approved cases)', {
-          requested: caseIds.length,
+      if (validCaseIds.length < statusCaseIds.length) {
+        logger.warn('Some cases were excluded from bulk status update', {
+          requested: statusCaseIds.length,
           valid: validCaseIds.length,
-          excluded: caseIds.length - validCaseIds.length,
+          excluded: statusCaseIds.length - validCaseIds.length,
         });
       }
 
-      result = await prisma.case.updateMany({
-        where: {
-          id: { in: validCaseIds },
-        },
-        data: {
-          status: data.status,
-        },
-      });
+      // Each case only moves if it is still in the status its transition was checked against
+      const updatedCaseIds: string[] = [];
+      for (const caseItem of casesToUpdate) {
+        if (!validCaseIds.includes(caseItem.id)) continue;
 
-      // Create activity logs for bulk status update (only for valid cases)
+        const applied = await prisma.$transaction((tx) =>
+          transitionCaseStatus(tx, caseItem.id, caseItem.status, data.status, {
+            changedBy: req.user!.userId,
+            notes: 'Bulk status update',
+          })
+        );
+
+        if (applied) {
+          updatedCaseIds.push(caseItem.id);
+        } else {
+          skippedCases.push({ caseId: caseItem.id, reason: STATUS_CONFLICT_MESSAGE });
+        }
+      }
+
+      result = { count: updatedCaseIds.length };
+
+      for (const caseId of updatedCaseIds) {
+        await instantiateTaskTemplates(caseId, data.status, req.user.userId);
+      }
+
+      // Create activity logs for bulk status update (only for updated cases)
       await prisma.activityLog.createMany({
-        data: validCaseIds.map((caseId: string) => ({
+        data: updatedCaseIds.map((caseId: string) => ({
           userId: req.user!.userId,
           action: 'CASE_STATUS_UPDATED',
           description: `Case status updated to ${data.status} via bulk operation`,
@@ -292,6 +345,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
           details: JSON.stringify({
             newStatus: data.status,
             bulkOperation: true,
+            ...(data.propagateToGroup === true && { propagatedToGroup: true }),
           }),
         })),
       });
@@ -303,7 +357,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       });
 
       return successResponse(
-        { updatedCount: result.count },
+        { updatedCount: result.count, skippedCases },
         `${result.count} cases updated successfully`
       );
 
@@ -324,6 +378,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       result = await prisma.case.updateMany({
         where: {
           id: { in: caseIds },
+          ...SUBMITTED_CASES_FILTER,
         },
         data: {
           priority: data.priority,
@@ -348,6 +403,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       const casesToUnassign = await prisma.case.findMany({
         where: {
           id: { in: caseIds },
+          ...SUBMITTED_CASES_FILTER,
           assignedAgentId: { not: null }, // Only unassign cases that have agents
           // Only exclude approved cases if user is not ADMIN
           ...(req.user.role !== 'ADMIN' ? { status: { not: 'APPROVED' } } : {}),
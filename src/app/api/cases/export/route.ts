@@ -9,6 +9,8 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { SUBMITTED_CASES_FILTER } from '@/lib/services/case-submission.service';
 
 // Helper function to convert cases to CSV
 function convertToCsv(cases: any[]): string {
@@ -112,10 +114,12 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const req = request as AuthenticatedRequest;
 
   // Only ADMIN and AGENT users can export
-  if (!req.user || (req.user.role !== 'ADMIN' && req.user.role !== 'AGENT')) {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'case.export');
+
   const { searchParams } = new URL(request.url);
   const format = searchParams.get('format') || 'csv'; // csv or xlsx
   const status = searchParams.get('status');
@@ -130,8 +134,8 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
     throw new ApiError('Invalid format. Use csv or xlsx', HttpStatus.BAD_REQUEST);
   }
 
-  // Build filter based on user role and query params
-  const where: any = {};
+  // Build filter based on user role and query params (drafts are never exported)
+  const where: any = { ...SUBMITTED_CASES_FILTER };
 
   // AGENT users can only export their assigned cases
   if (req.user.role === 'AGENT') {
@@ -3,24 +3,23 @@
 
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { Prisma } from '@prisma/client';
-import {
-  ERROR_MESSAGES,
-  SUCCESS_MESSAGES,
-  PAGINATION,
-  NOTIFICATION_ACTION_URLS,
-} from '@/lib/constants';
+import { Prisma, ServiceType, SlaState } from '@prisma/client';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, PAGINATION } from '@/lib/constants';
 import { logger } from '@/lib/utils/logger';
 import { successResponse } from '@/lib/utils/api-response';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
-import { sendEmail } from '@/lib/notifications/email.service';
-import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
-import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
-import { getCaseSubmissionConfirmationEmailTemplate } from '@/lib/notifications/email-templates';
-import { shouldBypassPayment } from '@/lib/utils/payment';
+import { validateCaseIntake } from '@/lib/services/intake-form.service';
+import {
+  SUBMITTED_CASES_FILTER,
+  assertCanSubmitCase,
+  assertDestinationAvailable,
+  completeCaseSubmission,
+  getDraftExpiry,
+} from '@/lib/services/case-submission.service';
+import { clientCasesFilter } from '@/lib/services/case-group.service';
 
 // Terminal case statuses (end states - these are NOT considered active)
 const TERMINAL_STATUSES: ('APPROVED' | 'REJECTED' | 'CLOSED')[] = [
@@ -52,6 +51,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const endDate = searchParams.get('endDate');
   const search = searchParams.get('search');
   const isAssigned = searchParams.get('isAssigned'); // 'true' or 'false' string
+  const slaState = searchParams.get('slaState');
 
   // Validate and parse page
   const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
@@ -72,15 +72,19 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const where: any = {};
 
   if (req.user.role === 'CLIENT') {
-    // Clients can only see their own cases
-    where.clientId = req.user.userId;
+    // Clients see their own cases and the cases of the family groups they lead
+    Object.assign(where, clientCasesFilter(req.user.userId));
     logger.info('CLIENT case filter', {
       userId: req.user.userId,
-      clientId: where.clientId,
     });
   } else if (req.user.role === 'AGENT') {
-    // Agents can only see their assigned cases
-    where.assignedAgentId = req.user.userId;
+    // Agents can only see their assigned cases and the ones they cover for an absent colleague
+    where.OR = [{ assignedAgentId: req.user.userId }, { coveringAgentId: req.user.userId }];
+  }
+
+  // Drafts stay private to the client until they are submitted
+  if (req.user.role !== 'CLIENT') {
+    Object.assign(where, SUBMITTED_CASES_FILTER);
   }
 
   // Apply server-side filters
@@ -110,6 +114,13 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
     where.priority = priority;
   }
 
+  if (slaState && slaState !== 'all') {
+    if (!Object.values(SlaState).includes(slaState as SlaState)) {
+      throw new ApiError('Invalid SLA state', HttpStatus.BAD_REQUEST);
+    }
+    where.slaState = slaState;
+  }
+
   if (isAssigned === 'true') {
     where.assignedAgentId = { not: null };
   } else if (isAssigned === 'false') {
@@ -263,51 +274,64 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
   }
 
   const body = await request.json();
-  const { serviceType, destinationId, priority } = body;
+  const { serviceType, destinationId, priority, formData } = body;
+  // `draft: true` saves the application without submitting it (see /api/cases/[id]/submit)
+  const isDraft = body.draft === true;
 
   // Validation
   if (!serviceType) {
     throw new ApiError('serviceType is required', HttpStatus.BAD_REQUEST);
   }
-  if (!destinationId || typeof destinationId !== 'string') {
-    throw new ApiError('destinationId is required', HttpStatus.BAD_REQUEST);
+  if (!Object.values(ServiceType).includes(serviceType)) {
+    throw new ApiError('Invalid service type', HttpStatus.BAD_REQUEST);
   }
 
   // Ensure destination exists and is active
-  const destination = await prisma.destination.findUnique({
-    where: { id: destinationId },
-    select: { id: true, isActive: true },
-  });
+  await assertDestinationAvailable(destinationId);
 
-  if (!destination || destination.isActive === false) {
-    throw new ApiError('Invalid destination', HttpStatus.BAD_REQUEST);
-  }
+  // Generate unique reference number
+  const referenceNumber = `PT-${Date.now()}-${Math.random().toString(36).substring(7).toUpperCase()}`;
 
-  // Check payment status for CLIENT users (AGENT and ADMIN bypass payment requirement)
-  if (!shouldBypassPayment(req.user.role)) {
-    const user = await prisma.user.findUnique({
-      where: { id: req.user.userId },
-      select: { hasPaid: true },
+  if (isDraft) {
+    if (req.user.role !== 'CLIENT') {
+      throw new ApiError('Only clients can save draft applications', HttpStatus.FORBIDDEN);
+    }
+    if (formData != null && (typeof formData !== 'object' || Array.isArray(formData))) {
+      throw new ApiError('formData must be an object', HttpStatus.BAD_REQUEST);
+    }
+
+    // Partial answers are kept as typed - they are validated on submission
+    const draft = await prisma.case.create({
+      data: {
+        referenceNumber,
+        serviceType,
+        priority: priority || 'NORMAL',
+        status: 'DRAFT',
+        clientId: req.user.userId,
+        destinationId,
+        draftExpiresAt: getDraftExpiry(),
+        ...(formData && {
+          formData: { create: { data: formData as Prisma.InputJsonValue } },
+        }),
+      },
+      include: { formData: true },
     });
 
-    if (!user) {
-      throw new ApiError('User not found', HttpStatus.NOT_FOUND);
-    }
+    logger.info('Draft case created', {
+      caseId: draft.id,
+      userId: req.user.userId,
+      referenceNumber,
+    });
 
-    if (!user.hasPaid) {
-      logger.warn('Case creation blocked - user has not paid', {
-        userId: req.user.userId,
-        role: req.user.role,
-      });
-      throw new ApiError(
-        'Payment required. Please complete your subscription payment before submitting a case.',
-        HttpStatus.FORBIDDEN
-      );
-    }
+    return successResponse({ case: draft }, 'Draft saved', HttpStatus.CREATED);
   }
 
-  // Generate unique reference number
-  const referenceNumber = `PT-${Date.now()}-${Math.random().toString(36).substring(7).toUpperCase()}`;
+  // Check payment status for CLIENT users (AGENT and ADMIN bypass payment requirement)
+  await assertCanSubmitCase(req.user);
+
+  // Answers are checked against the intake form configured for the service type / destination
+  // Field errors are returned in `errors`, keyed by field
+  const intake = await validateCaseIntake(serviceType, destinationId, formData);
 
   // Create case
   const newCase = await prisma.case.create({
@@ -318,6 +342,11 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       status: 'SUBMITTED',
       clientId: req.user.userId,
       destinationId,
+      ...(intake && {
+        formData: {
+          create: { schemaId: intake.schemaId, data: intake.data as Prisma.InputJsonValue },
+        },
+      }),
     },
     include: {
       client: {
@@ -337,118 +366,14 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
     referenceNumber,
   });
 
-  // Send notifications to client and admin
-  try {
-    const clientFullName = `${newCase.client.firstName} ${newCase.client.lastName}`;
-
-    // Get email templates
-    const clientEmailTemplate = getCaseSubmissionConfirmationEmailTemplate({
-      clientName: clientFullName,
-      caseReference: referenceNumber,
-      serviceType,
-      caseId: newCase.id,
-    });
-
-    // Get all admin users for notification
-    // const adminUsers = await prisma.user.findMany({
-    //   where: { role: 'ADMIN', isActive: true },
-    //   select: { id: true, email: true },
-    // });
-
-    const notificationPromises = [
-      // 1. Send confirmation email to CLIENT
-      sendEmail({
-        to: newCase.client.email,
-        subject: clientEmailTemplate.subject,
-        html: clientEmailTemplate.html,
-      }),
-
-      // 2. Send mobile push notification to CLIENT
-      (async () => {
-        let badge: number | undefined;
-        try {
-          const unread = await prisma.notification.count({
-            where: { userId: newCase.clientId, isRead: false },
-          });
-          badge = unread > 0 ? unread : undefined;
-        } catch {}
-        await sendPushNotificationToUser(newCase.clientId, {
-          title: 'Case Submitted',
-          body: `Your case ${referenceNumber} has been submitted.`,
-          data: {
-            type: 'CASE_SUBMITTED',
-            caseId: newCase.id,
-            actionUrl: NOTIFICATION_ACTION_URLS.CASE_SUBMISSION(newCase.id),
-            screen: 'cases',
-            params: { caseId: newCase.id },
-          },
-          badge,
-          channelId: 'cases',
-        });
-      })(),
-
-      // 3. Send realtime notification to CLIENT
-      createRealtimeNotification(newCase.clientId, {
-        type: 'CASE_STATUS_UPDATE',
-        title: 'Case Submitted',
-        message: `Your case ${referenceNumber} has been successfully submitted`,
-        actionUrl: NOTIFICATION_ACTION_URLS.CASE_SUBMISSION(newCase.id),
-      }),
-    ];
-
-    // 4. Notify all ADMIN users (Dashboard + Push only, NO email for scalability)
-    // for (const admin of adminUsers) {
-    //   notificationPromises.push(
-    //     // Send realtime web dashboard notification to admin
-    //     createRealtimeNotification(admin.id, {
-    //       type: 'CASE_STATUS_UPDATE',
-    //       title: 'New Case Submitted',
-    //       message: `${clientFullName} submitted case ${referenceNumber}`,
-    //       actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(newCase.id),
-    //     }),
-
-    //     // Send mobile push notification to admin
-    //     (async () => {
-    //       let badge: number | undefined;
-    //       try {
-    //         const unread = await prisma.notification.count({
-    //           where: { userId: admin.id, isRead: false },
-    //         });
-    //         badge = unread > 0 ? unread : undefined;
-    //       } catch {}
-    //       await sendPushNotificationToUser(admin.id, {
-    //         title: 'New Case Submitted',
-    //         body: `${clientFullName} submitted ${serviceType.replace(/_/g, ' ')} case.`,
-    //         data: {
-    //           type: 'NEW_CASE_ADMIN',
-    //           caseId: newCase.id,
-    //           actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(newCase.id),
-    //           screen: 'cases',
-    //           params: { caseId: newCase.id },
-    //         },
-    //         badge,
-    //         channelId: 'cases',
-    //       });
-    //     })()
-    //   );
-    // }
-
-    await Promise.all(notificationPromises);
-
-    logger.info('Case submission notifications sent', {
-      caseId: newCase.id,
-      clientEmail: newCase.client.email,
-      // adminCount: adminUsers.length,
-    });
-  } catch (error) {
-    logger.error('Failed to send case submission notifications', error, {
-      caseId: newCase.id,
-      clientId: newCase.clientId,
-    });
-    // Don't fail the case creation if notifications fail
-  }
+  // Notify the client, then auto-assign
+  const assignedAgentId = await completeCaseSubmission(newCase);
 
-  return successResponse({ case: newCase }, SUCCESS_MESSAGES.CREATED, HttpStatus.CREATED);
+  return successResponse(
+    { case: { ...newCase, assignedAgentId } },
+    SUCCESS_MESSAGES.CREATED,
+    HttpStatus.CREATED
+  );
 });
 
 // Apply middleware and authentication
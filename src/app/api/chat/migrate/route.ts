@@ -10,6 +10,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { adminDatabase } from '@/lib/firebase/firebase-admin';
 import { getChatRoomIdFromCaseId } from '@/lib/firebase/chat.service.server';
 import type { Database } from 'firebase-admin/database';
@@ -27,10 +28,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
     throw new ApiError('Unauthorized', HttpStatus.UNAUTHORIZED);
   }
 
-  // Only allow admins to run migration
-  if (req.user.role !== 'ADMIN') {
-    throw new ApiError('Only admins can run chat migration', HttpStatus.FORBIDDEN);
-  }
+  await requirePermission(req.user, 'system.maintenance');
 
   if (!adminDatabase) {
     throw new ApiError('Firebase Admin not initialized', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -6,6 +6,7 @@
 
 import { NextRequest } from 'next/server';
 import { uploadToCloudinary, isCloudinaryConfigured } from '@/lib/cloudinary/config';
+import { inferStorageLocation, recordUploadOwner } from '@/lib/storage';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
@@ -117,6 +118,12 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       resourceType,
     });
 
+    // Lets the mobile app attach the file to a document afterwards
+    const location = inferStorageLocation(uploadResult.secure_url);
+    if (location) {
+      await recordUploadOwner(location, req.user.userId);
+    }
+
     logger.info('File uploaded successfully to Cloudinary', {
       userId: req.user.userId,
       publicId: uploadResult.public_id,
@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Agent Coverage
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processAgentCoverage } from '@/lib/cron/agent-coverage-handler';
+
+export const GET = createCronRoute({
+  run: processAgentCoverage,
+  successMessage: 'Agent coverage processing completed',
+  errorMessage: 'Failed to process agent coverage',
+});
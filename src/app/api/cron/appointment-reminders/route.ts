@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Appointment Reminders
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processAppointmentReminders } from '@/lib/cron/appointment-reminders-handler';
+
+export const GET = createCronRoute({
+  run: processAppointmentReminders,
+  successMessage: 'Appointment reminders completed',
+  errorMessage: 'Failed to process appointment reminders',
+});
@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Case Drafts
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processExpiredCaseDrafts } from '@/lib/cron/case-drafts-handler';
+
+export const GET = createCronRoute({
+  run: processExpiredCaseDrafts,
+  successMessage: 'Case drafts cleanup completed',
+  errorMessage: 'Failed to clean up case drafts',
+});
@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Document Expiry Reminders
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processDocumentExpiryReminders } from '@/lib/cron/document-expiry-handler';
+
+export const GET = createCronRoute({
+  run: processDocumentExpiryReminders,
+  successMessage: 'Document expiry reminders completed',
+  errorMessage: 'Failed to process document expiry reminders',
+});
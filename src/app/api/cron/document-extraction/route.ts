@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Document Extraction
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processDocumentExtractions } from '@/lib/cron/document-extraction-handler';
+
+export const GET = createCronRoute({
+  run: processDocumentExtractions,
+  successMessage: 'Document extraction processing completed',
+  errorMessage: 'Failed to process document extraction',
+});
@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Login Lockouts
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processLoginLockouts } from '@/lib/cron/login-lockouts-handler';
+
+export const GET = createCronRoute({
+  run: processLoginLockouts,
+  successMessage: 'Login lockouts released',
+  errorMessage: 'Failed to release login lockouts',
+});
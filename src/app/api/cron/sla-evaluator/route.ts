@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - SLA Evaluator
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processSlaEvaluation } from '@/lib/cron/sla-evaluator-handler';
+
+export const GET = createCronRoute({
+  run: processSlaEvaluation,
+  successMessage: 'SLA evaluation completed',
+  errorMessage: 'Failed to evaluate case SLAs',
+});
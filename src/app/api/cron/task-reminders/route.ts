@@ -0,0 +1,11 @@
+// Manual Trigger Endpoint - Task Reminders
+// The actual cron job runs automatically via the custom cron service
+
+import { createCronRoute } from '@/lib/cron/cron-route';
+import { processTaskReminders } from '@/lib/cron/task-reminders-handler';
+
+export const GET = createCronRoute({
+  run: processTaskReminders,
+  successMessage: 'Task reminders completed',
+  errorMessage: 'Failed to send task reminders',
+});
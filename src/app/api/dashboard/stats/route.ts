@@ -10,6 +10,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { SUBMITTED_CASES_FILTER } from '@/lib/services/case-submission.service';
 
 // Terminal case statuses (end states)
 const TERMINAL_STATUSES: ('APPROVED' | 'REJECTED' | 'CLOSED')[] = [
@@ -111,11 +112,11 @@ const handler = asyncHandler(async (request: NextRequest) => {
       totalDocuments,
     ] = await Promise.all([
       // Total cases
-      prisma.case.count({}),
+      prisma.case.count({ where: SUBMITTED_CASES_FILTER }),
 
       // Active cases (not in terminal status)
       prisma.case.count({
-        where: { status: { notIn: TERMINAL_STATUSES } },
+        where: { ...SUBMITTED_CASES_FILTER, status: { notIn: TERMINAL_STATUSES } },
       }),
 
       // Completed cases
@@ -125,12 +126,12 @@ const handler = asyncHandler(async (request: NextRequest) => {
 
       // Unassigned cases
       prisma.case.count({
-        where: { assignedAgentId: null },
+        where: { ...SUBMITTED_CASES_FILTER, assignedAgentId: null },
       }),
 
       // Pending documents (all documents awaiting review)
       prisma.document.count({
-        where: { status: 'PENDING' },
+        where: { status: 'PENDING', case: SUBMITTED_CASES_FILTER },
       }),
 
       // Total documents in system
@@ -9,6 +9,7 @@ import { successResponse } from '@/lib/utils/api-response';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 
 // Validation schema for updating destinations
 const updateDestinationSchema = z.object({
@@ -68,9 +69,7 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
-  if (req.user.role !== 'ADMIN') {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-  }
+  await requirePermission(req.user, 'destination.manage');
 
   const { id } = await context.params;
   const body = await request.json();
@@ -154,9 +153,7 @@ const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteCo
     throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
-  if (req.user.role !== 'ADMIN') {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-  }
+  await requirePermission(req.user, 'destination.manage');
 
   const { id } = await context.params;
 
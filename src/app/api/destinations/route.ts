@@ -58,7 +58,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   return successResponse(destinations);
 });
 
-// POST /api/destinations - Create new destination (ADMIN only)
+// POST /api/destinations - Create new destination (destination.manage)
 const postHandler = asyncHandler(async (request: NextRequest, userId: string) => {
   const body = await request.json();
 
@@ -121,8 +121,11 @@ const postHandler = asyncHandler(async (request: NextRequest, userId: string) =>
   return successResponse(destination, 'Destination created successfully', HttpStatus.CREATED);
 });
 
-// Apply middleware - GET is public, POST requires ADMIN role
+// Apply middleware - GET is public, POST requires destination.manage
 export const GET = withCorsMiddleware(getHandler);
 export const POST = async (req: NextRequest, context?: unknown) => {
-  return withCorsMiddleware(await withRoleGuard(postHandler, ['ADMIN']))(req, context);
+  return withCorsMiddleware(await withRoleGuard(postHandler, undefined, 'destination.manage'))(
+    req,
+    context
+  );
 };
@@ -9,8 +9,11 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { sendDocumentVerifiedEmail } from '@/lib/notifications/email.service';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { documentValiditySchema } from '@/lib/utils/validation';
+import { PRIVATE_DOCUMENT_FIELDS } from '@/lib/storage';
 
 const handler = asyncHandler(
   async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
@@ -21,13 +24,23 @@ const handler = asyncHandler(
       throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
     }
 
-    if (!['AGENT', 'ADMIN'].includes(req.user.role)) {
-      throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+    await requirePermission(req.user, 'document.approve');
+
+    // Body is optional - agents may record validity dates while approving
+    const body = await request.json().catch(() => ({}));
+    const validity = documentValiditySchema.safeParse({
+      issuedAt: body.issuedAt,
+      expiresAt: body.expiresAt,
+    });
+    if (!validity.success) {
+      const errors = validity.error.issues.map((err) => err.message).join(', ');
+      throw new ApiError(errors, HttpStatus.BAD_REQUEST);
     }
 
     // First, fetch the document to check existence and current status
     const existingDocument = await prisma.document.findUnique({
       where: { id: params.id },
+      omit: PRIVATE_DOCUMENT_FIELDS,
       include: {
         case: { include: { client: true } },
       },
@@ -51,6 +64,10 @@ const handler = asyncHandler(
       throw new ApiError('Cannot approve a rejected document', HttpStatus.BAD_REQUEST);
     }
 
+    if (existingDocument.status === 'QUARANTINED') {
+      throw new ApiError('Cannot approve a quarantined document', HttpStatus.BAD_REQUEST);
+    }
+
     // Update only if status is PENDING
     const document = await prisma.document.update({
       where: {
@@ -61,7 +78,14 @@ const handler = asyncHandler(
         status: 'APPROVED',
         verifiedBy: req.user.userId,
         verifiedAt: new Date(),
+        // Only overwrite validity dates the agent actually provided
+        ...(validity.data.issuedAt !== undefined && { issuedAt: validity.data.issuedAt }),
+        ...(validity.data.expiresAt !== undefined && {
+          expiresAt: validity.data.expiresAt,
+          expiryReminderSentAt: null,
+        }),
       },
+      omit: PRIVATE_DOCUMENT_FIELDS,
       include: {
         case: { include: { client: true } },
       },
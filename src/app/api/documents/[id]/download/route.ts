@@ -0,0 +1,122 @@
+// GET /api/documents/[id]/download - Short-lived signed link to a document file
+// Redirects to the signed URL; with ?redirect=false returns { url, expiresAt } instead so
+// browsers (which cannot follow a redirect with a bearer token) can open it themselves.
+// Access: the case client, the assigned or covering agent, and admins (only admins for
+// quarantined documents)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+import { canClientViewDocument, isGroupCaseHandler } from '@/lib/services/case-group.service';
+import { getStorageDriver, resolveStorageLocation, SIGNED_URL_TTL_SECONDS } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  const document = await prisma.document.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      originalName: true,
+      status: true,
+      filePath: true,
+      storageProvider: true,
+      storageKey: true,
+      sharedWithGroup: true,
+      case: {
+        select: {
+          id: true,
+          referenceNumber: true,
+          clientId: true,
+          assignedAgentId: true,
+          coveringAgentId: true,
+          groupId: true,
+        },
+      },
+    },
+  });
+
+  if (!document) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const { role, userId } = req.user;
+  const hasAccess =
+    role === 'ADMIN' ||
+    (role === 'CLIENT' &&
+      (document.case.clientId === userId || (await canClientViewDocument(id, userId)))) ||
+    (role === 'AGENT' &&
+      (isCaseHandler(document.case, userId) ||
+        (document.sharedWithGroup &&
+          document.case.groupId !== null &&
+          (await isGroupCaseHandler(document.case.groupId, userId)))));
+
+  if (!hasAccess) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  // Quarantined files stay closed until an admin rescans them
+  if (document.status === 'QUARANTINED' && role !== 'ADMIN') {
+    throw new ApiError(
+      'This document is quarantined pending a security review',
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  // Files hosted somewhere no driver knows about cannot be signed, so they are never served
+  const location = resolveStorageLocation(document);
+  if (!location) {
+    logger.warn('Document download refused - unknown storage location', { documentId: id });
+    throw new ApiError('Document file location is unknown', HttpStatus.CONFLICT);
+  }
+
+  const url = await getStorageDriver(location.provider).getSignedUrl(location.key, {
+    expiresIn: SIGNED_URL_TTL_SECONDS,
+    downloadName: document.originalName,
+  });
+
+  const { searchParams } = new URL(request.url);
+
+  await prisma.activityLog.create({
+    data: {
+      userId,
+      action: 'DOCUMENT_DOWNLOADED',
+      description: `Downloaded ${document.originalName} (case ${document.case.referenceNumber})`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { documentId: id, caseId: document.case.id, provider: location.provider },
+    },
+  });
+
+  logger.info('Document download link issued', { documentId: id, userId });
+
+  if (searchParams.get('redirect') === 'false') {
+    return successResponse({
+      url,
+      expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString(),
+    });
+  }
+
+  return NextResponse.redirect(new URL(url, request.url));
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
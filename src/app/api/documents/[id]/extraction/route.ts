@@ -0,0 +1,127 @@
+// GET /api/documents/[id]/extraction - Passport / ID card data read from the scan
+// PATCH /api/documents/[id]/extraction - Correct the extracted fields and mark them reviewed
+// POST /api/documents/[id]/extraction - Run the extraction again
+// Access: the assigned or covering agent, and admins
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { isCaseHandler } from '@/lib/services/agent-absence.service';
+import {
+  retryDocumentExtraction,
+  reviewDocumentExtraction,
+} from '@/lib/services/document-extraction.service';
+
+// Calendar dates only - an impossible date must be rejected, not stored as "no date"
+const isoDate = z.iso.date({ error: 'Dates must be valid YYYY-MM-DD dates' }).nullable();
+const text = z.string().trim().max(100).nullable();
+
+const reviewExtractionSchema = z
+  .object({
+    surname: text.optional(),
+    givenNames: text.optional(),
+    documentNumber: text.optional(),
+    nationality: text.optional(),
+    issuingCountry: text.optional(),
+    dateOfBirth: isoDate.optional(),
+    sex: z.enum(['M', 'F', 'X']).nullable().optional(),
+    expiryDate: isoDate.optional(),
+    personalNumber: text.optional(),
+  })
+  .strict();
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load the document's case and check the user may work on its extraction
+ */
+async function assertExtractionAccess(req: AuthenticatedRequest, documentId: string) {
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { case: { select: { assignedAgentId: true, coveringAgentId: true } } },
+  });
+
+  if (!document) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const { role, userId } = req.user;
+  if (role !== 'ADMIN' && !(role === 'AGENT' && isCaseHandler(document.case, userId))) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  return req.user;
+}
+
+const getHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+  await assertExtractionAccess(req, id);
+
+  const extraction = await prisma.documentExtraction.findUnique({
+    where: { documentId: id },
+  });
+
+  return successResponse({ extraction });
+});
+
+const patchHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+  const user = await assertExtractionAccess(req, id);
+
+  const body = await request.json();
+  const validationResult = reviewExtractionSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const extraction = await reviewDocumentExtraction(id, validationResult.data, user.userId);
+
+  return successResponse({ extraction }, 'Extracted data reviewed');
+});
+
+const postHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+  const { id } = await context.params;
+  const user = await assertExtractionAccess(req, id);
+
+  const extraction = await retryDocumentExtraction(id);
+
+  logger.info('Document extraction re-run', {
+    documentId: id,
+    status: extraction.status,
+    userId: user.userId,
+  });
+
+  return successResponse(
+    { extraction },
+    extraction.status === 'COMPLETED' ? 'Extraction completed' : 'Extraction failed'
+  );
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(patchHandler), RateLimitPresets.STANDARD)
+);
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(postHandler), RateLimitPresets.STANDARD)
+);
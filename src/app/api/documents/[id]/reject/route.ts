@@ -10,12 +10,15 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { sendDocumentRejectedEmail } from '@/lib/notifications/email.service';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { escapeHtml } from '@/lib/utils/helpers';
+import { PRIVATE_DOCUMENT_FIELDS } from '@/lib/storage';
 
 // Type for document with case and client included
 type DocumentWithCase = Prisma.DocumentGetPayload<{
+  omit: typeof PRIVATE_DOCUMENT_FIELDS;
   include: {
     case: {
       include: {
@@ -35,9 +38,7 @@ const handler = asyncHandler(
       throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
     }
 
-    if (!['AGENT', 'ADMIN'].includes(req.user.role)) {
-      throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-    }
+    await requirePermission(req.user, 'document.approve');
 
     const body = await request.json();
     let reason = String(body.reason).trim();
@@ -55,6 +56,7 @@ const handler = asyncHandler(
     // First, fetch the document to check existence and current status
     const existingDocument: DocumentWithCase | null = await prisma.document.findUnique({
       where: { id: params.id },
+      omit: PRIVATE_DOCUMENT_FIELDS,
       include: {
         case: { include: { client: true } },
       },
@@ -108,11 +110,25 @@ const handler = asyncHandler(
         status: 'REJECTED',
         rejectionReason: reason,
       },
+      omit: PRIVATE_DOCUMENT_FIELDS,
       include: {
         case: { include: { client: true } },
       },
     });
 
+    // The reason opens the document's review thread so the client can reply to it
+    try {
+      await prisma.documentComment.create({
+        data: {
+          documentId: params.id,
+          authorId: req.user.userId,
+          content: String(body.reason).trim(),
+        },
+      });
+    } catch (commentError) {
+      logger.warn('Failed to add rejection comment', commentError);
+    }
+
     // Send email notification
     if (document.case && document.case.client) {
       const client = document.case.client;
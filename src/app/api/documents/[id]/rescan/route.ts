@@ -0,0 +1,45 @@
+// POST /api/documents/[id]/rescan - Run the virus scanner again on a quarantined document (Admin only)
+// Clean documents are released back to PENDING for review
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { rescanQuarantinedDocument } from '@/lib/services/document-inspection.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'document.rescan');
+
+  const { id } = await context.params;
+  const { document, scan } = await rescanQuarantinedDocument(id);
+
+  logger.info('Document rescan requested', {
+    documentId: id,
+    status: document.status,
+    userId: req.user.userId,
+  });
+
+  return successResponse(
+    { document, scan },
+    document.status === 'QUARANTINED' ? 'Document is still quarantined' : 'Document released'
+  );
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
@@ -0,0 +1,174 @@
+// POST /api/documents/[id]/resubmit - Upload a new version of a rejected or quarantined document
+// The new document supersedes the rejected one; the rejection reason stays on the old version
+// Actual file upload is handled by UploadThing or POST /api/documents/upload
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { Prisma } from '@prisma/client';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { documentValiditySchema } from '@/lib/utils/validation';
+import { inferStorageLocation, isOwnedUpload, PRIVATE_DOCUMENT_FIELDS } from '@/lib/storage';
+import { inspectUploadedDocument } from '@/lib/services/document-inspection.service';
+import { queueDocumentExtraction } from '@/lib/services/document-extraction.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  const body = await request.json();
+  const { fileName, originalName, filePath, mimeType } = body;
+
+  // Validation
+  if (!fileName || !filePath || !mimeType) {
+    throw new ApiError('fileName, filePath and mimeType are required', HttpStatus.BAD_REQUEST);
+  }
+
+  // Optional validity dates (passports, bank statements...)
+  const validity = documentValiditySchema.safeParse({
+    issuedAt: body.issuedAt,
+    expiresAt: body.expiresAt,
+  });
+  if (!validity.success) {
+    const errors = validity.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  // Remember which backend holds the file so it can be inspected, signed and deleted later
+  const storageLocation = inferStorageLocation(filePath);
+  if (!storageLocation) {
+    throw new ApiError(
+      'File must be uploaded through the document uploader',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+  if (!(await isOwnedUpload(storageLocation, req.user.userId))) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  const previous = await prisma.document.findUnique({
+    where: { id },
+    include: {
+      case: { select: { id: true, clientId: true, assignedAgentId: true, referenceNumber: true } },
+      supersededBy: { select: { id: true } },
+    },
+  });
+
+  if (!previous) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (req.user.role === 'CLIENT' && previous.case.clientId !== req.user.userId) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (previous.status !== 'REJECTED' && previous.status !== 'QUARANTINED') {
+    throw new ApiError(
+      `Cannot resubmit document with status '${previous.status}'. Only rejected or quarantined documents can be resubmitted.`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  if (previous.supersededBy) {
+    throw new ApiError('This document has already been resubmitted', HttpStatus.CONFLICT, {
+      latestVersionId: previous.supersededBy.id,
+    });
+  }
+
+  // Content checks, metadata stripping and virus scan - before agents can open the file
+  const inspected = await inspectUploadedDocument({
+    filePath,
+    location: storageLocation,
+    mimeType,
+    fileName,
+    userId: req.user.userId,
+  });
+
+  let document;
+  try {
+    document = await prisma.document.create({
+      data: {
+        fileName,
+        originalName: originalName || fileName,
+        filePath: inspected.filePath,
+        storageProvider: inspected.storageProvider,
+        storageKey: inspected.storageKey,
+        fileSize: inspected.fileSize,
+        status: inspected.status,
+        quarantineReason: inspected.quarantineReason,
+        scannedAt: inspected.scannedAt,
+        mimeType,
+        documentType: previous.documentType,
+        caseId: previous.caseId,
+        uploadedById: req.user.userId,
+        issuedAt: validity.data.issuedAt ?? null,
+        expiresAt: validity.data.expiresAt ?? null,
+        version: previous.version + 1,
+        supersedesId: previous.id,
+      },
+      omit: PRIVATE_DOCUMENT_FIELDS,
+      include: {
+        case: {
+          select: {
+            id: true,
+            referenceNumber: true,
+            serviceType: true,
+          },
+        },
+      },
+    });
+  } catch (error) {
+    // Unique constraint on supersedesId - a concurrent resubmission won the race
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApiError('This document has already been resubmitted', HttpStatus.CONFLICT);
+    }
+    throw error;
+  }
+
+  // Passport / ID card data is read by the extraction cron
+  await queueDocumentExtraction(document).catch((error) => {
+    logger.warn('Failed to queue document extraction', { error, documentId: document.id });
+  });
+
+  // Let the assigned agent know a new version is waiting for review
+  if (previous.case.assignedAgentId && document.status !== 'QUARANTINED') {
+    try {
+      await createRealtimeNotification(previous.case.assignedAgentId, {
+        type: 'DOCUMENT_UPLOADED',
+        title: 'Document Resubmitted',
+        message: `${document.originalName} was resubmitted (version ${document.version}) for case ${previous.case.referenceNumber}`,
+        actionUrl: `/dashboard/cases/${previous.caseId}`,
+      });
+    } catch (notifError) {
+      logger.warn('Failed to send realtime notification', notifError);
+    }
+  }
+
+  logger.info('Document resubmitted', {
+    documentId: document.id,
+    supersedesId: previous.id,
+    version: document.version,
+    userId: req.user.userId,
+  });
+
+  return successResponse({ document }, 'Document resubmitted successfully', HttpStatus.CREATED);
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
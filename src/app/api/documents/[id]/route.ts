@@ -10,9 +10,8 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
-import { UTApi } from 'uploadthing/server';
-
-const utapi = new UTApi();
+import { getStorageDriver, PRIVATE_DOCUMENT_FIELDS, resolveStorageLocation } from '@/lib/storage';
+import { canClientViewDocument } from '@/lib/services/case-group.service';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -33,6 +32,7 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
 
   const document = await prisma.document.findUnique({
     where: { id },
+    omit: PRIVATE_DOCUMENT_FIELDS,
     include: {
       case: {
         select: {
@@ -58,7 +58,11 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
   }
 
   // Check permissions
-  if (req.user.role === 'CLIENT' && document.uploadedById !== req.user.userId) {
+  if (
+    req.user.role === 'CLIENT' &&
+    document.uploadedById !== req.user.userId &&
+    !(await canClientViewDocument(id, req.user.userId))
+  ) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
@@ -93,42 +97,29 @@ const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteCo
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
-  // Delete file from UploadThing before deleting from database
-  try {
-    // Extract file key from the filePath (UploadThing URL)
-    const url = new URL(document.filePath);
-
-    // Validate hostname is from trusted UploadThing domains
-    if (url.hostname.includes('uploadthing') || url.hostname.includes('utfs.io')) {
-      // Extract file key from pathname (last segment, ignoring query/search)
-      const pathSegments = url.pathname.split('/').filter(Boolean);
-      const fileKey = pathSegments[pathSegments.length - 1];
-
-      if (fileKey) {
-        const deleteResult = await utapi.deleteFiles([fileKey]);
-
-        if (deleteResult.success) {
-          logger.info('Deleted file from UploadThing', {
-            documentId: id,
-            fileKey,
-            userId: req.user.userId,
-          });
-        } else {
-          logger.error('Failed to delete file from UploadThing', deleteResult);
-        }
-      }
-    } else {
-      logger.warn('Skipping file deletion - file path is not from trusted UploadThing domain', {
+  // Delete the stored file before deleting from database
+  const location = resolveStorageLocation(document);
+  if (location) {
+    try {
+      await getStorageDriver(location.provider).delete(location.key);
+      logger.info('Deleted document file from storage', {
+        documentId: id,
+        provider: location.provider,
+        key: location.key,
+        userId: req.user.userId,
+      });
+    } catch (fileDeleteError) {
+      // Log error but don't fail the request - we still want to delete the DB record
+      logger.error('Error deleting document file from storage', {
+        error: fileDeleteError,
         documentId: id,
-        hostname: url.hostname,
+        provider: location.provider,
+        userId: req.user.userId,
       });
     }
-  } catch (fileDeleteError) {
-    // Log error but don't fail the request - we still want to delete the DB record
-    logger.error('Error deleting file from UploadThing', {
-      error: fileDeleteError,
+  } else {
+    logger.warn('Skipping file deletion - file path is not from a known storage backend', {
       documentId: id,
-      userId: req.user.userId,
     });
   }
 
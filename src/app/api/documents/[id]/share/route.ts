@@ -0,0 +1,46 @@
+// PATCH /api/documents/[id]/share - Share a document with every case of its case group
+// (e.g. a marriage certificate uploaded once for the whole family)
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { setDocumentSharedWithGroup } from '@/lib/services/case-group.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const shareSchema = z.object({
+  shared: z.boolean(),
+});
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+  const validation = shareSchema.safeParse(await request.json());
+
+  if (!validation.success) {
+    throw new ApiError('shared must be a boolean', HttpStatus.BAD_REQUEST);
+  }
+
+  const document = await setDocumentSharedWithGroup(id, validation.data.shared, req.user);
+
+  return successResponse(
+    { document },
+    document.sharedWithGroup ? 'Document shared with the group' : 'Document no longer shared'
+  );
+});
+
+export const PATCH = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
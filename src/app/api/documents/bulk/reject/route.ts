@@ -0,0 +1,61 @@
+// POST /api/documents/bulk/reject - Bulk reject documents with per-document reasons (AGENT/ADMIN only)
+// Each client gets a single email listing all of their rejected documents
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { rejectDocuments } from '@/lib/services/document-review.service';
+
+const bulkRejectSchema = z.object({
+  rejections: z
+    .array(
+      z.object({
+        documentId: z.string().min(1, 'Document ID is required'),
+        reason: z
+          .string()
+          .trim()
+          .min(1, 'Rejection reason is required')
+          .max(500, 'Rejection reason must be up to 500 characters'),
+      })
+    )
+    .min(1, 'At least one rejection is required')
+    .max(100, 'Up to 100 documents can be rejected at once')
+    .refine(
+      (rejections) => new Set(rejections.map((r) => r.documentId)).size === rejections.length,
+      'Each document can only be rejected once'
+    ),
+});
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'document.approve');
+
+  const body = await request.json();
+  const validationResult = bulkRejectSchema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  const result = await rejectDocuments(validationResult.data.rejections, req.user);
+
+  return successResponse(
+    { count: result.rejected.length, ...result },
+    `${result.rejected.length} documents rejected`
+  );
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
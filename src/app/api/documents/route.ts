@@ -1,10 +1,10 @@
 // Documents API Routes - GET (list) and POST (create metadata)
 // Compatible with both web and mobile clients
-// Actual file upload is handled by UploadThing
+// Actual file upload is handled by UploadThing or POST /api/documents/upload
 
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { DocumentType, DocumentStatus } from '@prisma/client';
+import { DocumentType, DocumentStatus, Prisma } from '@prisma/client';
 import { ERROR_MESSAGES, SUCCESS_MESSAGES, PAGINATION } from '@/lib/constants';
 import { logger } from '@/lib/utils/logger';
 import { successResponse } from '@/lib/utils/api-response';
@@ -12,6 +12,16 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { documentValiditySchema } from '@/lib/utils/validation';
+import { inferStorageLocation, isOwnedUpload, PRIVATE_DOCUMENT_FIELDS } from '@/lib/storage';
+import { inspectUploadedDocument } from '@/lib/services/document-inspection.service';
+import { queueDocumentExtraction } from '@/lib/services/document-extraction.service';
+import { SUBMITTED_CASES_FILTER } from '@/lib/services/case-submission.service';
+import {
+  canClientManageCase,
+  caseDocumentsFilter,
+  clientDocumentsFilter,
+} from '@/lib/services/case-group.service';
 
 // GET /api/documents - List all documents (with filters)
 const getHandler = asyncHandler(async (request: NextRequest) => {
@@ -26,6 +36,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const type = searchParams.get('type'); // DocumentType enum (PASSPORT, ID_CARD, etc.)
   const extensionType = searchParams.get('extensionType'); // ALL, PDF, IMAGE, DOC, DOCX, XLS, XLSX
   const status = searchParams.get('status'); // ALL, PENDING, APPROVED, REJECTED
+  const latestOnly = searchParams.get('latestOnly') === 'true'; // Hide superseded versions
   const pageParam = searchParams.get('page');
   const limitParam = searchParams.get('limit');
 
@@ -47,12 +58,29 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const where: any = {};
 
   // Role-based filtering
+  const filters: Prisma.DocumentWhereInput[] = [];
   if (req.user.role === 'CLIENT') {
-    where.uploadedById = req.user.userId;
+    filters.push(clientDocumentsFilter(req.user.userId));
+  } else {
+    // Documents attached to a draft stay private until the case is submitted
+    where.case = SUBMITTED_CASES_FILTER;
   }
 
+  // A grouped case also lists the documents shared by the rest of its family group
   if (caseId) {
-    where.caseId = caseId;
+    const caseGroup = await prisma.case.findUnique({
+      where: { id: caseId },
+      select: { groupId: true },
+    });
+    filters.push(caseDocumentsFilter(caseId, caseGroup?.groupId));
+  }
+
+  if (filters.length > 0) {
+    where.AND = filters;
+  }
+
+  if (latestOnly) {
+    where.supersededBy = { is: null };
   }
 
   // Filter by DocumentType enum (PASSPORT, ID_CARD, etc.)
@@ -117,6 +145,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   const [documents, total] = await Promise.all([
     prisma.document.findMany({
       where,
+      omit: PRIVATE_DOCUMENT_FIELDS,
       include: {
         case: {
           select: {
@@ -169,7 +198,8 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
   }
 
   const body = await request.json();
-  const { fileName, originalName, filePath, fileSize, mimeType, documentType, caseId } = body;
+  const { fileName, originalName, filePath, mimeType, documentType, caseId, sharedWithGroup } =
+    body;
 
   // Validation
   if (!fileName || !filePath || !mimeType || !documentType || !caseId) {
@@ -179,31 +209,73 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
     );
   }
 
+  // Optional validity dates (passports, bank statements...)
+  const validity = documentValiditySchema.safeParse({
+    issuedAt: body.issuedAt,
+    expiresAt: body.expiresAt,
+  });
+  if (!validity.success) {
+    const errors = validity.error.issues.map((err) => err.message).join(', ');
+    throw new ApiError(errors, HttpStatus.BAD_REQUEST);
+  }
+
+  // Remember which backend holds the file so it can be inspected, signed and deleted later
+  const storageLocation = inferStorageLocation(filePath);
+  if (!storageLocation) {
+    throw new ApiError(
+      'File must be uploaded through the document uploader',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+  if (!(await isOwnedUpload(storageLocation, req.user.userId))) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
   // Verify case exists and access
   const caseData = await prisma.case.findUnique({
     where: { id: caseId },
+    include: { group: { select: { principalCase: { select: { clientId: true } } } } },
   });
 
-  if (!caseData) {
+  if (!caseData || (caseData.status === 'DRAFT' && caseData.clientId !== req.user.userId)) {
     throw new ApiError('Case not found', HttpStatus.NOT_FOUND);
   }
 
-  if (req.user.role === 'CLIENT' && caseData.clientId !== req.user.userId) {
+  // The principal client of a family group uploads for the dependants too
+  if (req.user.role === 'CLIENT' && !canClientManageCase(caseData, req.user.userId)) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
+  // Content checks, metadata stripping and virus scan - before agents can open the file
+  const inspected = await inspectUploadedDocument({
+    filePath,
+    location: storageLocation,
+    mimeType,
+    fileName,
+    userId: req.user.userId,
+  });
+
   // Create document record
   const document = await prisma.document.create({
     data: {
       fileName,
       originalName: originalName || fileName,
-      filePath,
-      fileSize: fileSize || 0,
+      filePath: inspected.filePath,
+      storageProvider: inspected.storageProvider,
+      storageKey: inspected.storageKey,
+      fileSize: inspected.fileSize,
+      status: inspected.status,
+      quarantineReason: inspected.quarantineReason,
+      scannedAt: inspected.scannedAt,
       mimeType,
       documentType,
       caseId,
       uploadedById: req.user.userId,
+      issuedAt: validity.data.issuedAt ?? null,
+      expiresAt: validity.data.expiresAt ?? null,
+      sharedWithGroup: sharedWithGroup === true && caseData.groupId !== null,
     },
+    omit: PRIVATE_DOCUMENT_FIELDS,
     include: {
       case: {
         select: {
@@ -215,6 +287,11 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
     },
   });
 
+  // Passport / ID card data is read by the extraction cron
+  await queueDocumentExtraction(document).catch((error) => {
+    logger.warn('Failed to queue document extraction', { error, documentId: document.id });
+  });
+
   logger.info('Document metadata saved', {
     documentId: document.id,
     userId: req.user.userId,
@@ -0,0 +1,102 @@
+// POST /api/documents/upload - Store a document file with the configured storage backend
+// Returns the storage fields to send along with the metadata to POST /api/documents.
+// Used when STORAGE_PROVIDER is local or s3, where the browser cannot upload directly
+
+import { NextRequest } from 'next/server';
+import { ERROR_MESSAGES, FILE_UPLOAD } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  buildStorageKey,
+  DOCUMENT_KEY_PREFIX,
+  getStorageDriver,
+  recordUploadOwner,
+} from '@/lib/storage';
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    throw new ApiError(
+      'Invalid request format. Expected multipart/form-data.',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const file = formData.get('file');
+
+  if (!(file instanceof File)) {
+    throw new ApiError(
+      'No file provided. Please include a file in the "file" field.',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  if (file.size > FILE_UPLOAD.MAX_SIZE) {
+    throw new ApiError(
+      `File size exceeds maximum allowed size of ${FILE_UPLOAD.MAX_SIZE / 1024 / 1024}MB`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  if (!FILE_UPLOAD.ALLOWED_DOCUMENT_TYPES.includes(file.type)) {
+    throw new ApiError(`File type "${file.type}" is not allowed`, HttpStatus.BAD_REQUEST);
+  }
+
+  const driver = getStorageDriver();
+  const body = Buffer.from(await file.arrayBuffer());
+
+  let stored;
+  try {
+    stored = await driver.put(
+      buildStorageKey(DOCUMENT_KEY_PREFIX, req.user.userId, file.name),
+      body,
+      { contentType: file.type, fileName: file.name }
+    );
+  } catch (error) {
+    logger.error('Document upload failed', {
+      error,
+      provider: driver.provider,
+      userId: req.user.userId,
+      fileName: file.name,
+    });
+    throw new ApiError('Failed to store file', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  await recordUploadOwner({ provider: driver.provider, key: stored.key }, req.user.userId);
+
+  logger.info('Document file stored', {
+    provider: driver.provider,
+    key: stored.key,
+    size: stored.size,
+    userId: req.user.userId,
+  });
+
+  return successResponse(
+    {
+      filePath: stored.url,
+      storageProvider: driver.provider,
+      storageKey: stored.key,
+      fileName: file.name,
+      fileSize: stored.size,
+      mimeType: file.type,
+    },
+    'File uploaded successfully',
+    HttpStatus.CREATED
+  );
+});
+
+export const POST = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.UPLOAD)
+);
@@ -4,6 +4,10 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { adminAuth } from '@/lib/firebase/firebase-admin';
+import { getTokenUser } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { assertTwoFactorSatisfied } from '@/lib/services/two-factor.service';
+import { trackSession } from '@/lib/services/session.service';
 import { logger } from '@/lib/utils/logger';
 import { successResponse } from '@/lib/utils/api-response';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
@@ -25,9 +29,10 @@ async function verifyAdmin(request: NextRequest) {
   const token = authHeader.split('Bearer ')[1];
   const decodedToken = await adminAuth.verifyIdToken(token);
 
-  if (decodedToken.role !== 'ADMIN') {
-    throw new ApiError('Forbidden - Admin access required', HttpStatus.FORBIDDEN);
-  }
+  const tokenUser = getTokenUser(decodedToken);
+  await trackSession(tokenUser.userId, decodedToken.auth_time, request);
+  await assertTwoFactorSatisfied(tokenUser, decodedToken.auth_time);
+  await requirePermission(tokenUser, 'faq.manage');
 
   return decodedToken;
 }
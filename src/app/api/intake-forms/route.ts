@@ -0,0 +1,45 @@
+// GET /api/intake-forms?serviceType=...&destinationId=... - Intake form a new case must fill in
+// Returns null when no form is configured, in which case no answers are required
+
+import { NextRequest } from 'next/server';
+import { ServiceType } from '@prisma/client';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getActiveIntakeForm } from '@/lib/services/intake-form.service';
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const serviceType = searchParams.get('serviceType');
+  const destinationId = searchParams.get('destinationId');
+
+  if (!serviceType || !Object.values(ServiceType).includes(serviceType as ServiceType)) {
+    throw new ApiError('Invalid service type', HttpStatus.BAD_REQUEST);
+  }
+
+  const form = await getActiveIntakeForm(serviceType as ServiceType, destinationId);
+
+  return successResponse({
+    form: form && {
+      id: form.id,
+      serviceType: form.serviceType,
+      destinationId: form.destinationId,
+      version: form.version,
+      title: form.title,
+      definition: form.definition,
+    },
+  });
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
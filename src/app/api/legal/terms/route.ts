@@ -4,6 +4,10 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { adminAuth } from '@/lib/firebase/firebase-admin';
+import { getTokenUser } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { assertTwoFactorSatisfied } from '@/lib/services/two-factor.service';
+import { trackSession } from '@/lib/services/session.service';
 import { successResponse } from '@/lib/utils/api-response';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
@@ -64,9 +68,10 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
 
   const token = authHeader.split('Bearer ')[1];
   const decoded = await adminAuth.verifyIdToken(token);
-  if (decoded.role !== 'ADMIN') {
-    throw new ApiError('Forbidden - Admin access required', HttpStatus.FORBIDDEN);
-  }
+  const tokenUser = getTokenUser(decoded);
+  await trackSession(tokenUser.userId, decoded.auth_time, request);
+  await assertTwoFactorSatisfied(tokenUser, decoded.auth_time);
+  await requirePermission(tokenUser, 'legal.manage');
 
   const body = await request.json();
   const { title, slug, version, content, isActive, publishedAt, language } = body ?? {};
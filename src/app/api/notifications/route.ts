@@ -10,6 +10,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
 import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
 import { sendEmail } from '@/lib/notifications/email.service';
@@ -141,10 +142,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
     throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
-  // Only ADMIN/AGENT can create notifications
-  if (!['ADMIN', 'AGENT'].includes(req.user.role)) {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-  }
+  await requirePermission(req.user, 'notification.broadcast');
 
   const body = await request.json();
   const { userId, title, message, type } = body;
@@ -10,6 +10,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/require-permission';
 import type { PaymentRecord } from '@/lib/types/payments';
 
 // GET /api/payments/history - Get payment history
@@ -26,8 +27,8 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
   // Determine which user's payments to fetch
   let targetUserId: string;
 
-  if (req.user.role === 'ADMIN') {
-    // Admins can view any user's payments if userId is provided
+  if (await hasPermission(req.user, 'payment.manage')) {
+    // Admins (payment.manage) can view any user's payments if userId is provided
     targetUserId = userIdParam || req.user.userId;
   } else {
     // Clients and agents can only view their own payments
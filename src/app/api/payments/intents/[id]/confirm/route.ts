@@ -10,6 +10,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/require-permission';
 import { confirmPaymentIntent, mapStripeStatusToPaymentStatus } from '@/lib/services/stripe';
 import type { PaymentIntent } from '@/lib/types/payments';
 
@@ -51,7 +52,7 @@ const postHandler = asyncHandler(async (request: NextRequest, context: RouteCont
   }
 
   // Check permissions - users can only confirm their own payments
-  if (payment.userId !== req.user.userId && req.user.role !== 'ADMIN') {
+  if (payment.userId !== req.user.userId && !(await hasPermission(req.user, 'payment.manage'))) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
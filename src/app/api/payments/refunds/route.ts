@@ -10,6 +10,8 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/require-permission';
+import { requireRecentTwoFactor } from '@/lib/services/two-factor.service';
 import { createRefund, mapStripeRefundStatusToRefundStatus } from '@/lib/services/stripe';
 import type { RefundResponse } from '@/lib/types/payments';
 
@@ -52,10 +54,15 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
   }
 
   // Check permissions - users can only refund their own payments
-  if (payment.userId !== req.user.userId && req.user.role !== 'ADMIN') {
+  if (payment.userId !== req.user.userId && !(await hasPermission(req.user, 'payment.refund'))) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
+  // Refunding someone else's payment is a staff action - confirm it with a fresh code
+  if (payment.userId !== req.user.userId) {
+    await requireRecentTwoFactor(req.user, req.firebaseToken?.auth_time);
+  }
+
   // Check if payment is completed
   if (payment.status !== 'COMPLETED') {
     throw new ApiError('Only completed payments can be refunded', HttpStatus.BAD_REQUEST);
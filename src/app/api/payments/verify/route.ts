@@ -7,6 +7,7 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/require-permission';
 import { prisma } from '@/lib/db/prisma';
 import { getPaymentIntent } from '@/lib/services/stripe';
 import { asyncHandler } from '@/lib/utils/error-handler';
@@ -51,7 +52,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
   }
 
   // Check permissions - users can only verify their own payments
-  if (payment.userId !== req.user.userId && req.user.role !== 'ADMIN') {
+  if (payment.userId !== req.user.userId && !(await hasPermission(req.user, 'payment.manage'))) {
     throw new ApiError(ErrorMessages[403], HttpStatus.FORBIDDEN);
   }
 
@@ -0,0 +1,52 @@
+// GET /api/storage/local/[...key] - Serve a file stored by the local storage driver
+// Authenticated by the expiring HMAC signature in the URL (see getSignedUrl), so the
+// link can be opened directly by the browser
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { getLocalContentType, getStorageDriver, verifyLocalSignature } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+const handler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const { key: segments } = await context.params;
+  const key = segments.join('/');
+
+  const { searchParams } = new URL(request.url);
+  const expires = Number(searchParams.get('expires'));
+  const signature = searchParams.get('signature') ?? '';
+  const downloadName = searchParams.get('name') ?? '';
+
+  if (!verifyLocalSignature(key, expires, signature, downloadName)) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  let body: Buffer;
+  try {
+    body = await getStorageDriver('LOCAL').get(key);
+  } catch (error) {
+    logger.warn('Local storage file not found', { error, key });
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': getLocalContentType(key),
+    'Content-Length': String(body.length),
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff',
+  };
+  if (downloadName) {
+    headers['Content-Disposition'] =
+      `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`;
+  }
+
+  return new NextResponse(new Uint8Array(body), { headers });
+});
+
+export const GET = withCorsMiddleware(withRateLimit(handler, RateLimitPresets.STANDARD));
@@ -0,0 +1,58 @@
+// GET /api/tasks - The signed-in agent's tasks across all their cases (AGENT/ADMIN only)
+// Query: status=open|done|all (default open)
+
+import { NextRequest } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { CASE_TASK_INCLUDE, myTasksFilter } from '@/lib/services/case-task.service';
+
+const MAX_TASKS = 100;
+
+const handler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'case.task.manage');
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') || 'open';
+  if (!['open', 'done', 'all'].includes(status)) {
+    throw new ApiError('status must be open, done or all', HttpStatus.BAD_REQUEST);
+  }
+
+  const where: Prisma.CaseTaskWhereInput = {
+    ...myTasksFilter(req.user.userId),
+    ...(status !== 'all' && { isDone: status === 'done' }),
+  };
+
+  const [tasks, overdue] = await Promise.all([
+    prisma.caseTask.findMany({
+      where,
+      include: CASE_TASK_INCLUDE,
+      orderBy:
+        status === 'done'
+          ? [{ completedAt: 'desc' }]
+          : [{ dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      take: MAX_TASKS,
+    }),
+    prisma.caseTask.count({
+      where: { ...myTasksFilter(req.user.userId), isDone: false, dueAt: { lt: new Date() } },
+    }),
+  ]);
+
+  return successResponse({ tasks, overdue }, 'Tasks retrieved successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(handler), RateLimitPresets.STANDARD)
+);
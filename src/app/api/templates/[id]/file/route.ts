@@ -4,6 +4,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { logger } from '@/lib/utils/logger';
+import { getStorageDriver, inferStorageLocation, SIGNED_URL_TTL_SECONDS } from '@/lib/storage';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -29,6 +30,12 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     throw new ApiError('Template is not available', HttpStatus.FORBIDDEN);
   }
 
+  // Only files on one of our storage backends are served, always through a short-lived signed URL
+  const location = inferStorageLocation(template.fileUrl);
+  if (!location) {
+    throw new ApiError('Template file not found', HttpStatus.NOT_FOUND);
+  }
+
   // Increment download count
   await prisma.documentTemplate.update({
     where: { id },
@@ -41,8 +48,12 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
 
   logger.info('Template file downloaded', { templateId: id, name: template.name });
 
-  // Redirect to the actual file URL
-  return NextResponse.redirect(template.fileUrl);
+  const fileUrl = await getStorageDriver(location.provider).getSignedUrl(location.key, {
+    expiresIn: SIGNED_URL_TTL_SECONDS,
+    downloadName: template.fileName,
+  });
+
+  return NextResponse.redirect(new URL(fileUrl, request.url));
 });
 
 export const GET = withCorsMiddleware(withRateLimit(getHandler, RateLimitPresets.STANDARD));
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { ERROR_MESSAGES } from '@/lib/constants';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { logger } from '@/lib/utils/logger';
+import { toPublicTemplate } from '@/lib/storage';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -51,7 +54,7 @@ const getHandler = asyncHandler(async (request: NextRequest, context: RouteConte
 
   return NextResponse.json({
     success: true,
-    data: { template },
+    data: { template: toPublicTemplate(template) },
   });
 });
 
@@ -60,10 +63,12 @@ const updateHandler = asyncHandler(async (request: NextRequest, context: RouteCo
   const req = request as AuthenticatedRequest;
   const { id } = await context.params;
 
-  if (!req.user || req.user.role !== 'ADMIN') {
-    throw new ApiError('Admin access required', HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'template.manage');
+
   const body = await request.json();
 
   const template = await prisma.documentTemplate.update({
@@ -78,7 +83,7 @@ const updateHandler = asyncHandler(async (request: NextRequest, context: RouteCo
 
   return NextResponse.json({
     success: true,
-    data: { template },
+    data: { template: toPublicTemplate(template) },
     message: 'Template updated successfully',
   });
 });
@@ -88,10 +93,12 @@ const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteCo
   const req = request as AuthenticatedRequest;
   const { id } = await context.params;
 
-  if (!req.user || req.user.role !== 'ADMIN') {
-    throw new ApiError('Admin access required', HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'template.manage');
+
   await prisma.documentTemplate.delete({
     where: { id },
   });
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { ERROR_MESSAGES } from '@/lib/constants';
 import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { logger } from '@/lib/utils/logger';
+import { toPublicTemplate } from '@/lib/storage';
 import { uploadFiles, getAuthHeaders } from '@/lib/uploadthing/client';
 
 // GET /api/templates - List templates (all for admin, active only for others)
@@ -59,7 +62,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
 
   return NextResponse.json({
     success: true,
-    data: { templates },
+    data: { templates: templates.map(toPublicTemplate) },
   });
 });
 
@@ -67,10 +70,12 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
 const postHandler = asyncHandler(async (request: NextRequest) => {
   const req = request as AuthenticatedRequest;
 
-  if (!req.user || req.user.role !== 'ADMIN') {
-    throw new ApiError('Admin access required', HttpStatus.FORBIDDEN);
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
+  await requirePermission(req.user, 'template.manage');
+
   const body = await request.json();
   const {
     name,
@@ -83,9 +88,20 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
     category,
     isRequired,
     version,
+    sourceTemplateId,
   } = body;
 
-  if (!name || !fileUrl || !fileName || !category) {
+  // Duplicates reuse the file of their source - its URL is never sent to clients
+  let storedFileUrl = fileUrl;
+  if (!storedFileUrl && sourceTemplateId) {
+    const source = await prisma.documentTemplate.findUnique({
+      where: { id: sourceTemplateId },
+      select: { fileUrl: true },
+    });
+    storedFileUrl = source?.fileUrl;
+  }
+
+  if (!name || !storedFileUrl || !fileName || !category) {
     throw new ApiError('Missing required fields', HttpStatus.BAD_REQUEST);
   }
 
@@ -94,7 +110,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
       name,
       description: description || '',
       serviceType: serviceType || null,
-      fileUrl,
+      fileUrl: storedFileUrl,
       fileName,
       fileSize: fileSize || 0,
       mimeType: mimeType || 'application/pdf',
@@ -111,7 +127,7 @@ const postHandler = asyncHandler(async (request: NextRequest) => {
   return NextResponse.json(
     {
       success: true,
-      data: { template },
+      data: { template: toPublicTemplate(template) },
       message: 'Template created successfully',
     },
     { status: 201 }
@@ -1,6 +1,12 @@
 import { createUploadthing, type FileRouter } from 'uploadthing/server';
+import type { DecodedIdToken } from 'firebase-admin/auth';
 import { adminAuth } from '@/lib/firebase/firebase-admin';
 import { logger } from '@/lib/utils/logger';
+import { getTokenUser } from '@/lib/auth/middleware';
+import { recordUploadOwner } from '@/lib/storage';
+import { ApiError } from '@/lib/utils/error-handler';
+import { assertTwoFactorSatisfied } from '@/lib/services/two-factor.service';
+import { trackSession } from '@/lib/services/session.service';
 
 const f = createUploadthing();
 
@@ -28,18 +34,29 @@ const auth = async (req: Request) => {
     throw new Error('Unauthorized: No authentication token provided');
   }
 
+  let decodedToken: DecodedIdToken;
   try {
-    const decodedToken = await adminAuth.verifyIdToken(token);
+    decodedToken = await adminAuth.verifyIdToken(token);
     logger.debug('[UploadThing Auth] Token verified for user:', { uid: decodedToken.uid });
-    return {
-      uid: decodedToken.uid,
-      email: decodedToken.email,
-      role: decodedToken.role,
-    };
   } catch (error) {
     logger.error('[UploadThing Auth] Token verification failed:', error);
     throw new Error('Invalid authentication token');
   }
+
+  const user = getTokenUser(decodedToken);
+
+  // Same checks authenticateToken applies to API routes
+  try {
+    await trackSession(user.userId, decodedToken.auth_time, req);
+    await assertTwoFactorSatisfied(user, decodedToken.auth_time);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw new Error(error.message);
+    }
+    throw error;
+  }
+
+  return user;
 };
 
 /**
@@ -71,23 +88,28 @@ export const ourFileRouter = {
     }),
 
   // Document uploader for case documents (PDFs, images, etc.)
+  // Files are private - they are only served through /api/documents/[id]/download
   documentUploader: f({
-    pdf: { maxFileSize: '16MB', maxFileCount: 5 },
-    image: { maxFileSize: '8MB', maxFileCount: 10 },
-    'application/msword': { maxFileSize: '16MB', maxFileCount: 5 },
+    pdf: { maxFileSize: '16MB', maxFileCount: 5, acl: 'private' },
+    image: { maxFileSize: '8MB', maxFileCount: 10, acl: 'private' },
+    'application/msword': { maxFileSize: '16MB', maxFileCount: 5, acl: 'private' },
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
       maxFileSize: '16MB',
       maxFileCount: 5,
+      acl: 'private',
     },
   })
     .middleware(async ({ req }) => {
       const user = await auth(req);
-      return { userId: user.uid, uploadedBy: user.email };
+      return { userId: user.userId, uploadedBy: user.email };
     })
     .onUploadComplete(async ({ metadata, file }) => {
       logger.info('Document upload complete for user:', { userId: metadata.userId });
       logger.info('File URL:', { fileUrl: file.ufsUrl });
 
+      // Only the uploader may later attach this file to a document (or have it deleted)
+      await recordUploadOwner({ provider: 'UPLOADTHING', key: file.key }, metadata.userId);
+
       // Document metadata should be saved via /api/documents POST endpoint
       // This keeps the upload logic separate from metadata storage
       // Client should call /api/documents after upload with:
@@ -7,6 +7,7 @@ import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
 import { logger } from '@/lib/utils/logger';
 import { ERROR_MESSAGES } from '@/lib/constants';
 import { prisma } from '@/lib/db/prisma';
+import { isOwnedUpload } from '@/lib/storage';
 
 const utapi = new UTApi();
 
@@ -40,13 +41,13 @@ async function verifyFileOwnership(
       },
     });
 
-    // If document not found in DB, it might be a failed upload - allow deletion for rollback
+    // If document not found in DB, it might be a failed upload - only its uploader may roll it back
     if (!document) {
-      logger.warn('Document not found in database, allowing deletion for cleanup', {
+      logger.warn('Document not found in database, checking upload owner for cleanup', {
         fileKey,
         userId,
       });
-      return true;
+      return isOwnedUpload({ provider: 'UPLOADTHING', key: fileKey }, userId);
     }
 
     // Verify the user owns the file
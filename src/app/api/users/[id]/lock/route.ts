@@ -0,0 +1,63 @@
+// DELETE /api/users/[id]/lock - Unlock an account locked after failed logins (user.manage)
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { unlockAccount } from '@/lib/services/login-security.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'user.manage');
+
+  const { id } = await context.params;
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, email: true },
+  });
+
+  if (!user) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const unlocked = await unlockAccount(user.id);
+
+  if (!unlocked) {
+    throw new ApiError('This account is not locked', HttpStatus.BAD_REQUEST);
+  }
+
+  await prisma.activityLog.create({
+    data: {
+      userId: req.user.userId,
+      action: 'ACCOUNT_UNLOCKED',
+      description: `Unlocked the account of ${user.email}`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { targetUserId: user.id },
+    },
+  });
+
+  logger.info('Account unlocked', { userId: user.id, unlockedBy: req.user.userId });
+
+  return successResponse(null, 'Account unlocked');
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STRICT)
+);
@@ -11,6 +11,12 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import {
+  clearPermissionCache,
+  hasPermission,
+  requirePermission,
+} from '@/lib/auth/require-permission';
+import { requireRecentTwoFactor } from '@/lib/services/two-factor.service';
 import { setCustomClaimsWithRetry } from '@/lib/utils/firebase-claims';
 
 interface RouteContext {
@@ -110,8 +116,11 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
   }
   const body = await request.json();
 
-  // Users can only update their own profile unless they're ADMIN
-  if (req.user.userId !== id && req.user.role !== 'ADMIN') {
+  const canManageUsers = await hasPermission(req.user, 'user.manage');
+  const canManageRoles = await hasPermission(req.user, 'role.manage');
+
+  // Users can only update their own profile unless they manage users or roles
+  if (req.user.userId !== id && !canManageUsers && !canManageRoles) {
     throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
   }
 
@@ -146,12 +155,60 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
   let roleChanged = false;
   const previousRole = user.role;
 
-  // Only ADMIN can change role, isActive, isVerified
-  if (req.user.role === 'ADMIN') {
+  // Only users with role.manage can change role and custom role
+  if (canManageRoles) {
+    const changesRole =
+      (body.role && body.role !== user.role) ||
+      (body.customRoleId !== undefined && body.customRoleId !== user.customRoleId);
+
+    // Nobody changes their own role - a custom role holding role.manage could promote itself
+    if (changesRole && req.user.userId === id) {
+      throw new ApiError('You cannot change your own role', HttpStatus.FORBIDDEN);
+    }
+
+    // Granting ADMIN or changing an administrator's role is reserved to administrators
+    if (
+      changesRole &&
+      (body.role === 'ADMIN' || user.role === 'ADMIN') &&
+      req.user.role !== 'ADMIN'
+    ) {
+      throw new ApiError(
+        'Only administrators can change administrator roles',
+        HttpStatus.FORBIDDEN
+      );
+    }
+
     if (body.role && body.role !== user.role) {
       updateData.role = body.role;
       roleChanged = true;
     }
+
+    if (body.customRoleId !== undefined && body.customRoleId !== null) {
+      const customRole = await prisma.customRole.findUnique({
+        where: { id: body.customRoleId },
+        select: { baseRole: true },
+      });
+
+      if (!customRole) {
+        throw new ApiError('Custom role not found', HttpStatus.BAD_REQUEST);
+      }
+
+      // A custom role extends one base role - the user must hold it
+      if (customRole.baseRole !== (updateData.role ?? user.role)) {
+        throw new ApiError(
+          `This custom role can only be given to ${customRole.baseRole} users`,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      updateData.customRoleId = body.customRoleId;
+    } else if (body.customRoleId === null || (roleChanged && user.customRoleId)) {
+      updateData.customRoleId = null;
+    }
+  }
+
+  // Only users with user.manage can change isActive, isVerified
+  if (canManageUsers) {
     if (body.isActive !== undefined) updateData.isActive = body.isActive;
     if (body.isVerified !== undefined) updateData.isVerified = body.isVerified;
   }
@@ -170,6 +227,7 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
       city: true,
       country: true,
       role: true,
+      customRoleId: true,
       isActive: true,
       isVerified: true,
       lastLogin: true,
@@ -178,6 +236,10 @@ const putHandler = asyncHandler(async (request: NextRequest, context: RouteConte
     },
   });
 
+  if (roleChanged || updateData.customRoleId !== undefined) {
+    clearPermissionCache(id);
+  }
+
   // If role changed, update Firebase custom claims with retry and rollback on failure
   if (roleChanged) {
     try {
@@ -240,10 +302,8 @@ const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteCo
     throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
-  // Only ADMIN can delete users
-  if (req.user.role !== 'ADMIN') {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-  }
+  await requirePermission(req.user, 'user.manage');
+  await requireRecentTwoFactor(req.user, req.firebaseToken?.auth_time);
 
   const { id } = await context.params;
   if (!id) {
@@ -0,0 +1,71 @@
+// DELETE /api/users/[id]/sessions - Force sign-out of every device of a user (user.manage)
+// Also revokes their Firebase refresh tokens, e.g. for a lost phone or a compromised account
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { revokeAllSessions } from '@/lib/services/session.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'user.manage');
+
+  const { id } = await context.params;
+
+  if (id === req.user.userId) {
+    throw new ApiError(
+      'Use your session settings to sign out your own devices',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, email: true },
+  });
+
+  if (!user) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  const revoked = await revokeAllSessions(user.id);
+
+  await prisma.activityLog.create({
+    data: {
+      userId: req.user.userId,
+      action: 'SESSIONS_FORCE_REVOKED',
+      description: `Signed out every device of ${user.email}`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { targetUserId: user.id, revoked },
+    },
+  });
+
+  logger.info('Sessions force-revoked', {
+    userId: user.id,
+    revoked,
+    revokedBy: req.user.userId,
+  });
+
+  return successResponse({ revoked }, 'User signed out of all devices');
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STRICT)
+);
@@ -0,0 +1,70 @@
+// DELETE /api/users/[id]/two-factor - Reset the second factor of a locked-out user (security.manage)
+// The user signs in with their password only and enrolls again if their role requires it
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
+import {
+  logTwoFactorEvent,
+  removeTwoFactor,
+  requireRecentTwoFactor,
+} from '@/lib/services/two-factor.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  await requirePermission(req.user, 'security.manage');
+  await requireRecentTwoFactor(req.user, req.firebaseToken?.auth_time);
+
+  const { id } = await context.params;
+
+  if (id === req.user.userId) {
+    throw new ApiError(
+      'Use your security settings to change your own second factor',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, email: true, twoFactorSecret: true },
+  });
+
+  if (!user) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (!user.twoFactorSecret) {
+    throw new ApiError('This user has no second factor to reset', HttpStatus.BAD_REQUEST);
+  }
+
+  await removeTwoFactor(user.id);
+
+  await logTwoFactorEvent(
+    request,
+    req.user.userId,
+    'TWO_FACTOR_RESET',
+    `Reset two-factor authentication for ${user.email}`,
+    { targetUserId: user.id }
+  );
+
+  return successResponse(null, 'Two-factor authentication reset');
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STRICT)
+);
@@ -11,6 +11,7 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { SUBMITTED_CASES_FILTER } from '@/lib/services/case-submission.service';
 
 const TERMINAL_STATUSES = ['APPROVED', 'REJECTED', 'CLOSED'];
 
@@ -37,7 +38,8 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
     casesWhere.assignedAgentId = userId;
     // Documents: get all docs for cases assigned to this agent
   } else if (userRole === 'ADMIN') {
-    // Admins see everything (no filters)
+    // Admins see everything except unsubmitted drafts
+    Object.assign(casesWhere, SUBMITTED_CASES_FILTER);
   }
 
   // Execute all queries in parallel for performance
@@ -88,7 +88,6 @@ const handler = asyncHandler(async (request: NextRequest) => {
         uploadedById: true,
         fileName: true,
         originalName: true,
-        filePath: true,
         fileSize: true,
         mimeType: true,
         documentType: true,
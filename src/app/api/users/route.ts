@@ -10,7 +10,9 @@ import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { withCorsMiddleware } from '@/lib/middleware/cors';
 import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
 import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/require-permission';
 import { Prisma } from '@prisma/client';
+import { SUBMITTED_CASES_FILTER } from '@/lib/services/case-submission.service';
 
 // GET /api/users - List all users (ADMIN/AGENT only)
 const getHandler = asyncHandler(async (request: NextRequest) => {
@@ -20,10 +22,8 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
     throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
   }
 
-  // Only ADMIN and AGENT can list users
-  if (!['ADMIN', 'AGENT'].includes(req.user.role)) {
-    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
-  }
+  // Staff with client.view can list users
+  await requirePermission(req.user, 'client.view');
 
   const { searchParams } = new URL(request.url);
   const role = searchParams.get('role');
@@ -76,9 +76,9 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
         },
       };
     } else if (req.user.role === 'ADMIN') {
-      // Admins only see clients who have at least one case
+      // Admins only see clients who have at least one submitted case
       where.cases = {
-        some: {},
+        some: SUBMITTED_CASES_FILTER,
       };
     }
   }
@@ -108,7 +108,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
         updatedAt: true,
         _count: {
           select: {
-            cases: true, // Total cases count
+            cases: { where: SUBMITTED_CASES_FILTER }, // Total submitted cases count
           },
         },
       },
@@ -124,7 +124,7 @@ const getHandler = asyncHandler(async (request: NextRequest) => {
       where: {
         clientId: { in: userIds },
         status: {
-          notIn: ['APPROVED', 'REJECTED', 'CLOSED'],
+          notIn: ['DRAFT', 'APPROVED', 'REJECTED', 'CLOSED'],
         },
       },
       _count: {
@@ -0,0 +1,62 @@
+// DELETE /api/users/sessions/[id] - Sign out one of the current user's other devices
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { revokeSession } from '@/lib/services/session.service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const deleteHandler = asyncHandler(async (request: NextRequest, context: RouteContext) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const { id } = await context.params;
+
+  const session = await prisma.userSession.findFirst({
+    where: { id, userId: req.user.userId },
+    select: { authTime: true, deviceName: true },
+  });
+
+  if (!session) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (session.authTime === req.firebaseToken?.auth_time) {
+    throw new ApiError('Use log out to sign out of this device', HttpStatus.BAD_REQUEST);
+  }
+
+  if (!(await revokeSession(req.user.userId, id))) {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  await prisma.activityLog.create({
+    data: {
+      userId: req.user.userId,
+      action: 'SESSION_REVOKED',
+      description: `Signed out ${session.deviceName ?? 'a device'}`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { sessionId: id },
+    },
+  });
+
+  logger.info('Session revoked', { userId: req.user.userId, sessionId: id });
+
+  return successResponse(null, 'Device signed out');
+});
+
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STANDARD)
+);
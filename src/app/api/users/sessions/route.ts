@@ -0,0 +1,63 @@
+// GET /api/users/sessions - Devices the current user is signed in on
+// DELETE /api/users/sessions - Sign out everywhere (?keepCurrent=true keeps this device signed in)
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { successResponse } from '@/lib/utils/api-response';
+import { asyncHandler, ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { withCorsMiddleware } from '@/lib/middleware/cors';
+import { withRateLimit, RateLimitPresets } from '@/lib/middleware/rate-limit';
+import { authenticateToken, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { listSessions, revokeAllSessions } from '@/lib/services/session.service';
+
+const getHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const sessions = await listSessions(req.user.userId, req.firebaseToken?.auth_time);
+
+  return successResponse({ sessions }, 'Sessions retrieved successfully');
+});
+
+const deleteHandler = asyncHandler(async (request: NextRequest) => {
+  const req = request as AuthenticatedRequest;
+
+  if (!req.user || !req.firebaseToken) {
+    throw new ApiError(ERROR_MESSAGES.UNAUTHORIZED, HttpStatus.UNAUTHORIZED);
+  }
+
+  const keepCurrent = request.nextUrl.searchParams.get('keepCurrent') === 'true';
+
+  const revoked = await revokeAllSessions(req.user.userId, {
+    keepAuthTime: keepCurrent ? req.firebaseToken.auth_time : undefined,
+  });
+
+  await prisma.activityLog.create({
+    data: {
+      userId: req.user.userId,
+      action: 'SESSIONS_REVOKED',
+      description: keepCurrent
+        ? `Signed out ${revoked} other device(s)`
+        : `Signed out everywhere (${revoked} device(s))`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { revoked, keepCurrent },
+    },
+  });
+
+  logger.info('Sessions revoked', { userId: req.user.userId, revoked, keepCurrent });
+
+  return successResponse({ revoked }, 'Signed out successfully');
+});
+
+export const GET = withCorsMiddleware(
+  withRateLimit(authenticateToken(getHandler), RateLimitPresets.STANDARD)
+);
+export const DELETE = withCorsMiddleware(
+  withRateLimit(authenticateToken(deleteHandler), RateLimitPresets.STRICT)
+);
@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  AvailabilityManager,
+  AvailabilityManagerSkeleton,
+} from '@/features/availability/components';
+import { useAuthStore } from '@/features/auth/store';
+
+export default function AvailabilityPage() {
+  const router = useRouter();
+  const { user, isLoading } = useAuthStore();
+  const isStaff = user?.role === 'AGENT' || user?.role === 'ADMIN';
+
+  useEffect(() => {
+    // Only agents and admins publish availability
+    if (!isLoading && !isStaff) {
+      router.push('/dashboard');
+    }
+  }, [isStaff, isLoading, router]);
+
+  if (isLoading || !isStaff) {
+    return <AvailabilityManagerSkeleton />;
+  }
+
+  return <AvailabilityManager />;
+}
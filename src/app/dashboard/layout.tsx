@@ -34,7 +34,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
-  getNavigationForRole,
+  getNavigationForUser,
   roleDisplayNames,
   roleBadgeColors,
   UserRole,
@@ -44,6 +44,8 @@ import { useUnreadReceivedEmails } from '@/features/messages/hooks/useUnreadRece
 import { apiClient } from '@/lib/utils/axios';
 import { logger } from '@/lib/utils/logger';
 import { CallOverlay } from '@/features/video';
+import { TwoFactorGate, getPendingTwoFactorStep } from '@/features/auth/components/TwoFactorGate';
+import { StepUpDialog } from '@/features/auth/components/StepUpDialog';
 
 export default function DashboardLayout({ children }: { children: ReactNode }) {
   const router = useRouter();
@@ -53,11 +55,11 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
   const { t } = useTranslation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
-  // Get role-based navigation items (must be called before any early returns)
+  // Get permission-based navigation items (must be called before any early returns)
   const allNavItems = useMemo(() => {
     if (!user?.role) return [];
-    return getNavigationForRole(user.role as UserRole);
-  }, [user?.role]);
+    return getNavigationForUser({ role: user.role as UserRole, permissions: user.permissions });
+  }, [user?.role, user?.permissions]);
 
   // Helper function to get translated navigation title
   const getNavTitle = (title: string): string => {
@@ -69,6 +71,7 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
       // Templates: 'dashboard.nav.templates',
       Messages: 'dashboard.nav.messages',
       Notifications: 'dashboard.nav.notifications',
+      Availability: 'dashboard.nav.availability',
       Clients: 'dashboard.nav.clients',
       Users: 'dashboard.nav.users',
       'Invite Codes': 'dashboard.nav.inviteCodes',
@@ -273,6 +276,12 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
     );
   }
 
+  // Staff sign-ins may still owe their second factor
+  const pendingTwoFactorStep = getPendingTwoFactorStep(user);
+  if (pendingTwoFactorStep) {
+    return <TwoFactorGate step={pendingTwoFactorStep} />;
+  }
+
   const getInitials = () => {
     if (!user) return '??';
     return `${user.firstName?.charAt(0) || ''}${user.lastName?.charAt(0) || ''}`.toUpperCase();
@@ -422,7 +431,7 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
                       </p>
                       <p className="text-xs leading-none text-muted-foreground">{user?.email}</p>
                       <Badge className={cn('w-fit mt-1', getRoleBadgeColor(user?.role))}>
-                        {getRoleDisplayName(user?.role)}
+                        {user?.customRole?.name ?? getRoleDisplayName(user?.role)}
                       </Badge>
                     </div>
                   </DropdownMenuLabel>
@@ -510,6 +519,7 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
             {children}
             {/* Global incoming-call UI (no navigation required) */}
             <CallOverlay />
+            <StepUpDialog />
           </div>
         </main>
       </div>
@@ -95,7 +95,7 @@ interface DocumentTemplate {
   description: string;
   serviceType?: string;
   fileName: string;
-  fileUrl?: string;
+  hasFile?: boolean;
   fileSize: number;
   mimeType: string;
   category: string;
@@ -171,7 +171,7 @@ export function AdminTemplateManager() {
         description: newTemplate.description,
         serviceType: newTemplate.serviceType,
         fileName: newTemplate.fileName,
-        fileUrl: newTemplate.fileUrl,
+        hasFile: Boolean(newTemplate.fileUrl),
         fileSize: newTemplate.fileSize,
         mimeType: newTemplate.mimeType,
         category: newTemplate.category,
@@ -357,7 +357,7 @@ export function AdminTemplateManager() {
         name: `${template.name} (Copy)`,
         description: template.description,
         serviceType: template.serviceType,
-        fileUrl: template.fileUrl,
+        sourceTemplateId: template.id,
         fileName: template.fileName,
         fileSize: template.fileSize,
         mimeType: template.mimeType,
@@ -382,7 +382,7 @@ export function AdminTemplateManager() {
         description: template.description,
         serviceType: template.serviceType,
         fileName: template.fileName,
-        fileUrl: template.fileUrl,
+        hasFile: template.hasFile,
         fileSize: template.fileSize,
         mimeType: template.mimeType,
         category: template.category,
@@ -682,11 +682,9 @@ export function AdminTemplateManager() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() =>
-                      window.open(template.fileUrl || `/templates/${template.fileName}`, '_blank')
-                    }
+                    onClick={() => window.open(`/api/templates/${template.id}/file`, '_blank')}
                     className="h-8 w-8 p-0"
-                    disabled={isDeleting || isDuplicating || isCreating}
+                    disabled={isDeleting || isDuplicating || isCreating || !template.hasFile}
                   >
                     <Download className="h-4 w-4" />
                   </Button>
@@ -702,11 +700,9 @@ export function AdminTemplateManager() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() =>
-                      window.open(template.fileUrl || `/templates/${template.fileName}`, '_blank')
-                    }
+                    onClick={() => window.open(`/api/templates/${template.id}/file`, '_blank')}
                     className="h-8 w-8 p-0"
-                    disabled={isDeleting || isDuplicating || isCreating}
+                    disabled={isDeleting || isDuplicating || isCreating || !template.hasFile}
                   >
                     <ExternalLink className="h-4 w-4" />
                   </Button>
@@ -855,10 +851,9 @@ export function AdminTemplateManager() {
     setCategory(template.category);
     setIsRequired(template.isRequired);
     setVersion(template.version || '');
-    if (template.fileUrl && !template.fileUrl.startsWith('/templates/')) {
-      // If file already exists, show it
+    if (template.hasFile) {
+      // If file already exists, show it - without a URL the stored file is kept on save
       setUploadedFile({
-        url: template.fileUrl,
         name: template.fileName,
         size: template.fileSize,
         type: template.mimeType,
@@ -878,7 +873,6 @@ export function AdminTemplateManager() {
     try {
       // If editing, use existing file if no new file uploaded
       const fileData = uploadedFile || {
-        url: editingTemplate?.fileUrl,
         name: editingTemplate?.fileName,
         size: editingTemplate?.fileSize || 0,
         type: editingTemplate?.mimeType,
@@ -1602,14 +1596,13 @@ export function AdminTemplateManager() {
                         <p className="text-xs text-muted-foreground mt-2">
                           {t('templates.admin.fileFormats')}
                         </p>
-                        {editingTemplate?.fileUrl &&
-                          !editingTemplate.fileUrl.startsWith('/templates/') && (
-                            <p className="text-xs text-green-600 mt-2">
-                              {t('templates.admin.currentFile', {
-                                fileName: editingTemplate.fileName,
-                              })}
-                            </p>
-                          )}
+                        {editingTemplate?.hasFile && (
+                          <p className="text-xs text-green-600 mt-2">
+                            {t('templates.admin.currentFile', {
+                              fileName: editingTemplate.fileName,
+                            })}
+                          </p>
+                        )}
                       </>
                     )}
                   </div>
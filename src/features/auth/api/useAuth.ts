@@ -2,7 +2,6 @@
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
-  signInWithEmailAndPassword,
   signInWithCustomToken,
   signInWithPopup,
   GoogleAuthProvider,
@@ -16,23 +15,22 @@ import { auth } from '@/lib/firebase/firebase-client';
 import { apiClient } from '@/lib/utils/axios';
 import { useAuthStore } from '../store';
 import { useRouter } from 'next/navigation';
-import { User } from '@/lib/types';
+import { ApiError, User } from '@/lib/types';
 import { LoginInput, RegisterInput } from '../schemas/auth.schema';
 import { toast } from 'sonner';
 import { logger } from '@/lib/utils/logger';
 import { sanitizeMessage, sanitizeUserInput, sanitizeApiError } from '@/lib/utils/sanitize';
 
-// API Error Type
-interface ApiError {
-  response?: {
-    data?: {
-      error?: string;
-      message?: string;
-      errors?: Record<string, string[]>;
-    };
-  };
-  message?: string;
-  code?: string;
+// Match LOGIN_SECURITY_ERROR_CODES in the login security service
+const ACCOUNT_LOCKED_ERROR_CODE = 'ACCOUNT_LOCKED';
+const INVALID_CREDENTIALS_ERROR_CODE = 'INVALID_CREDENTIALS';
+
+// Lockout reported by the password check or by the backend for an already signed-in user
+function getAccountLockedMessage(error: ApiError): string | null {
+  if (error.response?.data?.code === ACCOUNT_LOCKED_ERROR_CODE) {
+    return error.response.data.error ?? null;
+  }
+  return null;
 }
 
 // Register mutation - SECURE: Firebase user created server-side
@@ -138,8 +136,16 @@ export const useLogin = () => {
       // Ensure persistence is set before signing in
       await setPersistence(auth, browserLocalPersistence);
 
-      // Sign in with Firebase
-      const userCredential = await signInWithEmailAndPassword(auth, data.email, data.password);
+      // The backend checks the password so every failed attempt counts towards the lockout,
+      // then hands out a custom token for the Firebase sign-in
+      const passwordResponse = await apiClient.post('/api/auth/login/password', {
+        email: data.email,
+        password: data.password,
+      });
+      const userCredential = await signInWithCustomToken(
+        auth,
+        passwordResponse.data.data.customToken
+      );
 
       // Get Firebase ID token (will be sent in Authorization header)
       const token = await userCredential.user.getIdToken();
@@ -147,15 +153,24 @@ export const useLogin = () => {
       // Sync with backend (update last login, get user data)
       // The backend will refresh custom claims on this call
       // firebaseUid is extracted from token on server
-      const response = await apiClient.post(
-        '/api/auth/login',
-        {},
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
+      let response;
+      try {
+        response = await apiClient.post(
+          '/api/auth/login',
+          {},
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          }
+        );
+      } catch (error) {
+        // The account was locked in the meantime - do not keep the Firebase sign-in around
+        if (getAccountLockedMessage(error as ApiError)) {
+          await signOut(auth).catch(() => undefined);
         }
-      );
+        throw error;
+      }
 
       // CRITICAL: Force token refresh to pick up updated custom claims from backend
       // Without this, the client will use the old token without the refreshed role claims
@@ -215,6 +230,17 @@ export const useLogin = () => {
         message: error.message,
       });
 
+      const lockedMessage = getAccountLockedMessage(error);
+      if (lockedMessage) {
+        toast.error(lockedMessage);
+        return;
+      }
+
+      if (error.response?.data?.code === INVALID_CREDENTIALS_ERROR_CODE) {
+        toast.error('Invalid email or password. Please check your credentials and try again.');
+        return;
+      }
+
       // Sanitize error message before displaying to user
       // This will map backend errors to user-friendly messages
       toast.error(sanitizeApiError(error));
@@ -237,16 +263,16 @@ export const useLogout = () => {
         );
       }
 
-      // Sign out from Firebase
-      await signOut(auth);
-
-      // Optionally call backend to revoke tokens
+      // End this device's session on the backend - needs the token, so before signing out
       try {
         await apiClient.post('/api/auth/logout');
       } catch (error) {
         // Ignore backend errors during logout
         logger.error('Backend logout error:', error);
       }
+
+      // Sign out from Firebase
+      await signOut(auth);
     },
     onSuccess: () => {
       logout();
@@ -409,6 +435,12 @@ export const useGoogleSignIn = () => {
     onError: (error: ApiError) => {
       let message = 'Google sign-in failed. Please try again.';
 
+      const lockedMessage = getAccountLockedMessage(error);
+      if (lockedMessage) {
+        toast.error(lockedMessage);
+        return;
+      }
+
       if (error.code === 'auth/popup-closed-by-user') {
         message = 'Sign-in cancelled.';
       } else if (error.code === 'auth/popup-blocked') {
@@ -0,0 +1,179 @@
+// React Query hooks for staff two-factor authentication
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/utils/axios';
+import { ApiError, User } from '@/lib/types';
+import { useAuthStore } from '../store';
+
+export type TwoFactorPolicy = Record<'AGENT' | 'ADMIN', boolean>;
+
+export interface TwoFactorDetails {
+  enabled: boolean;
+  required: boolean;
+  verified: boolean;
+  verifiedAt: string | null;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const TWO_FACTOR_KEY = 'two-factor';
+
+// Reload the signed-in user so the dashboard sees the new two-factor state
+export const useRefreshCurrentUser = () => {
+  const setUser = useAuthStore((state) => state.setUser);
+
+  return async () => {
+    const response = await apiClient.get('/api/auth/me');
+    setUser(response.data.data as User);
+  };
+};
+
+// Fetch two-factor status of the current user
+export const useTwoFactorStatus = (enabled = true) => {
+  return useQuery<TwoFactorDetails>({
+    queryKey: [TWO_FACTOR_KEY],
+    queryFn: async () => {
+      const response = await apiClient.get('/api/auth/2fa');
+      return response.data.data;
+    },
+    enabled,
+  });
+};
+
+// Start enrollment - returns the secret for the authenticator app
+export const useStartTwoFactorSetup = () => {
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post('/api/auth/2fa/setup');
+      return response.data.data as TwoFactorEnrollment;
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to start two-factor setup');
+    },
+  });
+};
+
+// Confirm enrollment with a first code - returns the recovery codes
+// The signed-in user is refreshed by the caller once the codes were saved, so the sign-in
+// gate does not close before they are shown
+export const useEnableTwoFactor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiClient.post('/api/auth/2fa/enable', { code });
+      return response.data.data.recoveryCodes as string[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_KEY] });
+      toast.success('Two-factor authentication turned on');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to turn on two-factor authentication');
+    },
+  });
+};
+
+// Enter an authenticator or recovery code for the current sign-in
+export const useVerifyTwoFactor = () => {
+  const queryClient = useQueryClient();
+  const refreshCurrentUser = useRefreshCurrentUser();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiClient.post('/api/auth/2fa/verify', { code });
+      return response.data.data as {
+        method: 'totp' | 'recovery_code';
+        recoveryCodesLeft: number;
+      };
+    },
+    onSuccess: async (result) => {
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_KEY] });
+      if (result.method === 'recovery_code') {
+        toast.warning(`Recovery code used - ${result.recoveryCodesLeft} left`);
+      }
+      await refreshCurrentUser();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to verify code');
+    },
+  });
+};
+
+// Turn off two-factor authentication
+export const useDisableTwoFactor = () => {
+  const queryClient = useQueryClient();
+  const refreshCurrentUser = useRefreshCurrentUser();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiClient.delete('/api/auth/2fa');
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_KEY] });
+      toast.success('Two-factor authentication turned off');
+      await refreshCurrentUser();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to turn off two-factor authentication');
+    },
+  });
+};
+
+// Replace the recovery codes - returns the new ones
+export const useRegenerateRecoveryCodes = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post('/api/auth/2fa/recovery-codes');
+      return response.data.data.recoveryCodes as string[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_KEY] });
+      toast.success('New recovery codes generated');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to generate recovery codes');
+    },
+  });
+};
+
+// Fetch which staff roles must use two-factor authentication (security.manage)
+export const useTwoFactorPolicy = (enabled = true) => {
+  return useQuery<TwoFactorPolicy>({
+    queryKey: [TWO_FACTOR_KEY, 'policy'],
+    queryFn: async () => {
+      const response = await apiClient.get('/api/admin/two-factor-policy');
+      return response.data.data.policy;
+    },
+    enabled,
+  });
+};
+
+// Change the two-factor requirement per role (security.manage)
+export const useUpdateTwoFactorPolicy = () => {
+  const queryClient = useQueryClient();
+  const refreshCurrentUser = useRefreshCurrentUser();
+
+  return useMutation({
+    mutationFn: async (policy: Partial<TwoFactorPolicy>) => {
+      const response = await apiClient.put('/api/admin/two-factor-policy', policy);
+      return response.data.data.policy as TwoFactorPolicy;
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_KEY] });
+      toast.success('Two-factor requirements updated');
+      await refreshCurrentUser();
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to update two-factor requirements');
+    },
+  });
+};
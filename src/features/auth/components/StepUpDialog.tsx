@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { setStepUpHandler } from '@/lib/auth/step-up';
+import { useVerifyTwoFactor } from '../api/useTwoFactor';
+
+// Asks for a fresh code when a sensitive action (refund, user deletion, audit export) needs one
+// The API client waits for this dialog and retries the request once the code was accepted
+export function StepUpDialog() {
+  const { t } = useTranslation();
+  const verifyTwoFactor = useVerifyTwoFactor();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const resolveRef = useRef<((verified: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    setStepUpHandler(
+      () =>
+        new Promise<boolean>((resolve) => {
+          resolveRef.current = resolve;
+          setCode('');
+          setOpen(true);
+        })
+    );
+    return () => setStepUpHandler(null);
+  }, []);
+
+  const finish = (verified: boolean) => {
+    resolveRef.current?.(verified);
+    resolveRef.current = null;
+    setOpen(false);
+  };
+
+  const handleVerify = () => {
+    if (!code.trim()) return;
+    verifyTwoFactor.mutate(code.trim(), {
+      onSuccess: () => finish(true),
+      onError: () => setCode(''),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && finish(false)}>
+      <DialogContent
+        onInteractOutside={(e) => {
+          if (verifyTwoFactor.isPending) {
+            e.preventDefault();
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="mr-2 h-5 w-5" style={{ color: '#ff4538' }} />
+            {t('auth.twoFactor.stepUpTitle')}
+          </DialogTitle>
+          <DialogDescription>{t('auth.twoFactor.stepUpDescription')}</DialogDescription>
+        </DialogHeader>
+        <Input
+          autoFocus
+          autoComplete="one-time-code"
+          aria-label={t('auth.twoFactor.codeOrRecoveryLabel')}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleVerify();
+            }
+          }}
+          disabled={verifyTwoFactor.isPending}
+        />
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => finish(false)}
+            disabled={verifyTwoFactor.isPending}
+          >
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleVerify} disabled={verifyTwoFactor.isPending || !code.trim()}>
+            {verifyTwoFactor.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('auth.twoFactor.verify')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  useEnableTwoFactor,
+  useRefreshCurrentUser,
+  useStartTwoFactorSetup,
+} from '../api/useTwoFactor';
+
+// One-time list of recovery codes with a copy button
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { t } = useTranslation();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success(t('auth.twoFactor.codesCopied'));
+    } catch {
+      toast.error(t('auth.twoFactor.copyFailed'));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">{t('auth.twoFactor.recoveryCodesHint')}</p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+        <Copy className="mr-2 h-4 w-4" />
+        {t('auth.twoFactor.copyCodes')}
+      </Button>
+    </div>
+  );
+}
+
+// Set up an authenticator app: show the secret, confirm a first code, hand out recovery codes
+export function TwoFactorEnrollment({ onDone }: { onDone?: () => void }) {
+  const { t } = useTranslation();
+  const startSetup = useStartTwoFactorSetup();
+  const enableTwoFactor = useEnableTwoFactor();
+  const refreshCurrentUser = useRefreshCurrentUser();
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isFinishing, setIsFinishing] = useState(false);
+
+  const enrollment = startSetup.data;
+
+  const handleConfirm = () => {
+    if (!code.trim()) return;
+    enableTwoFactor.mutate(code.trim(), {
+      onSuccess: (codes) => {
+        setRecoveryCodes(codes);
+        setCode('');
+      },
+    });
+  };
+
+  const handleDone = async () => {
+    setIsFinishing(true);
+    try {
+      await refreshCurrentUser();
+      onDone?.();
+    } finally {
+      setIsFinishing(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button onClick={handleDone} disabled={isFinishing}>
+          {isFinishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('auth.twoFactor.savedCodes')}
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <Button onClick={() => startSetup.mutate()} disabled={startSetup.isPending}>
+        {startSetup.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <ShieldCheck className="mr-2 h-4 w-4" />
+        )}
+        {t('auth.twoFactor.startSetup')}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">{t('auth.twoFactor.setupInstructions')}</p>
+        <Input readOnly value={enrollment.secret} className="font-mono" />
+        <a
+          href={enrollment.otpauthUrl}
+          className="text-xs underline text-muted-foreground hover:text-foreground"
+        >
+          {t('auth.twoFactor.openInApp')}
+        </a>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-setup-code">{t('auth.twoFactor.codeLabel')}</Label>
+        <div className="flex gap-2">
+          <Input
+            id="two-factor-setup-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleConfirm();
+              }
+            }}
+            disabled={enableTwoFactor.isPending}
+          />
+          <Button onClick={handleConfirm} disabled={enableTwoFactor.isPending || !code.trim()}>
+            {enableTwoFactor.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('auth.twoFactor.confirm')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
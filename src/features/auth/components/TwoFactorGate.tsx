@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, LogOut, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { User } from '@/lib/types';
+import { useLogout } from '../api/useAuth';
+import { useVerifyTwoFactor } from '../api/useTwoFactor';
+import { TwoFactorEnrollment } from './TwoFactorEnrollment';
+
+/**
+ * What the current sign-in still owes before the dashboard can be used
+ * Users loaded from the local cache have no two-factor state yet and are let through -
+ * the API rejects their requests until GET /api/auth/me has filled it in
+ */
+export function getPendingTwoFactorStep(user: User | null): 'verify' | 'enroll' | null {
+  const status = user?.twoFactor;
+  if (!status) return null;
+  if (status.enabled && !status.verified) return 'verify';
+  if (!status.enabled && status.required) return 'enroll';
+  return null;
+}
+
+// Full-page challenge shown after sign-in: enter a code, or set up 2FA when the role requires it
+export function TwoFactorGate({ step }: { step: 'verify' | 'enroll' }) {
+  const { t } = useTranslation();
+  const logoutMutation = useLogout();
+  const verifyTwoFactor = useVerifyTwoFactor();
+  const [code, setCode] = useState('');
+
+  const handleVerify = () => {
+    if (!code.trim()) return;
+    verifyTwoFactor.mutate(code.trim(), {
+      onError: () => setCode(''),
+    });
+  };
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-4"
+      style={{ backgroundColor: '#091a24' }}
+    >
+      <Card
+        className="w-full max-w-md"
+        style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}
+      >
+        <CardHeader>
+          <CardTitle className="flex items-center text-base font-semibold">
+            <ShieldCheck className="mr-2 h-5 w-5" style={{ color: '#ff4538' }} />
+            {step === 'verify'
+              ? t('auth.twoFactor.challengeTitle')
+              : t('auth.twoFactor.enrollTitle')}
+          </CardTitle>
+          <CardDescription>
+            {step === 'verify'
+              ? t('auth.twoFactor.challengeDescription')
+              : t('auth.twoFactor.enrollDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {step === 'verify' ? (
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">{t('auth.twoFactor.codeOrRecoveryLabel')}</Label>
+              <Input
+                id="two-factor-code"
+                autoFocus
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleVerify();
+                  }
+                }}
+                disabled={verifyTwoFactor.isPending}
+              />
+              <Button
+                className="w-full"
+                onClick={handleVerify}
+                disabled={verifyTwoFactor.isPending || !code.trim()}
+              >
+                {verifyTwoFactor.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('auth.twoFactor.verify')}
+              </Button>
+            </div>
+          ) : (
+            <TwoFactorEnrollment />
+          )}
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            {t('auth.logout')}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
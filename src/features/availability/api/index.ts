@@ -0,0 +1,3 @@
+// Availability API exports
+export * from './queries';
+export * from './mutations';
@@ -0,0 +1,116 @@
+// React Query - Mutations for Availability feature
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/utils/axios';
+import { toast } from 'sonner';
+import type { CreateAbsenceInput, CreateBlackoutInput, UpdateAvailabilityInput } from '../types';
+import { CASES_KEY } from '@/features/cases/api';
+import { AVAILABILITY_KEY } from './queries';
+import type { ApiError } from '@/lib/types';
+
+// Replace the weekly availability windows
+export function useUpdateAvailability() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateAvailabilityInput) => {
+      const response = await apiClient.put('/api/availability', data);
+      return response.data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_KEY] });
+      toast.success('Availability saved');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to save availability');
+    },
+  });
+}
+
+export function useCreateBlackout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateBlackoutInput) => {
+      const response = await apiClient.post('/api/availability/blackouts', data);
+      return response.data.data as { affectedAppointments: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_KEY] });
+      if (data.affectedAppointments > 0) {
+        toast.warning(
+          `Blackout added. ${data.affectedAppointments} existing appointment(s) fall inside it and should be rescheduled.`
+        );
+      } else {
+        toast.success('Blackout added');
+      }
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to add blackout');
+    },
+  });
+}
+
+export function useDeleteBlackout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/api/availability/blackouts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_KEY] });
+      toast.success('Blackout removed');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to remove blackout');
+    },
+  });
+}
+
+// Declare an absence - cases are handed to the delegate when it starts
+export function useCreateAbsence() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateAbsenceInput) => {
+      const response = await apiClient.post('/api/availability/absences', data);
+      return response.data.data as { coveredCases: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_KEY] });
+      toast.success(
+        data.coveredCases > 0
+          ? `Absence saved. ${data.coveredCases} case(s) handed to your delegate.`
+          : 'Absence saved'
+      );
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to save absence');
+    },
+  });
+}
+
+// Cancel an upcoming absence or end an ongoing one early
+export function useEndAbsence() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.delete(`/api/availability/absences/${id}`);
+      return response.data.data as { returnedCases: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      toast.success(
+        data.returnedCases > 0
+          ? `Absence ended. ${data.returnedCases} case(s) handed back to you.`
+          : 'Absence ended'
+      );
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to end absence');
+    },
+  });
+}
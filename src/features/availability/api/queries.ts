@@ -0,0 +1,33 @@
+// React Query - Queries for Availability feature
+
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/lib/utils/axios';
+import type { AgentAbsence, AgentAvailability } from '../types';
+
+export const AVAILABILITY_KEY = 'availability';
+
+// Get the weekly windows and upcoming blackouts of an agent (defaults to the current user)
+export function useAgentAvailability(agentId?: string) {
+  return useQuery({
+    queryKey: [AVAILABILITY_KEY, agentId ?? 'me'],
+    queryFn: async (): Promise<AgentAvailability> => {
+      const params = agentId ? `?agentId=${agentId}` : '';
+      const response = await apiClient.get(`/api/availability${params}`);
+      return response.data.data as AgentAvailability;
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+// Get the current and upcoming absences of an agent (defaults to the current user)
+export function useAgentAbsences(agentId?: string) {
+  return useQuery({
+    queryKey: [AVAILABILITY_KEY, 'absences', agentId ?? 'me'],
+    queryFn: async (): Promise<AgentAbsence[]> => {
+      const params = agentId ? `?agentId=${agentId}` : '';
+      const response = await apiClient.get(`/api/availability/absences${params}`);
+      return response.data.data.absences as AgentAbsence[];
+    },
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plane, Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { useAuthStore } from '@/features/auth/store';
+import { useUsers } from '@/features/users/api';
+import { useAgentAbsences, useCreateAbsence, useEndAbsence } from '../api';
+import type { CoverageMode } from '../types';
+
+// Out-of-office periods - the delegate covers the agent's active cases in the meantime
+export function AbsenceCard() {
+  const { t } = useTranslation();
+  const { user } = useAuthStore();
+  const { data: absences = [] } = useAgentAbsences();
+  const { data: usersData } = useUsers({ role: 'AGENT' });
+  const createAbsence = useCreateAbsence();
+  const endAbsence = useEndAbsence();
+
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [delegateId, setDelegateId] = useState('');
+  const [mode, setMode] = useState<CoverageMode>('TRANSFER');
+  const [notifyClient, setNotifyClient] = useState(true);
+  const [handoverNotes, setHandoverNotes] = useState('');
+
+  const delegates = (usersData?.users || []).filter(
+    (agent: { id: string; isActive?: boolean }) => agent.id !== user?.id && agent.isActive !== false
+  );
+
+  const isInvalid = !startsAt || !endsAt || !delegateId || new Date(startsAt) >= new Date(endsAt);
+
+  const handleSubmit = () => {
+    if (isInvalid) return;
+    createAbsence.mutate(
+      {
+        delegateId,
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        mode,
+        notifyClient,
+        handoverNotes: handoverNotes.trim() || undefined,
+      },
+      {
+        onSuccess: () => {
+          setStartsAt('');
+          setEndsAt('');
+          setHandoverNotes('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Plane className="h-4 w-4" />
+          {t('availability.absences.title')}
+        </CardTitle>
+        <CardDescription>{t('availability.absences.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {absences.length > 0 ? (
+          <div className="space-y-2">
+            {absences.map((absence) => (
+              <div
+                key={absence.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-border p-3"
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold">
+                    {formatDateTime(absence.startsAt)} → {formatDateTime(absence.endsAt)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('availability.absences.coveredBy', {
+                      name: `${absence.delegate.firstName} ${absence.delegate.lastName}`,
+                    })}{' '}
+                    · {t(`availability.absences.modes.${absence.mode}`)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={absence.status === 'ACTIVE' ? 'default' : 'secondary'}>
+                    {t(`availability.absences.statuses.${absence.status}`)}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={
+                      absence.status === 'ACTIVE'
+                        ? t('availability.absences.endNow')
+                        : t('availability.absences.cancel')
+                    }
+                    disabled={endAbsence.isPending}
+                    onClick={() => endAbsence.mutate(absence.id)}
+                  >
+                    <X className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-lg border border-dashed border-muted p-4 text-sm text-muted-foreground">
+            {t('availability.absences.empty')}
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="absence-start">{t('availability.absences.start')}</Label>
+            <Input
+              id="absence-start"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(event) => setStartsAt(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="absence-end">{t('availability.absences.end')}</Label>
+            <Input
+              id="absence-end"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(event) => setEndsAt(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('availability.absences.delegate')}</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('availability.absences.selectDelegate')} />
+              </SelectTrigger>
+              <SelectContent>
+                {delegates.map((agent: { id: string; firstName: string; lastName: string }) => (
+                  <SelectItem key={agent.id} value={agent.id}>
+                    {agent.firstName} {agent.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('availability.absences.mode')}</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as CoverageMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TRANSFER">
+                  {t('availability.absences.modes.TRANSFER')}
+                </SelectItem>
+                <SelectItem value="SHADOW">{t('availability.absences.modes.SHADOW')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="absence-notes">{t('availability.absences.handoverNotes')}</Label>
+          <Textarea
+            id="absence-notes"
+            rows={3}
+            value={handoverNotes}
+            onChange={(event) => setHandoverNotes(event.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Switch id="absence-notify" checked={notifyClient} onCheckedChange={setNotifyClient} />
+            <Label htmlFor="absence-notify">{t('availability.absences.notifyClient')}</Label>
+          </div>
+          <Button onClick={handleSubmit} disabled={createAbsence.isPending || isInvalid}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('availability.absences.add')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarClock, CalendarOff, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { APPOINTMENT_BOOKING } from '@/lib/constants';
+import {
+  useAgentAvailability,
+  useCreateBlackout,
+  useDeleteBlackout,
+  useUpdateAvailability,
+} from '../api';
+import type { AvailabilityWindowInput } from '../types';
+import { AbsenceCard } from './AbsenceCard';
+
+const DAYS_OF_WEEK = [1, 2, 3, 4, 5, 6, 0];
+
+const DEFAULT_WINDOW: AvailabilityWindowInput = {
+  dayOfWeek: 1,
+  startTime: '09:00',
+  endTime: '17:00',
+  location: '',
+};
+
+function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function AvailabilityManager() {
+  const { t } = useTranslation();
+  const { data, isLoading } = useAgentAvailability();
+  const updateAvailability = useUpdateAvailability();
+  const createBlackout = useCreateBlackout();
+  const deleteBlackout = useDeleteBlackout();
+
+  const [timezone, setTimezone] = useState(getBrowserTimeZone());
+  const [windows, setWindows] = useState<AvailabilityWindowInput[]>([]);
+  const [blackoutStart, setBlackoutStart] = useState('');
+  const [blackoutEnd, setBlackoutEnd] = useState('');
+  const [blackoutReason, setBlackoutReason] = useState('');
+
+  // Seed the editor from the saved calendar
+  useEffect(() => {
+    if (!data) return;
+    setWindows(
+      data.windows.map(({ dayOfWeek, startTime, endTime, location }) => ({
+        dayOfWeek,
+        startTime,
+        endTime,
+        location,
+      }))
+    );
+    if (data.windows.length > 0) {
+      setTimezone(data.windows[0].timezone);
+    }
+  }, [data]);
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindowInput>) => {
+    setWindows((current) =>
+      current.map((window, i) => (i === index ? { ...window, ...changes } : window))
+    );
+  };
+
+  const addWindow = () => {
+    const previous = windows[windows.length - 1];
+    setWindows((current) => [
+      ...current,
+      { ...DEFAULT_WINDOW, location: previous?.location ?? DEFAULT_WINDOW.location },
+    ]);
+  };
+
+  const isWindowInvalid = (window: AvailabilityWindowInput) =>
+    !window.location.trim() || window.startTime >= window.endTime;
+
+  const handleSave = () => {
+    updateAvailability.mutate({
+      timezone,
+      windows: windows.map((window) => ({ ...window, location: window.location.trim() })),
+    });
+  };
+
+  const isBlackoutInvalid =
+    !blackoutStart || !blackoutEnd || new Date(blackoutStart) >= new Date(blackoutEnd);
+
+  const handleAddBlackout = () => {
+    if (isBlackoutInvalid) return;
+    createBlackout.mutate(
+      {
+        startsAt: new Date(blackoutStart).toISOString(),
+        endsAt: new Date(blackoutEnd).toISOString(),
+        reason: blackoutReason.trim() || undefined,
+      },
+      {
+        onSuccess: () => {
+          setBlackoutStart('');
+          setBlackoutEnd('');
+          setBlackoutReason('');
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return <AvailabilityManagerSkeleton />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold leading-tight flex items-center gap-2">
+          <CalendarClock className="h-6 w-6 sm:h-7 sm:w-7 md:h-8 md:w-8 text-primary" />
+          {t('availability.title')}
+        </h1>
+        <p className="text-xs sm:text-sm text-muted-foreground mt-1.5 sm:mt-2 leading-relaxed">
+          {t('availability.description')}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t('availability.weekly.title')}</CardTitle>
+          <CardDescription>
+            {t('availability.weekly.description', { minutes: APPOINTMENT_BOOKING.SLOT_MINUTES })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-sm">
+            <Label htmlFor="availability-timezone">{t('availability.weekly.timezone')}</Label>
+            <Input
+              id="availability-timezone"
+              value={timezone}
+              onChange={(event) => setTimezone(event.target.value)}
+              placeholder="Africa/Douala"
+            />
+          </div>
+
+          {windows.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted p-4 text-sm text-muted-foreground">
+              {t('availability.weekly.empty')}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {windows.map((window, index) => (
+                <div
+                  key={index}
+                  className="grid gap-2 rounded-lg border border-border p-3 sm:grid-cols-[10rem_7rem_7rem_1fr_auto] sm:items-center"
+                >
+                  <Select
+                    value={String(window.dayOfWeek)}
+                    onValueChange={(value) => updateWindow(index, { dayOfWeek: Number(value) })}
+                  >
+                    <SelectTrigger aria-label={t('availability.weekly.day')}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAYS_OF_WEEK.map((day) => (
+                        <SelectItem key={day} value={String(day)}>
+                          {t(`availability.days.${day}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="time"
+                    aria-label={t('availability.weekly.start')}
+                    value={window.startTime}
+                    onChange={(event) => updateWindow(index, { startTime: event.target.value })}
+                  />
+                  <Input
+                    type="time"
+                    aria-label={t('availability.weekly.end')}
+                    value={window.endTime}
+                    onChange={(event) => updateWindow(index, { endTime: event.target.value })}
+                  />
+                  <Input
+                    aria-label={t('availability.weekly.location')}
+                    placeholder={t('availability.weekly.location')}
+                    value={window.location}
+                    onChange={(event) => updateWindow(index, { location: event.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t('availability.weekly.remove')}
+                    onClick={() => setWindows((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2 sm:justify-between">
+            <Button variant="outline" onClick={addWindow}>
+              <Plus className="mr-2 h-4 w-4" />
+              {t('availability.weekly.add')}
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={
+                updateAvailability.isPending || !timezone.trim() || windows.some(isWindowInvalid)
+              }
+            >
+              {updateAvailability.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              {t('availability.weekly.save')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarOff className="h-4 w-4" />
+            {t('availability.blackouts.title')}
+          </CardTitle>
+          <CardDescription>{t('availability.blackouts.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data && data.blackouts.length > 0 ? (
+            <div className="space-y-2">
+              {data.blackouts.map((blackout) => (
+                <div
+                  key={blackout.id}
+                  className="flex items-center justify-between rounded-lg border border-border p-3"
+                >
+                  <div>
+                    <p className="text-sm font-semibold">
+                      {formatDateTime(blackout.startsAt)} → {formatDateTime(blackout.endsAt)}
+                    </p>
+                    {blackout.reason && (
+                      <p className="text-xs text-muted-foreground">{blackout.reason}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t('availability.blackouts.remove')}
+                    disabled={deleteBlackout.isPending}
+                    onClick={() => deleteBlackout.mutate(blackout.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="rounded-lg border border-dashed border-muted p-4 text-sm text-muted-foreground">
+              {t('availability.blackouts.empty')}
+            </div>
+          )}
+
+          <div className="grid gap-2 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="blackout-start">{t('availability.blackouts.start')}</Label>
+              <Input
+                id="blackout-start"
+                type="datetime-local"
+                value={blackoutStart}
+                onChange={(event) => setBlackoutStart(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-end">{t('availability.blackouts.end')}</Label>
+              <Input
+                id="blackout-end"
+                type="datetime-local"
+                value={blackoutEnd}
+                onChange={(event) => setBlackoutEnd(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-reason">{t('availability.blackouts.reason')}</Label>
+              <Input
+                id="blackout-reason"
+                value={blackoutReason}
+                onChange={(event) => setBlackoutReason(event.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleAddBlackout}
+              disabled={createBlackout.isPending || isBlackoutInvalid}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t('availability.blackouts.add')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AbsenceCard />
+    </div>
+  );
+}
+
+export function AvailabilityManagerSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <SimpleSkeleton className="h-9 w-64" />
+        <SimpleSkeleton className="h-5 w-96 mt-2" />
+      </div>
+      <SimpleSkeleton className="h-64 w-full" />
+      <SimpleSkeleton className="h-48 w-full" />
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+// Availability Components exports
+export * from './AvailabilityManager';
+export * from './AbsenceCard';
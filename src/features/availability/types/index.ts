@@ -0,0 +1,81 @@
+// Availability feature types
+
+export interface AvailabilityWindow {
+  id: string;
+  agentId: string;
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm"
+  timezone: string;
+  location: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AgentBlackout {
+  id: string;
+  agentId: string;
+  startsAt: string;
+  endsAt: string;
+  reason?: string | null;
+  createdAt: string;
+}
+
+export interface AgentAvailability {
+  agentId: string;
+  windows: AvailabilityWindow[];
+  blackouts: AgentBlackout[];
+}
+
+export interface AvailabilityWindowInput {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  location: string;
+}
+
+export interface UpdateAvailabilityInput {
+  agentId?: string;
+  timezone: string;
+  windows: AvailabilityWindowInput[];
+}
+
+export interface CreateBlackoutInput {
+  agentId?: string;
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+}
+
+export type CoverageMode = 'TRANSFER' | 'SHADOW';
+
+export type AbsenceStatus = 'SCHEDULED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+
+export interface AgentAbsence {
+  id: string;
+  agentId: string;
+  delegateId: string;
+  startsAt: string;
+  endsAt: string;
+  mode: CoverageMode;
+  status: AbsenceStatus;
+  notifyClient: boolean;
+  handoverNotes?: string | null;
+  delegate: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  _count?: { coverages: number };
+}
+
+export interface CreateAbsenceInput {
+  agentId?: string;
+  delegateId: string;
+  startsAt: string;
+  endsAt: string;
+  mode: CoverageMode;
+  notifyClient: boolean;
+  handoverNotes?: string;
+}
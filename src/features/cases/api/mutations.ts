@@ -6,11 +6,18 @@ import { toast } from 'sonner';
 import type {
   Case,
   Appointment,
+  BookAppointmentInput,
   CreateAppointmentInput,
+  CaseTask,
+  CaseTaskInput,
   CreateCaseInput,
+  RequestDocumentsInput,
+  SaveCaseDraftInput,
+  UpdateAppointmentInput,
   UpdateCaseInput,
 } from '../types';
 import { CASES_KEY } from './queries';
+import type { ApiError } from '@/lib/types';
 
 // Create case mutation
 export function useCreateCase() {
@@ -31,6 +38,66 @@ export function useCreateCase() {
   });
 }
 
+// Autosave a draft application - silent on success, the dialog shows the save state
+export function useSaveCaseDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Without an id the first save creates the draft
+    mutationFn: async ({ id, ...data }: SaveCaseDraftInput & { id?: string }) => {
+      const response = id
+        ? await apiClient.patch(`/api/cases/${id}/draft`, data)
+        : await apiClient.post('/api/cases', { ...data, draft: true });
+      return response.data.data.case as Case;
+    },
+    onSuccess: (draft) => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, draft.id] });
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to save draft');
+    },
+  });
+}
+
+// Submit a draft application
+export function useSubmitCaseDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.post(`/api/cases/${id}/submit`);
+      return response.data.data.case as Case;
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, id] });
+      toast.success('Case submitted successfully');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to submit case');
+    },
+  });
+}
+
+// Discard a draft application and its uploaded documents
+export function useDiscardCaseDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/api/cases/${id}/draft`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      toast.success('Draft discarded');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to discard draft');
+    },
+  });
+}
+
 // Update case mutation
 export function useUpdateCase(id: string) {
   const queryClient = useQueryClient();
@@ -181,6 +248,92 @@ export function useTransferCase() {
   });
 }
 
+// Request documents from the client (AGENT/ADMIN only)
+// autoRequestMissing requests every outstanding checklist item
+export function useRequestDocuments(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: RequestDocumentsInput) => {
+      const response = await apiClient.post(`/api/cases/${caseId}/request-documents`, data);
+      return response.data.data as { documentTypes: string[] };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId] });
+      toast.success('Document request sent to the client');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to request documents');
+    },
+  });
+}
+
+// Add an internal task to a case (AGENT/ADMIN only)
+export function useCreateCaseTask(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CaseTaskInput) => {
+      const response = await apiClient.post(`/api/cases/${caseId}/tasks`, data);
+      return response.data.data.task as CaseTask;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId, 'tasks'] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, 'tasks'] });
+      toast.success('Task added');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to add task');
+    },
+  });
+}
+
+// Edit, reassign or tick off a task - works from the case and from "My tasks"
+export function useUpdateCaseTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      caseId,
+      taskId,
+      data,
+    }: {
+      caseId: string;
+      taskId: string;
+      data: CaseTaskInput;
+    }) => {
+      const response = await apiClient.patch(`/api/cases/${caseId}/tasks/${taskId}`, data);
+      return response.data.data.task as CaseTask;
+    },
+    onSuccess: (_task, { caseId }) => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId, 'tasks'] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, 'tasks'] });
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to update task');
+    },
+  });
+}
+
+export function useDeleteCaseTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ caseId, taskId }: { caseId: string; taskId: string }) => {
+      await apiClient.delete(`/api/cases/${caseId}/tasks/${taskId}`);
+    },
+    onSuccess: (_data, { caseId }) => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId, 'tasks'] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, 'tasks'] });
+      toast.success('Task deleted');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to delete task');
+    },
+  });
+}
+
 export function useCreateAppointment(caseId: string) {
   const queryClient = useQueryClient();
 
@@ -200,6 +353,73 @@ export function useCreateAppointment(caseId: string) {
   });
 }
 
+// Client books one of the agent's open slots
+export function useBookAppointment(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: BookAppointmentInput) => {
+      const response = await apiClient.post(`/api/cases/${caseId}/appointments/book`, data);
+      return response.data.data.appointment as Appointment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId] });
+      toast.success('Appointment booked successfully!');
+    },
+    onError: (error: ApiError) => {
+      // The slot may have been taken in the meantime - refresh the list
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId, 'appointment-slots'] });
+      toast.error(error.response?.data?.error || 'Failed to book appointment');
+    },
+  });
+}
+
+// Reschedule, cancel or complete an appointment (AGENT/ADMIN)
+export function useUpdateAppointment(caseId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateAppointmentInput }) => {
+      const response = await apiClient.patch(`/api/appointments/${id}`, data);
+      return response.data.data.appointment as Appointment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY] });
+      queryClient.invalidateQueries({ queryKey: [CASES_KEY, caseId] });
+      toast.success('Appointment updated successfully');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to update appointment');
+    },
+  });
+}
+
+// Download an appointment as an .ics file for the user's own calendar app
+export function useDownloadAppointmentCalendar() {
+  return useMutation({
+    mutationFn: async (appointmentId: string) => {
+      const response = await apiClient.get(`/api/appointments/${appointmentId}/ics`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `appointment-${appointmentId}.ics`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+
+      return response.data;
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to download calendar file');
+    },
+  });
+}
+
 // Bulk operations on cases (ADMIN ONLY - Agents cannot perform bulk operations)
 export function useBulkCaseOperation() {
   const queryClient = useQueryClient();
@@ -212,6 +432,8 @@ export function useBulkCaseOperation() {
         assignedAgentId?: string;
         status?: string;
         priority?: string;
+        // UPDATE_STATUS only - include the rest of each case's family group
+        propagateToGroup?: boolean;
       };
     }) => {
       const response = await apiClient.post('/api/cases/bulk', data);
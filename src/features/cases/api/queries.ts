@@ -2,7 +2,17 @@
 
 import { useQuery, UseQueryOptions } from '@tanstack/react-query';
 import { apiClient } from '@/lib/utils/axios';
-import type { Case } from '../types';
+import type {
+  AppointmentSlotsResponse,
+  Case,
+  CaseChecklist,
+  CaseGroup,
+  CaseStatusTransitions,
+  CaseTask,
+  Destination,
+  IntakeForm,
+  MyTasksResponse,
+} from '../types';
 
 export const CASES_KEY = 'cases';
 
@@ -16,6 +26,7 @@ export interface CasesFilters {
   endDate?: string;
   search?: string;
   isAssigned?: 'true' | 'false';
+  slaState?: string;
   page?: number;
   limit?: number;
 }
@@ -50,6 +61,7 @@ export function useCases(
       if (filters?.endDate) params.append('endDate', filters.endDate);
       if (filters?.search) params.append('search', filters.search);
       if (filters?.isAssigned) params.append('isAssigned', filters.isAssigned);
+      if (filters?.slaState) params.append('slaState', filters.slaState);
       if (filters?.page) params.append('page', filters.page.toString());
       if (filters?.limit) params.append('limit', filters.limit.toString());
 
@@ -75,3 +87,105 @@ export function useCase(id: string) {
     enabled: !!id,
   });
 }
+
+// Get legal next statuses for a case (AGENT/ADMIN only)
+export function useCaseStatusTransitions(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [CASES_KEY, id, 'status-transitions'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/cases/${id}/status`);
+      return response.data.data as CaseStatusTransitions;
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+// Get the required document checklist for a case
+export function useCaseChecklist(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [CASES_KEY, id, 'checklist'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/cases/${id}/checklist`);
+      return response.data.data as CaseChecklist;
+    },
+    enabled: !!id && enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+// Get the open appointment slots of the case's assigned agent
+export function useAppointmentSlots(caseId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [CASES_KEY, caseId, 'appointment-slots'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/cases/${caseId}/appointments/slots`);
+      return response.data.data as AppointmentSlotsResponse;
+    },
+    enabled: !!caseId && enabled,
+    staleTime: 30 * 1000,
+  });
+}
+
+// Get the active destinations a case can be opened for
+export function useDestinations(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['destinations'],
+    queryFn: async () => {
+      const response = await apiClient.get('/api/destinations');
+      return response.data.data as Destination[];
+    },
+    enabled,
+    staleTime: 60 * 60 * 1000,
+  });
+}
+
+// Get the intake form a new case for this service type and destination must fill in
+export function useIntakeForm(serviceType?: string, destinationId?: string) {
+  return useQuery({
+    queryKey: ['intake-forms', serviceType, destinationId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ serviceType: serviceType! });
+      if (destinationId) params.append('destinationId', destinationId);
+      const response = await apiClient.get(`/api/intake-forms?${params}`);
+      return response.data.data.form as IntakeForm | null;
+    },
+    enabled: !!serviceType && !!destinationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Get a family / group application with its members' statuses
+export function useCaseGroup(groupId?: string | null) {
+  return useQuery({
+    queryKey: [CASES_KEY, 'groups', groupId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/case-groups/${groupId}`);
+      return response.data.data.group as CaseGroup;
+    },
+    enabled: !!groupId,
+  });
+}
+
+// Get the internal tasks of a case (AGENT/ADMIN only)
+export function useCaseTasks(caseId: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [CASES_KEY, caseId, 'tasks'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/cases/${caseId}/tasks`);
+      return response.data.data.tasks as CaseTask[];
+    },
+    enabled: !!caseId && enabled,
+  });
+}
+
+// Get the signed-in agent's tasks across all their cases
+export function useMyTasks(status: 'open' | 'done' | 'all' = 'open') {
+  return useQuery({
+    queryKey: [CASES_KEY, 'tasks', status],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/tasks?status=${status}`);
+      return response.data.data as MyTasksResponse;
+    },
+    staleTime: 60 * 1000,
+  });
+}
@@ -8,6 +8,7 @@ import { useCases, CasesFilters } from '../api';
 import { useUsers } from '@/features/users/api/queries';
 import { useBulkCaseOperation, useExportCases } from '../api/mutations';
 import { AssignCaseDialog } from './AssignCaseDialog';
+import { SlaBadge } from './SlaBadge';
 import type { Case } from '../types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -24,6 +25,7 @@ import {
 } from '@/components/ui/select';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
@@ -61,6 +63,7 @@ export function AgentCasesListEnhanced() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [serviceTypeFilter, setServiceTypeFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [slaFilter, setSlaFilter] = useState<string>('all');
   const [assignedAgentFilter, setAssignedAgentFilter] = useState<string>('all');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
@@ -69,6 +72,8 @@ export function AgentCasesListEnhanced() {
   const [selectedCaseForAssignment, setSelectedCaseForAssignment] = useState<Case | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedCases, setSelectedCases] = useState<Set<string>>(new Set());
+  // Bulk status changes also update the other cases of the selected cases' family groups
+  const [applyStatusToGroup, setApplyStatusToGroup] = useState(false);
   const [showBulkActions, setShowBulkActions] = useState(false);
   const itemsPerPage = 10;
 
@@ -98,6 +103,10 @@ export function AgentCasesListEnhanced() {
     filters.priority = priorityFilter;
   }
 
+  if (slaFilter !== 'all') {
+    filters.slaState = slaFilter;
+  }
+
   if (startDate) {
     filters.startDate = startDate;
   }
@@ -279,11 +288,16 @@ export function AgentCasesListEnhanced() {
       return;
     }
 
-    await bulkOperation.mutateAsync({
+    const result = await bulkOperation.mutateAsync({
       operation: 'UPDATE_STATUS',
       caseIds: validCaseIds,
-      data: { status },
+      data: { status, propagateToGroup: applyStatusToGroup },
     });
+    if (result?.skippedCases?.length) {
+      toast.warning(
+        t('cases.management.casesSkippedByWorkflow', { count: result.skippedCases.length })
+      );
+    }
     setSelectedCases(new Set());
     refetch();
   };
@@ -541,6 +555,25 @@ export function AgentCasesListEnhanced() {
                 </SelectContent>
               </Select>
 
+              {/* SLA */}
+              <Select
+                value={slaFilter}
+                onValueChange={(value) => {
+                  setSlaFilter(value);
+                  handleFilterChange();
+                }}
+              >
+                <SelectTrigger className="text-base h-10 sm:h-11">
+                  <SelectValue placeholder={t('cases.sla.title')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('cases.sla.allStates')}</SelectItem>
+                  <SelectItem value="BREACHED">{t('cases.sla.states.BREACHED')}</SelectItem>
+                  <SelectItem value="AT_RISK">{t('cases.sla.states.AT_RISK')}</SelectItem>
+                  <SelectItem value="ON_TRACK">{t('cases.sla.states.ON_TRACK')}</SelectItem>
+                </SelectContent>
+              </Select>
+
               {/* Date Range - Start Date */}
               <div className="relative w-full overflow-visible">
                 <Input
@@ -662,6 +695,14 @@ export function AgentCasesListEnhanced() {
                             {config.label}
                           </DropdownMenuItem>
                         ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuCheckboxItem
+                          checked={applyStatusToGroup}
+                          onCheckedChange={(checked) => setApplyStatusToGroup(checked === true)}
+                          onSelect={(event) => event.preventDefault()}
+                        >
+                          {t('cases.groups.applyToGroup')}
+                        </DropdownMenuCheckboxItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
                     <TooltipContent>
@@ -796,6 +837,7 @@ export function AgentCasesListEnhanced() {
                                 >
                                   {translatedStatusConfig[c.status]?.label || c.status}
                                 </Badge>
+                                <SlaBadge caseData={c} />
                                 {c.appointments &&
                                   c.appointments.length > 0 &&
                                   c.appointments.some(
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { useAppointmentSlots, useBookAppointment } from '../api';
+import { RefreshCw } from 'lucide-react';
+import type { Appointment, AppointmentSlot } from '../types';
+import { cn } from '@/lib/utils';
+
+interface BookAppointmentDialogProps {
+  caseId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAppointmentBooked?: (appointment: Appointment) => void;
+}
+
+const viewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function formatSlotTime(iso: string, timeZone?: string) {
+  return new Date(iso).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+  });
+}
+
+// Group slots by calendar day in the viewer's time zone
+function groupSlotsByDay(slots: AppointmentSlot[]) {
+  const groups = new Map<string, AppointmentSlot[]>();
+  for (const slot of slots) {
+    const day = new Date(slot.startsAt).toLocaleDateString(undefined, {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    groups.set(day, [...(groups.get(day) ?? []), slot]);
+  }
+  return [...groups.entries()];
+}
+
+export function BookAppointmentDialog({
+  caseId,
+  open,
+  onOpenChange,
+  onAppointmentBooked,
+}: BookAppointmentDialogProps) {
+  const { t } = useTranslation();
+  const { data, isLoading, refetch } = useAppointmentSlots(caseId, open);
+  const bookAppointment = useBookAppointment(caseId);
+  const [selectedSlot, setSelectedSlot] = useState<AppointmentSlot | null>(null);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setSelectedSlot(null);
+      setNotes('');
+      refetch();
+    }
+  }, [open, refetch]);
+
+  const groupedSlots = useMemo(() => groupSlotsByDay(data?.slots ?? []), [data?.slots]);
+  const localTimeZone = viewerTimeZone();
+
+  const handleSubmit = async () => {
+    if (!selectedSlot) return;
+
+    try {
+      await bookAppointment.mutateAsync(
+        {
+          scheduledAt: selectedSlot.startsAt,
+          notes: notes.trim() ? notes.trim() : undefined,
+        },
+        {
+          onSuccess: (appointment) => {
+            onAppointmentBooked?.(appointment);
+            onOpenChange(false);
+          },
+        }
+      );
+    } catch {
+      // Error toast handled by mutation's onError callback.
+      setSelectedSlot(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('cases.dialogs.bookAppointment.title')}</DialogTitle>
+          <DialogDescription>
+            {data?.agent
+              ? t('cases.dialogs.bookAppointment.description', {
+                  agentName: `${data.agent.firstName} ${data.agent.lastName}`.trim(),
+                  timeZone: localTimeZone,
+                })
+              : t('cases.dialogs.bookAppointment.noAgent')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2 max-h-[50vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="space-y-2">
+              <SimpleSkeleton className="h-5 w-40" />
+              <SimpleSkeleton className="h-10 w-full" />
+              <SimpleSkeleton className="h-10 w-full" />
+            </div>
+          ) : groupedSlots.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-muted p-4 text-sm text-muted-foreground">
+              {t('cases.dialogs.bookAppointment.noSlots')}
+            </div>
+          ) : (
+            groupedSlots.map(([day, slots]) => (
+              <div key={day} className="space-y-2">
+                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                  {day}
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {slots.map((slot) => {
+                    const isSelected = selectedSlot?.startsAt === slot.startsAt;
+                    const showAgentTime = slot.timezone !== localTimeZone;
+                    return (
+                      <Button
+                        key={slot.startsAt}
+                        type="button"
+                        variant={isSelected ? 'default' : 'outline'}
+                        className={cn('h-auto flex-col py-2', isSelected && 'ring-2 ring-primary')}
+                        onClick={() => setSelectedSlot(slot)}
+                      >
+                        <span>{formatSlotTime(slot.startsAt)}</span>
+                        {showAgentTime && (
+                          <span className="text-[10px] opacity-70">
+                            {t('cases.dialogs.bookAppointment.agentTime', {
+                              time: formatSlotTime(slot.startsAt, slot.timezone),
+                            })}
+                          </span>
+                        )}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+
+          {selectedSlot && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {t('cases.dialogs.bookAppointment.location', { location: selectedSlot.location })}
+              </p>
+              <Label htmlFor="book-appointment-notes">
+                {t('cases.dialogs.scheduleAppointment.notes')}
+              </Label>
+              <Textarea
+                id="book-appointment-notes"
+                value={notes}
+                onChange={(event) => setNotes(event.target.value)}
+                rows={3}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={bookAppointment.isPending}
+          >
+            {t('cases.dialogs.scheduleAppointment.cancel')}
+          </Button>
+          <Button onClick={handleSubmit} disabled={bookAppointment.isPending || !selectedSlot}>
+            {bookAppointment.isPending ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                {t('cases.dialogs.bookAppointment.booking')}
+              </>
+            ) : (
+              t('cases.dialogs.bookAppointment.book')
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
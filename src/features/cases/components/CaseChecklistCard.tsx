@@ -0,0 +1,174 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import { useCaseChecklist, useRequestDocuments } from '../api';
+import type { CaseChecklist, ChecklistItemStatus } from '../types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle, Clock, XCircle, AlertCircle, FileText, RefreshCw, Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const ITEM_STATUS_STYLES: Record<
+  ChecklistItemStatus,
+  { icon: typeof CheckCircle; className: string }
+> = {
+  SATISFIED: { icon: CheckCircle, className: 'bg-green-100 text-green-800 border-green-200' },
+  PENDING_REVIEW: { icon: Clock, className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  REJECTED: { icon: XCircle, className: 'bg-red-100 text-red-800 border-red-200' },
+  EXPIRED: { icon: AlertCircle, className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  MISSING: { icon: FileText, className: 'bg-gray-100 text-gray-800 border-gray-200' },
+};
+
+interface CaseChecklistCardProps {
+  caseId: string;
+  checklist?: CaseChecklist;
+  isLoading?: boolean;
+  canRequestDocuments?: boolean;
+  onDocumentsRequested?: () => void;
+}
+
+export function CaseChecklistCard({
+  caseId,
+  checklist,
+  isLoading,
+  canRequestDocuments = false,
+  onDocumentsRequested,
+}: CaseChecklistCardProps) {
+  const { t } = useTranslation();
+  const requestDocuments = useRequestDocuments(caseId);
+
+  const handleRequestMissing = async () => {
+    try {
+      await requestDocuments.mutateAsync({ autoRequestMissing: true });
+      onDocumentsRequested?.();
+    } catch {
+      // Error toast is handled by the mutation
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="pt-6 space-y-3">
+          <Skeleton className="h-5 w-1/3" />
+          <Skeleton className="h-3 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // No rules configured for this service type - nothing to show
+  if (!checklist || checklist.items.length === 0) {
+    return null;
+  }
+
+  const { summary } = checklist;
+  const outstanding = summary.missing + summary.rejected + summary.expired;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle className="text-base sm:text-lg">{t('cases.checklist.title')}</CardTitle>
+            <CardDescription>
+              {t('cases.checklist.progressSummary', {
+                satisfied: summary.satisfied,
+                required: summary.required,
+              })}
+            </CardDescription>
+          </div>
+          {canRequestDocuments && outstanding > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleRequestMissing}
+              disabled={requestDocuments.isPending}
+            >
+              {requestDocuments.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              {t('cases.checklist.requestMissing', { count: outstanding })}
+            </Button>
+          )}
+        </div>
+        <Progress value={summary.progress} className="h-2 mt-2" />
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {checklist.items.map((item) => {
+          const { icon: Icon, className } = ITEM_STATUS_STYLES[item.status];
+          return (
+            <div
+              key={item.ruleId}
+              className="flex items-start justify-between gap-3 rounded-md border p-3"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-sm">
+                  {item.label || t(`documents.types.${item.documentType}`)}
+                  {!item.isRequired && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {t('cases.checklist.optional')}
+                    </span>
+                  )}
+                </p>
+                {item.description && (
+                  <p className="text-xs text-muted-foreground">{item.description}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t('cases.checklist.approvedCount', {
+                    approved: item.approvedCount,
+                    min: item.minCount,
+                  })}
+                  {item.maxAgeDays
+                    ? ` • ${t('cases.checklist.maxAge', { count: item.maxAgeDays })}`
+                    : ''}
+                </p>
+              </div>
+              <Badge variant="outline" className={cn('shrink-0 gap-1', className)}>
+                <Icon className="h-3 w-3" />
+                {t(`cases.checklist.status.${item.status}`)}
+              </Badge>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CaseChecklistProgressProps {
+  caseId: string;
+  className?: string;
+}
+
+/**
+ * Compact checklist progress for case list cards
+ */
+export function CaseChecklistProgress({ caseId, className }: CaseChecklistProgressProps) {
+  const { t } = useTranslation();
+  const { data: checklist } = useCaseChecklist(caseId);
+
+  if (!checklist || checklist.summary.required === 0) {
+    return null;
+  }
+
+  const { summary } = checklist;
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{t('cases.checklist.title')}</span>
+        <span>
+          {summary.satisfied}/{summary.required}
+        </span>
+      </div>
+      <Progress value={summary.progress} className="h-1.5" />
+    </div>
+  );
+}
@@ -4,10 +4,26 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslation } from 'react-i18next';
 import { useAuthStore } from '@/features/auth/store';
-import { useCase, useUpdateCaseStatus, useAddInternalNote } from '../api';
-import { useApproveDocument, useRejectDocument } from '@/features/documents/api';
+import {
+  useCase,
+  useCaseChecklist,
+  useCaseStatusTransitions,
+  useUpdateCaseStatus,
+  useAddInternalNote,
+  useDownloadAppointmentCalendar,
+} from '../api';
+import {
+  downloadDocument,
+  openDocument,
+  useApproveDocument,
+  useRejectDocument,
+} from '@/features/documents/api';
 import { AssignCaseDialog } from './AssignCaseDialog';
 import { CaseTransferDialog } from './CaseTransferDialog';
+import { CaseChecklistCard } from './CaseChecklistCard';
+import { CaseIntakeAnswersCard } from './CaseIntakeAnswersCard';
+import { CaseGroupCard } from './CaseGroupCard';
+import { CaseTasksCard } from './CaseTasksCard';
 import type { Appointment, Case, Document } from '../types';
 import { AppointmentStatus } from '../types';
 import { CaseSchema } from '../types';
@@ -60,6 +76,7 @@ import {
   Send,
   MapPin,
   Plus,
+  CalendarPlus,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -67,6 +84,8 @@ import { logger } from '@/lib/utils/logger';
 import { getErrorMessage } from '@/lib/utils/error-handler';
 import { formatDateTime } from '@/lib/utils/helpers';
 import { ScheduleAppointmentDialog } from './ScheduleAppointmentDialog';
+import { ManageAppointmentDialog } from './ManageAppointmentDialog';
+import { BookAppointmentDialog } from './BookAppointmentDialog';
 
 interface CaseDetailViewProps {
   caseId: string;
@@ -77,17 +96,12 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
   const router = useRouter();
   const { user } = useAuthStore();
 
-  const statusOptions = [
-    { value: 'SUBMITTED', label: t('cases.statusLabels.SUBMITTED') },
-    { value: 'UNDER_REVIEW', label: t('cases.statusLabels.UNDER_REVIEW') },
-    { value: 'DOCUMENTS_REQUIRED', label: t('cases.statusLabels.DOCUMENTS_REQUIRED') },
-    { value: 'PROCESSING', label: t('cases.statusLabels.PROCESSING') },
-    { value: 'APPROVED', label: t('cases.statusLabels.APPROVED') },
-    { value: 'REJECTED', label: t('cases.statusLabels.REJECTED') },
-  ];
-
   // Consistent status colors as used in list views
   const statusConfig: Record<string, { label: string; className: string }> = {
+    DRAFT: {
+      label: t('cases.statusLabels.DRAFT'),
+      className: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+    },
     SUBMITTED: {
       label: t('cases.statusLabels.SUBMITTED'),
       className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
@@ -144,8 +158,19 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
     { value: 'URGENT', label: t('cases.priorityLabels.URGENT'), color: 'text-red-600' },
   ];
   const { data, isLoading, error, refetch } = useCase(caseId);
+  const canManageStatus = user?.role === 'AGENT' || user?.role === 'ADMIN';
+  const { data: statusTransitions, refetch: refetchStatusTransitions } = useCaseStatusTransitions(
+    caseId,
+    canManageStatus
+  );
+  const {
+    data: checklist,
+    isLoading: isChecklistLoading,
+    refetch: refetchChecklist,
+  } = useCaseChecklist(caseId);
   const updateCaseStatus = useUpdateCaseStatus(caseId);
   const addInternalNote = useAddInternalNote(caseId);
+  const downloadAppointmentCalendar = useDownloadAppointmentCalendar();
   const approveDocument = useApproveDocument();
   const rejectDocument = useRejectDocument();
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
@@ -159,6 +184,16 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
   const [transferDialogOpen, setTransferDialogOpen] = useState(false);
   const [appointmentDialogOpen, setAppointmentDialogOpen] = useState(false);
+  const [managedAppointment, setManagedAppointment] = useState<Appointment | null>(null);
+  const [bookingDialogOpen, setBookingDialogOpen] = useState(false);
+
+  // Only offer the statuses the case workflow allows from the current state
+  const statusOptions = (statusTransitions?.transitions ?? []).map((transition) => ({
+    value: transition.status,
+    label: t(`cases.statusLabels.${transition.status}`),
+    disabled: !transition.allowed,
+    blockedReason: transition.blockedReasons.join('. '),
+  }));
 
   if (isLoading) return <CaseDetailSkeleton />;
   if (error || !data)
@@ -216,6 +251,17 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
 
   const { upcomingAppointment, otherAppointments } = splitAppointments(caseData.appointments);
 
+  // Clients can book their own slot once the case is approved and nothing is planned yet
+  const canBookAppointment =
+    !isAgent &&
+    caseData.status === 'APPROVED' &&
+    !(caseData.appointments ?? []).some(
+      (appointment) =>
+        (appointment.status === AppointmentStatus.SCHEDULED ||
+          appointment.status === AppointmentStatus.RESCHEDULED) &&
+        new Date(appointment.scheduledAt).getTime() > Date.now()
+    );
+
   const handleStatusUpdate = async () => {
     try {
       await updateCaseStatus.mutateAsync({
@@ -237,6 +283,7 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
       await approveDocument.mutateAsync(docId);
       toast.success(t('cases.dialogs.caseDetail.documentApprovedSuccessfully'));
       refetch();
+      refetchChecklist();
     } catch (error) {
       toast.error(getErrorMessage(error));
       logger.error('Failed to approve document', error, { docId, caseId });
@@ -251,101 +298,32 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
       setRejectReason('');
       setSelectedDocId('');
       refetch();
+      refetchChecklist();
     } catch (error) {
       toast.error(getErrorMessage(error));
       logger.error('Failed to reject document', error, { docId, caseId, reason });
     }
   };
 
-  const handleViewDocument = (doc: Document) => {
+  const handleViewDocument = async (doc: Document) => {
     try {
-      logger.info('Attempting to view document (case)', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-      });
-
-      if (!doc.filePath) {
-        logger.error('Document filePath is empty (case)', { documentId: doc.id });
-        toast.error(t('cases.dialogs.caseDetail.invalidDocumentUrl'));
-        return;
-      }
-
-      let fileUrl = doc.filePath;
-
-      // If it's not a full URL, add https://
-      if (!fileUrl.startsWith('http://') && !fileUrl.startsWith('https://')) {
-        logger.warn('Document filePath is not a full URL (case), adding https://', {
-          filePath: doc.filePath,
-        });
-        fileUrl = `https://${fileUrl}`;
-      }
-
-      const url = new URL(fileUrl);
-      const trustedDomains = ['utfs.io', 'uploadthing.com', 'ufs.sh', 'cloudinary.com'];
-      const isTrusted = trustedDomains.some(
-        (domain) => url.hostname === domain || url.hostname.endsWith('.' + domain)
-      );
-
-      if (!isTrusted) {
-        logger.warn('Document URL is not from trusted domain (case)', {
-          hostname: url.hostname,
-          fileUrl,
-        });
-        toast.error(t('cases.dialogs.caseDetail.invalidDocumentUrl'));
-        return;
-      }
-
-      logger.info('Opening document in new tab (case)', { fileUrl });
-      window.open(fileUrl, '_blank', 'noopener,noreferrer');
+      logger.info('Opening document (case)', { documentId: doc.id });
+      await openDocument(doc.id);
     } catch (error) {
-      logger.error('Failed to open document (case)', error, {
-        filePath: doc.filePath,
-        documentId: doc.id,
-      });
+      logger.error('Failed to open document (case)', error, { documentId: doc.id });
       toast.error(t('cases.dialogs.caseDetail.invalidDocumentUrl'));
     }
   };
 
   const handleDownloadDocument = async (doc: Document) => {
     try {
-      logger.info('Starting document download (case)', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-        originalName: doc.originalName,
-      });
-
-      // Fetch the file as a blob
-      const response = await fetch(doc.filePath);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch file: ${response.statusText}`);
-      }
-
-      const blob = await response.blob();
-
-      // Create a local blob URL
-      const blobUrl = window.URL.createObjectURL(blob);
-
-      // Create a temporary link element and trigger download
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = doc.originalName || 'document';
-      document.body.appendChild(link);
-      link.click();
-
-      // Clean up
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(blobUrl);
-
+      await downloadDocument(doc.id, doc.originalName);
       logger.info('Document downloaded successfully (case)', {
         documentId: doc.id,
         originalName: doc.originalName,
       });
     } catch (error) {
-      logger.error('Failed to download document (case)', error, {
-        documentId: doc.id,
-        filePath: doc.filePath,
-      });
+      logger.error('Failed to download document (case)', error, { documentId: doc.id });
       toast.error(t('cases.dialogs.caseDetail.failedToDownload'));
     }
   };
@@ -408,6 +386,25 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
     refetch();
   };
 
+  // Only upcoming appointments can be rescheduled, cancelled or completed
+  const canManageAppointment = (appointment: Appointment) =>
+    isAgent &&
+    (appointment.status === AppointmentStatus.SCHEDULED ||
+      appointment.status === AppointmentStatus.RESCHEDULED);
+
+  const renderManageAppointmentButton = (appointment: Appointment) =>
+    canManageAppointment(appointment) ? (
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-7 px-2 text-xs"
+        onClick={() => setManagedAppointment(appointment)}
+      >
+        <Edit className="mr-1 h-3.5 w-3.5" style={{ color: '#ff4538' }} />
+        {t('cases.dialogs.manageAppointment.manage')}
+      </Button>
+    ) : null;
+
   const getAppointmentAdvisorDetails = (appointment: Appointment) => {
     const source = appointment.assignedAgent ?? appointment.createdBy;
     if (!source) {
@@ -556,7 +553,13 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
             {/* Update Status Button (Agent/Admin, assigned cases) */}
             {isAgent && !isUnassigned && (
               <Tooltip>
-                <Dialog open={statusDialogOpen} onOpenChange={setStatusDialogOpen}>
+                <Dialog
+                  open={statusDialogOpen}
+                  onOpenChange={(open) => {
+                    setStatusDialogOpen(open);
+                    if (open) refetchStatusTransitions();
+                  }}
+                >
                   <TooltipTrigger asChild>
                     <DialogTrigger asChild>
                       <Button
@@ -611,18 +614,32 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
                     <div className="space-y-4 py-4">
                       <div>
                         <Label>{t('cases.dialogs.caseDetail.newStatus')}</Label>
-                        <Select value={newStatus} onValueChange={setNewStatus}>
+                        <Select
+                          value={newStatus}
+                          onValueChange={setNewStatus}
+                          disabled={statusOptions.length === 0}
+                        >
                           <SelectTrigger>
                             <SelectValue placeholder={t('cases.dialogs.caseDetail.selectStatus')} />
                           </SelectTrigger>
                           <SelectContent>
                             {statusOptions.map((s) => (
-                              <SelectItem key={s.value} value={s.value}>
-                                {s.label}
+                              <SelectItem key={s.value} value={s.value} disabled={s.disabled}>
+                                <span>{s.label}</span>
+                                {s.disabled && s.blockedReason && (
+                                  <span className="ml-2 text-xs text-muted-foreground">
+                                    ({s.blockedReason})
+                                  </span>
+                                )}
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
+                        {statusOptions.length === 0 && (
+                          <p className="mt-2 text-xs text-muted-foreground">
+                            {t('cases.dialogs.caseDetail.noStatusTransitions')}
+                          </p>
+                        )}
                       </div>
                       <div>
                         <Label>{t('cases.dialogs.caseDetail.noteOptional')}</Label>
@@ -851,6 +868,11 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
               <TabsTrigger value="timeline" className="text-xs sm:text-sm whitespace-nowrap">
                 {t('cases.dialogs.caseDetail.timeline')}
               </TabsTrigger>
+              {isAgent && (
+                <TabsTrigger value="tasks" className="text-xs sm:text-sm whitespace-nowrap">
+                  {t('cases.tasks.title')}
+                </TabsTrigger>
+              )}
               {isAgent && (
                 <TabsTrigger value="notes" className="text-xs sm:text-sm whitespace-nowrap">
                   {t('cases.dialogs.caseDetail.internalNotes')}
@@ -898,6 +920,16 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
                       {t('cases.dialogs.caseDetail.schedule')}
                     </Button>
                   )}
+                  {canBookAppointment && (
+                    <Button
+                      size="sm"
+                      onClick={() => setBookingDialogOpen(true)}
+                      className="w-full sm:w-auto text-xs sm:text-sm h-8 sm:h-9"
+                    >
+                      <Plus className="mr-1.5 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                      {t('cases.dialogs.bookAppointment.trigger')}
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-3 sm:space-y-4">
                   {upcomingAppointment ? (
@@ -911,16 +943,34 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
                             {formatDateTime(upcomingAppointment.scheduledAt)}
                           </p>
                         </div>
-                        <Badge
-                          variant="outline"
-                          className={cn(
-                            'capitalize text-[10px] sm:text-xs w-fit mt-2 sm:mt-0',
-                            appointmentStatusConfig[upcomingAppointment.status].className
-                          )}
-                        >
-                          {appointmentStatusConfig[upcomingAppointment.status]?.label ||
-                            t(`cases.appointmentStatus.${upcomingAppointment.status}`)}
-                        </Badge>
+                        <div className="flex items-center gap-2 mt-2 sm:mt-0">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs"
+                            disabled={downloadAppointmentCalendar.isPending}
+                            onClick={() =>
+                              downloadAppointmentCalendar.mutate(upcomingAppointment.id)
+                            }
+                          >
+                            <CalendarPlus
+                              className="mr-1 h-3.5 w-3.5"
+                              style={{ color: '#ff4538' }}
+                            />
+                            {t('cases.dialogs.caseDetail.addToCalendar')}
+                          </Button>
+                          {renderManageAppointmentButton(upcomingAppointment)}
+                          <Badge
+                            variant="outline"
+                            className={cn(
+                              'capitalize text-[10px] sm:text-xs w-fit',
+                              appointmentStatusConfig[upcomingAppointment.status].className
+                            )}
+                          >
+                            {appointmentStatusConfig[upcomingAppointment.status]?.label ||
+                              t(`cases.appointmentStatus.${upcomingAppointment.status}`)}
+                          </Badge>
+                        </div>
                       </div>
                       <div className="grid gap-2 sm:gap-3 sm:grid-cols-2">
                         <InfoRow
@@ -943,6 +993,15 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
                           />
                         </div>
                       )}
+                      {upcomingAppointment.statusReason && (
+                        <div className="pt-2 border-t border-border">
+                          <InfoRow
+                            icon={AlertCircle}
+                            label={t('cases.dialogs.manageAppointment.reason')}
+                            value={upcomingAppointment.statusReason}
+                          />
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="rounded-lg border border-dashed border-muted p-4 text-sm text-muted-foreground">
@@ -975,23 +1034,49 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
                                   {details.name}
                                   {details.email ? ` • ${details.email}` : ''}
                                 </p>
-                              </div>
-                              <Badge
-                                variant="outline"
-                                className={cn(
-                                  'capitalize text-[10px] sm:text-xs',
-                                  appointmentStatusConfig[appointment.status].className
+                                {appointment.statusReason && (
+                                  <p className="text-xs text-muted-foreground italic">
+                                    {appointment.statusReason}
+                                  </p>
                                 )}
-                              >
-                                {appointmentStatusConfig[appointment.status]?.label ||
-                                  t(`cases.appointmentStatus.${appointment.status}`)}
-                              </Badge>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {renderManageAppointmentButton(appointment)}
+                                <Badge
+                                  variant="outline"
+                                  className={cn(
+                                    'capitalize text-[10px] sm:text-xs',
+                                    appointmentStatusConfig[appointment.status].className
+                                  )}
+                                >
+                                  {appointmentStatusConfig[appointment.status]?.label ||
+                                    t(`cases.appointmentStatus.${appointment.status}`)}
+                                </Badge>
+                              </div>
                             </div>
                           );
                         })}
                       </div>
                     </div>
                   )}
+
+                  <ManageAppointmentDialog
+                    caseId={caseData.id}
+                    appointment={managedAppointment}
+                    open={managedAppointment !== null}
+                    onOpenChange={(open) => {
+                      if (!open) setManagedAppointment(null);
+                    }}
+                    onAppointmentUpdated={handleAppointmentScheduled}
+                  />
+                  {canBookAppointment && (
+                    <BookAppointmentDialog
+                      caseId={caseData.id}
+                      open={bookingDialogOpen}
+                      onOpenChange={setBookingDialogOpen}
+                      onAppointmentBooked={handleAppointmentScheduled}
+                    />
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -1198,9 +1283,27 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
                 </CardContent>
               </Card>
             </div>
+
+            <CaseIntakeAnswersCard formData={caseData.formData} />
+
+            <CaseGroupCard
+              groupId={caseData.groupId}
+              currentCaseId={caseData.id}
+              statusClassNames={statusConfig}
+            />
           </TabsContent>
 
           <TabsContent value="documents" className="space-y-3 sm:space-y-4">
+            <CaseChecklistCard
+              caseId={caseId}
+              checklist={checklist}
+              isLoading={isChecklistLoading}
+              canRequestDocuments={isAgent}
+              onDocumentsRequested={() => {
+                refetch();
+                refetchChecklist();
+              }}
+            />
             {caseData.documents && caseData.documents.length > 0 ? (
               <div className="grid gap-3 sm:gap-4">
                 {caseData.documents.map((doc: Document) => (
@@ -1384,6 +1487,12 @@ export function CaseDetailView({ caseId }: CaseDetailViewProps) {
             </Card>
           </TabsContent>
 
+          {isAgent && (
+            <TabsContent value="tasks">
+              <CaseTasksCard caseId={caseData.id} />
+            </TabsContent>
+          )}
+
           {isAgent && (
             <TabsContent value="notes">
               <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
@@ -0,0 +1,108 @@
+'use client';
+
+import Link from 'next/link';
+import { useTranslation } from 'react-i18next';
+import { useCaseGroup } from '../api';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, Crown, Users } from 'lucide-react';
+
+interface CaseGroupCardProps {
+  groupId?: string | null;
+  currentCaseId: string;
+  statusClassNames: Record<string, { className: string }>;
+}
+
+/**
+ * Family / group application the case belongs to - every member with its status
+ */
+export function CaseGroupCard({ groupId, currentCaseId, statusClassNames }: CaseGroupCardProps) {
+  const { t } = useTranslation();
+  const { data: group, isLoading } = useCaseGroup(groupId);
+
+  if (!groupId) {
+    return null;
+  }
+
+  if (isLoading || !group) {
+    return (
+      <Card>
+        <CardContent className="space-y-2 py-4">
+          <SimpleSkeleton className="h-5 w-40" />
+          <SimpleSkeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { summary } = group;
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="text-sm sm:text-base font-semibold leading-tight flex items-center gap-2">
+          <Users className="h-4 w-4" style={{ color: '#ff4538' }} />
+          {group.name || t('cases.groups.title')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {t('cases.groups.progress', { completed: summary.completed, total: summary.total })}
+          {summary.sharedDocuments > 0 &&
+            ` · ${t('cases.groups.sharedDocuments', { count: summary.sharedDocuments })}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {summary.documentsRequired > 0 && (
+          <div className="flex items-center gap-2 rounded-md bg-orange-50 px-3 py-2 text-xs text-orange-800 dark:bg-orange-950 dark:text-orange-300">
+            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            {t('cases.groups.documentsRequired', { count: summary.documentsRequired })}
+          </div>
+        )}
+        <ul className="divide-y">
+          {group.members.map((member) => (
+            <li
+              key={member.id}
+              className="flex flex-wrap items-center justify-between gap-2 py-2 text-xs sm:text-sm"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-1.5 font-medium">
+                  {member.isPrincipal && (
+                    <Crown
+                      className="h-3.5 w-3.5 flex-shrink-0"
+                      style={{ color: '#ff4538' }}
+                      aria-label={t('cases.groups.principal')}
+                    />
+                  )}
+                  <span className="truncate">
+                    {member.client.firstName} {member.client.lastName}
+                  </span>
+                </div>
+                {member.id === currentCaseId ? (
+                  <span className="text-muted-foreground">
+                    {member.referenceNumber} · {t('cases.groups.thisCase')}
+                  </span>
+                ) : (
+                  <Link
+                    href={`/dashboard/cases/${member.id}`}
+                    className="text-muted-foreground underline-offset-2 hover:underline"
+                  >
+                    {member.referenceNumber}
+                  </Link>
+                )}
+              </div>
+              <Badge
+                className={cn(
+                  'whitespace-nowrap text-xs',
+                  statusClassNames[member.status]?.className || ''
+                )}
+              >
+                {t(`cases.statusLabels.${member.status}`)}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
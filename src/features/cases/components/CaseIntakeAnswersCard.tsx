@@ -0,0 +1,107 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import type { CaseFormData, IntakeAnswer, IntakeField } from '../types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ClipboardList } from 'lucide-react';
+
+interface CaseIntakeAnswersCardProps {
+  formData?: CaseFormData | null;
+}
+
+function formatAnswer(
+  field: IntakeField | undefined,
+  value: unknown,
+  t: (key: string) => string
+): string {
+  const optionLabel = (item: unknown) =>
+    field?.options?.find((option) => option.value === item)?.label ?? String(item);
+
+  if (typeof value === 'boolean') {
+    return value ? t('cases.intake.yes') : t('cases.intake.no');
+  }
+  if (Array.isArray(value)) {
+    return value.map(optionLabel).join(', ');
+  }
+  if (field?.type === 'date' && typeof value === 'string') {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return optionLabel(value);
+}
+
+function AnswerRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="grid gap-1 sm:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] sm:gap-4 py-1.5">
+      <dt className="text-xs sm:text-sm text-muted-foreground">{label}</dt>
+      <dd className="text-xs sm:text-sm font-medium whitespace-pre-wrap break-words">{value}</dd>
+    </div>
+  );
+}
+
+/**
+ * Intake answers of a case, laid out with the form version the client filled in
+ * Cases created before intake forms existed show their raw answers
+ */
+export function CaseIntakeAnswersCard({ formData }: CaseIntakeAnswersCardProps) {
+  const { t } = useTranslation();
+
+  if (!formData || Object.keys(formData.data ?? {}).length === 0) {
+    return null;
+  }
+
+  const answers = formData.data as Record<string, IntakeAnswer | undefined>;
+  const definition = formData.schema?.definition;
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="text-sm sm:text-base font-semibold leading-tight flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" style={{ color: '#ff4538' }} />
+          {formData.schema?.title ?? t('cases.intake.answersTitle')}
+        </CardTitle>
+        {formData.schema && (
+          <CardDescription className="text-xs sm:text-sm">
+            {t('cases.intake.formVersion', { version: formData.schema.version })}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {definition ? (
+          definition.sections.map((section) => {
+            const answered = section.fields.filter(
+              (field) => answers[field.key] !== undefined && answers[field.key] !== ''
+            );
+            if (answered.length === 0) {
+              return null;
+            }
+            return (
+              <div key={section.key}>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">
+                  {section.title}
+                </h4>
+                <dl className="divide-y">
+                  {answered.map((field) => (
+                    <AnswerRow
+                      key={field.key}
+                      label={field.label}
+                      value={formatAnswer(field, answers[field.key], t)}
+                    />
+                  ))}
+                </dl>
+              </div>
+            );
+          })
+        ) : (
+          <dl className="divide-y">
+            {Object.entries(answers).map(([key, value]) => (
+              <AnswerRow key={key} label={key} value={formatAnswer(undefined, value, t)} />
+            ))}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
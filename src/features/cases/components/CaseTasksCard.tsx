@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useCaseTasks, useCreateCaseTask, useDeleteCaseTask, useUpdateCaseTask } from '../api';
+import type { CaseTask } from '../types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { formatDate } from '@/lib/utils/helpers';
+import { cn } from '@/lib/utils';
+import { ListTodo, Plus, Trash2 } from 'lucide-react';
+
+interface CaseTasksCardProps {
+  caseId: string;
+}
+
+export function isTaskOverdue(task: Pick<CaseTask, 'isDone' | 'dueAt'>): boolean {
+  return !task.isDone && !!task.dueAt && new Date(task.dueAt).getTime() < Date.now();
+}
+
+/**
+ * Internal to-dos for the case - staff only, the client never sees them
+ */
+export function CaseTasksCard({ caseId }: CaseTasksCardProps) {
+  const { t } = useTranslation();
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  const { data: tasks, isLoading } = useCaseTasks(caseId);
+  const createTask = useCreateCaseTask(caseId);
+  const updateTask = useUpdateCaseTask();
+  const deleteTask = useDeleteCaseTask();
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) {
+      return;
+    }
+
+    try {
+      await createTask.mutateAsync({
+        title: title.trim(),
+        // Due at the end of the picked day
+        dueAt: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+      });
+      setTitle('');
+      setDueDate('');
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="text-sm sm:text-base font-semibold leading-tight flex items-center gap-2">
+          <ListTodo className="h-4 w-4" style={{ color: '#ff4538' }} />
+          {t('cases.tasks.title')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm leading-relaxed">
+          {t('cases.tasks.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 sm:space-y-4 pt-0">
+        <form onSubmit={handleAdd} className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={t('cases.tasks.titlePlaceholder')}
+            maxLength={200}
+            disabled={createTask.isPending}
+            className="flex-1"
+          />
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            aria-label={t('cases.tasks.dueDate')}
+            disabled={createTask.isPending}
+            className="sm:w-40"
+          />
+          <Button type="submit" disabled={!title.trim() || createTask.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('cases.tasks.add')}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <SimpleSkeleton className="h-8 w-full" />
+            <SimpleSkeleton className="h-8 w-full" />
+          </div>
+        ) : !tasks?.length ? (
+          <p className="text-sm text-muted-foreground">{t('cases.tasks.empty')}</p>
+        ) : (
+          <ul className="divide-y">
+            {tasks.map((task) => {
+              const overdue = isTaskOverdue(task);
+              return (
+                <li key={task.id} className="flex items-start gap-3 py-2">
+                  <Checkbox
+                    checked={task.isDone}
+                    onCheckedChange={(checked) =>
+                      updateTask.mutate({
+                        caseId,
+                        taskId: task.id,
+                        data: { isDone: checked === true },
+                      })
+                    }
+                    aria-label={t('cases.tasks.markDone')}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0 flex-1 text-xs sm:text-sm">
+                    <p
+                      className={cn(
+                        'font-medium break-words',
+                        task.isDone && 'line-through text-muted-foreground'
+                      )}
+                    >
+                      {task.title}
+                    </p>
+                    {task.description && (
+                      <p className="text-muted-foreground whitespace-pre-wrap">
+                        {task.description}
+                      </p>
+                    )}
+                    <p className="text-muted-foreground">
+                      {task.dueAt && (
+                        <span className={cn(overdue && 'font-medium text-red-600')}>
+                          {overdue
+                            ? t('cases.tasks.overdue', { date: formatDate(task.dueAt) })
+                            : t('cases.tasks.due', { date: formatDate(task.dueAt) })}
+                          {' · '}
+                        </span>
+                      )}
+                      {task.assignee
+                        ? `${task.assignee.firstName} ${task.assignee.lastName}`
+                        : t('cases.tasks.caseAgent')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 flex-shrink-0"
+                    onClick={() => deleteTask.mutate({ caseId, taskId: task.id })}
+                    disabled={deleteTask.isPending}
+                    aria-label={t('cases.tasks.delete')}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,8 @@ import { useAuthStore } from '@/features/auth/store';
 import { useCases } from '../api';
 import type { Appointment, Case } from '../types';
 import { CaseStatus } from '../types';
+import { CaseChecklistProgress } from './CaseChecklistCard';
+import { SlaBadge } from './SlaBadge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -34,6 +36,7 @@ import { cn } from '@/lib/utils';
 import { CaseCardPlaceholder } from '@/components/ui/progressive-placeholder';
 import { SimpleSkeleton, SkeletonText } from '@/components/ui/simple-skeleton';
 import { ScheduleAppointmentDialog } from './ScheduleAppointmentDialog';
+import { CreateCaseDialog } from './CreateCaseDialog';
 import { formatDateTime } from '@/lib/utils/helpers';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/utils/axios';
@@ -43,6 +46,9 @@ import type { CasesApiResponse } from '../api/queries';
 
 // Status and service labels will be translated in the component using useTranslation
 const statusConfig: Record<string, { className: string }> = {
+  DRAFT: {
+    className: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  },
   SUBMITTED: {
     className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
   },
@@ -80,9 +86,13 @@ export function CasesList() {
   const { user } = useAuthStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [slaFilter, setSlaFilter] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10; // Optimized for mobile performance
   const [appointmentDialogOpen, setAppointmentDialogOpen] = useState(false);
+  const [createCaseOpen, setCreateCaseOpen] = useState(false);
+  // Draft being resumed in the create dialog
+  const [resumeDraftId, setResumeDraftId] = useState<string | undefined>();
   const [selectedCase, setSelectedCase] = useState<Case | null>(null);
   const [optimisticAppointments, setOptimisticAppointments] = useState<Record<string, Appointment>>(
     {}
@@ -92,7 +102,10 @@ export function CasesList() {
   const queryClient = useQueryClient();
 
   const { data, isLoading, error } = useCases(
-    { status: statusFilter !== 'all' ? statusFilter : undefined },
+    {
+      status: statusFilter !== 'all' ? statusFilter : undefined,
+      slaState: slaFilter !== 'all' ? slaFilter : undefined,
+    },
     {
       staleTime: 60000, // Cache for 60 seconds
       gcTime: 600000, // Keep in cache for 10 minutes
@@ -150,6 +163,11 @@ export function CasesList() {
     setCurrentPage(1);
   }, []);
 
+  const handleSlaChange = useCallback((value: string) => {
+    setSlaFilter(value);
+    setCurrentPage(1);
+  }, []);
+
   const handleManageAppointment = useCallback((caseItem: Case) => {
     setSelectedCase(caseItem);
     setAppointmentDialogOpen(true);
@@ -292,7 +310,25 @@ export function CasesList() {
               : t('cases.manageAll') || 'Manage all immigration cases'}
           </p>
         </div>
-        {!isClient && (
+        {isClient ? (
+          <Button
+            onClick={() => {
+              setResumeDraftId(undefined);
+              setCreateCaseOpen(true);
+            }}
+            style={{
+              backgroundColor: '#361d22',
+              borderColor: '#ff4538',
+              borderWidth: '1px',
+              borderStyle: 'solid',
+              color: 'white',
+            }}
+            className="hover:opacity-90"
+          >
+            <Plus className="mr-2 h-4 w-4" style={{ color: '#ff4538' }} />
+            {t('cases.newCase') || 'New Case'}
+          </Button>
+        ) : (
           <Button
             asChild
             style={{
@@ -355,6 +391,19 @@ export function CasesList() {
                 <SelectItem value="CLOSED">{t('cases.status.closed') || 'Closed'}</SelectItem>
               </SelectContent>
             </Select>
+            {!isClient && (
+              <Select value={slaFilter} onValueChange={handleSlaChange}>
+                <SelectTrigger className="w-full sm:w-[180px]" aria-label={t('cases.sla.title')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('cases.sla.allStates')}</SelectItem>
+                  <SelectItem value="BREACHED">{t('cases.sla.states.BREACHED')}</SelectItem>
+                  <SelectItem value="AT_RISK">{t('cases.sla.states.AT_RISK')}</SelectItem>
+                  <SelectItem value="ON_TRACK">{t('cases.sla.states.ON_TRACK')}</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -367,7 +416,7 @@ export function CasesList() {
               {t('cases.noCasesFound') || 'No Cases Found'}
             </h3>
             <p className="text-muted-foreground mb-4">
-              {searchQuery || statusFilter !== 'all'
+              {searchQuery || statusFilter !== 'all' || slaFilter !== 'all'
                 ? t('cases.tryAdjustingFilters') || 'Try adjusting your filters'
                 : isClient
                   ? t('cases.noCasesYet') || 'You do not have any cases yet'
@@ -391,6 +440,7 @@ export function CasesList() {
               const hasAppointment = Boolean(appointmentInfo);
               const caseStatus = optimisticClosedCases[c.id] ? CaseStatus.CLOSED : c.status;
               const isCaseClosed = caseStatus === CaseStatus.CLOSED;
+              const isDraft = caseStatus === CaseStatus.DRAFT;
               const isClosing =
                 updateCaseStatusMutation.isPending && closingCaseIdRef.current === c.id;
               const appointmentLabel = appointmentInfo
@@ -424,6 +474,7 @@ export function CasesList() {
                             t(`cases.status.${caseStatus.toLowerCase()}`) ||
                             caseStatus}
                         </Badge>
+                        {!isClient && !isCaseClosed && <SlaBadge caseData={c} />}
                         {hasAppointment &&
                           appointmentInfo &&
                           (appointmentInfo.status === 'SCHEDULED' ||
@@ -455,10 +506,21 @@ export function CasesList() {
                           className="h-3.5 w-3.5 sm:h-4 sm:w-4"
                           style={{ color: '#ff4538' }}
                         />
-                        <span className="text-muted-foreground">
-                          {t('cases.submitted') || 'Submitted'}:
-                        </span>
-                        <span>{new Date(c.submissionDate).toLocaleDateString()}</span>
+                        {isDraft && c.draftExpiresAt ? (
+                          <>
+                            <span className="text-muted-foreground">
+                              {t('cases.drafts.expires')}:
+                            </span>
+                            <span>{new Date(c.draftExpiresAt).toLocaleDateString()}</span>
+                          </>
+                        ) : (
+                          <>
+                            <span className="text-muted-foreground">
+                              {t('cases.submitted') || 'Submitted'}:
+                            </span>
+                            <span>{new Date(c.submissionDate).toLocaleDateString()}</span>
+                          </>
+                        )}
                       </div>
                       <div className="flex items-center gap-1.5 sm:gap-2 text-xs sm:text-sm">
                         <Clock className="h-3.5 w-3.5 sm:h-4 sm:w-4" style={{ color: '#ff4538' }} />
@@ -549,6 +611,10 @@ export function CasesList() {
                       </div>
                     )}
 
+                    {isClient && !isCaseClosed && !isDraft && (
+                      <CaseChecklistProgress caseId={c.id} className="mt-3 sm:mt-4" />
+                    )}
+
                     <div className="mt-3 sm:mt-4 flex flex-wrap items-center justify-between gap-2 sm:gap-3">
                       <span className="text-xs sm:text-sm text-muted-foreground">
                         {c.documents?.length || 0} {t('cases.documents') || 'documents'}
@@ -604,6 +670,25 @@ export function CasesList() {
                             {t('cases.viewDetails') || 'View Details'}
                           </Link>
                         </Button>
+                        {isClient && isDraft && (
+                          <Button
+                            size="sm"
+                            onClick={() => {
+                              setResumeDraftId(c.id);
+                              setCreateCaseOpen(true);
+                            }}
+                            style={{
+                              backgroundColor: '#361d22',
+                              borderColor: '#ff4538',
+                              borderWidth: '1px',
+                              borderStyle: 'solid',
+                              color: 'white',
+                            }}
+                            className="hover:opacity-90"
+                          >
+                            {t('cases.drafts.continue')}
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -695,6 +780,14 @@ export function CasesList() {
         </>
       )}
 
+      {isClient && (
+        <CreateCaseDialog
+          open={createCaseOpen}
+          onOpenChange={setCreateCaseOpen}
+          draftId={resumeDraftId}
+        />
+      )}
+
       {selectedCase && (
         <ScheduleAppointmentDialog
           caseId={selectedCase.id}
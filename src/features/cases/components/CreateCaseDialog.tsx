@@ -0,0 +1,323 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SERVICE_TYPE_LABELS } from '@/lib/constants';
+import { validateIntakeAnswers } from '@/lib/utils/intake-form';
+import {
+  useCase,
+  useDestinations,
+  useIntakeForm,
+  useSaveCaseDraft,
+  useSubmitCaseDraft,
+} from '../api';
+import type { Case, IntakeAnswer } from '../types';
+import { IntakeFormRenderer } from './IntakeFormRenderer';
+
+// Wait for a pause in typing before autosaving
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface CreateCaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCaseCreated?: (newCase: Case) => void;
+  // Resume an existing draft instead of starting a new application
+  draftId?: string;
+}
+
+type DraftState = 'idle' | 'saving' | 'saved';
+
+/**
+ * Client case creation - pick the service and destination, then answer the intake form
+ * configured for them (if any). Answers are checked locally with the same rules as the API
+ *
+ * Progress is autosaved as a draft once a service and destination are picked; the case only
+ * reaches staff when the client submits it
+ */
+export function CreateCaseDialog({
+  open,
+  onOpenChange,
+  onCaseCreated,
+  draftId,
+}: CreateCaseDialogProps) {
+  const { t } = useTranslation();
+  const [serviceType, setServiceType] = useState('');
+  const [destinationId, setDestinationId] = useState('');
+  const [values, setValues] = useState<Record<string, IntakeAnswer | undefined>>({});
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [isDirty, setIsDirty] = useState(false);
+  const [draftState, setDraftState] = useState<DraftState>('idle');
+
+  // Id of the draft being edited - set once the first autosave creates it
+  const draftIdRef = useRef<string | undefined>(draftId);
+  // Saves run one after another so the first one can create the draft the others update
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const formIdRef = useRef<string | undefined>(undefined);
+  // Autosaves refetch the case - only load the saved answers once
+  const hydratedRef = useRef(false);
+
+  const { data: destinations, isLoading: isLoadingDestinations } = useDestinations(open);
+  const { data: draft, isLoading: isLoadingDraft } = useCase(open && draftId ? draftId : '');
+  const { data: intakeForm, isLoading: isLoadingForm } = useIntakeForm(
+    serviceType || undefined,
+    destinationId || undefined
+  );
+  const saveDraft = useSaveCaseDraft();
+  const submitDraft = useSubmitCaseDraft();
+
+  const isSubmitting = submitDraft.isPending;
+
+  useEffect(() => {
+    if (open) {
+      setServiceType('');
+      setDestinationId('');
+      setValues({});
+      setErrors({});
+      setIsDirty(false);
+      setDraftState('idle');
+      draftIdRef.current = draftId;
+      formIdRef.current = undefined;
+      hydratedRef.current = false;
+    }
+    return () => clearTimeout(autosaveTimerRef.current);
+  }, [open, draftId]);
+
+  // Resuming - start from what was saved
+  useEffect(() => {
+    if (open && draft && draft.id === draftId && !hydratedRef.current) {
+      hydratedRef.current = true;
+      setServiceType(draft.serviceType);
+      setDestinationId(draft.destinationId ?? '');
+      setValues((draft.formData?.data ?? {}) as Record<string, IntakeAnswer | undefined>);
+      setDraftState('saved');
+    }
+  }, [open, draft, draftId]);
+
+  // A different service / destination means a different form
+  useEffect(() => {
+    if (!intakeForm) {
+      return;
+    }
+    if (formIdRef.current && formIdRef.current !== intakeForm.id) {
+      setValues({});
+      setErrors({});
+    }
+    formIdRef.current = intakeForm.id;
+  }, [intakeForm]);
+
+  const queueSave = () => {
+    const save = saveQueueRef.current.then(async () => {
+      const saved = await saveDraft.mutateAsync({
+        id: draftIdRef.current,
+        serviceType,
+        destinationId,
+        formData: values,
+      });
+      draftIdRef.current = saved.id;
+      setDraftState('saved');
+    });
+    // Keep the queue going after a failed save - the mutation already reported it
+    saveQueueRef.current = save.catch(() => setDraftState('idle'));
+    return save;
+  };
+
+  // Autosave after each pause in editing
+  useEffect(() => {
+    if (!open || !isDirty || !serviceType || !destinationId) {
+      return;
+    }
+
+    setDraftState('saving');
+    autosaveTimerRef.current = setTimeout(() => {
+      queueSave().catch(() => undefined);
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(autosaveTimerRef.current);
+    // queueSave reads the current state - re-run only when that state changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, isDirty, serviceType, destinationId, values]);
+
+  const handleServiceTypeChange = (value: string) => {
+    setServiceType(value);
+    setIsDirty(true);
+  };
+
+  const handleDestinationChange = (value: string) => {
+    setDestinationId(value);
+    setIsDirty(true);
+  };
+
+  const handleFieldChange = (key: string, value: IntakeAnswer | undefined) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setErrors(({ [key]: _cleared, ...rest }) => rest);
+    setIsDirty(true);
+  };
+
+  // Write any pending changes before the dialog closes or the draft is submitted
+  const flushDraft = async () => {
+    clearTimeout(autosaveTimerRef.current);
+    if (isDirty && serviceType && destinationId) {
+      await queueSave();
+    } else {
+      await saveQueueRef.current;
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    try {
+      await flushDraft();
+      onOpenChange(false);
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  // The answers are saved to the draft first, then the draft is submitted
+  const handleSubmit = async () => {
+    if (intakeForm) {
+      const result = validateIntakeAnswers(intakeForm.definition, values);
+      if (!result.isValid) {
+        setErrors(result.errors);
+        return;
+      }
+    }
+
+    try {
+      await flushDraft();
+      if (!draftIdRef.current) {
+        return;
+      }
+      const newCase = await submitDraft.mutateAsync(draftIdRef.current);
+      onCaseCreated?.(newCase);
+      onOpenChange(false);
+    } catch (error: any) {
+      // Field errors from the API (e.g. the form changed while the dialog was open)
+      setErrors(error.response?.data?.errors ?? {});
+    }
+  };
+
+  const isLoading = Boolean(draftId) && isLoadingDraft;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {draftId ? t('cases.drafts.resumeTitle') : t('cases.intake.createTitle')}
+          </DialogTitle>
+          <DialogDescription>{t('cases.intake.createDescription')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2 py-2">
+            <SimpleSkeleton className="h-10 w-full" />
+            <SimpleSkeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6 overflow-y-auto py-2 pr-1">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="case-service-type">{t('cases.serviceType')}</Label>
+                <Select value={serviceType} onValueChange={handleServiceTypeChange}>
+                  <SelectTrigger id="case-service-type">
+                    <SelectValue placeholder={t('cases.intake.selectPlaceholder')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(SERVICE_TYPE_LABELS).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(`cases.serviceLabels.${type}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="case-destination">{t('cases.intake.destination')}</Label>
+                <Select
+                  value={destinationId}
+                  onValueChange={handleDestinationChange}
+                  disabled={isLoadingDestinations}
+                >
+                  <SelectTrigger id="case-destination">
+                    <SelectValue placeholder={t('cases.intake.selectPlaceholder')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {destinations?.map((destination) => (
+                      <SelectItem key={destination.id} value={destination.id}>
+                        {destination.flagEmoji} {destination.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {serviceType && destinationId && isLoadingForm && (
+              <div className="space-y-2">
+                <SimpleSkeleton className="h-5 w-40" />
+                <SimpleSkeleton className="h-10 w-full" />
+                <SimpleSkeleton className="h-10 w-full" />
+              </div>
+            )}
+
+            {intakeForm && (
+              <div className="space-y-4 border-t pt-4">
+                <h3 className="text-base font-semibold">{intakeForm.title}</h3>
+                <IntakeFormRenderer
+                  definition={intakeForm.definition}
+                  values={values}
+                  errors={errors}
+                  disabled={isSubmitting}
+                  onChange={handleFieldChange}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="sm:items-center">
+          {draftState !== 'idle' && (
+            <span className="text-xs text-muted-foreground sm:mr-auto">
+              {draftState === 'saving' ? t('cases.drafts.saving') : t('cases.drafts.saved')}
+            </span>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={handleSaveDraft}
+            disabled={!serviceType || !destinationId || isSubmitting}
+          >
+            {t('cases.drafts.save')}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!serviceType || !destinationId || isLoadingForm || isSubmitting}
+          >
+            {isSubmitting ? t('cases.intake.submitting') : t('cases.intake.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import type { IntakeAnswer, IntakeField, IntakeFormDefinition } from '../types';
+import { isConditionMet } from '@/lib/utils/intake-form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+type IntakeValues = Record<string, IntakeAnswer | undefined>;
+
+interface IntakeFormRendererProps {
+  definition: IntakeFormDefinition;
+  values: IntakeValues;
+  errors?: Record<string, string[]>;
+  disabled?: boolean;
+  onChange: (key: string, value: IntakeAnswer | undefined) => void;
+}
+
+interface IntakeFieldInputProps {
+  field: IntakeField;
+  value: IntakeAnswer | undefined;
+  invalid: boolean;
+  disabled?: boolean;
+  onChange: (value: IntakeAnswer | undefined) => void;
+}
+
+function IntakeFieldInput({ field, value, invalid, disabled, onChange }: IntakeFieldInputProps) {
+  const { t } = useTranslation();
+  const id = `intake-${field.key}`;
+
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <Textarea
+          id={id}
+          rows={3}
+          value={typeof value === 'string' ? value : ''}
+          placeholder={field.placeholder}
+          maxLength={field.validation?.maxLength}
+          disabled={disabled}
+          aria-invalid={invalid}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' ? value : ''}
+          onValueChange={(next) => onChange(next)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={id} aria-invalid={invalid}>
+            <SelectValue placeholder={field.placeholder ?? t('cases.intake.selectPlaceholder')} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'radio':
+      return (
+        <div id={id} role="radiogroup" className="flex flex-wrap gap-2">
+          {field.options?.map((option) => (
+            <label
+              key={option.value}
+              className={cn(
+                'flex cursor-pointer items-center gap-2 rounded-md border px-3 py-1.5 text-sm',
+                value === option.value && 'border-primary bg-primary/10',
+                disabled && 'cursor-not-allowed opacity-50'
+              )}
+            >
+              <input
+                type="radio"
+                name={id}
+                value={option.value}
+                checked={value === option.value}
+                disabled={disabled}
+                onChange={() => onChange(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div id={id} className="grid gap-2 sm:grid-cols-2">
+          {field.options?.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option.value)}
+                disabled={disabled}
+                onCheckedChange={(checked) =>
+                  onChange(
+                    checked
+                      ? [...selected, option.value]
+                      : selected.filter((item) => item !== option.value)
+                  )
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'checkbox':
+      return (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            id={id}
+            checked={value === true}
+            disabled={disabled}
+            aria-invalid={invalid}
+            onCheckedChange={(checked) => onChange(checked === true)}
+          />
+          {field.label}
+          {field.required && <span className="text-red-600">*</span>}
+        </label>
+      );
+
+    default:
+      return (
+        <Input
+          id={id}
+          type={
+            field.type === 'phone'
+              ? 'tel'
+              : field.type === 'email' || field.type === 'number' || field.type === 'date'
+                ? field.type
+                : 'text'
+          }
+          value={typeof value === 'string' || typeof value === 'number' ? value : ''}
+          placeholder={field.placeholder}
+          min={field.validation?.min ?? field.validation?.minDate}
+          max={field.validation?.max ?? field.validation?.maxDate}
+          maxLength={field.validation?.maxLength}
+          disabled={disabled}
+          aria-invalid={invalid}
+          onChange={(event) =>
+            onChange(
+              field.type === 'number' && event.target.value !== ''
+                ? Number(event.target.value)
+                : event.target.value
+            )
+          }
+        />
+      );
+  }
+}
+
+/**
+ * Renders an admin-defined intake form as controlled inputs
+ * Sections and fields whose condition is not met are hidden, matching what the server validates
+ */
+export function IntakeFormRenderer({
+  definition,
+  values,
+  errors = {},
+  disabled,
+  onChange,
+}: IntakeFormRendererProps) {
+  // Conditions only look at answers given in visible fields above them
+  const shownValues: IntakeValues = {};
+
+  return (
+    <div className="space-y-6">
+      {definition.sections.map((section) => {
+        if (!isConditionMet(section.showIf, shownValues)) {
+          return null;
+        }
+
+        const fields = section.fields.filter((field) => {
+          const visible = isConditionMet(field.showIf, shownValues);
+          if (visible) {
+            shownValues[field.key] = values[field.key];
+          }
+          return visible;
+        });
+
+        return (
+          <fieldset key={section.key} className="space-y-4">
+            <div>
+              <legend className="text-sm font-semibold">{section.title}</legend>
+              {section.description && (
+                <p className="text-xs text-muted-foreground mt-1">{section.description}</p>
+              )}
+            </div>
+
+            {fields.map((field) => {
+              const fieldErrors = errors[field.key];
+              return (
+                <div key={field.key} className="space-y-1.5">
+                  {field.type !== 'checkbox' && (
+                    <Label htmlFor={`intake-${field.key}`} className="text-sm">
+                      {field.label}
+                      {field.required && <span className="text-red-600"> *</span>}
+                    </Label>
+                  )}
+                  <IntakeFieldInput
+                    field={field}
+                    value={values[field.key]}
+                    invalid={!!fieldErrors?.length}
+                    disabled={disabled}
+                    onChange={(value) => onChange(field.key, value)}
+                  />
+                  {field.helpText && (
+                    <p className="text-xs text-muted-foreground">{field.helpText}</p>
+                  )}
+                  {fieldErrors?.map((error) => (
+                    <p key={error} className="text-xs text-red-600">
+                      {error}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUpdateAppointment } from '../api';
+import { RefreshCw } from 'lucide-react';
+import type { Appointment, UpdateAppointmentInput } from '../types';
+import { formatDateTime } from '@/lib/utils/helpers';
+
+type AppointmentAction = UpdateAppointmentInput['action'];
+
+interface ManageAppointmentDialogProps {
+  caseId: string;
+  appointment: Appointment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAppointmentUpdated?: (appointment: Appointment) => void;
+}
+
+export function ManageAppointmentDialog({
+  caseId,
+  appointment,
+  open,
+  onOpenChange,
+  onAppointmentUpdated,
+}: ManageAppointmentDialogProps) {
+  const { t } = useTranslation();
+  const updateAppointment = useUpdateAppointment(caseId);
+  const [action, setAction] = useState<AppointmentAction>('reschedule');
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [location, setLocation] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAction('reschedule');
+      setScheduledAt('');
+      setLocation(appointment?.location ?? '');
+      setReason('');
+    }
+  }, [open, appointment]);
+
+  // A reason is mandatory for reschedules and cancellations, optional on completion
+  const isSubmitDisabled = useMemo(() => {
+    if (action !== 'complete' && !reason.trim()) return true;
+    if (action !== 'reschedule') return false;
+    if (!scheduledAt || !location.trim()) return true;
+    const dateValue = new Date(scheduledAt);
+    if (Number.isNaN(dateValue.getTime())) return true;
+    return dateValue.getTime() <= Date.now();
+  }, [action, scheduledAt, location, reason]);
+
+  const handleSubmit = async () => {
+    if (!appointment || isSubmitDisabled) return;
+
+    const trimmedReason = reason.trim();
+    const data: UpdateAppointmentInput =
+      action === 'reschedule'
+        ? {
+            action,
+            scheduledAt: new Date(scheduledAt).toISOString(),
+            location: location.trim(),
+            reason: trimmedReason,
+          }
+        : action === 'cancel'
+          ? { action, reason: trimmedReason }
+          : { action, reason: trimmedReason || undefined };
+
+    try {
+      await updateAppointment.mutateAsync(
+        { id: appointment.id, data },
+        {
+          onSuccess: (updated) => {
+            onAppointmentUpdated?.(updated);
+            onOpenChange(false);
+          },
+        }
+      );
+    } catch {
+      // Error toast handled by mutation's onError callback.
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('cases.dialogs.manageAppointment.title')}</DialogTitle>
+          <DialogDescription>
+            {appointment
+              ? t('cases.dialogs.manageAppointment.description', {
+                  dateTime: formatDateTime(appointment.scheduledAt),
+                })
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="manage-appointment-action">
+              {t('cases.dialogs.manageAppointment.action')}
+            </Label>
+            <Select value={action} onValueChange={(value) => setAction(value as AppointmentAction)}>
+              <SelectTrigger id="manage-appointment-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reschedule">
+                  {t('cases.dialogs.manageAppointment.actions.reschedule')}
+                </SelectItem>
+                <SelectItem value="cancel">
+                  {t('cases.dialogs.manageAppointment.actions.cancel')}
+                </SelectItem>
+                <SelectItem value="complete">
+                  {t('cases.dialogs.manageAppointment.actions.complete')}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {action === 'reschedule' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="manage-appointment-datetime">
+                  {t('cases.dialogs.scheduleAppointment.dateTime')}
+                </Label>
+                <Input
+                  id="manage-appointment-datetime"
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(event) => setScheduledAt(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manage-appointment-location">
+                  {t('cases.dialogs.scheduleAppointment.location')}
+                </Label>
+                <Input
+                  id="manage-appointment-location"
+                  value={location}
+                  onChange={(event) => setLocation(event.target.value)}
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="manage-appointment-reason">
+              {action === 'complete'
+                ? t('cases.dialogs.manageAppointment.outcome')
+                : t('cases.dialogs.manageAppointment.reason')}
+            </Label>
+            <Textarea
+              id="manage-appointment-reason"
+              placeholder={
+                action === 'complete'
+                  ? t('cases.dialogs.manageAppointment.outcomePlaceholder')
+                  : t('cases.dialogs.manageAppointment.reasonPlaceholder')
+              }
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('cases.dialogs.manageAppointment.clientNotified')}
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={updateAppointment.isPending}
+          >
+            {t('cases.dialogs.scheduleAppointment.cancel')}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={updateAppointment.isPending || isSubmitDisabled}
+            variant={action === 'cancel' ? 'destructive' : 'default'}
+          >
+            {updateAppointment.isPending ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                {t('cases.dialogs.manageAppointment.saving')}
+              </>
+            ) : (
+              t(`cases.dialogs.manageAppointment.submit.${action}`)
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
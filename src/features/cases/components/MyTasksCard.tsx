@@ -0,0 +1,95 @@
+'use client';
+
+import Link from 'next/link';
+import { useTranslation } from 'react-i18next';
+import { useMyTasks, useUpdateCaseTask } from '../api';
+import { isTaskOverdue } from './CaseTasksCard';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { formatDate } from '@/lib/utils/helpers';
+import { cn } from '@/lib/utils';
+import { ListTodo } from 'lucide-react';
+
+// Keep the dashboard card short - the rest is on each case
+const MAX_VISIBLE_TASKS = 8;
+
+/**
+ * Open tasks across every case the agent handles, soonest due first
+ */
+export function MyTasksCard({ className }: { className?: string }) {
+  const { t } = useTranslation();
+  const { data, isLoading } = useMyTasks('open');
+  const updateTask = useUpdateCaseTask();
+
+  const tasks = data?.tasks ?? [];
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="text-sm sm:text-base font-semibold flex items-center gap-2">
+          {t('cases.tasks.myTasks')}
+          {!!data?.overdue && (
+            <Badge variant="destructive" className="text-[10px] sm:text-xs">
+              {t('cases.tasks.overdueCount', { count: data.overdue })}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-1.5 sm:space-y-2">
+        {isLoading ? (
+          [1, 2, 3].map((i) => <SimpleSkeleton key={i} className="h-8 w-full" />)
+        ) : tasks.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <ListTodo className="mx-auto h-8 w-8 mb-2 opacity-50" />
+            <p className="text-sm">{t('cases.tasks.noOpenTasks')}</p>
+          </div>
+        ) : (
+          tasks.slice(0, MAX_VISIBLE_TASKS).map((task) => {
+            const overdue = isTaskOverdue(task);
+            return (
+              <div key={task.id} className="flex items-start gap-2 py-1.5">
+                <Checkbox
+                  checked={task.isDone}
+                  onCheckedChange={(checked) =>
+                    updateTask.mutate({
+                      caseId: task.caseId,
+                      taskId: task.id,
+                      data: { isDone: checked === true },
+                    })
+                  }
+                  aria-label={t('cases.tasks.markDone')}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs sm:text-sm font-medium truncate">{task.title}</p>
+                  <p className="text-[10px] sm:text-xs text-muted-foreground truncate">
+                    <Link
+                      href={`/dashboard/cases/${task.caseId}`}
+                      className="underline-offset-2 hover:underline"
+                    >
+                      {task.case.referenceNumber}
+                    </Link>
+                    {' · '}
+                    {task.case.client.firstName} {task.case.client.lastName}
+                  </p>
+                </div>
+                {task.dueAt && (
+                  <span
+                    className={cn(
+                      'text-[10px] sm:text-xs whitespace-nowrap text-muted-foreground',
+                      overdue && 'font-medium text-red-600'
+                    )}
+                  >
+                    {formatDate(task.dueAt)}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
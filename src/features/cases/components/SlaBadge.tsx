@@ -0,0 +1,55 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { SlaState } from '../types';
+import type { Case } from '../types';
+
+const slaStateConfig: Partial<Record<SlaState, { className: string; icon: typeof Timer }>> = {
+  [SlaState.AT_RISK]: {
+    className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    icon: Timer,
+  },
+  [SlaState.BREACHED]: {
+    className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+    icon: AlertTriangle,
+  },
+};
+
+interface SlaBadgeProps {
+  caseData: Pick<Case, 'slaState' | 'slaDueAt'>;
+  className?: string;
+}
+
+// Only at-risk and breached cases get a badge - on-track cases stay uncluttered
+export function SlaBadge({ caseData, className }: SlaBadgeProps) {
+  const { t } = useTranslation();
+  const config = caseData.slaState ? slaStateConfig[caseData.slaState] : undefined;
+
+  if (!caseData.slaState || !config) {
+    return null;
+  }
+
+  const Icon = config.icon;
+
+  return (
+    <Badge
+      className={cn(
+        'flex items-center gap-1 w-fit whitespace-nowrap text-xs',
+        config.className,
+        className
+      )}
+      title={
+        caseData.slaDueAt
+          ? t('cases.sla.dueAt', { date: formatDateTime(caseData.slaDueAt) })
+          : undefined
+      }
+    >
+      <Icon className="h-3 w-3 flex-shrink-0" />
+      {t(`cases.sla.states.${caseData.slaState}`)}
+    </Badge>
+  );
+}
@@ -2,7 +2,17 @@
 export * from './CasesList';
 export * from './RoleCasesList';
 export * from './CaseDetailView';
+export * from './CaseChecklistCard';
+export * from './CaseIntakeAnswersCard';
+export * from './CaseGroupCard';
+export * from './CaseTasksCard';
+export * from './MyTasksCard';
+export * from './IntakeFormRenderer';
+export * from './CreateCaseDialog';
+export * from './SlaBadge';
 export * from './AgentCasesList';
 export * from './AssignCaseDialog';
 export * from './CaseTransferDialog';
 export * from './ScheduleAppointmentDialog';
+export * from './ManageAppointmentDialog';
+export * from './BookAppointmentDialog';
@@ -1,5 +1,14 @@
 // Types for Cases feature
 import { z } from 'zod';
+import type { IntakeAnswer, IntakeAnswers, IntakeFormDefinition } from '@/lib/utils/intake-form';
+
+export type {
+  IntakeAnswer,
+  IntakeAnswers,
+  IntakeField,
+  IntakeFormDefinition,
+  IntakeSection,
+} from '@/lib/utils/intake-form';
 
 // Zod schemas for runtime validation
 const DocumentSchema = z.object({
@@ -8,7 +17,6 @@ const DocumentSchema = z.object({
   documentType: z.string(),
   uploadDate: z.string(),
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED']),
-  filePath: z.string(),
 });
 
 const ClientSchema = z.object({
@@ -44,6 +52,8 @@ const AppointmentSchema = z.object({
   location: z.string(),
   notes: z.string().optional().nullable(),
   status: z.enum(['SCHEDULED', 'RESCHEDULED', 'COMPLETED', 'CANCELLED']),
+  statusReason: z.string().optional().nullable(),
+  statusChangedAt: z.string().optional().nullable(),
   reminderSentAt: z.string().optional().nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
@@ -81,7 +91,7 @@ export interface Document {
   documentType: string;
   uploadDate: string;
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
-  filePath: string;
+  sharedWithGroup?: boolean;
 }
 
 export interface Case {
@@ -89,13 +99,18 @@ export interface Case {
   referenceNumber: string;
   clientId: string;
   assignedAgentId?: string;
+  destinationId?: string | null;
   serviceType: string;
   status: CaseStatus;
   priority: Priority;
   submissionDate: string;
   lastUpdated: string;
+  // DRAFT only - the draft is deleted after this date
+  draftExpiresAt?: string | null;
   internalNotes?: string;
   estimatedCompletion?: string;
+  slaState?: SlaState | null;
+  slaDueAt?: string | null;
   completedAt?: string;
   approvedAt?: string;
   documents?: Document[];
@@ -113,9 +128,104 @@ export interface Case {
     lastName: string;
   };
   appointments?: Appointment[];
+  formData?: CaseFormData | null;
+  groupId?: string | null;
+  group?: { id: string; name: string | null; principalCaseId: string } | null;
+}
+
+// Intake form a new case must fill in (GET /api/intake-forms)
+export interface IntakeForm {
+  id: string;
+  serviceType: string;
+  destinationId?: string | null;
+  version: number;
+  title: string;
+  definition: IntakeFormDefinition;
+}
+
+// Answers stored with a case, with the form version they were given for
+export interface CaseFormData {
+  id: string;
+  data: IntakeAnswers;
+  schemaId?: string | null;
+  schema?: Pick<IntakeForm, 'id' | 'version' | 'title' | 'definition'> | null;
+  createdAt: string;
+}
+
+// Family / group application (GET /api/case-groups/[id])
+export interface CaseGroupMember {
+  id: string;
+  referenceNumber: string;
+  serviceType: string;
+  status: CaseStatus;
+  priority: Priority;
+  isPrincipal: boolean;
+  lastUpdated: string;
+  client: { id: string; firstName: string; lastName: string };
+  assignedAgent?: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface CaseGroup {
+  id: string;
+  name: string | null;
+  principalCaseId: string;
+  createdAt: string;
+  members: CaseGroupMember[];
+  summary: {
+    total: number;
+    completed: number;
+    approved: number;
+    documentsRequired: number;
+    statusCounts: Partial<Record<CaseStatus, number>>;
+    sharedDocuments: number;
+  };
+}
+
+// Internal case task - staff only (GET /api/cases/[id]/tasks, GET /api/tasks)
+export interface CaseTask {
+  id: string;
+  caseId: string;
+  title: string;
+  description?: string | null;
+  dueAt?: string | null;
+  // null = whoever handles the case
+  assigneeId?: string | null;
+  isDone: boolean;
+  completedAt?: string | null;
+  templateId?: string | null;
+  createdAt: string;
+  assignee?: { id: string; firstName: string; lastName: string } | null;
+  case: {
+    id: string;
+    referenceNumber: string;
+    status: CaseStatus;
+    client: { id: string; firstName: string; lastName: string };
+  };
+}
+
+export interface MyTasksResponse {
+  tasks: CaseTask[];
+  overdue: number;
+}
+
+export interface CaseTaskInput {
+  title?: string;
+  description?: string | null;
+  dueAt?: string | null;
+  assigneeId?: string | null;
+  isDone?: boolean;
+}
+
+export interface Destination {
+  id: string;
+  name: string;
+  code: string;
+  flagEmoji: string;
+  description?: string | null;
 }
 
 export enum CaseStatus {
+  DRAFT = 'DRAFT',
   SUBMITTED = 'SUBMITTED',
   UNDER_REVIEW = 'UNDER_REVIEW',
   DOCUMENTS_REQUIRED = 'DOCUMENTS_REQUIRED',
@@ -125,6 +235,12 @@ export enum CaseStatus {
   CLOSED = 'CLOSED',
 }
 
+export enum SlaState {
+  ON_TRACK = 'ON_TRACK',
+  AT_RISK = 'AT_RISK',
+  BREACHED = 'BREACHED',
+}
+
 export enum Priority {
   LOW = 'LOW',
   NORMAL = 'NORMAL',
@@ -132,10 +248,87 @@ export enum Priority {
   URGENT = 'URGENT',
 }
 
+// Legal next status as computed by the case workflow (GET /api/cases/[id]/status)
+export interface StatusTransitionOption {
+  status: CaseStatus;
+  allowed: boolean;
+  blockedReasons: string[];
+}
+
+export interface CaseStatusTransitions {
+  currentStatus: CaseStatus;
+  transitions: StatusTransitionOption[];
+}
+
+// Required document checklist (GET /api/cases/[id]/checklist)
+export type ChecklistItemStatus =
+  | 'SATISFIED'
+  | 'PENDING_REVIEW'
+  | 'REJECTED'
+  | 'EXPIRED'
+  | 'MISSING';
+
+export interface ChecklistItem {
+  ruleId: string;
+  documentType: string;
+  label?: string | null;
+  description?: string | null;
+  isRequired: boolean;
+  minCount: number;
+  maxAgeDays?: number | null;
+  status: ChecklistItemStatus;
+  approvedCount: number;
+  pendingCount: number;
+  rejectedCount: number;
+  expiredCount: number;
+  documents: {
+    id: string;
+    originalName: string;
+    documentType: string;
+    status: 'PENDING' | 'APPROVED' | 'REJECTED';
+    uploadDate: string;
+    expiresAt?: string | null;
+    rejectionReason?: string | null;
+  }[];
+}
+
+export interface CaseChecklist {
+  caseId: string;
+  serviceType: string;
+  destinationId?: string | null;
+  items: ChecklistItem[];
+  summary: {
+    total: number;
+    required: number;
+    satisfied: number;
+    pending: number;
+    rejected: number;
+    expired: number;
+    missing: number;
+    progress: number;
+    isComplete: boolean;
+  };
+}
+
+export interface RequestDocumentsInput {
+  documentTypes?: string[];
+  message?: string;
+  autoRequestMissing?: boolean;
+}
+
 export interface CreateCaseInput {
   serviceType: string;
   destinationId: string;
   priority?: Priority;
+  formData?: IntakeAnswers;
+  // Save without submitting - answers are kept as typed
+  draft?: boolean;
+}
+
+export interface SaveCaseDraftInput {
+  serviceType?: string;
+  destinationId?: string;
+  formData?: Record<string, IntakeAnswer | undefined>;
 }
 
 export interface UpdateCaseInput {
@@ -155,7 +348,10 @@ export interface Appointment {
   location: string;
   notes?: string | null;
   status: AppointmentStatus;
+  statusReason?: string | null;
+  statusChangedAt?: string | null;
   reminderSentAt?: string | null;
+  sequence?: number;
   createdAt: string;
   updatedAt: string;
   assignedAgent?: {
@@ -187,3 +383,25 @@ export interface CreateAppointmentInput {
   notes?: string;
   assignedAgentId?: string;
 }
+
+export interface AppointmentSlot {
+  startsAt: string;
+  endsAt: string;
+  timezone: string; // Agent's time zone
+  location: string;
+}
+
+export interface AppointmentSlotsResponse {
+  slots: AppointmentSlot[];
+  agent: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface BookAppointmentInput {
+  scheduledAt: string;
+  notes?: string;
+}
+
+export type UpdateAppointmentInput =
+  | { action: 'reschedule'; scheduledAt: string; location?: string; reason: string }
+  | { action: 'cancel'; reason: string }
+  | { action: 'complete'; reason?: string };
@@ -4,6 +4,7 @@ import { memo, useMemo } from 'react';
 import { useAuthStore } from '@/features/auth/store';
 import { useCases } from '@/features/cases/api';
 import { Case } from '@/features/cases/types';
+import { MyTasksCard } from '@/features/cases/components';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -433,6 +434,8 @@ export const AgentDashboard = memo(function AgentDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <MyTasksCard />
     </div>
   );
 });
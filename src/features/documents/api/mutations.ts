@@ -3,8 +3,17 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/utils/axios';
 import { toast } from 'sonner';
-import type { Document, CreateDocumentInput } from '../types';
+import type {
+  Document,
+  CreateDocumentInput,
+  DocumentComment,
+  DocumentExtraction,
+  DocumentRejectionInput,
+  ExtractedFields,
+  ResubmitDocumentInput,
+} from '../types';
 import { DOCUMENTS_KEY } from './queries';
+import type { ApiError } from '@/lib/types';
 
 // Create document metadata
 export function useCreateDocument() {
@@ -25,6 +34,139 @@ export function useCreateDocument() {
   });
 }
 
+// Resubmit a rejected document as a new version
+export function useResubmitDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ResubmitDocumentInput }) => {
+      const response = await apiClient.post(`/api/documents/${id}/resubmit`, data);
+      return response.data.data.document as Document;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [DOCUMENTS_KEY] });
+      toast.success('New version submitted for review');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to resubmit document');
+    },
+  });
+}
+
+// Scan a quarantined document again - released to PENDING when clean (ADMIN)
+export function useRescanDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.post(`/api/documents/${id}/rescan`);
+      return response.data.data.document as Document;
+    },
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: [DOCUMENTS_KEY] });
+      if (document.status === 'QUARANTINED') {
+        toast.warning('Document is still quarantined');
+      } else {
+        toast.success('Document released for review');
+      }
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to rescan document');
+    },
+  });
+}
+
+// Reject several documents at once, each with its own reason (AGENT/ADMIN only)
+// Clients receive one email for the whole batch
+export function useBulkRejectDocuments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rejections: DocumentRejectionInput[]) => {
+      const response = await apiClient.post('/api/documents/bulk/reject', { rejections });
+      return response.data.data as {
+        count: number;
+        rejected: string[];
+        skipped: { documentId: string; reason: string }[];
+      };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [DOCUMENTS_KEY] });
+      if (result.skipped.length > 0) {
+        toast.warning(
+          `${result.count} document(s) rejected, ${result.skipped.length} skipped. Clients have been notified.`
+        );
+      } else {
+        toast.success(`${result.count} document(s) rejected. Clients have been notified.`);
+      }
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to reject documents');
+    },
+  });
+}
+
+// Post a comment in a document's review thread
+export function useAddDocumentComment(documentId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiClient.post(`/api/documents/${documentId}/comments`, { content });
+      return response.data.data.comment as DocumentComment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [DOCUMENTS_KEY, documentId, 'comments'] });
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to post comment');
+    },
+  });
+}
+
+// Save corrected passport / ID card fields and mark the extraction reviewed
+export function useReviewExtraction(documentId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (fields: ExtractedFields) => {
+      const response = await apiClient.patch(`/api/documents/${documentId}/extraction`, fields);
+      return response.data.data.extraction as DocumentExtraction;
+    },
+    onSuccess: () => {
+      // The reviewed expiry date is copied onto the document
+      queryClient.invalidateQueries({ queryKey: [DOCUMENTS_KEY] });
+      toast.success('Extracted data saved');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to save extracted data');
+    },
+  });
+}
+
+// Run the OCR / MRZ extraction again
+export function useRetryExtraction(documentId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post(`/api/documents/${documentId}/extraction`);
+      return response.data.data.extraction as DocumentExtraction;
+    },
+    onSuccess: (extraction) => {
+      queryClient.invalidateQueries({ queryKey: [DOCUMENTS_KEY] });
+      if (extraction.status === 'COMPLETED') {
+        toast.success('Document data extracted');
+      } else {
+        toast.warning(extraction.error || 'Document data could not be extracted');
+      }
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to run extraction');
+    },
+  });
+}
+
 // Delete document
 export function useDeleteDocument() {
   const queryClient = useQueryClient();
@@ -4,13 +4,19 @@ import { useQuery, UseQueryOptions } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import { apiClient } from '@/lib/utils/axios';
 import { useAuthStore } from '@/features/auth/store';
-import type { Document } from '../types';
+import type { Document, DocumentComment, DocumentExtraction, DocumentVersion } from '../types';
 
 export const DOCUMENTS_KEY = 'documents';
 
 // Get all documents
 export function useDocuments(
-  filters?: { caseId?: string; type?: string; page?: number; limit?: number },
+  filters?: {
+    caseId?: string;
+    type?: string;
+    page?: number;
+    limit?: number;
+    latestOnly?: boolean;
+  },
   options?: Omit<UseQueryOptions<{ documents: Document[] }>, 'queryKey' | 'queryFn' | 'enabled'>
 ) {
   const { user, isAuthenticated, isLoading: authLoading } = useAuthStore();
@@ -20,13 +26,14 @@ export function useDocuments(
   const stableQueryKey = useMemo(() => {
     if (!filters) return [DOCUMENTS_KEY];
     // Create a stable object with only defined values
-    const stableFilters: Record<string, string | number> = {};
+    const stableFilters: Record<string, string | number | boolean> = {};
     if (filters.caseId) stableFilters.caseId = filters.caseId;
     if (filters.type) stableFilters.type = filters.type;
     if (filters.page !== undefined) stableFilters.page = filters.page;
     if (filters.limit !== undefined) stableFilters.limit = filters.limit;
+    if (filters.latestOnly) stableFilters.latestOnly = true;
     return Object.keys(stableFilters).length > 0 ? [DOCUMENTS_KEY, stableFilters] : [DOCUMENTS_KEY];
-  }, [filters?.caseId, filters?.type, filters?.page, filters?.limit]);
+  }, [filters?.caseId, filters?.type, filters?.page, filters?.limit, filters?.latestOnly]);
 
   return useQuery<{ documents: Document[] }>({
     queryKey: stableQueryKey,
@@ -36,6 +43,7 @@ export function useDocuments(
       if (filters?.type) params.append('type', filters.type);
       if (filters?.page) params.append('page', filters.page.toString());
       if (filters?.limit) params.append('limit', filters.limit.toString());
+      if (filters?.latestOnly) params.append('latestOnly', 'true');
 
       const response = await apiClient.get(`/api/documents?${params}`);
       return response.data.data;
@@ -66,3 +74,112 @@ export function useDocument(id: string) {
     enabled: !!id,
   });
 }
+
+// Get the resubmission history of a document (newest version first)
+export function useDocumentVersions(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [DOCUMENTS_KEY, id, 'versions'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/documents/${id}/versions`);
+      return response.data.data.versions as DocumentVersion[];
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+// Review comment thread of a document (oldest first)
+export function useDocumentComments(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [DOCUMENTS_KEY, id, 'comments'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/documents/${id}/comments`);
+      return response.data.data.comments as DocumentComment[];
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+// Passport / ID card data read from the scan (null until an extraction was queued)
+export function useDocumentExtraction(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [DOCUMENTS_KEY, id, 'extraction'],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/documents/${id}/extraction`);
+      return response.data.data.extraction as DocumentExtraction | null;
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+// Short-lived signed link to a document file - document URLs are never opened directly
+export async function getDocumentDownloadUrl(id: string): Promise<string> {
+  const response = await apiClient.get(`/api/documents/${id}/download?redirect=false`);
+  return response.data.data.url as string;
+}
+
+/**
+ * Open a document in a new tab
+ * The tab is opened before the signed link is requested so popup blockers let it through
+ */
+export async function openDocument(id: string): Promise<void> {
+  const tab = window.open('about:blank', '_blank');
+
+  try {
+    const url = await getDocumentDownloadUrl(id);
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = url;
+    } else {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
+
+// Save a document file through its signed link
+export async function downloadDocument(id: string, fileName: string): Promise<void> {
+  const response = await fetch(await getDocumentDownloadUrl(id));
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch file: ${response.statusText}`);
+  }
+
+  const blobUrl = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = fileName || 'document';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(blobUrl);
+}
+
+/**
+ * Save all documents of a case as one ZIP archive or one merged PDF
+ * Defaults to the approved documents; other statuses can be added for an internal review
+ */
+export async function downloadCaseDocumentBundle(
+  caseId: string,
+  caseReference: string,
+  format: 'zip' | 'pdf',
+  statuses: string[] = ['APPROVED']
+): Promise<void> {
+  const params = new URLSearchParams({ format, status: statuses.join(',') });
+  const response = await apiClient.get(`/api/cases/${caseId}/documents/bundle?${params}`, {
+    responseType: 'blob',
+  });
+
+  const blob = new Blob([response.data], {
+    type: format === 'pdf' ? 'application/pdf' : 'application/zip',
+  });
+  const blobUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = `${caseReference}-documents.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(blobUrl);
+}
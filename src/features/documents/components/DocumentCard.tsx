@@ -1,9 +1,10 @@
 'use client';
 
-import type { Document } from '../types';
+import type { Document, DocumentVersion } from '../types';
 import {
   CheckCircle2,
   XCircle,
+  ShieldAlert,
   Clock,
   AlertCircle,
   Eye,
@@ -15,6 +16,8 @@ import {
   ExternalLink,
   Briefcase,
   User,
+  Upload,
+  RefreshCw,
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -23,6 +26,10 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
 import { useTranslation } from 'react-i18next';
+import { DocumentVersionHistory } from './DocumentVersionHistory';
+import { DocumentExtractionPanel } from './DocumentExtractionPanel';
+import { DocumentCommentsThread } from './DocumentCommentsThread';
+import { DocumentExpiryBadge } from './DocumentExpiryBadge';
 
 const getStatusConfig = (t: any) => ({
   PENDING: {
@@ -40,6 +47,11 @@ const getStatusConfig = (t: any) => ({
     icon: XCircle,
     className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
   },
+  QUARANTINED: {
+    label: t('documents.quarantined'),
+    icon: ShieldAlert,
+    className: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  },
 });
 
 const getDocTypeLabels = (t: any) => ({
@@ -75,6 +87,13 @@ export interface DocumentCardProps {
   showDelete?: boolean;
   isDeleting?: boolean;
   showCaseInfo?: boolean; // Show case and client info for AGENT/ADMIN
+  onResubmit?: () => void; // Upload a new version of a rejected or quarantined document
+  isResubmitting?: boolean;
+  onRescan?: () => void; // Run the virus scan again on a quarantined document (ADMIN)
+  isRescanning?: boolean;
+  onViewVersion?: (version: DocumentVersion) => void;
+  showExtraction?: boolean; // Passport / ID card data review (AGENT/ADMIN)
+  showComments?: boolean; // Review comment thread between client and agent
 }
 
 export function DocumentCard({
@@ -85,7 +104,15 @@ export function DocumentCard({
   showDelete = false,
   isDeleting = false,
   showCaseInfo = false,
+  onResubmit,
+  isResubmitting = false,
+  onRescan,
+  isRescanning = false,
+  onViewVersion,
+  showExtraction = false,
+  showComments = false,
 }: DocumentCardProps) {
+  const isQuarantined = document.status === 'QUARANTINED';
   const { t } = useTranslation();
   const statusConfig = getStatusConfig(t);
   const docTypeLabels = getDocTypeLabels(t);
@@ -117,6 +144,12 @@ export function DocumentCard({
                       {statusConfig[document.status]?.label || document.status}
                     </span>
                   </Badge>
+                  <DocumentExpiryBadge document={document} />
+                  {document.version > 1 && (
+                    <Badge variant="outline" className="w-fit text-xs">
+                      {t('documents.versions.versionLabel', { version: document.version })}
+                    </Badge>
+                  )}
                 </div>
 
                 {/* Case Reference - Always shown */}
@@ -169,6 +202,27 @@ export function DocumentCard({
                     <p className="text-xs text-red-600 break-words">{document.rejectionReason}</p>
                   </div>
                 )}
+                {isQuarantined && (
+                  <div className="flex gap-2 mt-2 p-2 bg-orange-50 dark:bg-orange-950/20 rounded">
+                    <ShieldAlert className="h-4 w-4 text-orange-600 flex-shrink-0" />
+                    <p className="text-xs text-orange-700 break-words">
+                      {document.quarantineReason || t('documents.quarantineNotice')}
+                    </p>
+                  </div>
+                )}
+                {showExtraction &&
+                  !isQuarantined &&
+                  (document.documentType === 'PASSPORT' || document.documentType === 'ID_CARD') && (
+                    <DocumentExtractionPanel documentId={document.id} />
+                  )}
+                {document.version > 1 && (
+                  <DocumentVersionHistory
+                    documentId={document.id}
+                    version={document.version}
+                    onViewVersion={onViewVersion}
+                  />
+                )}
+                {showComments && <DocumentCommentsThread documentId={document.id} />}
               </div>
             </div>
             <div className="flex gap-2 flex-shrink-0 justify-end sm:justify-start">
@@ -210,6 +264,48 @@ export function DocumentCard({
                 </TooltipContent>
               </Tooltip>
 
+              {isQuarantined && onRescan && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={onRescan}
+                      disabled={isRescanning}
+                      aria-label={t('documents.rescan')}
+                      className="flex-shrink-0"
+                    >
+                      <RefreshCw className={cn('h-4 w-4', isRescanning && 'animate-spin')} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{t('documents.rescan')}</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+
+              {(document.status === 'REJECTED' || isQuarantined) && onResubmit && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={onResubmit}
+                      disabled={isResubmitting}
+                      aria-label={t('documents.versions.resubmitAria', {
+                        fileName: document.originalName ?? t('documents.document'),
+                      })}
+                      className="flex-shrink-0"
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{t('documents.versions.resubmit')}</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+
               {showDelete && onDelete && (
                 <Tooltip>
                   <TooltipTrigger asChild>
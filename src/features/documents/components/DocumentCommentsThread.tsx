@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAddDocumentComment, useDocumentComments } from '../api';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { ChevronDown, ChevronUp, MessageSquare, Send } from 'lucide-react';
+import { useAuthStore } from '@/features/auth/store';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { cn } from '@/lib/utils';
+
+interface DocumentCommentsThreadProps {
+  documentId: string;
+}
+
+/**
+ * Expandable review thread under a document - clarifications between the client and
+ * the agent stay attached to the document instead of the general chat
+ * Comments are only fetched once the thread is expanded
+ */
+export function DocumentCommentsThread({ documentId }: DocumentCommentsThreadProps) {
+  const { t } = useTranslation();
+  const { user } = useAuthStore();
+  const [expanded, setExpanded] = useState(false);
+  const [content, setContent] = useState('');
+  const { data: comments, isLoading } = useDocumentComments(documentId, expanded);
+  const addComment = useAddDocumentComment(documentId);
+
+  const handleSubmit = () => {
+    const trimmed = content.trim();
+    if (!trimmed) return;
+    addComment.mutate(trimmed, { onSuccess: () => setContent('') });
+  };
+
+  return (
+    <div className="mt-3">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-auto px-2 py-1 text-xs"
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+      >
+        <MessageSquare className="mr-1 h-3.5 w-3.5" />
+        {t('documents.comments.title')}
+        {expanded ? (
+          <ChevronUp className="ml-1 h-3.5 w-3.5" />
+        ) : (
+          <ChevronDown className="ml-1 h-3.5 w-3.5" />
+        )}
+      </Button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2 border-l-2 border-muted pl-3">
+          {isLoading ? (
+            <SimpleSkeleton className="h-12 w-full rounded" />
+          ) : !comments || comments.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('documents.comments.empty')}</p>
+          ) : (
+            comments.map((comment) => {
+              const isOwn = comment.authorId === user?.id;
+              return (
+                <div
+                  key={comment.id}
+                  className={cn('rounded-md p-2', isOwn ? 'bg-primary/10' : 'bg-muted/50')}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-medium truncate">
+                      {comment.author.firstName} {comment.author.lastName}
+                      {comment.author.role !== 'CLIENT' && (
+                        <span className="ml-1 font-normal text-muted-foreground">
+                          · {t(`documents.comments.roles.${comment.author.role}`)}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                      {formatDateTime(comment.createdAt)}
+                    </span>
+                  </div>
+                  <p className="text-xs mt-1 whitespace-pre-wrap break-words">{comment.content}</p>
+                </div>
+              );
+            })
+          )}
+
+          <div className="flex items-end gap-2">
+            <Textarea
+              rows={2}
+              className="text-xs"
+              maxLength={2000}
+              placeholder={t('documents.comments.placeholder')}
+              value={content}
+              onChange={(event) => setContent(event.target.value)}
+            />
+            <Button
+              size="sm"
+              className="h-8"
+              onClick={handleSubmit}
+              disabled={addComment.isPending || !content.trim()}
+              aria-label={t('documents.comments.send')}
+            >
+              <Send className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
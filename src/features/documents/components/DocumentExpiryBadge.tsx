@@ -0,0 +1,60 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import type { Document } from '../types';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock } from 'lucide-react';
+import { DOCUMENT_EXPIRY } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DocumentExpiryState = 'EXPIRED' | 'EXPIRING_SOON' | 'VALID';
+
+/**
+ * Classify a document by its expiry date, or null when no expiry date was recorded
+ */
+export function getDocumentExpiryState(
+  document: Pick<Document, 'expiresAt'>,
+  now: Date = new Date()
+): DocumentExpiryState | null {
+  if (!document.expiresAt) return null;
+
+  const expiresAt = new Date(document.expiresAt).getTime();
+  if (expiresAt <= now.getTime()) return 'EXPIRED';
+  if (expiresAt - now.getTime() <= DOCUMENT_EXPIRY.REMINDER_DAYS * DAY_MS) return 'EXPIRING_SOON';
+  return 'VALID';
+}
+
+const STATE_CLASSNAMES: Record<DocumentExpiryState, string> = {
+  EXPIRED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  EXPIRING_SOON: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  VALID: 'bg-muted text-muted-foreground',
+};
+
+interface DocumentExpiryBadgeProps {
+  document: Pick<Document, 'expiresAt'>;
+  className?: string;
+}
+
+export function DocumentExpiryBadge({ document, className }: DocumentExpiryBadgeProps) {
+  const { t } = useTranslation();
+  const state = getDocumentExpiryState(document);
+
+  if (!state || !document.expiresAt) return null;
+
+  const date = new Date(document.expiresAt).toLocaleDateString();
+  const label =
+    state === 'EXPIRED'
+      ? t('documents.expiry.expiredOn', { date })
+      : t('documents.expiry.expiresOn', { date });
+
+  return (
+    <Badge
+      className={cn('flex items-center gap-1 w-fit text-xs', STATE_CLASSNAMES[state], className)}
+    >
+      <CalendarClock className="h-3 w-3 flex-shrink-0" />
+      <span className="whitespace-nowrap">{label}</span>
+    </Badge>
+  );
+}
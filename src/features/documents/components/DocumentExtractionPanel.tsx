@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDocumentExtraction, useReviewExtraction, useRetryExtraction } from '../api';
+import type { ExtractedFields } from '../types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  RefreshCw,
+  ScanText,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const FIELD_ORDER: (keyof ExtractedFields)[] = [
+  'surname',
+  'givenNames',
+  'documentNumber',
+  'nationality',
+  'issuingCountry',
+  'dateOfBirth',
+  'sex',
+  'expiryDate',
+  'personalNumber',
+];
+
+const DATE_FIELDS: (keyof ExtractedFields)[] = ['dateOfBirth', 'expiryDate'];
+
+const STATUS_CLASSNAMES = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  PROCESSING: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  COMPLETED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+};
+
+interface DocumentExtractionPanelProps {
+  documentId: string;
+}
+
+/**
+ * Expandable review form for the data read from a passport / ID card scan
+ * Agents check the MRZ fields against the flagged mismatches, correct them and save
+ */
+export function DocumentExtractionPanel({ documentId }: DocumentExtractionPanelProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  const { data: extraction, isLoading } = useDocumentExtraction(documentId, expanded);
+  const reviewExtraction = useReviewExtraction(documentId);
+  const retryExtraction = useRetryExtraction(documentId);
+  const [draft, setDraft] = useState<ExtractedFields>({});
+
+  useEffect(() => {
+    setDraft(extraction?.fields ?? {});
+  }, [extraction]);
+
+  const mismatches = extraction?.mismatches ?? [];
+  const isRunning = extraction?.status === 'PENDING' || extraction?.status === 'PROCESSING';
+
+  const handleSave = () => {
+    const corrections = Object.fromEntries(
+      FIELD_ORDER.filter(
+        (field) => (draft[field] ?? '') !== (extraction?.fields?.[field] ?? '')
+      ).map((field) => [field, draft[field] ? draft[field] : null])
+    ) as ExtractedFields;
+    reviewExtraction.mutate(corrections);
+  };
+
+  return (
+    <div className="mt-3">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-auto px-2 py-1 text-xs"
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+      >
+        <ScanText className="mr-1 h-3.5 w-3.5" />
+        {t('documents.extraction.title')}
+        {expanded ? (
+          <ChevronUp className="ml-1 h-3.5 w-3.5" />
+        ) : (
+          <ChevronDown className="ml-1 h-3.5 w-3.5" />
+        )}
+      </Button>
+
+      {expanded && (
+        <div className="mt-2 space-y-3 border-l-2 border-muted pl-3">
+          {isLoading ? (
+            <SimpleSkeleton className="h-24 w-full rounded" />
+          ) : !extraction ? (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">{t('documents.extraction.none')}</p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => retryExtraction.mutate()}
+                disabled={retryExtraction.isPending}
+              >
+                <RefreshCw
+                  className={cn('mr-1 h-3.5 w-3.5', retryExtraction.isPending && 'animate-spin')}
+                />
+                {t('documents.extraction.run')}
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge className={cn('text-[10px]', STATUS_CLASSNAMES[extraction.status])}>
+                  {t(`documents.extraction.statuses.${extraction.status}`)}
+                </Badge>
+                {extraction.mrzFormat && (
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      'text-[10px]',
+                      extraction.mrzValid ? 'text-green-700' : 'text-orange-700'
+                    )}
+                  >
+                    {extraction.mrzValid
+                      ? t('documents.extraction.mrzValid', { format: extraction.mrzFormat })
+                      : t('documents.extraction.mrzInvalid', { format: extraction.mrzFormat })}
+                  </Badge>
+                )}
+                {extraction.reviewedAt && (
+                  <span className="flex items-center gap-1 text-[10px] text-green-700">
+                    <CheckCircle2 className="h-3 w-3" />
+                    {t('documents.extraction.reviewedOn', {
+                      date: new Date(extraction.reviewedAt).toLocaleDateString(),
+                    })}
+                  </span>
+                )}
+              </div>
+
+              {extraction.error && (
+                <p className="text-xs text-red-600 break-words">{extraction.error}</p>
+              )}
+
+              {mismatches.length > 0 && (
+                <div className="space-y-1 rounded bg-orange-50 p-2 dark:bg-orange-950/20">
+                  {mismatches.map((mismatch) => (
+                    <div
+                      key={`${mismatch.source}-${mismatch.field}`}
+                      className="flex gap-1.5 text-xs text-orange-700"
+                    >
+                      <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                      <span className="break-words">
+                        {t(`documents.extraction.mismatch.${mismatch.source}`, {
+                          field: t(`documents.extraction.fields.${mismatch.field}`),
+                          expected: mismatch.expected,
+                          extracted: mismatch.extracted,
+                        })}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid gap-2 sm:grid-cols-2">
+                {FIELD_ORDER.map((field) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`${documentId}-${field}`} className="text-xs">
+                      {t(`documents.extraction.fields.${field}`)}
+                    </Label>
+                    <Input
+                      id={`${documentId}-${field}`}
+                      type={DATE_FIELDS.includes(field) ? 'date' : 'text'}
+                      className="h-8 text-xs"
+                      value={draft[field] ?? ''}
+                      disabled={isRunning}
+                      onChange={(event) =>
+                        setDraft((prev) => ({ ...prev, [field]: event.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => retryExtraction.mutate()}
+                  disabled={retryExtraction.isPending || isRunning}
+                >
+                  <RefreshCw
+                    className={cn('mr-1 h-3.5 w-3.5', retryExtraction.isPending && 'animate-spin')}
+                  />
+                  {t('documents.extraction.rerun')}
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={handleSave}
+                  disabled={reviewExtraction.isPending || isRunning}
+                >
+                  <CheckCircle2 className="mr-1 h-3.5 w-3.5" />
+                  {t('documents.extraction.confirm')}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
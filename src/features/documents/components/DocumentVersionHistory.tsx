@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDocumentVersions } from '../api';
+import type { DocumentVersion } from '../types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { SimpleSkeleton } from '@/components/ui/simple-skeleton';
+import { AlertCircle, ChevronDown, ChevronUp, Eye, History } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const STATUS_CLASSNAMES: Record<DocumentVersion['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  APPROVED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  REJECTED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  QUARANTINED: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+};
+
+interface DocumentVersionHistoryProps {
+  documentId: string;
+  version: number;
+  onViewVersion?: (version: DocumentVersion) => void;
+}
+
+/**
+ * Expandable list of the earlier versions of a resubmitted document
+ * Versions are only fetched once the history is expanded
+ */
+export function DocumentVersionHistory({
+  documentId,
+  version,
+  onViewVersion,
+}: DocumentVersionHistoryProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  const { data: versions, isLoading } = useDocumentVersions(documentId, expanded);
+
+  const previousVersions = (versions || []).filter((v) => v.id !== documentId);
+
+  return (
+    <div className="mt-3">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-auto px-2 py-1 text-xs"
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+      >
+        <History className="mr-1 h-3.5 w-3.5" />
+        {t('documents.versions.showHistory', { count: version - 1 })}
+        {expanded ? (
+          <ChevronUp className="ml-1 h-3.5 w-3.5" />
+        ) : (
+          <ChevronDown className="ml-1 h-3.5 w-3.5" />
+        )}
+      </Button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2 border-l-2 border-muted pl-3">
+          {isLoading ? (
+            <SimpleSkeleton className="h-12 w-full rounded" />
+          ) : previousVersions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('documents.versions.noHistory')}</p>
+          ) : (
+            previousVersions.map((v) => (
+              <div key={v.id} className="rounded-md bg-muted/50 p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-xs font-medium whitespace-nowrap">
+                      {t('documents.versions.versionLabel', { version: v.version })}
+                    </span>
+                    <span className="text-xs text-muted-foreground truncate">{v.originalName}</span>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge className={cn('text-[10px]', STATUS_CLASSNAMES[v.status])}>
+                      {t(`documents.${v.status.toLowerCase()}`)}
+                    </Badge>
+                    {onViewVersion && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => onViewVersion(v)}
+                        aria-label={t('documents.viewDocumentAria', { fileName: v.originalName })}
+                      >
+                        <Eye className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-1">
+                  {new Date(v.uploadDate).toLocaleDateString()}
+                </p>
+                {v.status === 'REJECTED' && v.rejectionReason && (
+                  <div className="flex gap-1.5 mt-1">
+                    <AlertCircle className="h-3.5 w-3.5 text-red-600 flex-shrink-0" />
+                    <p className="text-xs text-red-600 break-words">{v.rejectionReason}</p>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { useAuthStore } from '@/features/auth/store';
-import { useDocuments, useDeleteDocument } from '../api';
+import {
+  downloadCaseDocumentBundle,
+  downloadDocument,
+  openDocument,
+  useDocuments,
+  useDeleteDocument,
+  useRescanDocument,
+  useResubmitDocument,
+} from '../api';
 import type { Document } from '../types';
 import { DocumentStatus } from '../types';
 import { DocumentCard, type DocumentCardProps } from './DocumentCard';
@@ -50,10 +58,13 @@ import {
   Clock,
   CheckCircle,
   XCircle,
+  ShieldAlert,
   ExternalLink,
   Upload,
+  Download,
+  Loader2,
 } from 'lucide-react';
-import { UploadDialog } from './UploadDialog';
+import { UploadDialog, type DocumentValidityInput } from './UploadDialog';
 import { DocumentType } from '../types';
 import { useCreateDocument } from '../api';
 import { uploadFiles, getAuthHeaders } from '@/lib/uploadthing/client';
@@ -63,7 +74,6 @@ import Link from 'next/link';
 import { SimpleSkeleton, SkeletonText } from '@/components/ui/simple-skeleton';
 import { useTranslation } from 'react-i18next';
 import { logger } from '@/lib/utils/logger';
-import { isTrustedDomain, FILE_VALIDATION } from '@/lib/utils/file-validation';
 
 const getStatusConfig = (t: any) => ({
   PENDING: {
@@ -81,8 +91,15 @@ const getStatusConfig = (t: any) => ({
     icon: XCircle,
     className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
   },
+  QUARANTINED: {
+    label: t('documents.quarantined'),
+    icon: ShieldAlert,
+    className: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  },
 });
 
+const MAX_RESUBMIT_SIZE = 16 * 1024 * 1024; // Same limit as UploadDialog
+
 interface CaseDocumentsGroup {
   caseId: string;
   caseReference: string;
@@ -101,16 +118,23 @@ export function DocumentsByCaseTable() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
-  const [selectedCase, setSelectedCase] = useState<CaseDocumentsGroup | null>(null);
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
   const [caseDialogOpen, setCaseDialogOpen] = useState(false);
   const [uploadOpen, setUploadOpen] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [resubmitTarget, setResubmitTarget] = useState<Document | null>(null);
+  const [isResubmitting, setIsResubmitting] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const resubmitInputRef = useRef<HTMLInputElement>(null);
 
   const itemsPerPage = 20; // More items per page since we're grouping by case
 
-  const { data, isLoading, error, refetch } = useDocuments({});
+  // Superseded versions are shown in each document's history instead of as separate rows
+  const { data, isLoading, error, refetch } = useDocuments({ latestOnly: true });
   const createDocument = useCreateDocument();
   const deleteDocument = useDeleteDocument();
+  const rescanDocument = useRescanDocument();
+  const resubmitDocument = useResubmitDocument();
 
   // Group documents by case
   const caseGroups = useMemo(() => {
@@ -232,6 +256,12 @@ export function DocumentsByCaseTable() {
     });
   }, [data?.documents]);
 
+  // Resolve the open case from fresh data so the dialog reflects deletes and resubmissions
+  const selectedCase = useMemo(
+    () => caseGroups.find((group) => group.caseId === selectedCaseId) ?? null,
+    [caseGroups, selectedCaseId]
+  );
+
   // Filter and search
   const filteredGroups = useMemo(() => {
     let filtered = caseGroups;
@@ -264,131 +294,46 @@ export function DocumentsByCaseTable() {
     currentPage * itemsPerPage
   );
 
-  const handleView = (doc: Document) => {
+  const handleView = async (doc: Pick<Document, 'id'>) => {
     try {
-      logger.info('Attempting to view document (by-case)', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-        fileName: doc.fileName,
-      });
-
-      if (!doc.filePath) {
-        logger.error('Document filePath is empty (by-case)', {
-          documentId: doc.id,
-          fileName: doc.fileName,
-        });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      let fileUrl = doc.filePath;
-
-      // If it's not a full URL, add https://
-      if (!fileUrl.startsWith('http://') && !fileUrl.startsWith('https://')) {
-        logger.warn('Document filePath is not a full URL (by-case), adding https://', {
-          filePath: doc.filePath,
-          documentId: doc.id,
-        });
-        fileUrl = `https://${fileUrl}`;
-      }
-
-      logger.info('Constructed file URL (by-case)', {
-        originalFilePath: doc.filePath,
-        constructedFileUrl: fileUrl,
-        documentId: doc.id,
-      });
-
-      // Validate URL format
-      let url: URL;
-      try {
-        url = new URL(fileUrl);
-        logger.info('URL parsed successfully (by-case)', {
-          fullUri: url.href,
-          protocol: url.protocol,
-          hostname: url.hostname,
-          host: url.host,
-          pathname: url.pathname,
-          search: url.search,
-          hash: url.hash,
-          origin: url.origin,
-          documentId: doc.id,
-        });
-      } catch (urlError) {
-        logger.error('Invalid URL format (by-case)', {
-          error: urlError instanceof Error ? urlError.message : String(urlError),
-          originalFilePath: doc.filePath,
-          constructedFileUrl: fileUrl,
-          documentId: doc.id,
-        });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      // Validate hostname is from trusted domains (UploadThing and Cloudinary)
-      // Check for exact match or subdomain match (e.g., utfs.io, abc123.utfs.io, res.cloudinary.com)
-      const isTrusted = isTrustedDomain(url.hostname);
-
-      logger.info('Domain validation check (by-case)', {
-        fullUri: url.href,
-        hostname: url.hostname,
-        trustedDomains: [...FILE_VALIDATION.TRUSTED_DOMAINS],
-        isTrusted,
-        documentId: doc.id,
-      });
-
-      if (!isTrusted) {
-        logger.warn('Document URL is not from trusted domain (by-case)', {
-          fullUri: url.href,
-          hostname: url.hostname,
-          host: url.host,
-          origin: url.origin,
-          trustedDomains: [...FILE_VALIDATION.TRUSTED_DOMAINS],
-          constructedFileUrl: fileUrl,
-          originalFilePath: doc.filePath,
-          documentId: doc.id,
-        });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      logger.info('Opening document in new tab (by-case)', {
-        fullUri: url.href,
-        fileUrl,
-        hostname: url.hostname,
-        documentId: doc.id,
-      });
-      window.open(fileUrl, '_blank', 'noopener,noreferrer');
+      logger.info('Opening document (by-case)', { documentId: doc.id });
+      await openDocument(doc.id);
     } catch (error) {
-      logger.error('Failed to open document (by-case)', error, {
-        filePath: doc.filePath,
-        documentId: doc.id,
-        fileName: doc.fileName,
-      });
+      logger.error('Failed to open document (by-case)', error, { documentId: doc.id });
       toast.error(t('documents.invalidDocumentUrl'));
     }
   };
 
   const handleDownload = async (doc: Document) => {
     try {
-      const response = await fetch(doc.filePath);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch file: ${response.statusText}`);
-      }
-
-      const blob = await response.blob();
-      const blobUrl = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = doc.originalName || 'document';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(blobUrl);
+      await downloadDocument(doc.id, doc.originalName);
+      logger.info('Document downloaded successfully (by-case)', {
+        documentId: doc.id,
+        originalName: doc.originalName,
+      });
     } catch (error) {
+      logger.error('Failed to download document (by-case)', error, { documentId: doc.id });
       toast.error(t('documents.downloadFailed'));
     }
   };
 
+  const handleDownloadBundle = async (format: 'zip' | 'pdf') => {
+    if (!selectedCase) return;
+    setIsBundling(true);
+    try {
+      await downloadCaseDocumentBundle(selectedCase.caseId, selectedCase.caseReference, format);
+      logger.info('Case document bundle downloaded', { caseId: selectedCase.caseId, format });
+    } catch (error) {
+      logger.error('Failed to download case document bundle', error, {
+        caseId: selectedCase.caseId,
+        format,
+      });
+      toast.error(t('documents.bundle.failed'));
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
   const handleDelete = async (doc: Document) => {
     try {
       await deleteDocument.mutateAsync(doc.id);
@@ -399,11 +344,74 @@ export function DocumentsByCaseTable() {
   };
 
   const openCaseDocuments = (group: CaseDocumentsGroup) => {
-    setSelectedCase(group);
+    setSelectedCaseId(group.caseId);
     setCaseDialogOpen(true);
   };
 
-  const handleUpload = async (selectedFile: File, documentType: DocumentType, caseId: string) => {
+  const startResubmit = (doc: Document) => {
+    setResubmitTarget(doc);
+    resubmitInputRef.current?.click();
+  };
+
+  const handleResubmitFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0];
+    event.target.value = '';
+    const target = resubmitTarget;
+    setResubmitTarget(null);
+
+    if (!selectedFile || !target) return;
+
+    if (selectedFile.size > MAX_RESUBMIT_SIZE) {
+      toast.error(
+        t('documents.invalidFileSize16MB', { size: (selectedFile.size / 1024 / 1024).toFixed(2) })
+      );
+      return;
+    }
+
+    try {
+      setIsResubmitting(true);
+
+      // Step 1: Upload file to storage
+      const headers = await getAuthHeaders();
+      const uploadedFiles = await uploadFiles('documentUploader', {
+        files: [selectedFile],
+        headers,
+      });
+
+      if (!uploadedFiles || uploadedFiles.length === 0) {
+        throw new Error('Upload failed: No result returned from storage');
+      }
+
+      const uploaded = uploadedFiles[0];
+
+      // Step 2: Record the new version against the rejected document
+      await resubmitDocument.mutateAsync({
+        id: target.id,
+        data: {
+          fileName: uploaded.name,
+          originalName: selectedFile.name,
+          filePath: uploaded.ufsUrl,
+          fileSize: uploaded.size,
+          mimeType: uploaded.type || selectedFile.type,
+        },
+      });
+
+      refetch();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Document resubmission failed', error, { documentId: target.id });
+      toast.error(errorMessage || t('documents.uploadFailed'));
+    } finally {
+      setIsResubmitting(false);
+    }
+  };
+
+  const handleUpload = async (
+    selectedFile: File,
+    documentType: DocumentType,
+    caseId: string,
+    validity?: DocumentValidityInput
+  ) => {
     if (!selectedFile || !documentType || !caseId) {
       toast.error(t('documents.selectFileTypeAndCase'));
       return;
@@ -439,6 +447,7 @@ export function DocumentsByCaseTable() {
         mimeType: uploaded.type || selectedFile.type,
         documentType: documentType as DocumentType,
         caseId,
+        ...validity,
       });
 
       toast.success(t('documents.uploadSuccess'));
@@ -539,6 +548,9 @@ export function DocumentsByCaseTable() {
                   <SelectItem value={DocumentStatus.PENDING}>{t('documents.pending')}</SelectItem>
                   <SelectItem value={DocumentStatus.APPROVED}>{t('documents.approved')}</SelectItem>
                   <SelectItem value={DocumentStatus.REJECTED}>{t('documents.rejected')}</SelectItem>
+                  <SelectItem value={DocumentStatus.QUARANTINED}>
+                    {t('documents.quarantined')}
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -801,6 +813,15 @@ export function DocumentsByCaseTable() {
           </div>
         )}
 
+        {/* Hidden file input used to resubmit a rejected document */}
+        <input
+          ref={resubmitInputRef}
+          type="file"
+          className="hidden"
+          accept="application/pdf,image/jpeg,image/png,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.pdf,.jpg,.jpeg,.png,.doc,.docx"
+          onChange={handleResubmitFile}
+        />
+
         {/* Case Documents Dialog */}
         <Dialog open={caseDialogOpen} onOpenChange={setCaseDialogOpen}>
           <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col p-0">
@@ -809,6 +830,33 @@ export function DocumentsByCaseTable() {
                 <Briefcase className="h-4 w-4 sm:h-5 sm:w-5" style={{ color: '#ff4538' }} />
                 {t('documents.caseDocuments', { reference: selectedCase?.caseReference }) ||
                   `Case ${selectedCase?.caseReference}`}
+                {!isClient && selectedCase && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-auto mr-6 h-7 text-xs"
+                        disabled={isBundling}
+                      >
+                        {isBundling ? (
+                          <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Download className="mr-1 h-3.5 w-3.5" />
+                        )}
+                        {t('documents.bundle.downloadAll')}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleDownloadBundle('zip')}>
+                        {t('documents.bundle.zip')}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleDownloadBundle('pdf')}>
+                        {t('documents.bundle.pdf')}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
               </DialogTitle>
               <DialogDescription className="text-xs sm:text-sm">
                 <div className="space-y-1">
@@ -854,6 +902,13 @@ export function DocumentsByCaseTable() {
                     showCaseInfo={!isClient}
                     showDelete={isClient && doc.status !== 'APPROVED'}
                     isDeleting={deleteDocument.isPending}
+                    onResubmit={isClient ? () => startResubmit(doc) : undefined}
+                    isResubmitting={isResubmitting}
+                    onRescan={isAdmin ? () => rescanDocument.mutate(doc.id) : undefined}
+                    isRescanning={rescanDocument.isPending}
+                    onViewVersion={handleView}
+                    showExtraction={!isClient}
+                    showComments
                     {...({ borderColor } as { borderColor?: string })}
                   />
                 ))}
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useAuthStore } from '@/features/auth/store';
-import { useDocuments, useCreateDocument } from '../api';
+import { downloadDocument, openDocument, useDocuments, useCreateDocument } from '../api';
 import { useUploadThing } from '@/lib/uploadthing/client';
 import type { Document } from '../types';
 import { DocumentType } from '@/lib/types';
@@ -31,7 +31,6 @@ import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { DocumentCard } from './DocumentCard';
 import { useTranslation } from 'react-i18next';
-import { isTrustedDomain } from '@/lib/utils/file-validation';
 
 const getDocTypeLabels = (t: any) => ({
   PASSPORT: t('documents.types.PASSPORT'),
@@ -307,6 +306,7 @@ export function DocumentsList() {
               <SelectItem value="PENDING">{t('documents.pending')}</SelectItem>
               <SelectItem value="APPROVED">{t('documents.approved')}</SelectItem>
               <SelectItem value="REJECTED">{t('documents.rejected')}</SelectItem>
+              <SelectItem value="QUARANTINED">{t('documents.quarantined')}</SelectItem>
             </SelectContent>
           </Select>
         </CardContent>
@@ -331,30 +331,12 @@ export function DocumentsList() {
               key={d.id}
               document={d}
               onView={() => {
-                // Validate URL before opening to prevent security issues
-                try {
-                  const url = new URL(d.filePath);
-                  if (!isTrustedDomain(url.hostname)) {
-                    toast.error(t('documents.invalidDocumentUrl'));
-                    return;
-                  }
-                  window.open(d.filePath, '_blank', 'noopener,noreferrer');
-                } catch (error) {
-                  toast.error(t('documents.invalidDocumentUrl'));
-                }
+                openDocument(d.id).catch(() => toast.error(t('documents.invalidDocumentUrl')));
               }}
               onDownload={() => {
-                // Open file in new tab (download attribute doesn't work for cross-origin URLs)
-                try {
-                  const opened = window.open(d.filePath, '_blank', 'noopener');
-                  if (opened) {
-                    toast.success(t('documents.openedInNewTab'));
-                  } else {
-                    toast.error(t('documents.failedToOpen'));
-                  }
-                } catch (error) {
-                  toast.error(t('documents.failedToOpenShort'));
-                }
+                downloadDocument(d.id, d.originalName).catch(() =>
+                  toast.error(t('documents.failedToOpenShort'))
+                );
               }}
             />
           ))}
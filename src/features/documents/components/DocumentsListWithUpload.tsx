@@ -2,7 +2,13 @@
 
 import { useState, memo } from 'react';
 import { useAuthStore } from '@/features/auth/store';
-import { useDocuments, useCreateDocument, useDeleteDocument } from '../api';
+import {
+  downloadDocument,
+  openDocument,
+  useDocuments,
+  useCreateDocument,
+  useDeleteDocument,
+} from '../api';
 import { DocumentType } from '../types';
 import type { Document } from '../types';
 import { uploadFiles, getAuthHeaders } from '@/lib/uploadthing/client';
@@ -18,12 +24,11 @@ import {
 } from '@/components/ui/select';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import { DocumentCard } from './DocumentCard';
-import { UploadDialog } from './UploadDialog';
+import { UploadDialog, type DocumentValidityInput } from './UploadDialog';
 import { SimpleSkeleton, SkeletonText, SkeletonCard } from '@/components/ui/simple-skeleton';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
 import { logger } from '@/lib/utils/logger';
-import { isTrustedDomain } from '@/lib/utils/file-validation';
 
 export function DocumentsList() {
   const { t } = useTranslation();
@@ -40,7 +45,12 @@ export function DocumentsList() {
   const createDocument = useCreateDocument();
   const deleteDocument = useDeleteDocument();
 
-  const handleUpload = async (selectedFile: File, documentType: DocumentType, caseId: string) => {
+  const handleUpload = async (
+    selectedFile: File,
+    documentType: DocumentType,
+    caseId: string,
+    validity?: DocumentValidityInput
+  ) => {
     if (!selectedFile || !documentType || !caseId) {
       toast.error(t('documents.selectFileTypeAndCase'));
       logger.warn('Upload validation failed: Missing required fields', {
@@ -102,6 +112,7 @@ export function DocumentsList() {
         mimeType: uploaded.type || selectedFile.type,
         documentType: documentType as DocumentType,
         caseId,
+        ...validity,
       });
 
       logger.info('Document created successfully', { fileUrl: uploadedFileUrl });
@@ -179,100 +190,25 @@ export function DocumentsList() {
     }
   };
 
-  const handleView = (doc: Document): void => {
-    // Validate URL before opening to prevent security issues
+  const handleView = async (doc: Document): Promise<void> => {
     try {
-      logger.info('Attempting to view document', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-      });
-
-      // If filePath is already a full URL, validate it
-      if (!doc.filePath) {
-        logger.error('Document filePath is empty', { documentId: doc.id });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      // Check if it's already a full URL
-      let fileUrl = doc.filePath;
-
-      // If it's not a full URL, try to construct it
-      if (!fileUrl.startsWith('http://') && !fileUrl.startsWith('https://')) {
-        logger.warn('Document filePath is not a full URL, adding https://', {
-          filePath: doc.filePath,
-        });
-        // Try to construct the URL with https://
-        fileUrl = `https://${fileUrl}`;
-      }
-
-      logger.info('Constructed file URL', { fileUrl });
-
-      const url = new URL(fileUrl);
-
-      // Check if the hostname is from a trusted domain
-      // This will match: *.utfs.io, *.uploadthing.com, *.ufs.sh, *.cloudinary.com
-      if (!isTrustedDomain(url.hostname)) {
-        logger.warn('Document URL is not from trusted domain', {
-          hostname: url.hostname,
-          fileUrl,
-        });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      // Open with security features to prevent window.opener attacks
-      logger.info('Opening document in new tab', { fileUrl });
-      window.open(fileUrl, '_blank', 'noopener,noreferrer');
+      logger.info('Opening document', { documentId: doc.id });
+      await openDocument(doc.id);
     } catch (error) {
-      logger.error('Failed to open document', error, {
-        filePath: doc.filePath,
-        documentId: doc.id,
-      });
+      logger.error('Failed to open document', error, { documentId: doc.id });
       toast.error(t('documents.invalidDocumentUrl'));
     }
   };
 
   const handleDownload = async (doc: Document): Promise<void> => {
     try {
-      logger.info('Starting document download', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-        originalName: doc.originalName,
-      });
-
-      // Fetch the file as a blob
-      const response = await fetch(doc.filePath);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch file: ${response.statusText}`);
-      }
-
-      const blob = await response.blob();
-
-      // Create a local blob URL
-      const blobUrl = window.URL.createObjectURL(blob);
-
-      // Create a temporary link element and trigger download
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = doc.originalName;
-      document.body.appendChild(link);
-      link.click();
-
-      // Clean up
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(blobUrl);
-
+      await downloadDocument(doc.id, doc.originalName);
       logger.info('Document downloaded successfully', {
         documentId: doc.id,
         originalName: doc.originalName,
       });
     } catch (error) {
-      logger.error('Failed to download document', error, {
-        documentId: doc.id,
-        filePath: doc.filePath,
-      });
+      logger.error('Failed to download document', error, { documentId: doc.id });
       toast.error(t('documents.downloadFailed'));
     }
   };
@@ -352,6 +288,7 @@ export function DocumentsList() {
               <SelectItem value="PENDING">{t('documents.pending')}</SelectItem>
               <SelectItem value="APPROVED">{t('documents.approved')}</SelectItem>
               <SelectItem value="REJECTED">{t('documents.rejected')}</SelectItem>
+              <SelectItem value="QUARANTINED">{t('documents.quarantined')}</SelectItem>
             </SelectContent>
           </Select>
         </CardContent>
@@ -2,7 +2,8 @@
 
 import { useState, useMemo } from 'react';
 import { useAuthStore } from '@/features/auth/store';
-import { useDocuments } from '../api';
+import { downloadDocument, openDocument, useDocuments } from '../api';
+import { DocumentExpiryBadge, getDocumentExpiryState } from './DocumentExpiryBadge';
 import type { Document } from '../types';
 import { DocumentStatus } from '../types';
 import {
@@ -48,6 +49,7 @@ import {
   Download,
   CheckCircle,
   XCircle,
+  ShieldAlert,
   Trash2,
   User,
   Briefcase,
@@ -57,7 +59,6 @@ import {
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import Link from 'next/link';
-import { isTrustedDomain } from '@/lib/utils/file-validation';
 import { SimpleSkeleton, SkeletonText } from '@/components/ui/simple-skeleton';
 import { useTranslation } from 'react-i18next';
 import { logger } from '@/lib/utils/logger';
@@ -78,6 +79,11 @@ const getStatusConfig = (t: any) => ({
     icon: XCircle,
     className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
   },
+  QUARANTINED: {
+    label: t('documents.quarantined'),
+    icon: ShieldAlert,
+    className: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  },
 });
 
 const getDocTypeLabels = (t: any) => ({
@@ -99,6 +105,8 @@ const formatFileSize = (bytes: number) => {
   return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
 };
 
+const EXPIRING_SOON_FILTER = 'EXPIRING_SOON';
+
 interface ClientDocumentsGroup {
   clientId: string;
   clientName: string;
@@ -178,8 +186,12 @@ export function DocumentsTable() {
       filtered = filtered.filter((group) => group.clientName.toLowerCase().includes(query));
     }
 
-    // Status filter
-    if (statusFilter !== 'all') {
+    // Status filter ("expiring soon" matches documents inside the reminder window)
+    if (statusFilter === EXPIRING_SOON_FILTER) {
+      filtered = filtered.filter((group) =>
+        group.documents.some((doc) => getDocumentExpiryState(doc) === 'EXPIRING_SOON')
+      );
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter((group) =>
         group.documents.some((doc) => doc.status === statusFilter)
       );
@@ -195,95 +207,25 @@ export function DocumentsTable() {
     currentPage * itemsPerPage
   );
 
-  const handleView = (doc: Document) => {
-    // Validate URL before opening
+  const handleView = async (doc: Document) => {
     try {
-      logger.info('Attempting to view document (agent)', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-      });
-
-      if (!doc.filePath) {
-        logger.error('Document filePath is empty (agent)', { documentId: doc.id });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      let fileUrl = doc.filePath;
-
-      // If it's not a full URL, add https://
-      if (!fileUrl.startsWith('http://') && !fileUrl.startsWith('https://')) {
-        logger.warn('Document filePath is not a full URL (agent), adding https://', {
-          filePath: doc.filePath,
-        });
-        fileUrl = `https://${fileUrl}`;
-      }
-
-      logger.info('Constructed file URL (agent)', { fileUrl });
-
-      const url = new URL(fileUrl);
-
-      // Check if the hostname is from a trusted domain
-      if (!isTrustedDomain(url.hostname)) {
-        logger.warn('Document URL is not from trusted domain (agent)', {
-          hostname: url.hostname,
-          fileUrl,
-        });
-        toast.error(t('documents.invalidDocumentUrl'));
-        return;
-      }
-
-      logger.info('Opening document in new tab (agent)', { fileUrl });
-      window.open(fileUrl, '_blank', 'noopener,noreferrer');
+      logger.info('Opening document (agent)', { documentId: doc.id });
+      await openDocument(doc.id);
     } catch (error) {
-      logger.error('Failed to open document (agent)', error, {
-        filePath: doc.filePath,
-        documentId: doc.id,
-      });
+      logger.error('Failed to open document (agent)', error, { documentId: doc.id });
       toast.error(t('documents.invalidDocumentUrl'));
     }
   };
 
   const handleDownload = async (doc: Document) => {
     try {
-      logger.info('Starting document download (agent)', {
-        filePath: doc.filePath,
-        documentId: doc.id,
-        originalName: doc.originalName,
-      });
-
-      // Fetch the file as a blob
-      const response = await fetch(doc.filePath);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch file: ${response.statusText}`);
-      }
-
-      const blob = await response.blob();
-
-      // Create a local blob URL
-      const blobUrl = window.URL.createObjectURL(blob);
-
-      // Create a temporary link element and trigger download
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = doc.originalName || 'document';
-      document.body.appendChild(link);
-      link.click();
-
-      // Clean up
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(blobUrl);
-
+      await downloadDocument(doc.id, doc.originalName);
       logger.info('Document downloaded successfully (agent)', {
         documentId: doc.id,
         originalName: doc.originalName,
       });
     } catch (error) {
-      logger.error('Failed to download document (agent)', error, {
-        documentId: doc.id,
-        filePath: doc.filePath,
-      });
+      logger.error('Failed to download document (agent)', error, { documentId: doc.id });
       toast.error(t('documents.downloadFailed'));
     }
   };
@@ -350,6 +292,12 @@ export function DocumentsTable() {
                 <SelectItem value={DocumentStatus.PENDING}>{t('documents.pending')}</SelectItem>
                 <SelectItem value={DocumentStatus.APPROVED}>{t('documents.approved')}</SelectItem>
                 <SelectItem value={DocumentStatus.REJECTED}>{t('documents.rejected')}</SelectItem>
+                <SelectItem value={DocumentStatus.QUARANTINED}>
+                  {t('documents.quarantined')}
+                </SelectItem>
+                <SelectItem value={EXPIRING_SOON_FILTER}>
+                  {t('documents.expiry.expiringSoon')}
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -545,6 +493,7 @@ export function DocumentsTable() {
                               <StatusIcon className="h-3 w-3" />
                               {statusConfig[doc.status]?.label}
                             </Badge>
+                            <DocumentExpiryBadge document={doc} />
                           </div>
 
                           {doc.case && (
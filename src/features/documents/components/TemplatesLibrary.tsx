@@ -31,7 +31,7 @@ interface DocumentTemplate {
   isActive: boolean;
   downloadCount: number;
   version?: string;
-  fileUrl?: string;
+  hasFile?: boolean;
 }
 
 const getCategoryIcon = (category: string) => {
@@ -92,12 +92,11 @@ export function TemplatesLibrary() {
         return;
       }
 
-      // Check if template has a valid file URL
-      if (!template.fileUrl || template.fileUrl.startsWith('/templates/')) {
+      // Check if template has an uploaded file
+      if (!template.hasFile) {
         toast.error(t('templates.fileNotAvailable') || 'Template file is not yet uploaded');
         logger.warn('Template file not uploaded', {
           templateId: template.id,
-          fileUrl: template.fileUrl,
         });
         return;
       }
@@ -105,9 +104,9 @@ export function TemplatesLibrary() {
       // Track download (increments download count)
       await apiClient.get(`/api/templates/${template.id}`);
 
-      // Download file by redirecting to file URL
+      // Download through the file route, which redirects to a short-lived signed URL
       const link = document.createElement('a');
-      link.href = template.fileUrl;
+      link.href = `/api/templates/${template.id}/file`;
       link.download = template.fileName;
       link.target = '_blank';
       document.body.appendChild(link);
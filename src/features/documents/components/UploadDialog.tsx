@@ -98,10 +98,21 @@ const getCaseStatusLabel = (status: string, t: any): string => {
   return translated;
 };
 
+// Optional validity dates as YYYY-MM-DD strings
+export interface DocumentValidityInput {
+  issuedAt?: string;
+  expiresAt?: string;
+}
+
 export interface UploadDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUpload: (file: File, documentType: DocumentType, caseId: string) => Promise<void>;
+  onUpload: (
+    file: File,
+    documentType: DocumentType,
+    caseId: string,
+    validity?: DocumentValidityInput
+  ) => Promise<void>;
   isUploading: boolean;
 }
 
@@ -111,6 +122,8 @@ export function UploadDialog({ open, onOpenChange, onUpload, isUploading }: Uplo
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [documentType, setDocumentType] = useState<DocumentType | ''>('');
   const [caseId, setCaseId] = useState<string>('');
+  const [issuedAt, setIssuedAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
 
   // Fetch user's cases for selection
   const {
@@ -181,12 +194,17 @@ export function UploadDialog({ open, onOpenChange, onUpload, isUploading }: Uplo
     }
 
     try {
-      await onUpload(selectedFile, documentType as DocumentType, caseId);
+      await onUpload(selectedFile, documentType as DocumentType, caseId, {
+        issuedAt: issuedAt || undefined,
+        expiresAt: expiresAt || undefined,
+      });
 
       // Reset form on successful upload
       setSelectedFile(null);
       setDocumentType('');
       setCaseId('');
+      setIssuedAt('');
+      setExpiresAt('');
     } catch (error) {
       toast.error(t('documents.uploadFailed'));
       logger.error('Upload error:', error);
@@ -197,10 +215,14 @@ export function UploadDialog({ open, onOpenChange, onUpload, isUploading }: Uplo
     setSelectedFile(null);
     setDocumentType('');
     setCaseId('');
+    setIssuedAt('');
+    setExpiresAt('');
     onOpenChange(false);
   };
 
-  const isFormValid = selectedFile && documentType && caseId && !isLoadingCases;
+  const hasInvalidValidity = !!issuedAt && !!expiresAt && issuedAt >= expiresAt;
+  const isFormValid =
+    selectedFile && documentType && caseId && !isLoadingCases && !hasInvalidValidity;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -254,6 +276,33 @@ export function UploadDialog({ open, onOpenChange, onUpload, isUploading }: Uplo
             />
             <p className="text-xs text-muted-foreground">{t('documents.maxSize16MB')}</p>
           </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="issued-at">{t('documents.expiry.issuedAt')}</Label>
+              <Input
+                id="issued-at"
+                type="date"
+                value={issuedAt}
+                onChange={(e) => setIssuedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expires-at">{t('documents.expiry.expiresAt')}</Label>
+              <Input
+                id="expires-at"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+            <p
+              className={`col-span-2 text-xs ${hasInvalidValidity ? 'text-red-600' : 'text-muted-foreground'}`}
+            >
+              {hasInvalidValidity
+                ? t('documents.expiry.invalidRange')
+                : t('documents.expiry.helper')}
+            </p>
+          </div>
           <div className="space-y-2">
             <Label htmlFor="case-select">{t('documents.selectCase') || 'Select Case'}</Label>
             {isLoadingCases ? (
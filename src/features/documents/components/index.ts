@@ -1,3 +1,7 @@
 // Documents Components exports
 export * from './DocumentsList';
 export * from './DocumentsTable';
+export * from './DocumentVersionHistory';
+export * from './DocumentExtractionPanel';
+export * from './DocumentCommentsThread';
+export * from './DocumentExpiryBadge';
@@ -6,7 +6,6 @@ export interface Document {
   uploadedById: string;
   fileName: string;
   originalName: string;
-  filePath: string;
   fileSize: number;
   mimeType: string;
   documentType: DocumentType;
@@ -15,6 +14,11 @@ export interface Document {
   verifiedBy?: string;
   verifiedAt?: string;
   rejectionReason?: string;
+  quarantineReason?: string | null; // Set while status is QUARANTINED
+  issuedAt?: string | null;
+  expiresAt?: string | null;
+  version: number;
+  supersedesId?: string | null;
   // Relations (populated by API include)
   case?: {
     id: string;
@@ -46,6 +50,7 @@ export enum DocumentStatus {
   PENDING = 'PENDING',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  QUARANTINED = 'QUARANTINED',
 }
 
 export interface CreateDocumentInput {
@@ -56,4 +61,87 @@ export interface CreateDocumentInput {
   mimeType: string;
   documentType: DocumentType;
   caseId: string;
+  issuedAt?: string;
+  expiresAt?: string;
+}
+
+// A single entry in a document's resubmission history
+export type DocumentVersion = Pick<
+  Document,
+  | 'id'
+  | 'version'
+  | 'supersedesId'
+  | 'originalName'
+  | 'fileName'
+  | 'fileSize'
+  | 'mimeType'
+  | 'documentType'
+  | 'status'
+  | 'uploadDate'
+  | 'uploadedById'
+  | 'verifiedBy'
+  | 'verifiedAt'
+  | 'rejectionReason'
+>;
+
+// A message in a document's review thread (agent <-> client)
+export interface DocumentComment {
+  id: string;
+  documentId: string;
+  authorId: string;
+  content: string;
+  createdAt: string;
+  author: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    role: 'CLIENT' | 'AGENT' | 'ADMIN';
+  };
+}
+
+export interface DocumentRejectionInput {
+  documentId: string;
+  reason: string;
+}
+
+export type ExtractionStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+// Identity fields read from a passport / ID card MRZ (dates are YYYY-MM-DD)
+export interface ExtractedFields {
+  surname?: string | null;
+  givenNames?: string | null;
+  documentNumber?: string | null;
+  nationality?: string | null;
+  issuingCountry?: string | null;
+  dateOfBirth?: string | null;
+  sex?: 'M' | 'F' | 'X' | null;
+  expiryDate?: string | null;
+  personalNumber?: string | null;
+}
+
+export interface ExtractionMismatch {
+  field: keyof ExtractedFields;
+  source: 'PROFILE' | 'FORM';
+  expected: string;
+  extracted: string;
 }
+
+export interface DocumentExtraction {
+  id: string;
+  documentId: string;
+  status: ExtractionStatus;
+  engine?: string | null;
+  mrzFormat?: 'TD1' | 'TD2' | 'TD3' | null;
+  mrzValid: boolean;
+  fields?: ExtractedFields | null;
+  mismatches?: ExtractionMismatch[] | null;
+  error?: string | null;
+  processedAt?: string | null;
+  reviewedById?: string | null;
+  reviewedAt?: string | null;
+}
+
+export type ResubmitDocumentInput = Pick<
+  CreateDocumentInput,
+  'fileName' | 'originalName' | 'filePath' | 'fileSize' | 'mimeType' | 'issuedAt' | 'expiresAt'
+>;
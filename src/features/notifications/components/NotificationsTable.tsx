@@ -28,6 +28,9 @@ import {
   ArrowDown,
   Search,
   Mail,
+  CalendarClock,
+  Timer,
+  ListTodo,
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -110,6 +113,26 @@ const notifConfig: Record<string, { icon: any; className: string }> = {
     icon: Bell,
     className: 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/30 dark:text-yellow-400',
   },
+  DOCUMENT_EXPIRING: {
+    icon: Clock,
+    className: 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400',
+  },
+  APPOINTMENT_UPDATED: {
+    icon: CalendarClock,
+    className: 'bg-sky-100 text-sky-600 dark:bg-sky-900/30 dark:text-sky-400',
+  },
+  APPOINTMENT_REMINDER: {
+    icon: CalendarClock,
+    className: 'bg-sky-100 text-sky-600 dark:bg-sky-900/30 dark:text-sky-400',
+  },
+  SLA_ALERT: {
+    icon: Timer,
+    className: 'bg-rose-100 text-rose-600 dark:bg-rose-900/30 dark:text-rose-400',
+  },
+  TASK_OVERDUE: {
+    icon: ListTodo,
+    className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400',
+  },
 };
 
 export function NotificationsTable({ onMarkAsRead, onMarkAllAsRead }: NotificationsTableProps) {
@@ -474,6 +497,19 @@ export function NotificationsTable({ onMarkAsRead, onMarkAllAsRead }: Notificati
                 <SelectItem value="DOCUMENT_REJECTED">
                   {t('notifications.filters.documentRejected')}
                 </SelectItem>
+                <SelectItem value="DOCUMENT_EXPIRING">
+                  {t('notifications.filters.documentExpiring')}
+                </SelectItem>
+                <SelectItem value="APPOINTMENT_UPDATED">
+                  {t('notifications.filters.appointmentUpdates')}
+                </SelectItem>
+                <SelectItem value="APPOINTMENT_REMINDER">
+                  {t('notifications.filters.appointmentReminders')}
+                </SelectItem>
+                <SelectItem value="SLA_ALERT">{t('notifications.filters.slaAlerts')}</SelectItem>
+                <SelectItem value="TASK_OVERDUE">
+                  {t('notifications.filters.overdueTasks')}
+                </SelectItem>
                 <SelectItem value="SYSTEM_ANNOUNCEMENT">
                   {t('notifications.filters.announcements')}
                 </SelectItem>
@@ -21,6 +21,11 @@ export enum NotificationType {
   SYSTEM_ANNOUNCEMENT = 'SYSTEM_ANNOUNCEMENT',
   NEW_EMAIL = 'NEW_EMAIL',
   APPOINTMENT_SCHEDULED = 'APPOINTMENT_SCHEDULED',
+  DOCUMENT_EXPIRING = 'DOCUMENT_EXPIRING',
+  APPOINTMENT_UPDATED = 'APPOINTMENT_UPDATED',
+  APPOINTMENT_REMINDER = 'APPOINTMENT_REMINDER',
+  SLA_ALERT = 'SLA_ALERT',
+  TASK_OVERDUE = 'TASK_OVERDUE',
   INFO = 'INFO',
   WARNING = 'WARNING',
   ERROR = 'ERROR',
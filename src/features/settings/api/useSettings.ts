@@ -3,7 +3,15 @@ import { apiClient } from '@/lib/utils/axios';
 import { logger } from '@/lib/utils/logger';
 import { toast } from 'sonner';
 import { auth } from '@/lib/firebase/firebase-client';
-import { updatePassword, reauthenticateWithCredential, EmailAuthProvider } from 'firebase/auth';
+import {
+  updatePassword,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
+  signOut,
+} from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+import { useAuthStore } from '@/features/auth/store';
+import type { ApiError } from '@/lib/types';
 
 export interface UserSettings {
   emailNotifications: boolean;
@@ -16,6 +24,27 @@ export interface PasswordChangeInput {
   newPassword: string;
 }
 
+export interface CalendarFeedStatus {
+  active: boolean;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface CalendarFeed {
+  url: string;
+  createdAt: string;
+}
+
+export interface UserSession {
+  id: string;
+  platform: 'WEB' | 'MOBILE';
+  deviceName: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
 // Fetch user settings
 export const useUserSettings = () => {
   return useQuery<UserSettings>({
@@ -126,3 +155,125 @@ export const useChangePassword = () => {
     },
   });
 };
+
+// Fetch calendar feed status (the URL itself is only returned when it is created)
+export const useCalendarFeed = () => {
+  return useQuery<CalendarFeedStatus>({
+    queryKey: ['calendar-feed'],
+    queryFn: async () => {
+      const response = await apiClient.get('/api/appointments/feed');
+      return response.data.data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+// Create a new calendar feed URL, revoking the previous one
+export const useCreateCalendarFeed = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post('/api/appointments/feed');
+      return response.data.data as CalendarFeed;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+      toast.success('Calendar feed created');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to create calendar feed');
+    },
+  });
+};
+
+// Revoke the calendar feed URL
+export const useRevokeCalendarFeed = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiClient.delete('/api/appointments/feed');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+      toast.success('Calendar feed revoked');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke calendar feed');
+    },
+  });
+};
+
+// Fetch the devices the current user is signed in on
+export const useSessions = () => {
+  return useQuery<UserSession[]>({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await apiClient.get('/api/users/sessions');
+      return response.data.data.sessions;
+    },
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+// Sign out one of the other devices
+export const useRevokeSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiClient.delete(`/api/users/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success('Device signed out');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out device');
+    },
+  });
+};
+
+// Sign out every other device, keeping this one signed in
+export const useRevokeOtherSessions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiClient.delete('/api/users/sessions', { params: { keepCurrent: true } });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      toast.success('Signed out of all other devices');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out other devices');
+    },
+  });
+};
+
+// Sign out every device, this one included
+export const useSignOutEverywhere = () => {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const logout = useAuthStore((state) => state.logout);
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiClient.delete('/api/users/sessions');
+      if (auth) {
+        await signOut(auth);
+      }
+    },
+    onSuccess: () => {
+      logout();
+      queryClient.clear();
+      toast.success('Signed out everywhere');
+      router.push('/login');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out everywhere');
+    },
+  });
+};
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarSync, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { useCalendarFeed, useCreateCalendarFeed, useRevokeCalendarFeed } from '../api/useSettings';
+
+// Subscribable appointments feed for external calendar apps
+export function CalendarFeedCard() {
+  const { t } = useTranslation();
+  const { data: feed } = useCalendarFeed();
+  const createFeed = useCreateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+  // The URL is only known right after it is created
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    createFeed.mutate(undefined, {
+      onSuccess: (created) => setFeedUrl(created.url),
+    });
+  };
+
+  const handleRevoke = () => {
+    revokeFeed.mutate(undefined, {
+      onSuccess: () => setFeedUrl(null),
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success(t('settings.calendarFeed.copied'));
+    } catch {
+      toast.error(t('settings.calendarFeed.copyFailed'));
+    }
+  };
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center text-sm sm:text-base font-semibold">
+          <CalendarSync className="mr-2 h-4 w-4 sm:h-5 sm:w-5" style={{ color: '#ff4538' }} />
+          {t('settings.calendarFeed.title')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {t('settings.calendarFeed.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="space-y-0.5 text-sm text-muted-foreground">
+            {feed?.active && feed.createdAt ? (
+              <>
+                <p>
+                  {t('settings.calendarFeed.createdAt', { date: formatDateTime(feed.createdAt) })}
+                </p>
+                <p>
+                  {feed.lastUsedAt
+                    ? t('settings.calendarFeed.lastUsedAt', {
+                        date: formatDateTime(feed.lastUsedAt),
+                      })
+                    : t('settings.calendarFeed.neverUsed')}
+                </p>
+              </>
+            ) : (
+              <p>{t('settings.calendarFeed.inactive')}</p>
+            )}
+          </div>
+          <Badge variant={feed?.active ? 'default' : 'outline'}>
+            {feed?.active ? t('settings.calendarFeed.active') : t('settings.calendarFeed.off')}
+          </Badge>
+        </div>
+
+        {feedUrl && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={(event) => event.target.select()} />
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label={t('settings.calendarFeed.copy')}
+                onClick={handleCopy}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('settings.calendarFeed.urlHint')}</p>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleCreate} disabled={createFeed.isPending}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${createFeed.isPending ? 'animate-spin' : ''}`} />
+            {feed?.active
+              ? t('settings.calendarFeed.regenerate')
+              : t('settings.calendarFeed.create')}
+          </Button>
+          {feed?.active && (
+            <Button variant="outline" onClick={handleRevoke} disabled={revokeFeed.isPending}>
+              <Trash2 className="mr-2 h-4 w-4 text-destructive" />
+              {t('settings.calendarFeed.revoke')}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
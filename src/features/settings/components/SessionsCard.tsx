@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { LogOut, MonitorSmartphone, Monitor, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { formatDateTime } from '@/lib/utils/helpers';
+import {
+  useRevokeOtherSessions,
+  useRevokeSession,
+  useSessions,
+  useSignOutEverywhere,
+} from '../api/useSettings';
+
+// Devices the user is signed in on (web and the mobile app), with remote sign-out
+export function SessionsCard() {
+  const { t } = useTranslation();
+  const { data: sessions, isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOtherSessions = useRevokeOtherSessions();
+  const signOutEverywhere = useSignOutEverywhere();
+  const [everywhereDialogOpen, setEverywhereDialogOpen] = useState(false);
+
+  const hasOtherSessions = sessions?.some((session) => !session.current) ?? false;
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center text-sm sm:text-base font-semibold">
+          <MonitorSmartphone className="mr-2 h-4 w-4 sm:h-5 sm:w-5" style={{ color: '#ff4538' }} />
+          {t('settings.sessions.title')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {t('settings.sessions.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {sessions?.map((session) => {
+              const Icon = session.platform === 'MOBILE' ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-2 p-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 text-sm">
+                      <p className="font-medium truncate">
+                        {session.deviceName ??
+                          (session.platform === 'MOBILE'
+                            ? t('settings.sessions.mobileApp')
+                            : t('settings.sessions.browser'))}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[
+                          session.ipAddress,
+                          t('settings.sessions.lastSeen', {
+                            date: formatDateTime(session.lastSeenAt),
+                          }),
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </div>
+                  </div>
+                  {session.current ? (
+                    <Badge variant="default">{t('settings.sessions.thisDevice')}</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeSession.mutate(session.id)}
+                      disabled={revokeSession.isPending}
+                    >
+                      {t('settings.sessions.signOut')}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+            {sessions?.length === 0 && (
+              <li className="p-3 text-sm text-muted-foreground">{t('settings.sessions.empty')}</li>
+            )}
+          </ul>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          {hasOtherSessions && (
+            <Button
+              variant="outline"
+              onClick={() => revokeOtherSessions.mutate()}
+              disabled={revokeOtherSessions.isPending}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              {t('settings.sessions.signOutOthers')}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setEverywhereDialogOpen(true)}>
+            <LogOut className="mr-2 h-4 w-4 text-destructive" />
+            {t('settings.sessions.signOutEverywhere')}
+          </Button>
+        </div>
+      </CardContent>
+
+      <ConfirmationDialog
+        open={everywhereDialogOpen}
+        onOpenChange={setEverywhereDialogOpen}
+        onConfirm={() => signOutEverywhere.mutate()}
+        title={t('settings.sessions.everywhereDialog.title')}
+        description={t('settings.sessions.everywhereDialog.description')}
+        confirmText={t('settings.sessions.everywhereDialog.confirm')}
+        cancelText={t('common.cancel')}
+        variant="destructive"
+        isLoading={signOutEverywhere.isPending}
+      />
+    </Card>
+  );
+}
@@ -39,9 +39,16 @@ import { useUserSettings, useUpdateUserSettings, useChangePassword } from '../ap
 import { logger } from '@/lib/utils/logger';
 import { useState, useEffect } from 'react';
 import { auth } from '@/lib/firebase/firebase-client';
+import { CalendarFeedCard } from './CalendarFeedCard';
+import { TwoFactorCard } from './TwoFactorCard';
+import { SessionsCard } from './SessionsCard';
+import { useAuthStore } from '@/features/auth/store';
 
 export function SettingsView() {
   const { t } = useTranslation();
+  const user = useAuthStore((state) => state.user);
+  // Second factor is offered to staff only
+  const isStaff = user?.role === 'AGENT' || user?.role === 'ADMIN';
 
   // Fetch user settings from backend
   const { data: settings, isLoading, isError } = useUserSettings();
@@ -256,6 +263,15 @@ export function SettingsView() {
         </CardContent>
       </Card>
 
+      {/* Calendar feed */}
+      <CalendarFeedCard />
+
+      {/* Two-factor authentication (staff) */}
+      {isStaff && <TwoFactorCard />}
+
+      {/* Signed-in devices */}
+      <SessionsCard />
+
       {/* Security */}
       <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
         <CardHeader>
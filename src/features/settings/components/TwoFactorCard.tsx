@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { KeyRound, RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { userCan } from '@/lib/auth/permissions';
+import { useAuthStore } from '@/features/auth/store';
+import {
+  useDisableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useTwoFactorPolicy,
+  useTwoFactorStatus,
+  useUpdateTwoFactorPolicy,
+  type TwoFactorPolicy,
+} from '@/features/auth/api/useTwoFactor';
+import {
+  RecoveryCodesList,
+  TwoFactorEnrollment,
+} from '@/features/auth/components/TwoFactorEnrollment';
+
+const POLICY_ROLES: (keyof TwoFactorPolicy)[] = ['AGENT', 'ADMIN'];
+
+// Authenticator app second factor for staff, plus the per-role requirement for security admins
+export function TwoFactorCard() {
+  const { t } = useTranslation();
+  const user = useAuthStore((state) => state.user);
+  const canManageSecurity = userCan(user, 'security.manage');
+  const { data: status } = useTwoFactorStatus();
+  const { data: policy } = useTwoFactorPolicy(canManageSecurity);
+  const disableTwoFactor = useDisableTwoFactor();
+  const regenerateCodes = useRegenerateRecoveryCodes();
+  const updatePolicy = useUpdateTwoFactorPolicy();
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [disableDialogOpen, setDisableDialogOpen] = useState(false);
+
+  const handleRegenerate = () => {
+    regenerateCodes.mutate(undefined, {
+      onSuccess: (codes) => setNewRecoveryCodes(codes),
+    });
+  };
+
+  const handleDisable = () => {
+    disableTwoFactor.mutate(undefined, {
+      onSuccess: () => {
+        setDisableDialogOpen(false);
+        setNewRecoveryCodes(null);
+      },
+    });
+  };
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center text-sm sm:text-base font-semibold">
+          <ShieldCheck className="mr-2 h-4 w-4 sm:h-5 sm:w-5" style={{ color: '#ff4538' }} />
+          {t('settings.twoFactor.title')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {t('settings.twoFactor.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="space-y-0.5 text-sm text-muted-foreground">
+            {status?.enabled && status.enabledAt ? (
+              <>
+                <p>
+                  {t('settings.twoFactor.enabledAt', { date: formatDateTime(status.enabledAt) })}
+                </p>
+                <p>
+                  {t('settings.twoFactor.recoveryCodesLeft', { count: status.recoveryCodesLeft })}
+                </p>
+              </>
+            ) : (
+              <p>{t('settings.twoFactor.notEnabled')}</p>
+            )}
+            {status?.required && <p>{t('settings.twoFactor.requiredForRole')}</p>}
+          </div>
+          <Badge variant={status?.enabled ? 'default' : 'outline'}>
+            {status?.enabled ? t('settings.twoFactor.on') : t('settings.twoFactor.off')}
+          </Badge>
+        </div>
+
+        {!status?.enabled &&
+          (isEnrolling ? (
+            <TwoFactorEnrollment onDone={() => setIsEnrolling(false)} />
+          ) : (
+            <Button onClick={() => setIsEnrolling(true)}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {t('settings.twoFactor.enable')}
+            </Button>
+          ))}
+
+        {status?.enabled && (
+          <>
+            {newRecoveryCodes && <RecoveryCodesList codes={newRecoveryCodes} />}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={regenerateCodes.isPending}
+              >
+                <RefreshCw
+                  className={`mr-2 h-4 w-4 ${regenerateCodes.isPending ? 'animate-spin' : ''}`}
+                />
+                {t('settings.twoFactor.regenerateCodes')}
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setDisableDialogOpen(true)}>
+                  <ShieldOff className="mr-2 h-4 w-4 text-destructive" />
+                  {t('settings.twoFactor.disable')}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {canManageSecurity && policy && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="flex items-center text-sm font-medium">
+                <KeyRound className="mr-2 h-4 w-4" style={{ color: '#ff4538' }} />
+                {t('settings.twoFactor.policyTitle')}
+              </div>
+              {POLICY_ROLES.map((role) => (
+                <div key={role} className="flex items-center justify-between">
+                  <Label htmlFor={`two-factor-policy-${role}`} className="text-sm">
+                    {t(`settings.twoFactor.policyRoles.${role}`)}
+                  </Label>
+                  <Switch
+                    id={`two-factor-policy-${role}`}
+                    checked={policy[role]}
+                    onCheckedChange={(checked) => updatePolicy.mutate({ [role]: checked })}
+                    disabled={updatePolicy.isPending}
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <ConfirmationDialog
+        open={disableDialogOpen}
+        onOpenChange={setDisableDialogOpen}
+        onConfirm={handleDisable}
+        title={t('settings.twoFactor.disableDialog.title')}
+        description={t('settings.twoFactor.disableDialog.description')}
+        confirmText={t('settings.twoFactor.disableDialog.confirm')}
+        cancelText={t('common.cancel')}
+        variant="destructive"
+        isLoading={disableTwoFactor.isPending}
+      />
+    </Card>
+  );
+}
@@ -4,7 +4,8 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/utils/axios';
 import { toast } from 'sonner';
 import type { User, UpdateUserInput } from '../types';
-import { USERS_KEY } from './queries';
+import { LOCKED_ACCOUNTS_KEY, USERS_KEY } from './queries';
+import type { ApiError } from '@/lib/types';
 
 // Update user (ADMIN only)
 export function useUpdateUser() {
@@ -43,3 +44,51 @@ export function useDeleteUser() {
     },
   });
 }
+
+// Reset the second factor of a locked-out user (security.manage)
+export function useResetUserTwoFactor() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/api/users/${id}/two-factor`);
+    },
+    onSuccess: () => {
+      toast.success('Two-factor authentication reset');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to reset two-factor authentication');
+    },
+  });
+}
+
+// Sign a user out of every device (user.manage)
+export function useRevokeUserSessions() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/api/users/${id}/sessions`);
+    },
+    onSuccess: () => {
+      toast.success('User signed out of all devices');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out user');
+    },
+  });
+}
+
+// Lift a failed-login lockout before it expires (user.manage)
+export function useUnlockAccount() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/api/users/${id}/lock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [LOCKED_ACCOUNTS_KEY] });
+      toast.success('Account unlocked');
+    },
+    onError: (error: ApiError) => {
+      toast.error(error.response?.data?.error || 'Failed to unlock account');
+    },
+  });
+}
@@ -2,9 +2,10 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/lib/utils/axios';
-import type { User } from '../types';
+import type { LockedAccount, User } from '../types';
 
 export const USERS_KEY = 'users';
+export const LOCKED_ACCOUNTS_KEY = 'locked-accounts';
 
 // Get all users (ADMIN/AGENT only)
 export function useUsers(
@@ -60,3 +61,16 @@ export function useUser(id: string) {
     enabled: !!id,
   });
 }
+
+// Accounts locked after repeated failed logins (user.manage)
+export function useLockedAccounts(enabled = true) {
+  return useQuery({
+    queryKey: [LOCKED_ACCOUNTS_KEY],
+    queryFn: async () => {
+      const response = await apiClient.get('/api/admin/locked-accounts');
+      return response.data.data.accounts as LockedAccount[];
+    },
+    enabled,
+    staleTime: 30 * 1000,
+  });
+}
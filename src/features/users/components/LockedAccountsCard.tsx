@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { LockKeyhole, LockOpen } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { useLockedAccounts, useUnlockAccount } from '../api';
+import type { LockedAccount } from '../types';
+
+// Accounts locked after repeated failed logins - hidden while there are none
+export function LockedAccountsCard() {
+  const { t } = useTranslation();
+  const { data: accounts } = useLockedAccounts();
+  const unlockAccount = useUnlockAccount();
+  const [accountToUnlock, setAccountToUnlock] = useState<LockedAccount | null>(null);
+
+  if (!accounts?.length) {
+    return null;
+  }
+
+  return (
+    <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center text-sm sm:text-base font-semibold">
+          <LockKeyhole className="mr-2 h-4 w-4 sm:h-5 sm:w-5" style={{ color: '#ff4538' }} />
+          {t('users.lockedAccounts.title')}
+          <Badge variant="destructive" className="ml-2">
+            {accounts.length}
+          </Badge>
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {t('users.lockedAccounts.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y rounded-md border">
+          {accounts.map((account) => (
+            <li key={account.id} className="flex items-center justify-between gap-2 p-3">
+              <div className="min-w-0 text-sm">
+                <p className="font-medium truncate">
+                  {`${account.firstName} ${account.lastName}`.trim() || account.email}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[
+                    account.email,
+                    t('users.lockedAccounts.lockedUntil', {
+                      date: formatDateTime(account.lockedUntil),
+                    }),
+                    t('users.lockedAccounts.lockoutCount', { lockouts: account.lockoutCount }),
+                  ].join(' · ')}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setAccountToUnlock(account)}
+                disabled={unlockAccount.isPending}
+              >
+                <LockOpen className="mr-2 h-4 w-4" />
+                {t('users.lockedAccounts.unlock')}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+
+      <ConfirmationDialog
+        open={!!accountToUnlock}
+        onOpenChange={(open) => !open && setAccountToUnlock(null)}
+        title={t('users.lockedAccounts.unlockTitle')}
+        description={t('users.lockedAccounts.unlockDescription', {
+          email: accountToUnlock?.email,
+        })}
+        confirmText={t('users.lockedAccounts.unlock')}
+        onConfirm={() => {
+          if (accountToUnlock) {
+            unlockAccount.mutate(accountToUnlock.id);
+          }
+          setAccountToUnlock(null);
+        }}
+        isLoading={unlockAccount.isPending}
+      />
+    </Card>
+  );
+}
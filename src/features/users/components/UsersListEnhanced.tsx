@@ -4,8 +4,15 @@ import { useAuthStore } from '@/features/auth/store';
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslation } from 'react-i18next';
-import { useUsers, useUpdateUser, useDeleteUser } from '../api';
+import {
+  useUsers,
+  useUpdateUser,
+  useDeleteUser,
+  useResetUserTwoFactor,
+  useRevokeUserSessions,
+} from '../api';
 import { UserRole } from '../types';
+import { LockedAccountsCard } from './LockedAccountsCard';
 import {
   flexRender,
   getCoreRowModel,
@@ -34,6 +41,8 @@ import {
   Trash,
   Power,
   AlertCircle,
+  KeyRound,
+  LogOut,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -76,6 +85,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { getInitials } from '@/lib/utils/helpers';
+import { userCan } from '@/lib/auth/permissions';
 import { toast } from 'sonner';
 
 type UserData = {
@@ -109,6 +119,8 @@ export function UsersListEnhanced() {
   // Dialog state
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [resetTwoFactorDialogOpen, setResetTwoFactorDialogOpen] = useState(false);
+  const [revokeSessionsDialogOpen, setRevokeSessionsDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserData | null>(null);
   const [editRole, setEditRole] = useState('');
   const [editIsActive, setEditIsActive] = useState(true);
@@ -116,6 +128,10 @@ export function UsersListEnhanced() {
   // Mutations
   const updateUser = useUpdateUser();
   const deleteUser = useDeleteUser();
+  const resetTwoFactor = useResetUserTwoFactor();
+  const revokeSessions = useRevokeUserSessions();
+  const canManageUsers = userCan(user, 'user.manage');
+  const canManageSecurity = userCan(user, 'security.manage');
 
   // Redirect if not admin
   useEffect(() => {
@@ -189,6 +205,40 @@ export function UsersListEnhanced() {
     }
   }, [selectedUser, deleteUser, refetch]);
 
+  const handleResetTwoFactor = useCallback((targetUser: UserData) => {
+    setSelectedUser(targetUser);
+    setResetTwoFactorDialogOpen(true);
+  }, []);
+
+  const handleConfirmResetTwoFactor = useCallback(async () => {
+    if (!selectedUser) return;
+
+    try {
+      await resetTwoFactor.mutateAsync(selectedUser.id);
+      setResetTwoFactorDialogOpen(false);
+      setSelectedUser(null);
+    } catch (error) {
+      // Error handled in mutation
+    }
+  }, [selectedUser, resetTwoFactor]);
+
+  const handleRevokeSessions = useCallback((targetUser: UserData) => {
+    setSelectedUser(targetUser);
+    setRevokeSessionsDialogOpen(true);
+  }, []);
+
+  const handleConfirmRevokeSessions = useCallback(async () => {
+    if (!selectedUser) return;
+
+    try {
+      await revokeSessions.mutateAsync(selectedUser.id);
+      setRevokeSessionsDialogOpen(false);
+      setSelectedUser(null);
+    } catch (error) {
+      // Error handled in mutation
+    }
+  }, [selectedUser, revokeSessions]);
+
   const handleToggleActive = useCallback(
     async (targetUser: UserData) => {
       try {
@@ -421,6 +471,20 @@ export function UsersListEnhanced() {
                   <Power className="mr-2 h-4 w-4" />
                   {row.original.isActive ? t('users.deactivate') : t('users.activate')}
                 </DropdownMenuItem>
+                {canManageUsers && row.original.id !== user?.id && (
+                  <DropdownMenuItem onClick={() => handleRevokeSessions(row.original)}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    {t('users.signOutEverywhere')}
+                  </DropdownMenuItem>
+                )}
+                {canManageSecurity &&
+                  row.original.role !== 'CLIENT' &&
+                  row.original.id !== user?.id && (
+                    <DropdownMenuItem onClick={() => handleResetTwoFactor(row.original)}>
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      {t('users.resetTwoFactor')}
+                    </DropdownMenuItem>
+                  )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   className="text-destructive"
@@ -437,7 +501,19 @@ export function UsersListEnhanced() {
         enableSorting: false,
       },
     ],
-    [t, getRoleBadgeColor, handleEdit, handleToggleActive, handleDelete, user?.id, getRoleLabel]
+    [
+      t,
+      getRoleBadgeColor,
+      handleEdit,
+      handleToggleActive,
+      handleDelete,
+      handleResetTwoFactor,
+      handleRevokeSessions,
+      canManageUsers,
+      canManageSecurity,
+      user?.id,
+      getRoleLabel,
+    ]
   );
 
   // Prepare data for table - MOVED BEFORE EARLY RETURNS
@@ -514,6 +590,8 @@ export function UsersListEnhanced() {
         </Badge>
       </div>
 
+      {canManageUsers && <LockedAccountsCard />}
+
       {/* Filters */}
       <Card style={{ borderColor: '#ff4538', borderWidth: '1px', borderStyle: 'solid' }}>
         <CardContent className="pt-6">
@@ -782,6 +860,34 @@ export function UsersListEnhanced() {
         variant="destructive"
         isLoading={deleteUser.isPending}
       />
+
+      <ConfirmationDialog
+        open={resetTwoFactorDialogOpen}
+        onOpenChange={setResetTwoFactorDialogOpen}
+        onConfirm={handleConfirmResetTwoFactor}
+        title={t('users.resetTwoFactorDialog.title')}
+        description={t('users.resetTwoFactorDialog.description', {
+          name: selectedUser ? `${selectedUser.firstName} ${selectedUser.lastName}`.trim() : '',
+        })}
+        confirmText={t('users.resetTwoFactorDialog.confirm')}
+        cancelText={t('common.cancel')}
+        variant="destructive"
+        isLoading={resetTwoFactor.isPending}
+      />
+
+      <ConfirmationDialog
+        open={revokeSessionsDialogOpen}
+        onOpenChange={setRevokeSessionsDialogOpen}
+        onConfirm={handleConfirmRevokeSessions}
+        title={t('users.signOutEverywhereDialog.title')}
+        description={t('users.signOutEverywhereDialog.description', {
+          name: selectedUser ? `${selectedUser.firstName} ${selectedUser.lastName}`.trim() : '',
+        })}
+        confirmText={t('users.signOutEverywhereDialog.confirm')}
+        cancelText={t('common.cancel')}
+        variant="destructive"
+        isLoading={revokeSessions.isPending}
+      />
     </div>
   );
 }
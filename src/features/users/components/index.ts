@@ -1,3 +1,4 @@
 // Users Components exports
 export { UsersList, UsersListSkeleton } from './UsersList';
 export { UsersListEnhanced } from './UsersListEnhanced';
+export { LockedAccountsCard } from './LockedAccountsCard';
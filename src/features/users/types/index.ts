@@ -17,6 +17,18 @@ export interface User {
   updatedAt: string;
 }
 
+// Account locked after repeated failed logins (GET /api/admin/locked-accounts)
+export interface LockedAccount {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  lockedUntil: string;
+  lockoutCount: number;
+  lastFailedLoginAt: string | null;
+}
+
 export enum UserRole {
   CLIENT = 'CLIENT',
   AGENT = 'AGENT',
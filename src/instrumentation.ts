@@ -11,5 +11,33 @@ export async function register() {
       '@/lib/cron/scheduled-deletions.service'
     );
     initializeScheduledDeletionsCron();
+
+    const { initializeDocumentExpiryCron } = await import('@/lib/cron/document-expiry.service');
+    initializeDocumentExpiryCron();
+
+    const { initializeAppointmentRemindersCron } = await import(
+      '@/lib/cron/appointment-reminders.service'
+    );
+    initializeAppointmentRemindersCron();
+
+    const { initializeSlaEvaluatorCron } = await import('@/lib/cron/sla-evaluator.service');
+    initializeSlaEvaluatorCron();
+
+    const { initializeAgentCoverageCron } = await import('@/lib/cron/agent-coverage.service');
+    initializeAgentCoverageCron();
+
+    const { initializeDocumentExtractionCron } = await import(
+      '@/lib/cron/document-extraction.service'
+    );
+    initializeDocumentExtractionCron();
+
+    const { initializeCaseDraftsCron } = await import('@/lib/cron/case-drafts.service');
+    initializeCaseDraftsCron();
+
+    const { initializeTaskRemindersCron } = await import('@/lib/cron/task-reminders.service');
+    initializeTaskRemindersCron();
+
+    const { initializeLoginLockoutsCron } = await import('@/lib/cron/login-lockouts.service');
+    initializeLoginLockoutsCron();
   }
 }
@@ -6,6 +6,9 @@ import { Role } from '../types';
 import { ERROR_MESSAGES } from '../constants';
 import { logger } from '../utils/logger';
 import { DecodedIdToken } from 'firebase-admin/auth';
+import { ApiError } from '../utils/error-handler';
+import { assertTwoFactorSatisfied } from '../services/two-factor.service';
+import { trackSession } from '../services/session.service';
 
 export interface FirebaseUser {
   uid: string;
@@ -19,19 +22,37 @@ export interface AuthenticatedRequest extends NextRequest {
   firebaseToken?: DecodedIdToken;
 }
 
+export interface AuthenticateOptions {
+  // Let through a sign-in that still owes its second factor (2FA endpoints, /api/auth/me)
+  allowPendingTwoFactor?: boolean;
+}
+
+// Map verified token claims to the request user - custom claims fall back to defaults
+export function getTokenUser(decodedToken: DecodedIdToken): FirebaseUser {
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email || '',
+    role: (decodedToken.role as Role) || Role.CLIENT,
+    userId: (decodedToken.userId as string) || decodedToken.uid,
+  };
+}
+
 // Overload for routes with context (dynamic routes)
 export function authenticateToken<T>(
-  handler: (req: AuthenticatedRequest, context: T) => Promise<NextResponse>
+  handler: (req: AuthenticatedRequest, context: T) => Promise<NextResponse>,
+  options?: AuthenticateOptions
 ): (req: NextRequest, context: T) => Promise<NextResponse>;
 
 // Overload for routes without context (static routes)
 export function authenticateToken(
-  handler: (req: AuthenticatedRequest) => Promise<NextResponse>
+  handler: (req: AuthenticatedRequest) => Promise<NextResponse>,
+  options?: AuthenticateOptions
 ): (req: NextRequest) => Promise<NextResponse>;
 
 // Implementation
 export function authenticateToken<T = never>(
-  handler: (req: AuthenticatedRequest, context?: T) => Promise<NextResponse>
+  handler: (req: AuthenticatedRequest, context?: T) => Promise<NextResponse>,
+  options: AuthenticateOptions = {}
 ) {
   return async (req: NextRequest, context?: T): Promise<NextResponse> => {
     try {
@@ -64,20 +85,29 @@ export function authenticateToken<T = never>(
         );
       }
 
-      // Extract custom claims or use defaults
-      const role = (decodedToken.role as Role) || Role.CLIENT;
-      const userId = (decodedToken.userId as string) || decodedToken.uid;
-
       // Add user to request
       const authenticatedReq = req as AuthenticatedRequest;
-      authenticatedReq.user = {
-        uid: decodedToken.uid,
-        email: decodedToken.email || '',
-        role,
-        userId,
-      };
+      authenticatedReq.user = getTokenUser(decodedToken);
       authenticatedReq.firebaseToken = decodedToken;
 
+      try {
+        // Devices signed out from elsewhere are rejected; others refresh their last-seen time
+        await trackSession(authenticatedReq.user.userId, decodedToken.auth_time, req);
+
+        // Staff with two-factor authentication must have passed it for this sign-in
+        if (!options.allowPendingTwoFactor) {
+          await assertTwoFactorSatisfied(authenticatedReq.user, decodedToken.auth_time);
+        }
+      } catch (error) {
+        if (error instanceof ApiError) {
+          return NextResponse.json(
+            { success: false, error: error.message, code: error.code },
+            { status: error.statusCode }
+          );
+        }
+        throw error;
+      }
+
       // Call handler with or without context based on what was provided
       if (context !== undefined) {
         return handler(authenticatedReq, context);
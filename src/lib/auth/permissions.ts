@@ -0,0 +1,93 @@
+// Permission registry - every action that is gated by more than "signed in"
+// Roles are named permission bundles: the built-in CLIENT / AGENT / ADMIN bundles below, plus
+// custom roles (e.g. "Senior Agent", "Finance") that admins define on top of a staff base role
+// The base role still decides which records a user sees (own cases, handled cases, everything)
+// Shared by API routes (requirePermission) and the dashboard navigation - no server imports
+
+import type { Role } from '@/lib/types';
+
+// Accepts both the app enum and Prisma's string union
+export type RoleName = `${Role}`;
+
+export const PERMISSIONS = {
+  'case.view_own': 'Open and follow your own cases',
+  'case.view': 'Work on cases from the staff case list',
+  'case.update': 'Edit priority, notes, estimates and request documents',
+  'case.status.update': 'Move cases through the workflow',
+  'case.assign': 'Assign cases to agents',
+  'case.transfer': 'Transfer cases between agents',
+  'case.bulk': 'Run bulk operations on cases',
+  'case.export': 'Export case lists',
+  'case.delete': 'Delete cases',
+  'case.task.manage': 'Manage internal case tasks',
+  'document.approve': 'Approve and reject documents',
+  'document.rescan': 'Re-run virus scans on documents',
+  'appointment.manage': 'Schedule appointments and set availability',
+  'client.view': 'Browse client accounts',
+  'user.manage': 'Edit, verify and deactivate accounts',
+  'role.manage': 'Change user roles and define custom roles',
+  'security.manage': 'Set two-factor requirements and reset second factors',
+  'invite_code.manage': 'Generate staff invite codes',
+  'analytics.view': 'View performance analytics',
+  'audit.view': 'View the audit trail',
+  'audit.export': 'Export the audit trail',
+  'notification.broadcast': 'Send notifications to users',
+  'payment.manage': "View and act on other users' payments",
+  'payment.refund': "Refund other users' payments",
+  'workflow.configure': 'Configure SLAs, checklists, intake forms, assignment and task templates',
+  'destination.manage': 'Manage destinations',
+  'template.manage': 'Manage document templates',
+  'faq.manage': 'Manage FAQ content',
+  'legal.manage': 'Publish terms and privacy policies',
+  'system.maintenance': 'Run maintenance jobs',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && value in PERMISSIONS;
+}
+
+const AGENT_PERMISSIONS: Permission[] = [
+  'case.view',
+  'case.update',
+  'case.status.update',
+  'case.export',
+  'case.task.manage',
+  'document.approve',
+  'appointment.manage',
+  'client.view',
+  'analytics.view',
+  'notification.broadcast',
+];
+
+// Built-in bundles - used when the user has no custom role
+export const ROLE_PERMISSIONS: Record<RoleName, Permission[]> = {
+  CLIENT: ['case.view_own'],
+  AGENT: AGENT_PERMISSIONS,
+  // Everything staff can do - client-only screens are left out
+  ADMIN: ALL_PERMISSIONS.filter((permission) => permission !== 'case.view_own'),
+};
+
+// Custom roles extend a staff role - clients always get the CLIENT bundle
+export const CUSTOM_ROLE_BASE_ROLES: RoleName[] = ['AGENT', 'ADMIN'];
+
+/**
+ * Permissions of a user as returned by GET /api/auth/me, falling back to the built-in
+ * bundle of their role (e.g. cached user data from before the permissions were loaded)
+ */
+export function getEffectivePermissions(user: {
+  role: RoleName;
+  permissions?: Permission[] | null;
+}): Permission[] {
+  return user.permissions ?? ROLE_PERMISSIONS[user.role] ?? [];
+}
+
+export function userCan(
+  user: { role: RoleName; permissions?: Permission[] | null } | null | undefined,
+  permission: Permission
+): boolean {
+  return !!user && getEffectivePermissions(user).includes(permission);
+}
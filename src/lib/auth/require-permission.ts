@@ -0,0 +1,75 @@
+// Permission guard for API routes
+// Resolves the permissions of the signed-in user (custom role, else the built-in bundle of their
+// role) and rejects requests lacking the one a route needs
+
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { ROLE_PERMISSIONS, isPermission, type Permission, type RoleName } from './permissions';
+
+// Custom roles are looked up at most once a minute per user and process
+const CACHE_TTL_MS = 60 * 1000;
+
+// The signed-in user as known from their token
+export interface PermissionSubject {
+  userId: string;
+  role: RoleName;
+}
+
+const permissionCache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+/**
+ * Forget cached permissions - call after changing a user's custom role or editing a role
+ * Without a user id the whole cache is cleared
+ */
+export function clearPermissionCache(userId?: string): void {
+  if (userId) {
+    permissionCache.delete(userId);
+  } else {
+    permissionCache.clear();
+  }
+}
+
+export async function getUserPermissions(user: PermissionSubject): Promise<Permission[]> {
+  const cached = permissionCache.get(user.userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const record = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: { role: true, customRole: { select: { baseRole: true, permissions: true } } },
+  });
+
+  // A custom role only applies while it matches the role in the user's token
+  const customRole = record?.customRole;
+  const permissions =
+    customRole && customRole.baseRole === user.role
+      ? customRole.permissions.filter(isPermission)
+      : (ROLE_PERMISSIONS[user.role] ?? []);
+
+  permissionCache.set(user.userId, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+
+  return permissions;
+}
+
+export async function hasPermission(
+  user: PermissionSubject,
+  permission: Permission
+): Promise<boolean> {
+  const permissions = await getUserPermissions(user);
+  return permissions.includes(permission);
+}
+
+/**
+ * Throw 403 unless the user holds the permission
+ * Routes check `req.user` first (401), then call this in place of a role comparison
+ */
+export async function requirePermission(
+  user: PermissionSubject,
+  permission: Permission
+): Promise<void> {
+  if (!(await hasPermission(user, permission))) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+}
@@ -0,0 +1,32 @@
+// Step-up bridge between the API client and the dashboard
+// Sensitive endpoints answer 403 TWO_FACTOR_STEP_UP_REQUIRED when no code was entered in the last
+// few minutes; the axios interceptor asks the registered dialog for a code and retries once
+
+export const STEP_UP_ERROR_CODE = 'TWO_FACTOR_STEP_UP_REQUIRED';
+
+// Resolves true once a code was accepted, false when the user cancels
+type StepUpHandler = () => Promise<boolean>;
+
+let stepUpHandler: StepUpHandler | null = null;
+let pending: Promise<boolean> | null = null;
+
+export function setStepUpHandler(handler: StepUpHandler | null): void {
+  stepUpHandler = handler;
+}
+
+/**
+ * Ask the user for their code - concurrent requests share one prompt
+ */
+export function requestStepUp(): Promise<boolean> {
+  if (!stepUpHandler) {
+    return Promise.resolve(false);
+  }
+
+  if (!pending) {
+    pending = stepUpHandler().finally(() => {
+      pending = null;
+    });
+  }
+
+  return pending;
+}
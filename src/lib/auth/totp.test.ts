@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B - SHA-1 secret "12345678901234567890", codes truncated to 6 digits
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+];
+
+const STEP_MS = 30 * 1000;
+
+describe('verifyTotp', () => {
+  it.each(RFC_VECTORS)('accepts the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(verifyTotp(RFC_SECRET, code, null, seconds * 1000)).toBe(Math.floor(seconds / 30));
+  });
+
+  it('accepts one step of clock drift either way, but not two', () => {
+    const now = 1111111111 * 1000;
+    expect(verifyTotp(RFC_SECRET, '050471', null, now + STEP_MS)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '050471', null, now - STEP_MS)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '050471', null, now + 2 * STEP_MS)).toBeNull();
+  });
+
+  it('rejects steps at or before the last used one', () => {
+    const now = 1234567890 * 1000;
+    const step = verifyTotp(RFC_SECRET, '005924', null, now);
+
+    expect(step).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '005924', step, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '005924', step! - 1, now)).toBe(step);
+  });
+
+  it('ignores spaces and rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '287 082', null, 59 * 1000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, '28708', null, 59 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', null, 59 * 1000)).toBeNull();
+  });
+
+  it('accepts lowercase and padded secrets', () => {
+    expect(verifyTotp(`${RFC_SECRET.toLowerCase()}====`, '287082', null, 59 * 1000)).toBe(1);
+  });
+
+  it('throws on secrets that are not base32', () => {
+    expect(() => verifyTotp('NOT-BASE32!', '287082', null, 59 * 1000)).toThrow(
+      'Invalid base32 secret'
+    );
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('returns a fresh 160-bit base32 secret each time', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('buildOtpAuthUrl', () => {
+  it('builds an otpauth URI with the issuer in the label and parameters', () => {
+    const url = new URL(buildOtpAuthUrl(RFC_SECRET, 'agent@example.com', 'Travel Co'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/Travel Co:agent@example.com');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Travel Co',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
@@ -78,6 +78,7 @@ export const SERVICE_TYPE_LABELS = {
 };
 
 export const CASE_STATUS_LABELS = {
+  DRAFT: 'Draft',
   SUBMITTED: 'Submitted',
   UNDER_REVIEW: 'Under Review',
   DOCUMENTS_REQUIRED: 'Documents Required',
@@ -123,6 +124,11 @@ export const NOTIFICATION_TYPE_LABELS = {
   SYSTEM_ANNOUNCEMENT: 'System Announcement',
   NEW_EMAIL: 'New Email',
   APPOINTMENT_SCHEDULED: 'Appointment Scheduled',
+  DOCUMENT_EXPIRING: 'Document Expiring',
+  APPOINTMENT_UPDATED: 'Appointment Updated',
+  APPOINTMENT_REMINDER: 'Appointment Reminder',
+  SLA_ALERT: 'SLA Alert',
+  TASK_OVERDUE: 'Task Overdue',
 };
 
 export const ROLE_LABELS = {
@@ -137,6 +143,21 @@ export const DATA_RETENTION = {
   INACTIVE_ACCOUNTS: 2 * 365, // 2 years in days
 };
 
+export const DOCUMENT_EXPIRY = {
+  REMINDER_DAYS: 30, // Notify this many days before a document expires
+};
+
+export const APPOINTMENT_REMINDERS = {
+  DAY_BEFORE_HOURS: 24, // First reminder
+  HOUR_BEFORE_HOURS: 1, // Last-minute reminder
+};
+
+export const APPOINTMENT_BOOKING = {
+  SLOT_MINUTES: 60, // Length of every appointment, used for conflict detection
+  MIN_NOTICE_HOURS: 24, // Clients cannot book closer than this
+  HORIZON_DAYS: 30, // How far ahead clients can book
+};
+
 export const ERROR_MESSAGES = {
   UNAUTHORIZED: 'Unauthorized access',
   FORBIDDEN: 'You do not have permission to perform this action',
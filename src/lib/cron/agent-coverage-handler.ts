@@ -0,0 +1,68 @@
+// Agent Coverage Handler - Starts and ends agent absences
+// Separated from cron service for reusability and testing
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { endAbsenceCoverage, startAbsenceCoverage } from '@/lib/services/agent-absence.service';
+
+export interface AgentCoverageStats {
+  absencesStarted: number;
+  absencesEnded: number;
+  casesCovered: number;
+  casesReturned: number;
+  errors: number;
+}
+
+/**
+ * Hand cases back for absences that are over, then cover the ones that begin
+ * Ending first lets back-to-back absences of the same agent chain correctly
+ */
+export async function processAgentCoverage(): Promise<AgentCoverageStats> {
+  const stats: AgentCoverageStats = {
+    absencesStarted: 0,
+    absencesEnded: 0,
+    casesCovered: 0,
+    casesReturned: 0,
+    errors: 0,
+  };
+
+  const now = new Date();
+
+  logger.info('Starting agent coverage processing', { timestamp: now.toISOString() });
+
+  const ended = await prisma.agentAbsence.findMany({
+    where: { status: { in: ['SCHEDULED', 'ACTIVE'] }, endsAt: { lte: now } },
+    select: { id: true },
+    orderBy: { endsAt: 'asc' },
+  });
+
+  for (const absence of ended) {
+    try {
+      stats.casesReturned += await endAbsenceCoverage(absence.id, 'COMPLETED');
+      stats.absencesEnded++;
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to end agent absence', error, { absenceId: absence.id });
+    }
+  }
+
+  const starting = await prisma.agentAbsence.findMany({
+    where: { status: 'SCHEDULED', startsAt: { lte: now }, endsAt: { gt: now } },
+    select: { id: true },
+    orderBy: { startsAt: 'asc' },
+  });
+
+  for (const absence of starting) {
+    try {
+      stats.casesCovered += await startAbsenceCoverage(absence.id);
+      stats.absencesStarted++;
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to start agent absence', error, { absenceId: absence.id });
+    }
+  }
+
+  logger.info('Agent coverage processing completed', { ...stats });
+
+  return stats;
+}
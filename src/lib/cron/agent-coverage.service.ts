@@ -0,0 +1,16 @@
+// Custom Cron Service - Agent Coverage
+// Runs every 15 minutes by default (AGENT_COVERAGE_CRON_SCHEDULE)
+// Hands absent agents' cases to their delegate and back on return
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeAgentCoverageCron(): void {
+  registerCronJob(
+    'Agent coverage',
+    process.env.AGENT_COVERAGE_CRON_SCHEDULE || '*/15 * * * *',
+    async () => {
+      const { processAgentCoverage } = await import('@/lib/cron/agent-coverage-handler');
+      await processAgentCoverage();
+    }
+  );
+}
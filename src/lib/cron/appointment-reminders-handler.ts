@@ -0,0 +1,196 @@
+// Appointment Reminders Handler - Core appointment reminder logic
+// Separated from cron service for reusability and testing
+
+import { AppointmentStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { APPOINTMENT_REMINDERS, NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { formatDateTime } from '@/lib/utils/helpers';
+import { createNotification, flushNotifications } from '@/lib/services/notification.service';
+import { sendAppointmentReminderEmail } from '@/lib/notifications/email.service';
+import { sendAppointmentReminderNotification } from '@/lib/notifications/expo-push.service';
+import { claim, notifyThroughChannels } from '@/lib/cron/cron-notify';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const ACTIVE_STATUSES: AppointmentStatus[] = ['SCHEDULED', 'RESCHEDULED'];
+
+export interface AppointmentReminderStats {
+  appointmentsFound: number;
+  dayRemindersSent: number;
+  hourRemindersSent: number;
+  errors: number;
+}
+
+interface ReminderRecipient {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface ReminderAppointment {
+  id: string;
+  scheduledAt: Date;
+  location: string;
+  case: { id: string; referenceNumber: string };
+}
+
+async function notifyRecipient(
+  recipient: ReminderRecipient,
+  appointment: ReminderAppointment,
+  hoursBefore: number
+): Promise<void> {
+  const timeLabel = formatDateTime(appointment.scheduledAt);
+
+  await notifyThroughChannels(
+    recipient.id,
+    () =>
+      createNotification({
+        userId: recipient.id,
+        type: 'APPOINTMENT_REMINDER',
+        title: 'Appointment Reminder',
+        message: `Appointment for case ${appointment.case.referenceNumber} on ${timeLabel} at ${appointment.location}`,
+        caseId: appointment.case.id,
+        appointmentId: appointment.id,
+        actionUrl: NOTIFICATION_ACTION_URLS.APPOINTMENT_DETAILS(
+          appointment.case.id,
+          appointment.id
+        ),
+        priority: 'high',
+      }),
+    {
+      'appointment reminder email': () =>
+        sendAppointmentReminderEmail({
+          to: recipient.email,
+          recipientName: `${recipient.firstName} ${recipient.lastName}`.trim(),
+          caseReference: appointment.case.referenceNumber,
+          caseId: appointment.case.id,
+          appointmentId: appointment.id,
+          scheduledAt: appointment.scheduledAt,
+          location: appointment.location,
+          hoursBefore,
+        }),
+      'appointment reminder push notification': () =>
+        sendAppointmentReminderNotification(
+          recipient.id,
+          appointment.scheduledAt,
+          appointment.location,
+          appointment.id,
+          appointment.case.id
+        ),
+    }
+  );
+}
+
+/**
+ * Send the 24h and 1h reminders for upcoming appointments
+ * reminderSentAt records the last reminder: a stamp from before the 1h mark means only the
+ * 24h reminder went out, so the 1h reminder is still due. Rescheduling clears the stamp.
+ */
+export async function processAppointmentReminders(): Promise<AppointmentReminderStats> {
+  const stats: AppointmentReminderStats = {
+    appointmentsFound: 0,
+    dayRemindersSent: 0,
+    hourRemindersSent: 0,
+    errors: 0,
+  };
+
+  const now = new Date();
+  const dayWindowEnd = new Date(now.getTime() + APPOINTMENT_REMINDERS.DAY_BEFORE_HOURS * HOUR_MS);
+  const hourWindowEnd = new Date(now.getTime() + APPOINTMENT_REMINDERS.HOUR_BEFORE_HOURS * HOUR_MS);
+
+  logger.info('Starting appointment reminders', { timestamp: now.toISOString() });
+
+  const recipientSelect = { id: true, email: true, firstName: true, lastName: true };
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      status: { in: ACTIVE_STATUSES },
+      scheduledAt: { gt: now, lte: dayWindowEnd },
+      // Already-reminded appointments only matter once they enter the 1h window
+      OR: [{ reminderSentAt: null }, { scheduledAt: { lte: hourWindowEnd } }],
+    },
+    select: {
+      id: true,
+      scheduledAt: true,
+      location: true,
+      reminderSentAt: true,
+      case: { select: { id: true, referenceNumber: true } },
+      client: { select: recipientSelect },
+      assignedAgent: { select: recipientSelect },
+    },
+  });
+
+  stats.appointmentsFound = appointments.length;
+
+  if (appointments.length === 0) {
+    logger.info('No appointments due for a reminder');
+    return stats;
+  }
+
+  for (const appointment of appointments) {
+    try {
+      const hourMark = new Date(
+        appointment.scheduledAt.getTime() - APPOINTMENT_REMINDERS.HOUR_BEFORE_HOURS * HOUR_MS
+      );
+      const isHourReminder = now >= hourMark;
+
+      if (!isHourReminder && appointment.reminderSentAt) {
+        continue;
+      }
+      if (isHourReminder && appointment.reminderSentAt && appointment.reminderSentAt >= hourMark) {
+        continue;
+      }
+
+      const claimed = await claim(
+        prisma.appointment.updateMany({
+          where: {
+            id: appointment.id,
+            status: { in: ACTIVE_STATUSES },
+            scheduledAt: appointment.scheduledAt,
+            reminderSentAt: isHourReminder
+              ? appointment.reminderSentAt
+                ? { lt: hourMark }
+                : null
+              : null,
+          },
+          data: { reminderSentAt: now },
+        })
+      );
+
+      if (!claimed) {
+        continue;
+      }
+
+      const hoursBefore = isHourReminder
+        ? APPOINTMENT_REMINDERS.HOUR_BEFORE_HOURS
+        : APPOINTMENT_REMINDERS.DAY_BEFORE_HOURS;
+      const recipients = [appointment.client, appointment.assignedAgent].filter(
+        (recipient): recipient is ReminderRecipient => recipient !== null
+      );
+
+      for (const recipient of recipients) {
+        await notifyRecipient(recipient, appointment, hoursBefore);
+      }
+
+      if (isHourReminder) {
+        stats.hourRemindersSent++;
+      } else {
+        stats.dayRemindersSent++;
+      }
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to send appointment reminder', error, {
+        appointmentId: appointment.id,
+      });
+    }
+  }
+
+  // Make sure queued in-app notifications are written before the run ends
+  await flushNotifications();
+
+  logger.info('Appointment reminders completed', { ...stats });
+
+  return stats;
+}
@@ -0,0 +1,17 @@
+// Custom Cron Service - Appointment Reminders
+// Runs every 5 minutes by default (APPOINTMENT_REMINDERS_CRON_SCHEDULE)
+// Sends the 24h and 1h reminders for upcoming appointments
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeAppointmentRemindersCron(): void {
+  registerCronJob(
+    'Appointment reminders',
+    process.env.APPOINTMENT_REMINDERS_CRON_SCHEDULE || '*/5 * * * *',
+    async () => {
+      const { processAppointmentReminders } =
+        await import('@/lib/cron/appointment-reminders-handler');
+      await processAppointmentReminders();
+    }
+  );
+}
@@ -0,0 +1,45 @@
+// Case Drafts Handler - Deletes draft applications past their expiry
+// Separated from cron service for reusability and testing
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { deleteDraft } from '@/lib/services/case-submission.service';
+
+export interface CaseDraftsStats {
+  expired: number;
+  deleted: number;
+  errors: number;
+}
+
+export async function processExpiredCaseDrafts(): Promise<CaseDraftsStats> {
+  const stats: CaseDraftsStats = {
+    expired: 0,
+    deleted: 0,
+    errors: 0,
+  };
+
+  logger.info('Starting expired case draft cleanup', { timestamp: new Date().toISOString() });
+
+  const drafts = await prisma.case.findMany({
+    where: { status: 'DRAFT', draftExpiresAt: { lte: new Date() } },
+    select: { id: true, clientId: true, referenceNumber: true },
+  });
+  stats.expired = drafts.length;
+
+  for (const draft of drafts) {
+    try {
+      await deleteDraft(draft.id);
+      stats.deleted++;
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to delete expired case draft', error, {
+        caseId: draft.id,
+        clientId: draft.clientId,
+      });
+    }
+  }
+
+  logger.info('Expired case draft cleanup completed', { ...stats });
+
+  return stats;
+}
@@ -0,0 +1,12 @@
+// Custom Cron Service - Case Drafts
+// Runs every hour by default (CASE_DRAFTS_CRON_SCHEDULE)
+// Deletes draft applications (and their uploads) that passed their expiry date
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeCaseDraftsCron(): void {
+  registerCronJob('Case drafts', process.env.CASE_DRAFTS_CRON_SCHEDULE || '0 * * * *', async () => {
+    const { processExpiredCaseDrafts } = await import('@/lib/cron/case-drafts-handler');
+    await processExpiredCaseDrafts();
+  });
+}
@@ -0,0 +1,107 @@
+// Cron Jobs - Shared node-cron registration for the recurring jobs started in instrumentation.ts
+// Every job runs in CRON_TIMEZONE (UTC by default), never overlaps with itself and logs its
+// duration; a failing run is logged and the next one starts on schedule
+
+import * as cron from 'node-cron';
+import { logger } from '@/lib/utils/logger';
+
+interface CronJobState {
+  running: boolean;
+}
+
+const cronJobs = new Map<string, { task: cron.ScheduledTask; state: CronJobState }>();
+
+function describeError(error: unknown): { error: string; stack?: string } {
+  return error instanceof Error
+    ? { error: error.message, stack: error.stack }
+    : { error: String(error) };
+}
+
+async function runCronJob(
+  name: string,
+  state: CronJobState,
+  handler: () => Promise<unknown>
+): Promise<void> {
+  // Prevent concurrent executions
+  if (state.running) {
+    logger.warn(`${name} already running, skipping this execution`);
+    return;
+  }
+
+  state.running = true;
+  const startTime = Date.now();
+
+  try {
+    await handler();
+  } catch (error) {
+    logger.error(`Error executing ${name} cron job`, describeError(error));
+  } finally {
+    state.running = false;
+    logger.info(`${name} cron job completed`, {
+      duration: `${Date.now() - startTime}ms`,
+    });
+  }
+}
+
+/**
+ * Schedule a recurring job - server-side only, registering the same name twice is a no-op
+ * Handlers should import their module dynamically so heavy dependencies are not loaded while
+ * the server starts
+ */
+export function registerCronJob(
+  name: string,
+  schedule: string,
+  handler: () => Promise<unknown>
+): void {
+  // Only run on server-side
+  if (typeof window !== 'undefined') {
+    return;
+  }
+
+  if (cronJobs.has(name)) {
+    logger.warn(`${name} cron job already initialized`);
+    return;
+  }
+
+  const timezone = process.env.CRON_TIMEZONE || 'UTC';
+
+  try {
+    const state: CronJobState = { running: false };
+
+    const task = cron.schedule(
+      schedule,
+      () => {
+        logger.info(`${name} cron job triggered`, {
+          schedule,
+          timezone,
+          timestamp: new Date().toISOString(),
+        });
+        runCronJob(name, state, handler).catch((error: unknown) => {
+          logger.error(`Unhandled error in ${name} cron`, describeError(error));
+        });
+      },
+      { timezone }
+    );
+
+    cronJobs.set(name, { task, state });
+    logger.info(`${name} cron job initialized`, { schedule, timezone });
+  } catch (error) {
+    logger.error(`Failed to initialize ${name} cron job`, {
+      ...describeError(error),
+      schedule,
+      timezone,
+    });
+  }
+}
+
+/**
+ * Stop a registered job (useful for testing or graceful shutdown)
+ */
+export function stopCronJob(name: string): void {
+  const job = cronJobs.get(name);
+  if (job) {
+    job.task.stop();
+    cronJobs.delete(name);
+    logger.info(`${name} cron job stopped`);
+  }
+}
@@ -0,0 +1,33 @@
+// Shared building blocks for cron handlers that notify users
+
+import { logger } from '@/lib/utils/logger';
+
+/**
+ * Claim a piece of work with a conditional update before acting on it
+ * The update matches for exactly one run, so overlapping runs (or instances) never notify twice
+ */
+export async function claim(update: Promise<{ count: number }>): Promise<boolean> {
+  const result = await update;
+  return result.count > 0;
+}
+
+/**
+ * Notify one recipient through every channel
+ * The in-app notification is sent first; every other channel is independent, so a failing
+ * email must not block the push notification
+ */
+export async function notifyThroughChannels(
+  userId: string,
+  inApp: () => Promise<unknown>,
+  channels: Record<string, () => Promise<unknown>>
+): Promise<void> {
+  await inApp();
+
+  for (const [channel, send] of Object.entries(channels)) {
+    try {
+      await send();
+    } catch (error) {
+      logger.warn(`Failed to send ${channel}`, { error, userId });
+    }
+  }
+}
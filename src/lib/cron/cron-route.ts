@@ -0,0 +1,42 @@
+// Manual trigger endpoints for cron jobs
+// Each /api/cron/<job> route runs the same handler as its scheduled job, for testing or for
+// external schedulers; requests must carry "Authorization: Bearer $CRON_SECRET"
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/utils/logger';
+
+export function createCronRoute(options: {
+  run: () => Promise<unknown>;
+  successMessage: string;
+  errorMessage: string;
+}): (request: NextRequest) => Promise<NextResponse> {
+  return async (request: NextRequest): Promise<NextResponse> => {
+    // Verify authorization (security)
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      logger.error('Unauthorized cron request', { path: request.nextUrl.pathname });
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      const stats = await options.run();
+
+      return NextResponse.json({
+        success: true,
+        message: options.successMessage,
+        stats,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Fatal error: ${options.errorMessage}`, { error: message });
+      return NextResponse.json(
+        {
+          success: false,
+          error: options.errorMessage,
+          message,
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
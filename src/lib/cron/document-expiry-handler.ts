@@ -0,0 +1,166 @@
+// Document Expiry Handler - Core expiry reminder logic
+// Separated from cron service for reusability and testing
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { DOCUMENT_EXPIRY } from '@/lib/constants';
+import { createNotification, flushNotifications } from '@/lib/services/notification.service';
+import { sendDocumentExpiringEmail } from '@/lib/notifications/email.service';
+import { sendDocumentExpiringNotification } from '@/lib/notifications/expo-push.service';
+import { LATEST_VERSION_FILTER } from '@/lib/services/document-version.service';
+import { claim, notifyThroughChannels } from '@/lib/cron/cron-notify';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpiryReminderStats {
+  documentsFound: number;
+  remindersSent: number;
+  errors: number;
+}
+
+interface ReminderRecipient {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Number of days before expiry at which reminders are sent
+ * Configurable with DOCUMENT_EXPIRY_REMINDER_DAYS
+ */
+export function getExpiryReminderDays(): number {
+  const configured = parseInt(process.env.DOCUMENT_EXPIRY_REMINDER_DAYS || '', 10);
+  return Number.isNaN(configured) || configured <= 0 ? DOCUMENT_EXPIRY.REMINDER_DAYS : configured;
+}
+
+async function notifyRecipient(
+  recipient: ReminderRecipient,
+  document: { id: string; originalName: string; expiresAt: Date },
+  caseData: { id: string; referenceNumber: string }
+): Promise<void> {
+  const expiryDate = document.expiresAt.toDateString();
+
+  await notifyThroughChannels(
+    recipient.id,
+    () =>
+      createNotification({
+        userId: recipient.id,
+        type: 'DOCUMENT_EXPIRING',
+        title: 'Document Expiring Soon',
+        message: `${document.originalName} (case ${caseData.referenceNumber}) expires on ${expiryDate}`,
+        caseId: caseData.id,
+        actionUrl: `/dashboard/cases/${caseData.id}`,
+        priority: 'medium',
+      }),
+    {
+      'document expiry email': () =>
+        sendDocumentExpiringEmail(
+          recipient.email,
+          document.originalName,
+          document.expiresAt,
+          `${recipient.firstName} ${recipient.lastName}`.trim(),
+          caseData.referenceNumber
+        ),
+      'document expiry push notification': () =>
+        sendDocumentExpiringNotification(
+          recipient.id,
+          document.originalName,
+          document.expiresAt,
+          document.id,
+          caseData.id
+        ),
+    }
+  );
+}
+
+/**
+ * Send reminders for documents expiring within the reminder window
+ * Each document is reminded once; changing expiresAt re-arms the reminder
+ */
+export async function processDocumentExpiryReminders(): Promise<ExpiryReminderStats> {
+  const stats: ExpiryReminderStats = {
+    documentsFound: 0,
+    remindersSent: 0,
+    errors: 0,
+  };
+
+  const now = new Date();
+  const reminderDays = getExpiryReminderDays();
+  const windowEnd = new Date(now.getTime() + reminderDays * DAY_MS);
+
+  logger.info('Starting document expiry reminders', {
+    timestamp: now.toISOString(),
+    reminderDays,
+  });
+
+  const recipientSelect = { id: true, email: true, firstName: true, lastName: true };
+
+  const documents = await prisma.document.findMany({
+    where: {
+      ...LATEST_VERSION_FILTER,
+      expiresAt: { gt: now, lte: windowEnd },
+      expiryReminderSentAt: null,
+      status: { in: ['PENDING', 'APPROVED'] },
+      case: { status: { notIn: ['CLOSED', 'REJECTED'] } },
+    },
+    select: {
+      id: true,
+      originalName: true,
+      expiresAt: true,
+      case: {
+        select: {
+          id: true,
+          referenceNumber: true,
+          client: { select: recipientSelect },
+          assignedAgent: { select: recipientSelect },
+        },
+      },
+    },
+  });
+
+  stats.documentsFound = documents.length;
+
+  if (documents.length === 0) {
+    logger.info('No documents expiring within the reminder window');
+    return stats;
+  }
+
+  for (const document of documents) {
+    try {
+      const claimed = await claim(
+        prisma.document.updateMany({
+          where: { id: document.id, expiryReminderSentAt: null },
+          data: { expiryReminderSentAt: now },
+        })
+      );
+
+      if (!claimed) {
+        continue;
+      }
+
+      const expiring = { ...document, expiresAt: document.expiresAt! };
+      const recipients = [document.case.client, document.case.assignedAgent].filter(
+        (recipient): recipient is ReminderRecipient => recipient !== null
+      );
+
+      for (const recipient of recipients) {
+        await notifyRecipient(recipient, expiring, document.case);
+      }
+
+      stats.remindersSent++;
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to send document expiry reminder', error, {
+        documentId: document.id,
+      });
+    }
+  }
+
+  // Make sure queued in-app notifications are written before the run ends
+  await flushNotifications();
+
+  logger.info('Document expiry reminders completed', { ...stats });
+
+  return stats;
+}
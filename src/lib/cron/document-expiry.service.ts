@@ -0,0 +1,16 @@
+// Custom Cron Service - Document Expiry Reminders
+// Runs daily at 8:00 AM UTC by default (DOCUMENT_EXPIRY_CRON_SCHEDULE)
+// Notifies clients and assigned agents before passports, statements, etc. expire
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeDocumentExpiryCron(): void {
+  registerCronJob(
+    'Document expiry reminders',
+    process.env.DOCUMENT_EXPIRY_CRON_SCHEDULE || '0 8 * * *',
+    async () => {
+      const { processDocumentExpiryReminders } = await import('@/lib/cron/document-expiry-handler');
+      await processDocumentExpiryReminders();
+    }
+  );
+}
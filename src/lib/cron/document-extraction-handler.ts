@@ -0,0 +1,71 @@
+// Document Extraction Handler - Processes queued passport / ID card extractions
+// Separated from cron service for reusability and testing
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import {
+  resetStaleExtractions,
+  runDocumentExtraction,
+} from '@/lib/services/document-extraction.service';
+
+export interface DocumentExtractionStats {
+  staleReset: number;
+  processed: number;
+  completed: number;
+  failed: number;
+  errors: number;
+}
+
+// OCR is CPU-heavy - cap the work done per run (DOCUMENT_EXTRACTION_BATCH_SIZE)
+const DEFAULT_BATCH_SIZE = 20;
+
+export async function processDocumentExtractions(): Promise<DocumentExtractionStats> {
+  const stats: DocumentExtractionStats = {
+    staleReset: 0,
+    processed: 0,
+    completed: 0,
+    failed: 0,
+    errors: 0,
+  };
+
+  logger.info('Starting document extraction processing', { timestamp: new Date().toISOString() });
+
+  stats.staleReset = await resetStaleExtractions();
+
+  const batchSize = Number(process.env.DOCUMENT_EXTRACTION_BATCH_SIZE) || DEFAULT_BATCH_SIZE;
+  const pending = await prisma.documentExtraction.findMany({
+    where: { status: 'PENDING' },
+    select: { documentId: true },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+  });
+
+  for (const { documentId } of pending) {
+    try {
+      const extraction = await runDocumentExtraction(documentId);
+      if (!extraction) {
+        continue;
+      }
+
+      stats.processed++;
+      if (extraction.status === 'COMPLETED') {
+        stats.completed++;
+      } else {
+        stats.failed++;
+      }
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to process document extraction', error, { documentId });
+      await prisma.documentExtraction
+        .update({
+          where: { documentId },
+          data: { status: 'FAILED', error: 'Unexpected extraction error', processedAt: new Date() },
+        })
+        .catch(() => undefined);
+    }
+  }
+
+  logger.info('Document extraction processing completed', { ...stats });
+
+  return stats;
+}
@@ -0,0 +1,16 @@
+// Custom Cron Service - Document Extraction
+// Runs every 5 minutes by default (DOCUMENT_EXTRACTION_CRON_SCHEDULE)
+// Runs OCR + MRZ parsing on queued passport and ID card uploads
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeDocumentExtractionCron(): void {
+  registerCronJob(
+    'Document extraction',
+    process.env.DOCUMENT_EXTRACTION_CRON_SCHEDULE || '*/5 * * * *',
+    async () => {
+      const { processDocumentExtractions } = await import('@/lib/cron/document-extraction-handler');
+      await processDocumentExtractions();
+    }
+  );
+}
@@ -0,0 +1,23 @@
+// Login Lockouts Handler - Clears lockouts that have expired
+// Separated from cron service for reusability and testing
+
+import { logger } from '@/lib/utils/logger';
+import { releaseExpiredLockouts } from '@/lib/services/login-security.service';
+
+export interface LoginLockoutsStats {
+  released: number;
+}
+
+/**
+ * Clear expired lockouts so the admin list and failure counters stay current without another
+ * login attempt
+ */
+export async function processLoginLockouts(): Promise<LoginLockoutsStats> {
+  const stats: LoginLockoutsStats = {
+    released: await releaseExpiredLockouts(),
+  };
+
+  logger.info('Expired login lockouts released', { ...stats });
+
+  return stats;
+}
@@ -0,0 +1,16 @@
+// Custom Cron Service - Login Lockouts
+// Runs every 5 minutes by default (LOGIN_LOCKOUTS_CRON_SCHEDULE)
+// Clears failed-login lockouts that have expired
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeLoginLockoutsCron(): void {
+  registerCronJob(
+    'Login lockouts',
+    process.env.LOGIN_LOCKOUTS_CRON_SCHEDULE || '*/5 * * * *',
+    async () => {
+      const { processLoginLockouts } = await import('@/lib/cron/login-lockouts-handler');
+      await processLoginLockouts();
+    }
+  );
+}
@@ -0,0 +1,222 @@
+// SLA Evaluator Handler - Core SLA breach detection logic
+// Separated from cron service for reusability and testing
+
+import type { SlaState } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { createNotification, flushNotifications } from '@/lib/services/notification.service';
+import { sendSlaAlertEmail } from '@/lib/notifications/email.service';
+import {
+  CLEARED_SLA_FIELDS,
+  SLA_EXEMPT_STATUSES,
+  evaluateSla,
+  findSlaPolicy,
+  isSlaEscalation,
+} from '@/lib/services/sla-policy.service';
+import { claim, notifyThroughChannels } from '@/lib/cron/cron-notify';
+
+export interface SlaEvaluationStats {
+  casesEvaluated: number;
+  atRisk: number;
+  breached: number;
+  alertsSent: number;
+  cleared: number;
+  errors: number;
+}
+
+interface AlertRecipient {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface AlertCase {
+  id: string;
+  referenceNumber: string;
+  status: string;
+}
+
+const recipientSelect = { id: true, email: true, firstName: true, lastName: true };
+
+async function notifyRecipient(
+  recipient: AlertRecipient,
+  caseData: AlertCase,
+  state: 'AT_RISK' | 'BREACHED',
+  dueAt: Date,
+  escalated: boolean
+): Promise<void> {
+  const statusLabel = caseData.status.replace(/_/g, ' ').toLowerCase();
+  const breached = state === 'BREACHED';
+
+  await notifyThroughChannels(
+    recipient.id,
+    () =>
+      createNotification({
+        userId: recipient.id,
+        type: 'SLA_ALERT',
+        title: breached ? 'SLA Breached' : 'SLA At Risk',
+        message: breached
+          ? `Case ${caseData.referenceNumber} exceeded its ${statusLabel} SLA (due ${dueAt.toUTCString()})`
+          : `Case ${caseData.referenceNumber} is close to its ${statusLabel} SLA (due ${dueAt.toUTCString()})`,
+        caseId: caseData.id,
+        actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(caseData.id),
+        priority: breached ? 'high' : 'medium',
+      }),
+    {
+      'SLA alert email': () =>
+        sendSlaAlertEmail({
+          to: recipient.email,
+          recipientName: `${recipient.firstName} ${recipient.lastName}`.trim(),
+          caseId: caseData.id,
+          caseReference: caseData.referenceNumber,
+          status: statusLabel,
+          state,
+          dueAt,
+          escalated,
+        }),
+    }
+  );
+}
+
+/**
+ * Re-evaluate the SLA state of every open case
+ * Alerts fire once per status when a case becomes at risk and again when it breaches;
+ * breaches (and at-risk unassigned cases) are escalated to every active admin
+ */
+export async function processSlaEvaluation(): Promise<SlaEvaluationStats> {
+  const stats: SlaEvaluationStats = {
+    casesEvaluated: 0,
+    atRisk: 0,
+    breached: 0,
+    alertsSent: 0,
+    cleared: 0,
+    errors: 0,
+  };
+
+  const now = new Date();
+
+  logger.info('Starting SLA evaluation', { timestamp: now.toISOString() });
+
+  // Cases that reached a final status no longer carry an SLA
+  const closed = await prisma.case.updateMany({
+    where: { status: { in: SLA_EXEMPT_STATUSES }, slaState: { not: null } },
+    data: CLEARED_SLA_FIELDS,
+  });
+  stats.cleared += closed.count;
+
+  const policies = await prisma.slaPolicy.findMany({ where: { isActive: true } });
+
+  const cases = await prisma.case.findMany({
+    where: { status: { notIn: SLA_EXEMPT_STATUSES } },
+    select: {
+      id: true,
+      referenceNumber: true,
+      status: true,
+      priority: true,
+      submissionDate: true,
+      slaState: true,
+      slaDueAt: true,
+      slaStatus: true,
+      assignedAgent: { select: recipientSelect },
+      statusHistory: {
+        orderBy: { timestamp: 'desc' },
+        take: 1,
+        select: { status: true, timestamp: true },
+      },
+    },
+  });
+
+  stats.casesEvaluated = cases.length;
+
+  let admins: AlertRecipient[] | null = null;
+  const getAdmins = async () => {
+    admins ??= await prisma.user.findMany({
+      where: { role: 'ADMIN', isActive: true },
+      select: recipientSelect,
+    });
+    return admins;
+  };
+
+  for (const caseRecord of cases) {
+    try {
+      const policy = findSlaPolicy(policies, caseRecord.status, caseRecord.priority);
+
+      if (!policy) {
+        if (caseRecord.slaState !== null) {
+          await prisma.case.update({ where: { id: caseRecord.id }, data: CLEARED_SLA_FIELDS });
+          stats.cleared++;
+        }
+        continue;
+      }
+
+      // Time in status starts at the latest matching history entry, else at submission
+      const lastChange = caseRecord.statusHistory[0];
+      const enteredAt =
+        lastChange && lastChange.status === caseRecord.status
+          ? lastChange.timestamp
+          : caseRecord.submissionDate;
+
+      const { state, dueAt } = evaluateSla(policy, enteredAt, now);
+      const previous: SlaState | null =
+        caseRecord.slaStatus === caseRecord.status ? caseRecord.slaState : null;
+
+      if (state === 'AT_RISK') stats.atRisk++;
+      if (state === 'BREACHED') stats.breached++;
+
+      if (
+        previous === state &&
+        caseRecord.slaStatus === caseRecord.status &&
+        caseRecord.slaDueAt?.getTime() === dueAt.getTime()
+      ) {
+        continue;
+      }
+
+      // Guard on the values we read
+      const claimed = await claim(
+        prisma.case.updateMany({
+          where: {
+            id: caseRecord.id,
+            status: caseRecord.status,
+            slaState: caseRecord.slaState,
+            slaStatus: caseRecord.slaStatus,
+          },
+          data: { slaState: state, slaDueAt: dueAt, slaStatus: caseRecord.status },
+        })
+      );
+
+      if (!claimed || state === 'ON_TRACK' || !isSlaEscalation(previous, state)) {
+        continue;
+      }
+
+      const escalate = state === 'BREACHED' || !caseRecord.assignedAgent;
+      const recipients = new Map<string, AlertRecipient>();
+
+      if (caseRecord.assignedAgent) {
+        recipients.set(caseRecord.assignedAgent.id, caseRecord.assignedAgent);
+      }
+      if (escalate) {
+        for (const admin of await getAdmins()) {
+          recipients.set(admin.id, admin);
+        }
+      }
+
+      for (const recipient of recipients.values()) {
+        await notifyRecipient(recipient, caseRecord, state, dueAt, escalate);
+      }
+
+      stats.alertsSent++;
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to evaluate case SLA', error, { caseId: caseRecord.id });
+    }
+  }
+
+  // Make sure queued in-app notifications are written before the run ends
+  await flushNotifications();
+
+  logger.info('SLA evaluation completed', { ...stats });
+
+  return stats;
+}
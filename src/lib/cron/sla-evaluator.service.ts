@@ -0,0 +1,16 @@
+// Custom Cron Service - SLA Evaluator
+// Runs every 15 minutes by default (SLA_EVALUATOR_CRON_SCHEDULE)
+// Flags at-risk and breached cases and escalates breaches to admins
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeSlaEvaluatorCron(): void {
+  registerCronJob(
+    'SLA evaluator',
+    process.env.SLA_EVALUATOR_CRON_SCHEDULE || '*/15 * * * *',
+    async () => {
+      const { processSlaEvaluation } = await import('@/lib/cron/sla-evaluator-handler');
+      await processSlaEvaluation();
+    }
+  );
+}
@@ -0,0 +1,103 @@
+// Task Reminders Handler - Core overdue case task notification logic
+// Separated from cron service for reusability and testing
+
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { createNotification, flushNotifications } from '@/lib/services/notification.service';
+import { CLOSED_CASE_STATUSES } from '@/lib/services/case-task.service';
+import { claim } from '@/lib/cron/cron-notify';
+
+export interface TaskRemindersStats {
+  tasksFound: number;
+  remindersSent: number;
+  unassigned: number;
+  errors: number;
+}
+
+/**
+ * Notify whoever has to do each overdue task, once per due date
+ * Tasks without an assignee go to the agent handling the case; tasks on a case nobody
+ * handles yet are left for a later run
+ */
+export async function processTaskReminders(): Promise<TaskRemindersStats> {
+  const stats: TaskRemindersStats = {
+    tasksFound: 0,
+    remindersSent: 0,
+    unassigned: 0,
+    errors: 0,
+  };
+
+  const now = new Date();
+
+  logger.info('Starting overdue task reminders', { timestamp: now.toISOString() });
+
+  const tasks = await prisma.caseTask.findMany({
+    where: {
+      isDone: false,
+      dueAt: { lt: now },
+      overdueNotifiedAt: null,
+      case: { status: { notIn: CLOSED_CASE_STATUSES } },
+    },
+    select: {
+      id: true,
+      title: true,
+      dueAt: true,
+      assigneeId: true,
+      case: {
+        select: {
+          id: true,
+          referenceNumber: true,
+          assignedAgentId: true,
+          coveringAgentId: true,
+        },
+      },
+    },
+  });
+
+  stats.tasksFound = tasks.length;
+
+  for (const task of tasks) {
+    try {
+      const recipientId = task.assigneeId ?? task.case.coveringAgentId ?? task.case.assignedAgentId;
+
+      if (!recipientId) {
+        stats.unassigned++;
+        continue;
+      }
+
+      const claimed = await claim(
+        prisma.caseTask.updateMany({
+          where: { id: task.id, overdueNotifiedAt: null },
+          data: { overdueNotifiedAt: now },
+        })
+      );
+
+      if (!claimed) {
+        continue;
+      }
+
+      await createNotification({
+        userId: recipientId,
+        type: 'TASK_OVERDUE',
+        title: 'Task Overdue',
+        message: `"${task.title}" on case ${task.case.referenceNumber} was due ${task.dueAt!.toUTCString()}`,
+        caseId: task.case.id,
+        actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(task.case.id),
+        priority: 'medium',
+      });
+
+      stats.remindersSent++;
+    } catch (error) {
+      stats.errors++;
+      logger.error('Failed to send overdue task reminder', error, { taskId: task.id });
+    }
+  }
+
+  // Make sure queued in-app notifications are written before the run ends
+  await flushNotifications();
+
+  logger.info('Overdue task reminders completed', { ...stats });
+
+  return stats;
+}
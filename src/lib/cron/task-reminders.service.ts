@@ -0,0 +1,16 @@
+// Custom Cron Service - Task Reminders
+// Runs every 30 minutes by default (TASK_REMINDERS_CRON_SCHEDULE)
+// Notifies agents about case tasks that went past their due date
+
+import { registerCronJob } from '@/lib/cron/cron-job';
+
+export function initializeTaskRemindersCron(): void {
+  registerCronJob(
+    'Task reminders',
+    process.env.TASK_REMINDERS_CRON_SCHEDULE || '*/30 * * * *',
+    async () => {
+      const { processTaskReminders } = await import('@/lib/cron/task-reminders-handler');
+      await processTaskReminders();
+    }
+  );
+}
@@ -59,7 +59,10 @@ function isAllowedOrigin(origin: string | null): boolean {
 export const corsHeaders = (origin: string | null = null) => {
   const headers: Record<string, string> = {
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, Accept, Origin',
+    'Access-Control-Allow-Headers':
+      'Content-Type, Authorization, X-Requested-With, X-Client-Platform, X-Device-Id, Accept, Origin',
+    'Access-Control-Expose-Headers':
+      'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After',
     'Access-Control-Max-Age': '86400', // 24 hours
     'Access-Control-Allow-Credentials': 'true',
   };
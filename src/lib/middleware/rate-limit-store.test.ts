@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryRateLimitStore, RedisRateLimitStore } from './rate-limit-store';
+
+type RedisClient = ConstructorParameters<typeof RedisRateLimitStore>[0];
+
+const WINDOW_MS = 60 * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('records requests until the window is full', async () => {
+    const store = new MemoryRateLimitStore();
+    const start = Date.now();
+
+    const first = await store.hit('key', WINDOW_MS, 2);
+    vi.advanceTimersByTime(1000);
+    const second = await store.hit('key', WINDOW_MS, 2);
+
+    expect(first).toMatchObject({ count: 1, resetTime: start + WINDOW_MS });
+    expect(first.hitId).toEqual(expect.any(String));
+    expect(second).toMatchObject({ count: 2, resetTime: start + WINDOW_MS });
+    expect(second.hitId).not.toBe(first.hitId);
+  });
+
+  it('rejects requests past the limit without recording them', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit('key', WINDOW_MS, 1);
+
+    const rejected = await store.hit('key', WINDOW_MS, 1);
+    const again = await store.hit('key', WINDOW_MS, 1);
+
+    expect(rejected).toMatchObject({ count: 2, hitId: null });
+    expect(again).toMatchObject({ count: 2, hitId: null });
+  });
+
+  it('slides the window so old requests stop counting', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit('key', WINDOW_MS, 2);
+    vi.advanceTimersByTime(30 * 1000);
+    await store.hit('key', WINDOW_MS, 2);
+
+    vi.advanceTimersByTime(30 * 1000 + 1);
+    const next = await store.hit('key', WINDOW_MS, 2);
+
+    expect(next.hitId).not.toBeNull();
+    expect(next.count).toBe(2);
+  });
+
+  it('frees a slot when a recorded request is undone', async () => {
+    const store = new MemoryRateLimitStore();
+    const { hitId } = await store.hit('key', WINDOW_MS, 1);
+
+    await store.undo('key', hitId!);
+
+    await expect(store.hit('key', WINDOW_MS, 1)).resolves.toMatchObject({ count: 1 });
+  });
+
+  it('keeps keys independent', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit('a', WINDOW_MS, 1);
+
+    await expect(store.hit('b', WINDOW_MS, 1)).resolves.toMatchObject({ count: 1 });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('maps the script result to a hit', async () => {
+    const now = Date.now();
+    const redis = {
+      rateLimitHit: vi.fn().mockResolvedValue([3, now - 5000, 1]),
+      zrem: vi.fn().mockResolvedValue(1),
+    };
+    const store = new RedisRateLimitStore(redis as unknown as RedisClient);
+
+    const hit = await store.hit('key', WINDOW_MS, 5);
+
+    expect(redis.rateLimitHit).toHaveBeenCalledWith('key', now, WINDOW_MS, 5, hit.hitId);
+    expect(hit).toMatchObject({ count: 3, resetTime: now - 5000 + WINDOW_MS });
+    expect(hit.hitId).toMatch(new RegExp(`^${now}:`));
+
+    await store.undo('key', hit.hitId!);
+    expect(redis.zrem).toHaveBeenCalledWith('key', hit.hitId);
+  });
+
+  it('reports rejected requests with no hit id', async () => {
+    const redis = { rateLimitHit: vi.fn().mockResolvedValue([6, Date.now(), 0]) };
+    const store = new RedisRateLimitStore(redis as unknown as RedisClient);
+
+    await expect(store.hit('key', WINDOW_MS, 5)).resolves.toMatchObject({ count: 6, hitId: null });
+  });
+
+  it('falls back to in-memory limits while Redis is unreachable', async () => {
+    const redis = {
+      rateLimitHit: vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')),
+      zrem: vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')),
+    };
+    const store = new RedisRateLimitStore(redis as unknown as RedisClient);
+
+    const first = await store.hit('key', WINDOW_MS, 1);
+    const second = await store.hit('key', WINDOW_MS, 1);
+    await store.undo('key', first.hitId!);
+    const third = await store.hit('key', WINDOW_MS, 1);
+
+    expect(first.hitId).not.toBeNull();
+    expect(second.hitId).toBeNull();
+    expect(third.hitId).not.toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Rate Limit Stores
+ * Sliding-window request logs shared by every instance through Redis (or Valkey) when
+ * RATE_LIMIT_REDIS_URL / REDIS_URL is set, or kept per process otherwise (development, tests)
+ */
+
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+
+export interface RateLimitHit {
+  count: number; // Requests in the window, including this one
+  resetTime: number; // When the oldest request leaves the window (ms timestamp)
+  hitId: string | null; // Id of the recorded request - null when it was rejected and not recorded
+}
+
+export interface RateLimitStore {
+  /**
+   * Record a request unless the window is already full
+   */
+  hit(key: string, windowMs: number, limit: number): Promise<RateLimitHit>;
+
+  /**
+   * Forget a recorded request (skipSuccessfulRequests / skipFailedRequests)
+   */
+  undo(key: string, hitId: string): Promise<void>;
+}
+
+/**
+ * In-memory store - limits only hold within one process and reset on every deploy
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private store = new Map<string, { id: string; at: number }[]>();
+
+  async hit(key: string, windowMs: number, limit: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const hits = (this.store.get(key) ?? []).filter((entry) => entry.at > now - windowMs);
+
+    let hitId: string | null = null;
+    if (hits.length < limit) {
+      hitId = randomUUID();
+      hits.push({ id: hitId, at: now });
+    }
+
+    this.store.set(key, hits);
+    this.cleanup(now, windowMs);
+
+    return {
+      count: hitId ? hits.length : hits.length + 1,
+      resetTime: (hits[0]?.at ?? now) + windowMs,
+      hitId,
+    };
+  }
+
+  async undo(key: string, hitId: string): Promise<void> {
+    const hits = this.store.get(key);
+    if (hits) {
+      this.store.set(
+        key,
+        hits.filter((entry) => entry.id !== hitId)
+      );
+    }
+  }
+
+  private cleanup(now: number, windowMs: number): void {
+    // Remove idle keys (10% chance per request)
+    if (Math.random() > 0.9) {
+      for (const [key, hits] of this.store.entries()) {
+        if (!hits.length || hits[hits.length - 1].at <= now - windowMs) {
+          this.store.delete(key);
+        }
+      }
+    }
+  }
+}
+
+// Trims the log to the window, then records the request only while there is room, so rejected
+// requests neither extend the block nor grow the key. Returns [count, oldest timestamp, recorded]
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local recorded = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  recorded = 1
+else
+  count = count + 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { count, tonumber(oldest[2] or now), recorded }
+`;
+
+type RateLimitRedis = Redis & {
+  rateLimitHit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number,
+    member: string
+  ): Promise<[number, number, number]>;
+};
+
+// Unreachable Redis is logged at most this often while requests fall back to memory
+const FALLBACK_LOG_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Redis / Valkey store - atomic sliding windows shared across instances
+ * Fails open to a per-process store while Redis is unreachable, so an outage never blocks the API
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private fallback = new MemoryRateLimitStore();
+  private lastFallbackLog = 0;
+
+  constructor(private redis: RateLimitRedis) {}
+
+  async hit(key: string, windowMs: number, limit: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const member = `${now}:${randomUUID()}`;
+
+    try {
+      const [count, oldest, recorded] = await this.redis.rateLimitHit(
+        key,
+        now,
+        windowMs,
+        limit,
+        member
+      );
+      return { count, resetTime: oldest + windowMs, hitId: recorded ? member : null };
+    } catch (error) {
+      this.logFallback(error);
+      return this.fallback.hit(key, windowMs, limit);
+    }
+  }
+
+  async undo(key: string, hitId: string): Promise<void> {
+    try {
+      await this.redis.zrem(key, hitId);
+    } catch (error) {
+      this.logFallback(error);
+      await this.fallback.undo(key, hitId);
+    }
+  }
+
+  private logFallback(error: unknown): void {
+    const now = Date.now();
+    if (now - this.lastFallbackLog > FALLBACK_LOG_INTERVAL_MS) {
+      this.lastFallbackLog = now;
+      logger.warn('Rate limit store unavailable, using in-memory limits', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+function createRedisClient(url: string): RateLimitRedis {
+  const redis = new Redis(url, {
+    keyPrefix: 'ratelimit:',
+    // Fail fast - a slow limiter must not slow down every request
+    connectTimeout: 2000,
+    commandTimeout: 500,
+    maxRetriesPerRequest: 1,
+  });
+
+  redis.defineCommand('rateLimitHit', { numberOfKeys: 1, lua: SLIDING_WINDOW_SCRIPT });
+  redis.on('error', () => {
+    // Reported by RedisRateLimitStore when a command fails - avoid an unhandled error event
+  });
+
+  return redis as RateLimitRedis;
+}
+
+// Kept on globalThis so hot reloads in development reuse the connection
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore: RateLimitStore | undefined;
+};
+
+/**
+ * Store used by the rate limiter - Redis when configured, in-memory otherwise
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.rateLimitStore) {
+    const url = process.env.RATE_LIMIT_REDIS_URL || process.env.REDIS_URL;
+
+    globalForRateLimit.rateLimitStore = url
+      ? new RedisRateLimitStore(createRedisClient(url))
+      : new MemoryRateLimitStore();
+  }
+
+  return globalForRateLimit.rateLimitStore;
+}
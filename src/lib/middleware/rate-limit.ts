@@ -4,7 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { ApiError, HttpStatus, ErrorMessages } from '../utils/error-handler';
+import { z } from 'zod';
+import { HttpStatus, ErrorMessages } from '../utils/error-handler';
+import { logger } from '../utils/logger';
+import { getRateLimitStore } from './rate-limit-store';
 
 /**
  * Rate Limit Configuration
@@ -17,57 +20,6 @@ interface RateLimitConfig {
   skipFailedRequests?: boolean; // Don't count failed requests
 }
 
-/**
- * In-memory store for rate limiting
- * In production, use Redis or similar for distributed systems
- */
-class RateLimitStore {
-  private store: Map<string, { count: number; resetTime: number }>;
-
-  constructor() {
-    this.store = new Map();
-  }
-
-  increment(key: string, windowMs: number): { count: number; resetTime: number } {
-    const now = Date.now();
-    const existing = this.store.get(key);
-
-    if (existing && existing.resetTime > now) {
-      // Within the current window
-      existing.count++;
-      return existing;
-    }
-
-    // New window
-    const resetTime = now + windowMs;
-    const entry = { count: 1, resetTime };
-    this.store.set(key, entry);
-
-    // Clean up old entries
-    this.cleanup(now);
-
-    return entry;
-  }
-
-  reset(key: string): void {
-    this.store.delete(key);
-  }
-
-  private cleanup(now: number): void {
-    // Remove expired entries (runs periodically)
-    if (Math.random() > 0.9) {
-      // 10% chance to cleanup
-      for (const [key, value] of this.store.entries()) {
-        if (value.resetTime <= now) {
-          this.store.delete(key);
-        }
-      }
-    }
-  }
-}
-
-const rateLimitStore = new RateLimitStore();
-
 /**
  * Get client identifier (IP address or user ID)
  */
@@ -122,51 +74,114 @@ export const RateLimitPresets = {
   },
 } as const;
 
+/**
+ * Per-route overrides from RATE_LIMIT_OVERRIDES, so limits can be tuned without a deploy, e.g.
+ * {"/api/auth/login": {"maxRequests": 20}, "/api/cases/*": {"windowMs": 60000, "maxRequests": 200}}
+ * A trailing "*" matches every path under the prefix; the longest matching pattern wins
+ */
+const rateLimitOverridesSchema = z.record(
+  z.string(),
+  z
+    .object({
+      windowMs: z.number().int().positive().optional(),
+      maxRequests: z.number().int().positive().optional(),
+      message: z.string().optional(),
+    })
+    .strict()
+);
+
+type RateLimitOverrides = z.infer<typeof rateLimitOverridesSchema>;
+
+let rateLimitOverrides: RateLimitOverrides | null = null;
+
+function getRateLimitOverrides(): RateLimitOverrides {
+  if (rateLimitOverrides) return rateLimitOverrides;
+
+  rateLimitOverrides = {};
+  const raw = process.env.RATE_LIMIT_OVERRIDES;
+
+  if (raw) {
+    try {
+      const parsed = rateLimitOverridesSchema.safeParse(JSON.parse(raw));
+      if (parsed.success) {
+        rateLimitOverrides = parsed.data;
+      } else {
+        logger.warn('Ignoring invalid RATE_LIMIT_OVERRIDES', {
+          error: parsed.error.issues.map((issue) => issue.message).join(', '),
+        });
+      }
+    } catch {
+      logger.warn('Ignoring RATE_LIMIT_OVERRIDES - not valid JSON');
+    }
+  }
+
+  return rateLimitOverrides;
+}
+
+function resolveRateLimitConfig(pathname: string, config: RateLimitConfig): RateLimitConfig {
+  let match: { length: number; override: RateLimitOverrides[string] } | null = null;
+
+  for (const [pattern, override] of Object.entries(getRateLimitOverrides())) {
+    const matches = pattern.endsWith('*')
+      ? pathname.startsWith(pattern.slice(0, -1))
+      : pathname === pattern;
+
+    if (matches && (!match || pattern.length > match.length)) {
+      match = { length: pattern.length, override };
+    }
+  }
+
+  return match ? { ...config, ...match.override } : config;
+}
+
+/**
+ * Rate limit headers - the standard RateLimit-* fields (reset in seconds) plus the legacy
+ * X-RateLimit-* ones older app builds read
+ */
+function rateLimitHeaders(
+  maxRequests: number,
+  remaining: number,
+  resetTime: number,
+  windowMs: number
+): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((resetTime - Date.now()) / 1000));
+
+  return {
+    'RateLimit-Limit': maxRequests.toString(),
+    'RateLimit-Remaining': remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${maxRequests};w=${Math.ceil(windowMs / 1000)}`,
+    'X-RateLimit-Limit': maxRequests.toString(),
+    'X-RateLimit-Remaining': remaining.toString(),
+    'X-RateLimit-Reset': new Date(resetTime).toISOString(),
+  };
+}
+
 /**
  * Rate Limiter Middleware
  */
 export function rateLimit(config: RateLimitConfig) {
-  const {
-    windowMs,
-    maxRequests,
-    message = ErrorMessages[429],
-    skipSuccessfulRequests = false,
-    skipFailedRequests = false,
-  } = config;
-
   return async <T = any>(
     handler: (req: NextRequest, context?: T) => Promise<NextResponse>
   ): Promise<(req: NextRequest, context?: T) => Promise<NextResponse>> => {
     return async (req: NextRequest, context?: T): Promise<NextResponse> => {
+      const {
+        windowMs,
+        maxRequests,
+        message = ErrorMessages[429],
+        skipSuccessfulRequests = false,
+        skipFailedRequests = false,
+      } = resolveRateLimitConfig(req.nextUrl.pathname, config);
+
       const clientId = getClientIdentifier(req);
       const key = `${req.nextUrl.pathname}:${clientId}`;
+      const store = getRateLimitStore();
 
-      // Check rate limit
-      const { count, resetTime } = rateLimitStore.increment(key, windowMs);
-
-      // Add rate limit headers
-      const remaining = Math.max(0, maxRequests - count);
-      const resetDate = new Date(resetTime);
-
-      // Execute handler
-      const response = await handler(req, context);
-
-      // Optionally skip counting based on response
-      if (
-        (skipSuccessfulRequests && response.status < 400) ||
-        (skipFailedRequests && response.status >= 400)
-      ) {
-        rateLimitStore.reset(key);
-      }
-
-      // Add rate limit headers to response
-      response.headers.set('X-RateLimit-Limit', maxRequests.toString());
-      response.headers.set('X-RateLimit-Remaining', remaining.toString());
-      response.headers.set('X-RateLimit-Reset', resetDate.toISOString());
+      // Check rate limit before running the handler
+      const { count, resetTime, hitId } = await store.hit(key, windowMs, maxRequests);
 
-      // Check if limit exceeded
       if (count > maxRequests) {
-        const retryAfter = Math.ceil((resetTime - Date.now()) / 1000);
+        const retryAfter = Math.max(1, Math.ceil((resetTime - Date.now()) / 1000));
 
         return NextResponse.json(
           {
@@ -181,14 +196,35 @@ export function rateLimit(config: RateLimitConfig) {
             status: HttpStatus.TOO_MANY_REQUESTS,
             headers: {
               'Retry-After': retryAfter.toString(),
-              'X-RateLimit-Limit': maxRequests.toString(),
-              'X-RateLimit-Remaining': '0',
-              'X-RateLimit-Reset': resetDate.toISOString(),
+              ...rateLimitHeaders(maxRequests, 0, resetTime, windowMs),
             },
           }
         );
       }
 
+      // Execute handler
+      const response = await handler(req, context);
+
+      // Optionally skip counting based on response
+      if (
+        hitId &&
+        ((skipSuccessfulRequests && response.status < 400) ||
+          (skipFailedRequests && response.status >= 400))
+      ) {
+        await store.undo(key, hitId);
+      }
+
+      // Add rate limit headers to response
+      const headers = rateLimitHeaders(
+        maxRequests,
+        Math.max(0, maxRequests - count),
+        resetTime,
+        windowMs
+      );
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
+
       return response;
     };
   };
@@ -5,10 +5,15 @@ import { adminAuth } from '@/lib/firebase/firebase-admin';
 import { prisma } from '@/lib/db/prisma';
 import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
 import { UserRole } from '@/lib/utils/role-permissions';
+import { hasPermission } from '@/lib/auth/require-permission';
+import { assertTwoFactorSatisfied } from '@/lib/services/two-factor.service';
+import { trackSession } from '@/lib/services/session.service';
+import type { Permission } from '@/lib/auth/permissions';
 
 export async function withRoleGuard(
   handler: (request: NextRequest, userId: string, userRole: UserRole) => Promise<NextResponse>,
-  allowedRoles?: UserRole[]
+  allowedRoles?: UserRole[],
+  permission?: Permission
 ) {
   return async (request: NextRequest): Promise<NextResponse> => {
     try {
@@ -53,6 +58,9 @@ export async function withRoleGuard(
         );
       }
 
+      await trackSession(user.id, decodedToken.auth_time, request);
+      await assertTwoFactorSatisfied({ userId: user.id, role: user.role }, decodedToken.auth_time);
+
       // Check role permissions
       if (allowedRoles && !allowedRoles.includes(user.role as UserRole)) {
         return NextResponse.json(
@@ -61,6 +69,13 @@ export async function withRoleGuard(
         );
       }
 
+      if (permission && !(await hasPermission({ userId: user.id, role: user.role }, permission))) {
+        return NextResponse.json(
+          { success: false, error: 'Insufficient permissions' },
+          { status: HttpStatus.FORBIDDEN }
+        );
+      }
+
       // Call the handler with user info
       return await handler(request, user.id, user.role as UserRole);
     } catch (error) {
@@ -69,6 +84,14 @@ export async function withRoleGuard(
       //     { success: false, error: 'Authentication failed' },
       //     { status: HttpStatus.UNAUTHORIZED }
       // );
+      // Two-factor challenges and revoked sessions carry their own status and code
+      if (error instanceof ApiError) {
+        return NextResponse.json(
+          { success: false, error: error.message, code: error.code },
+          { status: error.statusCode }
+        );
+      }
+
       // Firebase auth errors should return UNAUTHORIZED
       if (error instanceof Error && error.message.includes('auth')) {
         return NextResponse.json(
@@ -2,7 +2,7 @@
 // Centralized email template management
 
 import { minifyForProduction } from '../utils/html-minifier';
-import { formatDateTime, textToSafeHtml } from '../utils/helpers';
+import { escapeHtml, formatDateTime, textToSafeHtml } from '../utils/helpers';
 
 export interface CaseAssignmentEmailData {
   clientName: string;
@@ -42,6 +42,28 @@ export interface AppointmentScheduledEmailData {
   notes?: string;
 }
 
+export interface AppointmentUpdateEmailData {
+  clientName: string;
+  caseReference: string;
+  caseId: string;
+  appointmentId: string;
+  status: 'RESCHEDULED' | 'CANCELLED' | 'COMPLETED';
+  scheduledAt: Date | string;
+  previousScheduledAt?: Date | string;
+  location: string;
+  reason?: string;
+}
+
+export interface AppointmentReminderEmailData {
+  recipientName: string;
+  caseReference: string;
+  caseId: string;
+  appointmentId: string;
+  scheduledAt: Date | string;
+  location: string;
+  hoursBefore: number;
+}
+
 /**
  * Email template for case assignment notification
  */
@@ -693,6 +715,188 @@ export function getAppointmentScheduledEmailTemplate(data: AppointmentScheduledE
   };
 }
 
+const APPOINTMENT_UPDATE_COPY: Record<
+  AppointmentUpdateEmailData['status'],
+  { title: string; intro: string; color: string }
+> = {
+  RESCHEDULED: {
+    title: 'Appointment Rescheduled',
+    intro: 'has been moved to a new date. Below are the updated details:',
+    color: '#0284c7',
+  },
+  CANCELLED: {
+    title: 'Appointment Cancelled',
+    intro: 'has been cancelled.',
+    color: '#dc3545',
+  },
+  COMPLETED: {
+    title: 'Appointment Completed',
+    intro: 'has been marked as completed. Thank you for coming in.',
+    color: '#16a34a',
+  },
+};
+
+/**
+ * Email template for appointment reschedule / cancellation / completion
+ */
+export function getAppointmentUpdateEmailTemplate(data: AppointmentUpdateEmailData): {
+  subject: string;
+  html: string;
+} {
+  const copy = APPOINTMENT_UPDATE_COPY[data.status];
+  const previousLine = data.previousScheduledAt
+    ? `
+        <tr>
+          <td style="padding: 8px 0; font-weight: 600; color: #666; width: 40%;">Previous Date:</td>
+          <td style="padding: 8px 0; color: #999; text-decoration: line-through;">${formatDateTime(data.previousScheduledAt)}</td>
+        </tr>
+      `
+    : '';
+
+  const reasonSection =
+    data.reason && data.reason.trim().length > 0
+      ? `
+      <div style="background: #f8f9fa; padding: 16px; border-radius: 12px; margin: 24px 0;">
+        <p style="margin: 0 0 8px 0; font-weight: 600; color: #333;">Reason</p>
+        <p style="margin: 0; color: #555; line-height: 1.6;">${textToSafeHtml(data.reason)}</p>
+      </div>
+    `
+      : '';
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${copy.title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+
+  <div style="background: ${copy.color}; color: white; padding: 30px 20px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 26px; font-weight: 700;">📅 ${copy.title}</h1>
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="font-size: 16px; margin-top: 0;">Dear <strong>${escapeHtml(data.clientName)}</strong>,</p>
+
+    <p style="font-size: 16px;">Your appointment for case <strong>${escapeHtml(data.caseReference)}</strong> ${copy.intro}</p>
+
+    <div style="background: #f8f9fa; padding: 24px; border-radius: 12px; margin: 24px 0; border-left: 4px solid ${copy.color};">
+      <table style="width: 100%; border-collapse: collapse;">
+        ${previousLine}
+        <tr>
+          <td style="padding: 8px 0; font-weight: 600; color: #666; width: 40%;">Date & Time:</td>
+          <td style="padding: 8px 0; font-weight: 700; color: #333;">${formatDateTime(data.scheduledAt)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 0; font-weight: 600; color: #666;">Location:</td>
+          <td style="padding: 8px 0; font-weight: 700; color: #333;">${escapeHtml(data.location)}</td>
+        </tr>
+      </table>
+    </div>
+
+    ${reasonSection}
+
+    <div style="text-align: center; margin: 32px 0;">
+      <a href="${APP_URL}/dashboard/cases/${data.caseId}?appointmentId=${data.appointmentId}"
+         style="background: ${copy.color}; color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px;">
+        View Case
+      </a>
+    </div>
+
+    <div style="border-top: 1px solid #e0e0e0; margin-top: 32px; padding-top: 24px;">
+      <p style="color: #666; font-size: 14px; margin: 0;">
+        Best regards,<br/>
+        <strong style="color: #333;">The ${COMPANY_NAME} Team</strong>
+      </p>
+    </div>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p style="margin: 0;">© ${new Date().getFullYear()} ${COMPANY_NAME}. All rights reserved.</p>
+  </div>
+
+</body>
+</html>
+  `;
+
+  return {
+    subject: `${copy.title} - Case ${data.caseReference}`,
+    html: minifyForProduction(html),
+  };
+}
+
+/**
+ * Email template for upcoming appointment reminders (24h and 1h before)
+ */
+export function getAppointmentReminderEmailTemplate(data: AppointmentReminderEmailData): {
+  subject: string;
+  html: string;
+} {
+  const when = data.hoursBefore <= 1 ? 'in one hour' : 'tomorrow';
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Appointment Reminder</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+
+  <div style="background: linear-gradient(135deg, #0ea5e9 0%, #0284c7 100%); color: white; padding: 30px 20px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 26px; font-weight: 700;">⏰ Appointment Reminder</h1>
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="font-size: 16px; margin-top: 0;">Dear <strong>${escapeHtml(data.recipientName)}</strong>,</p>
+
+    <p style="font-size: 16px;">This is a reminder that the appointment for case <strong>${escapeHtml(data.caseReference)}</strong> starts ${when}.</p>
+
+    <div style="background: #f8f9fa; padding: 24px; border-radius: 12px; margin: 24px 0; border-left: 4px solid #0ea5e9;">
+      <table style="width: 100%; border-collapse: collapse;">
+        <tr>
+          <td style="padding: 8px 0; font-weight: 600; color: #666; width: 40%;">Date & Time:</td>
+          <td style="padding: 8px 0; font-weight: 700; color: #333;">${formatDateTime(data.scheduledAt)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 0; font-weight: 600; color: #666;">Location:</td>
+          <td style="padding: 8px 0; font-weight: 700; color: #333;">${escapeHtml(data.location)}</td>
+        </tr>
+      </table>
+    </div>
+
+    <div style="text-align: center; margin: 32px 0;">
+      <a href="${APP_URL}/dashboard/cases/${data.caseId}?appointmentId=${data.appointmentId}"
+         style="background: #0284c7; color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; font-size: 16px;">
+        View Appointment Details
+      </a>
+    </div>
+
+    <div style="border-top: 1px solid #e0e0e0; margin-top: 32px; padding-top: 24px;">
+      <p style="color: #666; font-size: 14px; margin: 0;">
+        Best regards,<br/>
+        <strong style="color: #333;">The ${COMPANY_NAME} Team</strong>
+      </p>
+    </div>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p style="margin: 0;">© ${new Date().getFullYear()} ${COMPANY_NAME}. All rights reserved.</p>
+  </div>
+
+</body>
+</html>
+  `;
+
+  return {
+    subject: `Appointment Reminder - Case ${data.caseReference}`,
+    html: minifyForProduction(html),
+  };
+}
+
 /**
  * Email template for welcome message
  */
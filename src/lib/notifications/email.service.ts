@@ -4,10 +4,16 @@ import nodemailer from 'nodemailer';
 import { logger } from '@/lib/utils/logger';
 import { escapeHtml } from '@/lib/utils/helpers';
 import {
+  getAppointmentReminderEmailTemplate,
   getAppointmentScheduledEmailTemplate,
+  getAppointmentUpdateEmailTemplate,
   getPasswordResetEmailTemplate,
   getVerificationEmailTemplate,
 } from './email-templates';
+import {
+  buildAppointmentCalendar,
+  type CalendarMethod,
+} from '@/lib/services/appointment-calendar.service';
 
 const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST || 'smtp.gmail.com',
@@ -25,6 +31,13 @@ interface EmailOptions {
   html: string;
   text?: string;
   headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
 }
 
 export async function sendEmail(options: EmailOptions) {
@@ -46,6 +59,7 @@ export async function sendEmail(options: EmailOptions) {
       html: options.html,
       text: options.text || options.html.replace(/<[^>]*>/g, ''),
       headers: options.headers || {},
+      attachments: options.attachments,
     });
     logger.info('Email sent successfully', { subject: options.subject });
   } catch (error) {
@@ -117,6 +131,160 @@ export async function sendDocumentRejectedEmail(
   });
 }
 
+// One email for several rejected documents (bulk review)
+export async function sendDocumentsRejectedEmail(
+  to: string,
+  clientName: string,
+  documents: { documentName: string; reason: string }[]
+) {
+  const items = documents
+    .map(
+      ({ documentName, reason }) =>
+        `<li><strong>${escapeHtml(documentName)}</strong> - ${escapeHtml(reason)}</li>`
+    )
+    .join('');
+
+  await sendEmail({
+    to,
+    subject: `${documents.length} Documents Require Reupload`,
+    html: `
+            <h2>Documents Require Attention</h2>
+            <p>Dear ${escapeHtml(clientName)},</p>
+            <p>The following documents require reupload:</p>
+            <ul>${items}</ul>
+            <p>Please upload corrected versions at your earliest convenience. You can reply to each review comment from your dashboard.</p>
+            <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/cases?tab=documents">Upload Documents</a>
+            <br><br>
+            <p>Best regards,<br>Patrick Travel Services</p>
+        `,
+  });
+}
+
+export async function sendDocumentExpiringEmail(
+  to: string,
+  documentName: string,
+  expiresAt: Date,
+  recipientName: string,
+  caseRef: string
+) {
+  await sendEmail({
+    to,
+    subject: `Document Expiring Soon - Case ${escapeHtml(caseRef)}`,
+    html: `
+            <h2>Document Expiring Soon</h2>
+            <p>Dear ${escapeHtml(recipientName)},</p>
+            <p>The document <strong>${escapeHtml(documentName)}</strong> for case <strong>${escapeHtml(caseRef)}</strong> expires on <strong>${expiresAt.toDateString()}</strong>.</p>
+            <p>Please upload a renewed version before it expires to avoid delays in processing.</p>
+            <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/cases?tab=documents">View Documents</a>
+            <br><br>
+            <p>Best regards,<br>Patrick Travel Services</p>
+        `,
+  });
+}
+
+export async function sendSlaAlertEmail(options: {
+  to: string;
+  recipientName: string;
+  caseId: string;
+  caseReference: string;
+  status: string;
+  state: 'AT_RISK' | 'BREACHED';
+  dueAt: Date;
+  escalated?: boolean;
+}) {
+  const breached = options.state === 'BREACHED';
+  const heading = breached ? 'SLA Breached' : 'SLA At Risk';
+
+  await sendEmail({
+    to: options.to,
+    subject: `${heading} - Case ${escapeHtml(options.caseReference)}`,
+    html: `
+            <h2>${heading}</h2>
+            <p>Dear ${escapeHtml(options.recipientName)},</p>
+            <p>Case <strong>${escapeHtml(options.caseReference)}</strong> has been in status <strong>${escapeHtml(options.status)}</strong> ${breached ? 'past' : 'close to'} its SLA target of <strong>${options.dueAt.toUTCString()}</strong>.</p>
+            ${options.escalated ? '<p>This case has been escalated to administrators.</p>' : ''}
+            <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/cases/${encodeURIComponent(options.caseId)}">View Case</a>
+            <br><br>
+            <p>Best regards,<br>Patrick Travel Services</p>
+        `,
+  });
+}
+
+export async function sendNewLoginAlertEmail(options: {
+  to: string;
+  recipientName: string;
+  deviceName: string | null;
+  country: string | null;
+  ipAddress: string | null;
+  newCountry: boolean;
+  at: Date;
+}) {
+  await sendEmail({
+    to: options.to,
+    subject: options.newCountry
+      ? 'New Sign-in From Another Country'
+      : 'New Sign-in to Your Account',
+    html: `
+            <h2>New Sign-in Detected</h2>
+            <p>Dear ${escapeHtml(options.recipientName)},</p>
+            <p>Your Patrick Travel Services account was just signed in to from ${options.newCountry ? 'a country' : 'a device'} we have not seen before.</p>
+            <div style="background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+                <p><strong>Device:</strong> ${escapeHtml(options.deviceName ?? 'Unknown device')}</p>
+                ${options.country ? `<p><strong>Country:</strong> ${escapeHtml(options.country)}</p>` : ''}
+                ${options.ipAddress ? `<p><strong>IP address:</strong> ${escapeHtml(options.ipAddress)}</p>` : ''}
+                <p><strong>Time:</strong> ${options.at.toUTCString()}</p>
+            </div>
+            <p>If this was you, no action is needed. If not, change your password and sign out all devices from your account settings.</p>
+            <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/settings">Review Account Security</a>
+            <br><br>
+            <p>Best regards,<br>Patrick Travel Services</p>
+        `,
+  });
+}
+
+export async function sendCoverageNoticeEmail(options: {
+  to: string;
+  clientName: string;
+  caseId: string;
+  caseReference: string;
+  agentName: string;
+  delegateName: string;
+  delegateEmail: string;
+  until: Date;
+  returned?: boolean;
+}) {
+  const reference = escapeHtml(options.caseReference);
+  const agentName = escapeHtml(options.agentName);
+
+  await sendEmail({
+    to: options.to,
+    subject: `Your Immigration Case ${reference} - Advisor Update`,
+    html: options.returned
+      ? `
+            <h2>Your Advisor Is Back</h2>
+            <p>Dear ${escapeHtml(options.clientName)},</p>
+            <p><strong>${agentName}</strong> is back and handles your case <strong>${reference}</strong> again.</p>
+            <p>Thank you for your patience while ${escapeHtml(options.delegateName)} covered for them.</p>
+            <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/cases/${encodeURIComponent(options.caseId)}">View Your Case</a>
+            <br><br>
+            <p>Best regards,<br>Patrick Travel Services</p>
+        `
+      : `
+            <h2>Temporary Advisor for Your Case</h2>
+            <p>Dear ${escapeHtml(options.clientName)},</p>
+            <p>${agentName} is away until <strong>${options.until.toUTCString()}</strong>. In the meantime your case <strong>${reference}</strong> is handled by:</p>
+            <div style="background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+                <p><strong>Advisor:</strong> ${escapeHtml(options.delegateName)}</p>
+                <p><strong>Email:</strong> ${escapeHtml(options.delegateEmail)}</p>
+            </div>
+            <p>Your case will be handed back to ${agentName} on their return.</p>
+            <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/cases/${encodeURIComponent(options.caseId)}">View Your Case</a>
+            <br><br>
+            <p>Best regards,<br>Patrick Travel Services</p>
+        `,
+  });
+}
+
 export async function sendNewMessageEmail(
   to: string,
   from: string,
@@ -227,6 +395,42 @@ export async function sendUserEmail(options: {
   });
 }
 
+function buildAppointmentInvite(
+  method: CalendarMethod,
+  appointment: {
+    to: string;
+    recipientName: string;
+    caseReference: string;
+    caseId: string;
+    appointmentId: string;
+    scheduledAt: Date | string;
+    location: string;
+    notes?: string;
+    sequence?: number;
+  }
+): EmailAttachment {
+  return {
+    filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+    content: buildAppointmentCalendar(
+      [
+        {
+          id: appointment.appointmentId,
+          caseId: appointment.caseId,
+          caseReference: appointment.caseReference,
+          scheduledAt: appointment.scheduledAt,
+          location: appointment.location,
+          status: method === 'CANCEL' ? 'CANCELLED' : 'SCHEDULED',
+          sequence: appointment.sequence ?? 0,
+          notes: appointment.notes,
+          attendees: [{ email: appointment.to, name: appointment.recipientName }],
+        },
+      ],
+      { method }
+    ),
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+  };
+}
+
 export async function sendAppointmentScheduledEmail(options: {
   to: string;
   clientName: string;
@@ -237,6 +441,7 @@ export async function sendAppointmentScheduledEmail(options: {
   location: string;
   advisorName?: string;
   notes?: string;
+  sequence?: number;
 }) {
   const template = getAppointmentScheduledEmailTemplate({
     clientName: options.clientName,
@@ -253,6 +458,66 @@ export async function sendAppointmentScheduledEmail(options: {
     to: options.to,
     subject: template.subject,
     html: template.html,
+    attachments: [
+      buildAppointmentInvite('REQUEST', { ...options, recipientName: options.clientName }),
+    ],
+  });
+}
+
+export async function sendAppointmentUpdatedEmail(options: {
+  to: string;
+  clientName: string;
+  caseReference: string;
+  caseId: string;
+  appointmentId: string;
+  status: 'RESCHEDULED' | 'CANCELLED' | 'COMPLETED';
+  scheduledAt: Date | string;
+  previousScheduledAt?: Date | string;
+  location: string;
+  reason?: string;
+  sequence?: number;
+}) {
+  const { to, sequence, ...data } = options;
+  const template = getAppointmentUpdateEmailTemplate(data);
+
+  // Completion does not change the event, so only reschedules and cancellations carry an update
+  const attachments =
+    data.status === 'COMPLETED'
+      ? undefined
+      : [
+          buildAppointmentInvite(data.status === 'CANCELLED' ? 'CANCEL' : 'REQUEST', {
+            ...data,
+            to,
+            recipientName: data.clientName,
+            sequence,
+          }),
+        ];
+
+  await sendEmail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    attachments,
+  });
+}
+
+export async function sendAppointmentReminderEmail(options: {
+  to: string;
+  recipientName: string;
+  caseReference: string;
+  caseId: string;
+  appointmentId: string;
+  scheduledAt: Date | string;
+  location: string;
+  hoursBefore: number;
+}) {
+  const { to, ...data } = options;
+  const template = getAppointmentReminderEmailTemplate(data);
+
+  await sendEmail({
+    to,
+    subject: template.subject,
+    html: template.html,
   });
 }
 
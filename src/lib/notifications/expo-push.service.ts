@@ -537,6 +537,58 @@ export async function sendDocumentStatusNotification(
   });
 }
 
+/**
+ * Helper: Send document expiry reminder
+ */
+export async function sendDocumentExpiringNotification(
+  userId: string,
+  documentName: string,
+  expiresAt: Date,
+  documentId: string,
+  caseId: string
+): Promise<void> {
+  await sendPushNotificationToUser(userId, {
+    title: 'Document Expiring Soon',
+    body: `${documentName} expires on ${expiresAt.toDateString()}`,
+    data: {
+      type: 'DOCUMENT_EXPIRING',
+      caseId,
+      actionUrl: `/dashboard/cases/${caseId}`,
+      screen: 'documents',
+      params: { documentId, caseId },
+    },
+    channelId: 'documents',
+  });
+}
+
+/**
+ * Helper: Send appointment reminder notification
+ */
+export async function sendAppointmentReminderNotification(
+  userId: string,
+  scheduledAt: Date,
+  location: string,
+  appointmentId: string,
+  caseId: string
+): Promise<void> {
+  await sendPushNotificationToUser(userId, {
+    title: 'Appointment Reminder',
+    body: `Your appointment at ${location} starts at ${scheduledAt.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+    })}`,
+    data: {
+      type: 'APPOINTMENT_REMINDER',
+      appointmentId,
+      caseId,
+      actionUrl: `/dashboard/cases/${caseId}?appointmentId=${appointmentId}`,
+      screen: 'cases',
+      params: { caseId, appointmentId },
+    },
+    channelId: 'cases',
+  });
+}
+
 /**
  * Helper: Send case assignment notification (for agents)
  */
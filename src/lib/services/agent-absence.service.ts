@@ -0,0 +1,329 @@
+// Agent Absence Service - Hands an absent agent's active cases to a delegate and back
+// TRANSFER moves the cases to the delegate with a COVERAGE TransferHistory entry each way;
+// SHADOW keeps them with the agent and only gives the delegate access (coveringAgentId).
+// The agent coverage cron starts and ends absences; an absence can also be ended early
+
+import type { AbsenceStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { sendCoverageNoticeEmail } from '@/lib/notifications/email.service';
+import { FINAL_CASE_STATUSES } from '@/lib/services/case-assignment.service';
+
+const personSelect = { id: true, email: true, firstName: true, lastName: true };
+
+/**
+ * True when the user handles the case - as its assigned agent or as a shadowing delegate
+ */
+export function isCaseHandler(
+  caseData: { assignedAgentId: string | null; coveringAgentId?: string | null },
+  userId: string
+): boolean {
+  return caseData.assignedAgentId === userId || caseData.coveringAgentId === userId;
+}
+
+/**
+ * Flag the agent out of office so auto-assignment skips them while away
+ */
+async function setOutOfOffice(agentId: string, isOutOfOffice: boolean): Promise<void> {
+  await prisma.agentAssignmentProfile.upsert({
+    where: { agentId },
+    create: { agentId, isOutOfOffice },
+    update: { isOutOfOffice },
+  });
+}
+
+async function notifyUser(userId: string, title: string, message: string): Promise<void> {
+  try {
+    await createRealtimeNotification(userId, {
+      type: 'CASE_ASSIGNED',
+      title,
+      message,
+      actionUrl: NOTIFICATION_ACTION_URLS.CASE_UNASSIGNED,
+    });
+  } catch (error) {
+    logger.warn('Failed to send coverage notification', { error, userId });
+  }
+}
+
+/**
+ * Hand the agent's active cases to the delegate
+ * Returns the number of cases covered (0 when the absence was already started elsewhere)
+ */
+export async function startAbsenceCoverage(absenceId: string): Promise<number> {
+  const absence = await prisma.agentAbsence.findUnique({
+    where: { id: absenceId },
+    include: { agent: { select: personSelect }, delegate: { select: personSelect } },
+  });
+
+  if (!absence || absence.status !== 'SCHEDULED') {
+    return 0;
+  }
+
+  // Remember whether this absence flagged the agent, so ending it never clears a flag the
+  // agent (or another absence) set
+  const profile = await prisma.agentAssignmentProfile.findUnique({
+    where: { agentId: absence.agentId },
+    select: { isOutOfOffice: true },
+  });
+  const setsOutOfOffice = !profile?.isOutOfOffice;
+
+  const claimed = await prisma.agentAbsence.updateMany({
+    where: { id: absenceId, status: 'SCHEDULED' },
+    data: { status: 'ACTIVE', startedAt: new Date(), setOutOfOffice: setsOutOfOffice },
+  });
+
+  if (claimed.count === 0) {
+    return 0;
+  }
+
+  const { agent, delegate } = absence;
+  const agentName = `${agent.firstName} ${agent.lastName}`;
+  const delegateName = `${delegate.firstName} ${delegate.lastName}`;
+
+  if (setsOutOfOffice) {
+    await setOutOfOffice(agent.id, true);
+  }
+
+  const cases = await prisma.case.findMany({
+    where: { assignedAgentId: agent.id, status: { notIn: FINAL_CASE_STATUSES } },
+    select: {
+      id: true,
+      referenceNumber: true,
+      client: { select: { email: true, firstName: true, lastName: true } },
+    },
+  });
+
+  let covered = 0;
+
+  for (const caseData of cases) {
+    const moved = await prisma.$transaction(async (tx) => {
+      const updated = await tx.case.updateMany({
+        where: { id: caseData.id, assignedAgentId: agent.id },
+        data:
+          absence.mode === 'TRANSFER'
+            ? { assignedAgentId: delegate.id }
+            : { coveringAgentId: delegate.id },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      if (absence.mode === 'TRANSFER') {
+        await tx.transferHistory.create({
+          data: {
+            caseId: caseData.id,
+            fromAgentId: agent.id,
+            fromAgentName: agentName,
+            toAgentId: delegate.id,
+            toAgentName: delegateName,
+            transferredBy: absence.createdById,
+            reason: 'COVERAGE',
+            handoverNotes:
+              absence.handoverNotes ??
+              `Covering for ${agentName} until ${absence.endsAt.toUTCString()}`,
+            notifyClient: absence.notifyClient,
+            notifyAgent: true,
+          },
+        });
+      }
+
+      await tx.absenceCoverage.create({ data: { absenceId, caseId: caseData.id } });
+
+      return true;
+    });
+
+    if (!moved) {
+      continue;
+    }
+
+    covered++;
+
+    if (absence.notifyClient) {
+      sendCoverageNoticeEmail({
+        to: caseData.client.email,
+        clientName: `${caseData.client.firstName} ${caseData.client.lastName}`,
+        caseId: caseData.id,
+        caseReference: caseData.referenceNumber,
+        agentName,
+        delegateName,
+        delegateEmail: delegate.email,
+        until: absence.endsAt,
+      }).catch((error) => {
+        logger.warn('Failed to send coverage notice to client', { error, caseId: caseData.id });
+      });
+    }
+  }
+
+  if (covered > 0) {
+    await notifyUser(
+      delegate.id,
+      'Coverage Started',
+      `You are covering ${covered} case(s) for ${agentName} until ${absence.endsAt.toUTCString()}`
+    );
+  }
+
+  logger.info('Absence coverage started', {
+    absenceId,
+    agentId: agent.id,
+    delegateId: delegate.id,
+    mode: absence.mode,
+    covered,
+  });
+
+  return covered;
+}
+
+/**
+ * Close an absence and hand covered cases back to the agent
+ * Cases reassigned or closed in the meantime stay where they are
+ * Returns the number of cases handed back
+ */
+export async function endAbsenceCoverage(
+  absenceId: string,
+  status: Extract<AbsenceStatus, 'COMPLETED' | 'CANCELLED'>,
+  actorId: string | null = null
+): Promise<number> {
+  const absence = await prisma.agentAbsence.findUnique({
+    where: { id: absenceId },
+    include: {
+      agent: { select: personSelect },
+      delegate: { select: personSelect },
+      coverages: {
+        where: { returnedAt: null },
+        include: {
+          case: {
+            select: {
+              id: true,
+              referenceNumber: true,
+              client: { select: { email: true, firstName: true, lastName: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!absence || (absence.status !== 'SCHEDULED' && absence.status !== 'ACTIVE')) {
+    return 0;
+  }
+
+  const claimed = await prisma.agentAbsence.updateMany({
+    where: { id: absenceId, status: absence.status },
+    data: { status, endedAt: new Date() },
+  });
+
+  // Nothing was handed over for an absence that never started
+  if (claimed.count === 0 || absence.status === 'SCHEDULED') {
+    return 0;
+  }
+
+  const { agent, delegate } = absence;
+  const agentName = `${agent.firstName} ${agent.lastName}`;
+  const delegateName = `${delegate.firstName} ${delegate.lastName}`;
+
+  let returned = 0;
+
+  for (const coverage of absence.coverages) {
+    const caseData = coverage.case;
+
+    const handedBack = await prisma.$transaction(async (tx) => {
+      const updated = await tx.case.updateMany({
+        where:
+          absence.mode === 'TRANSFER'
+            ? {
+                id: caseData.id,
+                assignedAgentId: delegate.id,
+                status: { notIn: FINAL_CASE_STATUSES },
+              }
+            : { id: caseData.id, coveringAgentId: delegate.id },
+        data:
+          absence.mode === 'TRANSFER' ? { assignedAgentId: agent.id } : { coveringAgentId: null },
+      });
+
+      if (updated.count > 0 && absence.mode === 'TRANSFER') {
+        await tx.transferHistory.create({
+          data: {
+            caseId: caseData.id,
+            fromAgentId: delegate.id,
+            fromAgentName: delegateName,
+            toAgentId: agent.id,
+            toAgentName: agentName,
+            transferredBy: actorId,
+            reason: 'COVERAGE',
+            handoverNotes: `Returned to ${agentName} after absence`,
+            notifyClient: absence.notifyClient,
+            notifyAgent: true,
+          },
+        });
+      }
+
+      await tx.absenceCoverage.update({
+        where: { id: coverage.id },
+        data: { returnedAt: new Date() },
+      });
+
+      return updated.count > 0;
+    });
+
+    if (!handedBack) {
+      continue;
+    }
+
+    returned++;
+
+    if (absence.notifyClient) {
+      sendCoverageNoticeEmail({
+        to: caseData.client.email,
+        clientName: `${caseData.client.firstName} ${caseData.client.lastName}`,
+        caseId: caseData.id,
+        caseReference: caseData.referenceNumber,
+        agentName,
+        delegateName,
+        delegateEmail: delegate.email,
+        until: absence.endsAt,
+        returned: true,
+      }).catch((error) => {
+        logger.warn('Failed to send coverage notice to client', { error, caseId: caseData.id });
+      });
+    }
+  }
+
+  if (absence.setOutOfOffice) {
+    // Another absence may already be running (back-to-back leave) - it takes over the flag
+    const stillAway = await prisma.agentAbsence.findFirst({
+      where: { agentId: agent.id, status: 'ACTIVE' },
+      select: { id: true },
+    });
+
+    if (stillAway) {
+      await prisma.agentAbsence.update({
+        where: { id: stillAway.id },
+        data: { setOutOfOffice: true },
+      });
+    } else {
+      await setOutOfOffice(agent.id, false);
+    }
+  }
+
+  if (returned > 0) {
+    await notifyUser(
+      agent.id,
+      'Welcome Back',
+      `${returned} case(s) covered by ${delegateName} have been handed back to you`
+    );
+  }
+
+  logger.info('Absence coverage ended', {
+    absenceId,
+    agentId: agent.id,
+    delegateId: delegate.id,
+    mode: absence.mode,
+    status,
+    returned,
+  });
+
+  return returned;
+}
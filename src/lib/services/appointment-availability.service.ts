@@ -0,0 +1,295 @@
+// Appointment Availability Service - Turns agent availability windows into bookable slots
+// Windows are stored as wall-clock times in the agent's time zone; slots are returned in UTC
+
+import type { AppointmentStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { APPOINTMENT_BOOKING, ERROR_MESSAGES } from '@/lib/constants';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const SLOT_MS = APPOINTMENT_BOOKING.SLOT_MINUTES * MINUTE_MS;
+
+// Appointments that still occupy the agent's calendar
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['SCHEDULED', 'RESCHEDULED'];
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface AvailableSlot {
+  startsAt: Date;
+  endsAt: Date;
+  timezone: string;
+  location: string;
+}
+
+interface ZonedDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Check that a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant (DST-aware)
+ */
+export function zonedTimeToUtc(date: ZonedDate, minutesOfDay: number, timeZone: string): Date {
+  const naive = Date.UTC(date.year, date.month - 1, date.day, 0, minutesOfDay);
+  const offset = getTimeZoneOffsetMs(new Date(naive), timeZone);
+  const candidate = naive - offset;
+  // The offset may differ on the other side of a DST change
+  const correctedOffset = getTimeZoneOffsetMs(new Date(candidate), timeZone);
+  return new Date(correctedOffset === offset ? candidate : naive - correctedOffset);
+}
+
+function overlaps(start: number, end: number, otherStart: number, otherEnd: number): boolean {
+  return start < otherEnd && otherStart < end;
+}
+
+/**
+ * List the open slots of an agent between two instants
+ * Slots outside the booking notice/horizon, inside a blackout or overlapping an
+ * active appointment are left out
+ */
+export async function getAvailableSlots(
+  agentId: string,
+  from: Date,
+  to: Date
+): Promise<AvailableSlot[]> {
+  const now = Date.now();
+  const earliest = Math.max(from.getTime(), now + APPOINTMENT_BOOKING.MIN_NOTICE_HOURS * HOUR_MS);
+  const latest = Math.min(to.getTime(), now + APPOINTMENT_BOOKING.HORIZON_DAYS * DAY_MS);
+
+  if (earliest >= latest) {
+    return [];
+  }
+
+  const [windows, blackouts, appointments] = await Promise.all([
+    prisma.agentAvailability.findMany({ where: { agentId } }),
+    prisma.agentBlackout.findMany({
+      where: { agentId, startsAt: { lt: new Date(latest) }, endsAt: { gt: new Date(earliest) } },
+      select: { startsAt: true, endsAt: true },
+    }),
+    prisma.appointment.findMany({
+      where: {
+        assignedAgentId: agentId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        scheduledAt: { gt: new Date(earliest - SLOT_MS), lt: new Date(latest + SLOT_MS) },
+      },
+      select: { scheduledAt: true },
+    }),
+  ]);
+
+  const slots = new Map<number, AvailableSlot>();
+
+  for (const window of windows) {
+    const startMinutes = parseTimeOfDay(window.startTime);
+    const endMinutes = parseTimeOfDay(window.endTime);
+    const first = getZonedParts(new Date(earliest), window.timezone);
+    const last = getZonedParts(new Date(latest), window.timezone);
+    const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+
+    // Walk calendar days in the window's time zone
+    for (
+      let cursor = Date.UTC(first.year, first.month - 1, first.day);
+      cursor <= lastDay;
+      cursor += DAY_MS
+    ) {
+      const day = new Date(cursor);
+      if (day.getUTCDay() !== window.dayOfWeek) continue;
+
+      const zonedDate = {
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+      };
+
+      for (
+        let minutes = startMinutes;
+        minutes + APPOINTMENT_BOOKING.SLOT_MINUTES <= endMinutes;
+        minutes += APPOINTMENT_BOOKING.SLOT_MINUTES
+      ) {
+        const start = zonedTimeToUtc(zonedDate, minutes, window.timezone).getTime();
+        const end = start + SLOT_MS;
+
+        if (start < earliest || start >= latest || slots.has(start)) continue;
+        if (blackouts.some((b) => overlaps(start, end, b.startsAt.getTime(), b.endsAt.getTime())))
+          continue;
+        if (
+          appointments.some((a) =>
+            overlaps(start, end, a.scheduledAt.getTime(), a.scheduledAt.getTime() + SLOT_MS)
+          )
+        )
+          continue;
+
+        slots.set(start, {
+          startsAt: new Date(start),
+          endsAt: new Date(end),
+          timezone: window.timezone,
+          location: window.location,
+        });
+      }
+    }
+  }
+
+  return [...slots.values()].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Find the published slot starting exactly at the given instant, if any
+ */
+export async function findAvailableSlot(
+  agentId: string,
+  scheduledAt: Date
+): Promise<AvailableSlot | null> {
+  const slots = await getAvailableSlots(
+    agentId,
+    scheduledAt,
+    new Date(scheduledAt.getTime() + SLOT_MS)
+  );
+  return slots.find((slot) => slot.startsAt.getTime() === scheduledAt.getTime()) ?? null;
+}
+
+/**
+ * Serialize bookings for one agent until the surrounding transaction ends
+ * Must be called inside prisma.$transaction before checking for conflicts
+ */
+export async function lockAgentSchedule(
+  tx: Prisma.TransactionClient,
+  agentId: string
+): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${agentId}))`;
+}
+
+/**
+ * Throw an ApiError if the agent is already booked or blacked out at this time
+ */
+export async function assertAgentSlotFree(
+  db: DbClient,
+  agentId: string,
+  scheduledAt: Date,
+  options: { excludeAppointmentId?: string } = {}
+): Promise<void> {
+  const start = scheduledAt.getTime();
+
+  const [conflict, blackout] = await Promise.all([
+    db.appointment.findFirst({
+      where: {
+        assignedAgentId: agentId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        scheduledAt: { gt: new Date(start - SLOT_MS), lt: new Date(start + SLOT_MS) },
+        ...(options.excludeAppointmentId ? { id: { not: options.excludeAppointmentId } } : {}),
+      },
+      select: { id: true },
+    }),
+    db.agentBlackout.findFirst({
+      where: {
+        agentId,
+        startsAt: { lt: new Date(start + SLOT_MS) },
+        endsAt: { gt: scheduledAt },
+      },
+      select: { id: true },
+    }),
+  ]);
+
+  if (conflict) {
+    throw new ApiError('The agent already has an appointment at this time', HttpStatus.CONFLICT);
+  }
+
+  if (blackout) {
+    throw new ApiError('The agent is unavailable at this time', HttpStatus.CONFLICT);
+  }
+}
+
+/**
+ * Agents manage their own calendar; admins may manage any agent's calendar
+ */
+export async function resolveCalendarOwner(
+  user: { userId: string; role: string },
+  requestedAgentId?: string | null
+): Promise<string> {
+  if (!['AGENT', 'ADMIN'].includes(user.role)) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  if (!requestedAgentId || requestedAgentId === user.userId) {
+    return user.userId;
+  }
+
+  if (user.role !== 'ADMIN') {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  const agent = await prisma.user.findUnique({
+    where: { id: requestedAgentId },
+    select: { role: true },
+  });
+
+  if (!agent || !['AGENT', 'ADMIN'].includes(agent.role)) {
+    throw new ApiError('Agent not found', HttpStatus.NOT_FOUND);
+  }
+
+  return requestedAgentId;
+}
@@ -0,0 +1,257 @@
+// Appointment Calendar Service - iCalendar (RFC 5545) export and per-user calendar feeds
+// Every appointment keeps a stable UID; its SEQUENCE is bumped on reschedule/cancel so
+// calendar apps replace or remove the event instead of duplicating it
+
+import { createHash, randomBytes } from 'crypto';
+import type { AppointmentStatus, Role } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { APPOINTMENT_BOOKING, NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+
+const CALENDAR_PRODUCT_ID = '-//Patrick Travel Services//Appointments//EN';
+const EVENT_UID_DOMAIN = 'patrick-travel-services';
+const MAX_LINE_OCTETS = 75;
+const FEED_APPOINTMENT_LIMIT = 500;
+
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface CalendarAttendee {
+  email: string;
+  name?: string;
+}
+
+export interface CalendarAppointment {
+  id: string;
+  caseId: string;
+  caseReference: string;
+  scheduledAt: Date | string;
+  location: string;
+  status: AppointmentStatus;
+  sequence: number;
+  notes?: string | null;
+  updatedAt?: Date | string;
+  attendees?: CalendarAttendee[];
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets, never splitting a multi-byte character
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtcDate(value: Date | string): string {
+  return new Date(value)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/$/, '');
+}
+
+function buildEvent(appointment: CalendarAppointment, method: CalendarMethod): string[] {
+  const startsAt = new Date(appointment.scheduledAt);
+  const endsAt = new Date(startsAt.getTime() + APPOINTMENT_BOOKING.SLOT_MINUTES * 60 * 1000);
+  const cancelled = method === 'CANCEL' || appointment.status === 'CANCELLED';
+  const detailsUrl = `${getAppUrl()}${NOTIFICATION_ACTION_URLS.APPOINTMENT_DETAILS(
+    appointment.caseId,
+    appointment.id
+  )}`;
+  const description = [`Case ${appointment.caseReference}`, appointment.notes, detailsUrl]
+    .filter(Boolean)
+    .join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@${EVENT_UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDate(appointment.updatedAt ?? new Date())}`,
+    `DTSTART:${formatUtcDate(startsAt)}`,
+    `DTEND:${formatUtcDate(endsAt)}`,
+    `SEQUENCE:${appointment.sequence}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeText(`Appointment - Case ${appointment.caseReference}`)}`,
+    `LOCATION:${escapeText(appointment.location)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${detailsUrl}`,
+  ];
+
+  // Invitations (REQUEST/CANCEL) must name an organizer for calendar apps to accept them
+  if (method !== 'PUBLISH' && process.env.SMTP_USER) {
+    lines.push(`ORGANIZER;CN=Patrick Travel Services:mailto:${process.env.SMTP_USER}`);
+    for (const attendee of appointment.attendees ?? []) {
+      const name = attendee.name ? `;CN="${attendee.name.replace(/"/g, '')}"` : '';
+      lines.push(`ATTENDEE${name};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build an iCalendar document for one or more appointments
+ * PUBLISH is used for downloads and feeds, REQUEST/CANCEL for email invitations
+ */
+export function buildAppointmentCalendar(
+  appointments: CalendarAppointment[],
+  options: { method?: CalendarMethod; name?: string } = {}
+): string {
+  const method = options.method ?? 'PUBLISH';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  for (const appointment of appointments) {
+    lines.push(...buildEvent(appointment, method));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${getAppUrl()}/api/appointments/feed/${token}.ics`;
+}
+
+/**
+ * Issue a new feed token for a user, revoking any previous one
+ * The raw token is only returned here - the database keeps its hash
+ */
+export async function rotateCalendarFeedToken(userId: string) {
+  const token = randomBytes(32).toString('base64url');
+
+  const [, feedToken] = await prisma.$transaction([
+    prisma.calendarFeedToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+    prisma.calendarFeedToken.create({
+      data: { userId, tokenHash: hashFeedToken(token) },
+    }),
+  ]);
+
+  return { token, url: getCalendarFeedUrl(token), createdAt: feedToken.createdAt };
+}
+
+export async function revokeCalendarFeedTokens(userId: string): Promise<number> {
+  const result = await prisma.calendarFeedToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
+
+/**
+ * Resolve a feed token to its owner, or null when unknown, revoked or the user is inactive
+ */
+export async function resolveCalendarFeedToken(token: string) {
+  const feedToken = await prisma.calendarFeedToken.findUnique({
+    where: { tokenHash: hashFeedToken(token) },
+    include: {
+      user: { select: { id: true, role: true, isActive: true, firstName: true, lastName: true } },
+    },
+  });
+
+  if (!feedToken || feedToken.revokedAt || !feedToken.user.isActive) {
+    return null;
+  }
+
+  return feedToken;
+}
+
+/**
+ * Upcoming appointments for a feed: a client's own, or those an agent/admin is assigned to
+ * Cancelled ones are kept so subscribed calendars drop the event
+ */
+export async function getFeedAppointments(user: {
+  id: string;
+  role: Role;
+}): Promise<CalendarAppointment[]> {
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      scheduledAt: { gte: new Date() },
+      status: { in: ['SCHEDULED', 'RESCHEDULED', 'CANCELLED'] },
+      ...(user.role === 'CLIENT'
+        ? { clientId: user.id }
+        : {
+            OR: [
+              { assignedAgentId: user.id },
+              { assignedAgentId: null, case: { assignedAgentId: user.id } },
+            ],
+          }),
+    },
+    include: { case: { select: { referenceNumber: true } } },
+    orderBy: { scheduledAt: 'asc' },
+    take: FEED_APPOINTMENT_LIMIT,
+  });
+
+  return appointments.map((appointment) => toCalendarAppointment(appointment));
+}
+
+export function toCalendarAppointment(appointment: {
+  id: string;
+  caseId: string;
+  scheduledAt: Date;
+  location: string;
+  status: AppointmentStatus;
+  sequence: number;
+  notes: string | null;
+  updatedAt: Date;
+  case: { referenceNumber: string };
+}): CalendarAppointment {
+  return {
+    id: appointment.id,
+    caseId: appointment.caseId,
+    caseReference: appointment.case.referenceNumber,
+    scheduledAt: appointment.scheduledAt,
+    location: appointment.location,
+    status: appointment.status,
+    sequence: appointment.sequence,
+    notes: appointment.notes,
+    updatedAt: appointment.updatedAt,
+  };
+}
@@ -0,0 +1,336 @@
+// Case Assignment Service - Assigns new cases to an agent without waiting for an admin
+// Admins enable it per service type and pick a strategy; agents can opt out or mark
+// themselves out of office. Every automatic assignment is recorded in TransferHistory
+// and in the activity log
+
+import type {
+  AssignmentStrategy,
+  AutoAssignmentRule,
+  CaseStatus,
+  Priority,
+  ServiceType,
+  TransferReason,
+} from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { sendEmail } from '@/lib/notifications/email.service';
+import { getAgentCaseAssignmentEmailTemplate } from '@/lib/notifications/email-templates';
+
+// Cases in these statuses no longer count towards an agent's workload
+export const FINAL_CASE_STATUSES: CaseStatus[] = ['APPROVED', 'REJECTED', 'CLOSED'];
+
+export interface AssignmentCandidate {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  activeCases: number;
+  serviceTypes: ServiceType[];
+  destinationIds: string[];
+}
+
+export interface AssignmentContext {
+  serviceType: ServiceType;
+  destinationId: string;
+  rule: AutoAssignmentRule;
+  candidates: AssignmentCandidate[]; // Sorted by id so round-robin order is stable
+}
+
+export interface AssignmentPick {
+  agent: AssignmentCandidate;
+  reason: TransferReason;
+}
+
+export interface AutoAssignmentResult {
+  agentId: string;
+  agentName: string;
+  strategy: AssignmentStrategy;
+  reason: TransferReason;
+}
+
+type AssignmentStrategyHandler = (context: AssignmentContext) => AssignmentPick | null;
+
+function pickLeastActive(candidates: AssignmentCandidate[]): AssignmentCandidate | null {
+  return candidates.reduce<AssignmentCandidate | null>(
+    (best, candidate) => (!best || candidate.activeCases < best.activeCases ? candidate : best),
+    null
+  );
+}
+
+/**
+ * Destination matches are more specific than service type matches
+ */
+function specializationScore(candidate: AssignmentCandidate, context: AssignmentContext): number {
+  return (
+    (candidate.destinationIds.includes(context.destinationId) ? 2 : 0) +
+    (candidate.serviceTypes.includes(context.serviceType) ? 1 : 0)
+  );
+}
+
+const roundRobin: AssignmentStrategyHandler = ({ rule, candidates }) => {
+  const cursor = rule.lastAssignedAgentId;
+  const agent =
+    (cursor ? candidates.find((candidate) => candidate.id > cursor) : undefined) ?? candidates[0];
+
+  return agent ? { agent, reason: 'WORKLOAD' } : null;
+};
+
+const leastActive: AssignmentStrategyHandler = ({ candidates }) => {
+  const agent = pickLeastActive(candidates);
+  return agent ? { agent, reason: 'WORKLOAD' } : null;
+};
+
+// Best matching specialists first, falling back to workload when nobody specializes
+const specialization: AssignmentStrategyHandler = (context) => {
+  const scored = context.candidates.map((candidate) => ({
+    candidate,
+    score: specializationScore(candidate, context),
+  }));
+  const bestScore = Math.max(0, ...scored.map((entry) => entry.score));
+
+  if (bestScore === 0) {
+    return leastActive(context);
+  }
+
+  const agent = pickLeastActive(
+    scored.filter((entry) => entry.score === bestScore).map((entry) => entry.candidate)
+  );
+  return agent ? { agent, reason: 'SPECIALIZATION' } : null;
+};
+
+export const ASSIGNMENT_STRATEGIES: Record<AssignmentStrategy, AssignmentStrategyHandler> = {
+  ROUND_ROBIN: roundRobin,
+  LEAST_ACTIVE: leastActive,
+  SPECIALIZATION: specialization,
+};
+
+/**
+ * Active agents that accept automatic assignments, with their current workload
+ */
+export async function getAssignmentCandidates(): Promise<AssignmentCandidate[]> {
+  const agents = await prisma.user.findMany({
+    where: {
+      role: 'AGENT',
+      isActive: true,
+      OR: [
+        { assignmentProfile: { is: null } },
+        { assignmentProfile: { is: { autoAssignOptOut: false, isOutOfOffice: false } } },
+      ],
+    },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      assignmentProfile: { select: { serviceTypes: true, destinationIds: true } },
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  if (agents.length === 0) {
+    return [];
+  }
+
+  const workloads = await prisma.case.groupBy({
+    by: ['assignedAgentId'],
+    where: {
+      assignedAgentId: { in: agents.map((agent) => agent.id) },
+      status: { notIn: FINAL_CASE_STATUSES },
+    },
+    _count: { id: true },
+  });
+  const workloadMap = new Map(workloads.map((item) => [item.assignedAgentId, item._count.id]));
+
+  return agents.map(({ assignmentProfile, ...agent }) => ({
+    ...agent,
+    activeCases: workloadMap.get(agent.id) ?? 0,
+    serviceTypes: assignmentProfile?.serviceTypes ?? [],
+    destinationIds: assignmentProfile?.destinationIds ?? [],
+  }));
+}
+
+// Round-robin picks are retried this often when concurrent assignments move the cursor
+const MAX_ASSIGNMENT_ATTEMPTS = 3;
+
+class AssignmentCursorMovedError extends Error {}
+
+interface AssignableCase {
+  id: string;
+  referenceNumber: string;
+  serviceType: ServiceType;
+  destinationId: string;
+  priority: Priority;
+  client: { firstName: string; lastName: string };
+}
+
+/**
+ * Assign an unassigned case using the rule of its service type
+ * The activity log entry is attributed to actorId, the user whose action triggered the
+ * assignment
+ * Returns null when auto-assignment is off, nobody is available or the case was
+ * assigned in the meantime
+ */
+export async function autoAssignCase(
+  caseId: string,
+  actorId: string
+): Promise<AutoAssignmentResult | null> {
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: {
+      id: true,
+      referenceNumber: true,
+      serviceType: true,
+      destinationId: true,
+      priority: true,
+      assignedAgentId: true,
+      client: { select: { firstName: true, lastName: true } },
+    },
+  });
+
+  if (!caseData || caseData.assignedAgentId || !caseData.destinationId) {
+    return null;
+  }
+
+  for (let attempt = 1; attempt <= MAX_ASSIGNMENT_ATTEMPTS; attempt++) {
+    try {
+      return await assignWithRule({ ...caseData, destinationId: caseData.destinationId }, actorId);
+    } catch (error) {
+      if (!(error instanceof AssignmentCursorMovedError)) {
+        throw error;
+      }
+    }
+  }
+
+  logger.warn('Auto-assignment skipped - round-robin cursor kept moving', {
+    caseId,
+    serviceType: caseData.serviceType,
+  });
+  return null;
+}
+
+async function assignWithRule(
+  caseData: AssignableCase,
+  actorId: string
+): Promise<AutoAssignmentResult | null> {
+  const caseId = caseData.id;
+  const rule = await prisma.autoAssignmentRule.findUnique({
+    where: { serviceType: caseData.serviceType },
+  });
+
+  if (!rule?.isEnabled) {
+    return null;
+  }
+
+  const candidates = await getAssignmentCandidates();
+  const pick = ASSIGNMENT_STRATEGIES[rule.strategy]({
+    serviceType: caseData.serviceType,
+    destinationId: caseData.destinationId,
+    rule,
+    candidates,
+  });
+
+  if (!pick) {
+    logger.warn('Auto-assignment skipped - no available agent', {
+      caseId,
+      serviceType: caseData.serviceType,
+      strategy: rule.strategy,
+    });
+    return null;
+  }
+
+  const { agent, reason } = pick;
+  const agentName = `${agent.firstName} ${agent.lastName}`;
+
+  const assigned = await prisma.$transaction(async (tx) => {
+    // Only claim cases that are still unassigned - an admin may have been faster
+    const claimed = await tx.case.updateMany({
+      where: { id: caseId, assignedAgentId: null },
+      data: { assignedAgentId: agent.id },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    // Round-robin only advances from the cursor it was computed from; otherwise two
+    // concurrent submissions would both pick the same agent
+    const advanced = await tx.autoAssignmentRule.updateMany({
+      where: {
+        id: rule.id,
+        ...(rule.strategy === 'ROUND_ROBIN' && { lastAssignedAgentId: rule.lastAssignedAgentId }),
+      },
+      data: { lastAssignedAgentId: agent.id, lastAssignedAt: new Date() },
+    });
+
+    if (advanced.count === 0) {
+      throw new AssignmentCursorMovedError();
+    }
+
+    await tx.transferHistory.create({
+      data: {
+        caseId,
+        toAgentId: agent.id,
+        toAgentName: agentName,
+        reason,
+        handoverNotes: `Automatically assigned (${rule.strategy.replace(/_/g, ' ').toLowerCase()})`,
+        notifyClient: false,
+        notifyAgent: true,
+      },
+    });
+
+    await tx.activityLog.create({
+      data: {
+        userId: actorId,
+        action: 'CASE_AUTO_ASSIGNED',
+        description: `Case ${caseData.referenceNumber} automatically assigned to ${agentName}`,
+        metadata: {
+          caseId,
+          agentId: agent.id,
+          serviceType: caseData.serviceType,
+          strategy: rule.strategy,
+          reason,
+          activeCases: agent.activeCases,
+        },
+      },
+    });
+
+    return true;
+  });
+
+  if (!assigned) {
+    return null;
+  }
+
+  logger.info('Case auto-assigned', {
+    caseId,
+    caseReference: caseData.referenceNumber,
+    agentId: agent.id,
+    strategy: rule.strategy,
+    reason,
+  });
+
+  // Best effort - the assignment itself is already committed
+  const clientName = `${caseData.client.firstName} ${caseData.client.lastName}`;
+  const emailTemplate = getAgentCaseAssignmentEmailTemplate({
+    agentName,
+    caseReference: caseData.referenceNumber,
+    clientName,
+    serviceType: caseData.serviceType,
+    priority: caseData.priority,
+    caseId,
+  });
+
+  await Promise.allSettled([
+    createRealtimeNotification(agent.id, {
+      type: 'CASE_ASSIGNED',
+      title: 'New Case Assigned',
+      message: `Case ${caseData.referenceNumber} (${clientName}) has been assigned to you`,
+      actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(caseId),
+    }),
+    sendEmail({ to: agent.email, subject: emailTemplate.subject, html: emailTemplate.html }),
+  ]);
+
+  return { agentId: agent.id, agentName, strategy: rule.strategy, reason };
+}
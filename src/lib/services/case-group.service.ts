@@ -0,0 +1,447 @@
+// Case Group Service - Family / group applications
+// A group links a principal case with its dependants' cases. The principal case's client can
+// view and upload to every case of the group, documents flagged sharedWithGroup are listed on
+// every member case, and bulk status updates can be propagated to the whole group
+
+import type { CaseStatus, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { isCaseHandler } from './agent-absence.service';
+import { FINAL_CASE_STATUSES } from './case-assignment.service';
+import { SUBMITTED_CASES_FILTER } from './case-submission.service';
+
+// Max cases in one group - a family application, not a batch import
+export const MAX_GROUP_SIZE = 15;
+
+type Requester = { userId: string; role: Role };
+
+type GroupedCase = {
+  clientId: string;
+  group?: { principalCase: { clientId: string } } | null;
+};
+
+// Spread into a case select/include to get what canClientManageCase needs
+export const CASE_GROUP_ACCESS_SELECT = {
+  clientId: true,
+  group: { select: { principalCase: { select: { clientId: true } } } },
+} satisfies Prisma.CaseSelect;
+
+const memberSelect = {
+  id: true,
+  referenceNumber: true,
+  serviceType: true,
+  status: true,
+  priority: true,
+  clientId: true,
+  assignedAgentId: true,
+  coveringAgentId: true,
+  submissionDate: true,
+  lastUpdated: true,
+  client: { select: { id: true, firstName: true, lastName: true } },
+  assignedAgent: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.CaseSelect;
+
+/**
+ * True when the client owns the case or leads the group it belongs to
+ */
+export function canClientManageCase(caseData: GroupedCase, userId: string): boolean {
+  return caseData.clientId === userId || caseData.group?.principalCase.clientId === userId;
+}
+
+/**
+ * Cases listed for a client - their own, plus the submitted cases of the groups they lead
+ */
+export function clientCasesFilter(userId: string): Prisma.CaseWhereInput {
+  return {
+    OR: [
+      { clientId: userId },
+      { group: { principalCase: { clientId: userId } }, ...SUBMITTED_CASES_FILTER },
+    ],
+  };
+}
+
+/**
+ * Documents listed for a client - their uploads, everything on the cases of groups they lead,
+ * and the documents shared with a group they are part of
+ */
+export function clientDocumentsFilter(userId: string): Prisma.DocumentWhereInput {
+  return {
+    OR: [
+      { uploadedById: userId },
+      { case: { group: { principalCase: { clientId: userId } } } },
+      { sharedWithGroup: true, case: { group: { members: { some: { clientId: userId } } } } },
+    ],
+  };
+}
+
+/**
+ * Same rules as clientDocumentsFilter, for a single document
+ */
+export async function canClientViewDocument(documentId: string, userId: string): Promise<boolean> {
+  const count = await prisma.document.count({
+    where: { id: documentId, ...clientDocumentsFilter(userId) },
+  });
+  return count > 0;
+}
+
+/**
+ * True when the agent handles any case of the group - shared documents are theirs to review too
+ */
+export async function isGroupCaseHandler(groupId: string, userId: string): Promise<boolean> {
+  const count = await prisma.case.count({
+    where: { groupId, OR: [{ assignedAgentId: userId }, { coveringAgentId: userId }] },
+  });
+  return count > 0;
+}
+
+/**
+ * Documents of a case, including the ones shared by other cases of its group
+ */
+export function caseDocumentsFilter(
+  caseId: string,
+  groupId: string | null | undefined
+): Prisma.DocumentWhereInput {
+  return groupId ? { OR: [{ caseId }, { sharedWithGroup: true, case: { groupId } }] } : { caseId };
+}
+
+async function findGroup(groupId: string) {
+  const group = await prisma.caseGroup.findUnique({
+    where: { id: groupId },
+    include: {
+      principalCase: { select: { clientId: true, assignedAgentId: true, coveringAgentId: true } },
+    },
+  });
+
+  if (!group) {
+    throw new ApiError('Case group not found', HttpStatus.NOT_FOUND);
+  }
+
+  return group;
+}
+
+/**
+ * Admins, the principal case's handler and the principal client can change a group
+ */
+function assertCanManageGroup(
+  principalCase: {
+    clientId: string;
+    assignedAgentId: string | null;
+    coveringAgentId: string | null;
+  },
+  user: Requester
+): void {
+  const allowed =
+    user.role === 'ADMIN' ||
+    (user.role === 'AGENT' && isCaseHandler(principalCase, user.userId)) ||
+    (user.role === 'CLIENT' && principalCase.clientId === user.userId);
+
+  if (!allowed) {
+    throw new ApiError(
+      'Only the principal applicant or their advisor can manage this group',
+      HttpStatus.FORBIDDEN
+    );
+  }
+}
+
+/**
+ * Check cases can join a group: submitted, not grouped elsewhere, and visible to the requester
+ * Clients can only group their own cases
+ */
+async function loadJoinableCases(caseIds: string[], user: Requester, groupId?: string) {
+  const cases = await prisma.case.findMany({
+    where: { id: { in: caseIds } },
+    select: {
+      id: true,
+      referenceNumber: true,
+      status: true,
+      clientId: true,
+      groupId: true,
+      assignedAgentId: true,
+      coveringAgentId: true,
+    },
+  });
+
+  const found = new Set(cases.map((caseItem) => caseItem.id));
+  const missing = caseIds.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    throw new ApiError('Case not found', HttpStatus.NOT_FOUND, { caseIds: missing });
+  }
+
+  for (const caseItem of cases) {
+    if (user.role === 'CLIENT' && caseItem.clientId !== user.userId) {
+      throw new ApiError(
+        `You can only group your own cases (${caseItem.referenceNumber})`,
+        HttpStatus.FORBIDDEN
+      );
+    }
+    if (user.role === 'AGENT' && !isCaseHandler(caseItem, user.userId)) {
+      throw new ApiError(
+        `You are not handling case ${caseItem.referenceNumber}`,
+        HttpStatus.FORBIDDEN
+      );
+    }
+    if (caseItem.status === 'DRAFT') {
+      throw new ApiError(
+        `Case ${caseItem.referenceNumber} must be submitted before it can be grouped`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    if (caseItem.groupId && caseItem.groupId !== groupId) {
+      throw new ApiError(
+        `Case ${caseItem.referenceNumber} already belongs to another group`,
+        HttpStatus.CONFLICT
+      );
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * Group status at a glance - per-status counts and how far the group has got
+ */
+export async function getCaseGroupSummary(groupId: string) {
+  const group = await prisma.caseGroup.findUnique({
+    where: { id: groupId },
+    include: {
+      members: { select: memberSelect, orderBy: { submissionDate: 'asc' } },
+    },
+  });
+
+  if (!group) {
+    throw new ApiError('Case group not found', HttpStatus.NOT_FOUND);
+  }
+
+  const statusCounts: Partial<Record<CaseStatus, number>> = {};
+  for (const member of group.members) {
+    statusCounts[member.status] = (statusCounts[member.status] ?? 0) + 1;
+  }
+
+  const completed = group.members.filter((member) => FINAL_CASE_STATUSES.includes(member.status));
+  const sharedDocuments = await prisma.document.count({
+    where: { sharedWithGroup: true, case: { groupId } },
+  });
+
+  return {
+    id: group.id,
+    name: group.name,
+    principalCaseId: group.principalCaseId,
+    createdAt: group.createdAt,
+    members: group.members.map((member) => ({
+      ...member,
+      isPrincipal: member.id === group.principalCaseId,
+    })),
+    summary: {
+      total: group.members.length,
+      completed: completed.length,
+      approved: statusCounts.APPROVED ?? 0,
+      // Any member waiting on documents holds up the whole family
+      documentsRequired: statusCounts.DOCUMENTS_REQUIRED ?? 0,
+      statusCounts,
+      sharedDocuments,
+    },
+  };
+}
+
+export type CaseGroupSummary = Awaited<ReturnType<typeof getCaseGroupSummary>>;
+
+/**
+ * Who can read a group summary: staff handling any member, admins and the members' clients
+ */
+export async function assertCanViewGroup(groupId: string, user: Requester): Promise<void> {
+  if (user.role === 'ADMIN') {
+    return;
+  }
+
+  const member = await prisma.case.findFirst({
+    where: {
+      groupId,
+      ...(user.role === 'CLIENT'
+        ? { clientId: user.userId }
+        : { OR: [{ assignedAgentId: user.userId }, { coveringAgentId: user.userId }] }),
+    },
+    select: { id: true },
+  });
+
+  if (!member) {
+    const group = await findGroup(groupId);
+    if (user.role !== 'CLIENT' || group.principalCase.clientId !== user.userId) {
+      throw new ApiError('Case group not found', HttpStatus.NOT_FOUND);
+    }
+  }
+}
+
+export async function createCaseGroup(
+  input: { principalCaseId: string; memberCaseIds: string[]; name?: string | null },
+  user: Requester
+) {
+  const caseIds = [...new Set([input.principalCaseId, ...input.memberCaseIds])];
+  if (caseIds.length > MAX_GROUP_SIZE) {
+    throw new ApiError(`A group can have at most ${MAX_GROUP_SIZE} cases`, HttpStatus.BAD_REQUEST);
+  }
+
+  const cases = await loadJoinableCases(caseIds, user);
+  const principal = cases.find((caseItem) => caseItem.id === input.principalCaseId)!;
+  assertCanManageGroup(principal, user);
+
+  const group = await prisma.caseGroup.create({
+    data: {
+      name: input.name ?? null,
+      principalCaseId: principal.id,
+      createdById: user.userId,
+      members: { connect: caseIds.map((id) => ({ id })) },
+    },
+  });
+
+  logger.info('Case group created', {
+    groupId: group.id,
+    principalCaseId: principal.id,
+    memberCount: caseIds.length,
+    createdBy: user.userId,
+  });
+
+  return getCaseGroupSummary(group.id);
+}
+
+export async function updateCaseGroup(groupId: string, name: string | null, user: Requester) {
+  const group = await findGroup(groupId);
+  assertCanManageGroup(group.principalCase, user);
+
+  await prisma.caseGroup.update({ where: { id: groupId }, data: { name } });
+
+  return getCaseGroupSummary(groupId);
+}
+
+export async function addCaseGroupMembers(groupId: string, caseIds: string[], user: Requester) {
+  const group = await findGroup(groupId);
+  assertCanManageGroup(group.principalCase, user);
+
+  const memberCount = await prisma.case.count({ where: { groupId } });
+  const newIds = [...new Set(caseIds)];
+  await loadJoinableCases(newIds, user, groupId);
+
+  if (memberCount + newIds.length > MAX_GROUP_SIZE) {
+    throw new ApiError(`A group can have at most ${MAX_GROUP_SIZE} cases`, HttpStatus.BAD_REQUEST);
+  }
+
+  await prisma.case.updateMany({ where: { id: { in: newIds } }, data: { groupId } });
+
+  logger.info('Cases added to group', { groupId, caseIds: newIds, addedBy: user.userId });
+
+  return getCaseGroupSummary(groupId);
+}
+
+/**
+ * Take a dependant out of the group - their shared documents stop being shared
+ * The principal case cannot leave; dissolve the group instead
+ */
+export async function removeCaseGroupMember(groupId: string, caseId: string, user: Requester) {
+  const group = await findGroup(groupId);
+  assertCanManageGroup(group.principalCase, user);
+
+  if (caseId === group.principalCaseId) {
+    throw new ApiError(
+      'The principal case cannot leave its group - dissolve the group instead',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const removed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.case.updateMany({
+      where: { id: caseId, groupId },
+      data: { groupId: null },
+    });
+    await tx.document.updateMany({
+      where: { caseId, sharedWithGroup: true },
+      data: { sharedWithGroup: false },
+    });
+    return updated.count;
+  });
+
+  if (removed === 0) {
+    throw new ApiError('Case is not part of this group', HttpStatus.NOT_FOUND);
+  }
+
+  logger.info('Case removed from group', { groupId, caseId, removedBy: user.userId });
+
+  return getCaseGroupSummary(groupId);
+}
+
+export async function dissolveCaseGroup(groupId: string, user: Requester): Promise<void> {
+  const group = await findGroup(groupId);
+  assertCanManageGroup(group.principalCase, user);
+
+  await prisma.$transaction([
+    prisma.document.updateMany({
+      where: { sharedWithGroup: true, case: { groupId } },
+      data: { sharedWithGroup: false },
+    }),
+    // Members are detached by the SetNull foreign key
+    prisma.caseGroup.delete({ where: { id: groupId } }),
+  ]);
+
+  logger.info('Case group dissolved', { groupId, dissolvedBy: user.userId });
+}
+
+/**
+ * List a document on every case of its group (or stop sharing it)
+ * Admins, the case's agent, and the clients who can manage the case decide
+ */
+export async function setDocumentSharedWithGroup(
+  documentId: string,
+  shared: boolean,
+  user: Requester
+) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      id: true,
+      case: {
+        select: {
+          ...CASE_GROUP_ACCESS_SELECT,
+          groupId: true,
+          assignedAgentId: true,
+          coveringAgentId: true,
+        },
+      },
+    },
+  });
+
+  if (!document) {
+    throw new ApiError('Document not found', HttpStatus.NOT_FOUND);
+  }
+
+  const allowed =
+    user.role === 'ADMIN' ||
+    (user.role === 'AGENT' && isCaseHandler(document.case, user.userId)) ||
+    (user.role === 'CLIENT' && canClientManageCase(document.case, user.userId));
+
+  if (!allowed) {
+    throw new ApiError('Document not found', HttpStatus.NOT_FOUND);
+  }
+  if (shared && !document.case.groupId) {
+    throw new ApiError('This case is not part of a group', HttpStatus.BAD_REQUEST);
+  }
+
+  const updated = await prisma.document.update({
+    where: { id: documentId },
+    data: { sharedWithGroup: shared },
+  });
+
+  logger.info('Document group sharing changed', { documentId, shared, changedBy: user.userId });
+
+  return updated;
+}
+
+/**
+ * Add every other case of the groups the given cases belong to
+ */
+export async function expandToGroupMembers(caseIds: string[]): Promise<string[]> {
+  const members = await prisma.case.findMany({
+    where: { group: { members: { some: { id: { in: caseIds } } } } },
+    select: { id: true },
+  });
+
+  return [...new Set([...caseIds, ...members.map((member) => member.id)])];
+}
@@ -0,0 +1,367 @@
+// Case Submission Service - Draft cases and the submission step shared by every entry point
+// Clients can save an application as a DRAFT (invisible to staff), autosave it and submit it
+// later. A case is only announced and auto-assigned once it reaches SUBMITTED, whether it was
+// submitted straight away (POST /api/cases) or from a draft (POST /api/cases/[id]/submit)
+
+import type { Case, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { shouldBypassPayment } from '@/lib/utils/payment';
+import { sendEmail } from '@/lib/notifications/email.service';
+import { sendPushNotificationToUser } from '@/lib/notifications/expo-push.service';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import { getCaseSubmissionConfirmationEmailTemplate } from '@/lib/notifications/email-templates';
+import { getStorageDriver, resolveStorageLocation } from '@/lib/storage';
+import { autoAssignCase } from './case-assignment.service';
+import { instantiateTaskTemplates } from './case-task.service';
+import { validateCaseIntake } from './intake-form.service';
+
+// Drafts untouched for this long are deleted (CASE_DRAFT_TTL_DAYS)
+const DEFAULT_DRAFT_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Spread into staff-facing case queries - drafts belong to the client until submitted
+export const SUBMITTED_CASES_FILTER = {
+  NOT: { status: 'DRAFT' },
+} satisfies Prisma.CaseWhereInput;
+
+export interface DraftUpdate {
+  serviceType?: Case['serviceType'];
+  destinationId?: string;
+  priority?: Case['priority'];
+  formData?: Record<string, unknown>;
+}
+
+type CaseWithClient = Case & {
+  client: { id: string; email: string; firstName: string; lastName: string };
+};
+
+export function getDraftExpiry(from: Date = new Date()): Date {
+  const days = Number(process.env.CASE_DRAFT_TTL_DAYS) || DEFAULT_DRAFT_TTL_DAYS;
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+/**
+ * Only active destinations can take new cases
+ */
+export async function assertDestinationAvailable(destinationId: unknown): Promise<void> {
+  if (!destinationId || typeof destinationId !== 'string') {
+    throw new ApiError('destinationId is required', HttpStatus.BAD_REQUEST);
+  }
+
+  const destination = await prisma.destination.findUnique({
+    where: { id: destinationId },
+    select: { id: true, isActive: true },
+  });
+
+  if (!destination || destination.isActive === false) {
+    throw new ApiError('Invalid destination', HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Clients must have paid before submitting (AGENT and ADMIN bypass payment requirement)
+ * Drafts can be started without paying - the check happens on submission
+ */
+export async function assertCanSubmitCase(user: { userId: string; role: Role }): Promise<void> {
+  if (shouldBypassPayment(user.role)) {
+    return;
+  }
+
+  const client = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: { hasPaid: true },
+  });
+
+  if (!client) {
+    throw new ApiError('User not found', HttpStatus.NOT_FOUND);
+  }
+
+  if (!client.hasPaid) {
+    logger.warn('Case submission blocked - user has not paid', {
+      userId: user.userId,
+      role: user.role,
+    });
+    throw new ApiError(
+      'Payment required. Please complete your subscription payment before submitting a case.',
+      HttpStatus.FORBIDDEN
+    );
+  }
+}
+
+/**
+ * Confirmation email, push and realtime notification for a newly submitted case
+ */
+async function notifyCaseSubmitted(newCase: CaseWithClient): Promise<void> {
+  const { referenceNumber } = newCase;
+
+  try {
+    const clientFullName = `${newCase.client.firstName} ${newCase.client.lastName}`;
+
+    // Get email templates
+    const clientEmailTemplate = getCaseSubmissionConfirmationEmailTemplate({
+      clientName: clientFullName,
+      caseReference: referenceNumber,
+      serviceType: newCase.serviceType,
+      caseId: newCase.id,
+    });
+
+    // Get all admin users for notification
+    // const adminUsers = await prisma.user.findMany({
+    //   where: { role: 'ADMIN', isActive: true },
+    //   select: { id: true, email: true },
+    // });
+
+    const notificationPromises = [
+      // 1. Send confirmation email to CLIENT
+      sendEmail({
+        to: newCase.client.email,
+        subject: clientEmailTemplate.subject,
+        html: clientEmailTemplate.html,
+      }),
+
+      // 2. Send mobile push notification to CLIENT
+      (async () => {
+        let badge: number | undefined;
+        try {
+          const unread = await prisma.notification.count({
+            where: { userId: newCase.clientId, isRead: false },
+          });
+          badge = unread > 0 ? unread : undefined;
+        } catch {}
+        await sendPushNotificationToUser(newCase.clientId, {
+          title: 'Case Submitted',
+          body: `Your case ${referenceNumber} has been submitted.`,
+          data: {
+            type: 'CASE_SUBMITTED',
+            caseId: newCase.id,
+            actionUrl: NOTIFICATION_ACTION_URLS.CASE_SUBMISSION(newCase.id),
+            screen: 'cases',
+            params: { caseId: newCase.id },
+          },
+          badge,
+          channelId: 'cases',
+        });
+      })(),
+
+      // 3. Send realtime notification to CLIENT
+      createRealtimeNotification(newCase.clientId, {
+        type: 'CASE_STATUS_UPDATE',
+        title: 'Case Submitted',
+        message: `Your case ${referenceNumber} has been successfully submitted`,
+        actionUrl: NOTIFICATION_ACTION_URLS.CASE_SUBMISSION(newCase.id),
+      }),
+    ];
+
+    // 4. Notify all ADMIN users (Dashboard + Push only, NO email for scalability)
+    // for (const admin of adminUsers) {
+    //   notificationPromises.push(
+    //     // Send realtime web dashboard notification to admin
+    //     createRealtimeNotification(admin.id, {
+    //       type: 'CASE_STATUS_UPDATE',
+    //       title: 'New Case Submitted',
+    //       message: `${clientFullName} submitted case ${referenceNumber}`,
+    //       actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(newCase.id),
+    //     }),
+
+    //     // Send mobile push notification to admin
+    //     (async () => {
+    //       let badge: number | undefined;
+    //       try {
+    //         const unread = await prisma.notification.count({
+    //           where: { userId: admin.id, isRead: false },
+    //         });
+    //         badge = unread > 0 ? unread : undefined;
+    //       } catch {}
+    //       await sendPushNotificationToUser(admin.id, {
+    //         title: 'New Case Submitted',
+    //         body: `${clientFullName} submitted ${serviceType.replace(/_/g, ' ')} case.`,
+    //         data: {
+    //           type: 'NEW_CASE_ADMIN',
+    //           caseId: newCase.id,
+    //           actionUrl: NOTIFICATION_ACTION_URLS.CASE_DETAILS(newCase.id),
+    //           screen: 'cases',
+    //           params: { caseId: newCase.id },
+    //         },
+    //         badge,
+    //         channelId: 'cases',
+    //       });
+    //     })()
+    //   );
+    // }
+
+    await Promise.all(notificationPromises);
+
+    logger.info('Case submission notifications sent', {
+      caseId: newCase.id,
+      clientEmail: newCase.client.email,
+      // adminCount: adminUsers.length,
+    });
+  } catch (error) {
+    logger.error('Failed to send case submission notifications', error, {
+      caseId: newCase.id,
+      clientId: newCase.clientId,
+    });
+    // Don't fail the case creation if notifications fail
+  }
+}
+
+/**
+ * Everything that follows a case reaching SUBMITTED: notifications, templated tasks, then
+ * auto-assignment
+ * Returns the assigned agent (if any)
+ */
+export async function completeCaseSubmission(newCase: CaseWithClient): Promise<string | null> {
+  await notifyCaseSubmitted(newCase);
+  await instantiateTaskTemplates(newCase.id, 'SUBMITTED');
+
+  // Hand the case to an agent straight away when auto-assignment is on for its service type
+  try {
+    const assignment = await autoAssignCase(newCase.id, newCase.clientId);
+    return assignment?.agentId ?? newCase.assignedAgentId;
+  } catch (error) {
+    logger.error('Failed to auto-assign case', error, { caseId: newCase.id });
+    // Don't fail the case creation - admins can still assign it manually
+    return newCase.assignedAgentId;
+  }
+}
+
+/**
+ * Load a draft owned by the client, refusing anything already submitted
+ */
+export async function getOwnDraft(caseId: string, clientId: string) {
+  const draft = await prisma.case.findUnique({
+    where: { id: caseId },
+    include: { formData: true },
+  });
+
+  if (!draft || draft.clientId !== clientId) {
+    throw new ApiError('Draft not found', HttpStatus.NOT_FOUND);
+  }
+  if (draft.status !== 'DRAFT') {
+    throw new ApiError('This case has already been submitted', HttpStatus.CONFLICT);
+  }
+
+  return draft;
+}
+
+/**
+ * Autosave - store the partial answers as given and push the expiry back
+ * Answers are only validated against the intake form on submission
+ */
+export async function updateDraft(caseId: string, clientId: string, update: DraftUpdate) {
+  await getOwnDraft(caseId, clientId);
+
+  if (update.destinationId !== undefined) {
+    await assertDestinationAvailable(update.destinationId);
+  }
+
+  const { formData, ...fields } = update;
+
+  return prisma.case.update({
+    where: { id: caseId },
+    data: {
+      ...fields,
+      draftExpiresAt: getDraftExpiry(),
+      ...(formData && {
+        formData: {
+          upsert: {
+            create: { data: formData as Prisma.InputJsonValue },
+            update: { data: formData as Prisma.InputJsonValue, schemaId: null },
+          },
+        },
+      }),
+    },
+    include: { formData: true },
+  });
+}
+
+/**
+ * Turn a draft into a SUBMITTED case - same checks and side effects as a direct submission
+ */
+export async function submitDraft(caseId: string, user: { userId: string; role: Role }) {
+  const draft = await getOwnDraft(caseId, user.userId);
+
+  await assertDestinationAvailable(draft.destinationId);
+  await assertCanSubmitCase(user);
+
+  const intake = await validateCaseIntake(
+    draft.serviceType,
+    draft.destinationId,
+    draft.formData?.data ?? undefined
+  );
+
+  const submitted = await prisma.$transaction(async (tx) => {
+    // Guard against a double submit racing this one
+    const updated = await tx.case.updateMany({
+      where: { id: caseId, status: 'DRAFT' },
+      data: { status: 'SUBMITTED', submissionDate: new Date(), draftExpiresAt: null },
+    });
+
+    if (updated.count === 0) {
+      throw new ApiError('This case has already been submitted', HttpStatus.CONFLICT);
+    }
+
+    if (intake) {
+      const data = intake.data as Prisma.InputJsonValue;
+      await tx.caseFormData.upsert({
+        where: { caseId },
+        create: { caseId, schemaId: intake.schemaId, data },
+        update: { schemaId: intake.schemaId, data },
+      });
+    }
+
+    await tx.statusHistory.create({
+      data: {
+        caseId,
+        status: 'SUBMITTED',
+        changedBy: user.userId,
+        notes: 'Submitted from draft',
+      },
+    });
+
+    return tx.case.findUniqueOrThrow({
+      where: { id: caseId },
+      include: {
+        client: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+    });
+  });
+
+  logger.info('Draft case submitted', {
+    caseId,
+    userId: user.userId,
+    referenceNumber: submitted.referenceNumber,
+  });
+
+  const assignedAgentId = await completeCaseSubmission(submitted);
+
+  return { ...submitted, assignedAgentId };
+}
+
+/**
+ * Delete a draft and its uploaded files
+ * File removal is best-effort - a missing object must not keep the draft alive
+ */
+export async function deleteDraft(caseId: string): Promise<void> {
+  const documents = await prisma.document.findMany({
+    where: { caseId },
+    select: { id: true, filePath: true, storageProvider: true, storageKey: true },
+  });
+
+  for (const document of documents) {
+    const location = resolveStorageLocation(document);
+    if (!location) {
+      continue;
+    }
+    await getStorageDriver(location.provider)
+      .delete(location.key)
+      .catch((error) => {
+        logger.warn('Failed to delete draft document file', { error, documentId: document.id });
+      });
+  }
+
+  await prisma.case.delete({ where: { id: caseId } });
+}
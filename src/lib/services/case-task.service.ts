@@ -0,0 +1,146 @@
+// Case Task Service - Internal to-dos agents keep per case
+// Tasks are staff only. Templates per service type add tasks automatically when a case is
+// submitted or moves to a new status; the task-reminders cron flags the ones left overdue
+
+import type { CaseStatus, Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { requirePermission } from '@/lib/auth/require-permission';
+import { isCaseHandler } from './agent-absence.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Finished cases keep their tasks but no longer raise reminders
+export const CLOSED_CASE_STATUSES: CaseStatus[] = ['APPROVED', 'REJECTED', 'CLOSED'];
+
+const userSelect = { id: true, firstName: true, lastName: true } as const;
+
+export const CASE_TASK_INCLUDE = {
+  assignee: { select: userSelect },
+  case: {
+    select: {
+      id: true,
+      referenceNumber: true,
+      status: true,
+      client: { select: userSelect },
+    },
+  },
+} satisfies Prisma.CaseTaskInclude;
+
+/**
+ * Tasks a user has to do: assigned to them, or unassigned on a case they handle
+ */
+export function myTasksFilter(userId: string) {
+  return {
+    OR: [
+      { assigneeId: userId },
+      {
+        assigneeId: null,
+        case: { OR: [{ assignedAgentId: userId }, { coveringAgentId: userId }] },
+      },
+    ],
+  } satisfies Prisma.CaseTaskWhereInput;
+}
+
+/**
+ * Only ADMIN or the agent handling the case can see and edit its tasks, given case.task.manage
+ * Drafts have no tasks - they are not visible to staff yet
+ */
+export async function assertCanManageCaseTasks(
+  caseId: string,
+  user: { userId: string; role: Role }
+) {
+  await requirePermission(user, 'case.task.manage');
+
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: { id: true, status: true, assignedAgentId: true, coveringAgentId: true },
+  });
+
+  if (!caseData || caseData.status === 'DRAFT') {
+    throw new ApiError(ERROR_MESSAGES.NOT_FOUND, HttpStatus.NOT_FOUND);
+  }
+
+  if (user.role !== 'ADMIN' && !isCaseHandler(caseData, user.userId)) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  return caseData;
+}
+
+/**
+ * Tasks can only be given to active staff
+ */
+export async function assertAssignableUser(userId: string): Promise<void> {
+  const assignee = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, isActive: true },
+  });
+
+  if (!assignee || !assignee.isActive || !['AGENT', 'ADMIN'].includes(assignee.role)) {
+    throw new ApiError('Tasks can only be assigned to active agents', HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Add the tasks templated for the case's service type and new status
+ * A template whose previous task on this case is still open is not added again, so a case
+ * bouncing between statuses does not pile up duplicates
+ * Best-effort - a failure is logged and never blocks the status change
+ */
+export async function instantiateTaskTemplates(
+  caseId: string,
+  status: CaseStatus,
+  createdById?: string
+): Promise<number> {
+  try {
+    const caseData = await prisma.case.findUnique({
+      where: { id: caseId },
+      select: { serviceType: true },
+    });
+
+    if (!caseData) {
+      return 0;
+    }
+
+    const templates = await prisma.caseTaskTemplate.findMany({
+      where: { serviceType: caseData.serviceType, triggerStatus: status, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (templates.length === 0) {
+      return 0;
+    }
+
+    const openTasks = await prisma.caseTask.findMany({
+      where: { caseId, isDone: false, templateId: { in: templates.map((t) => t.id) } },
+      select: { templateId: true },
+    });
+    const openTemplateIds = new Set(openTasks.map((task) => task.templateId));
+
+    const now = Date.now();
+    const created = await prisma.caseTask.createMany({
+      data: templates
+        .filter((template) => !openTemplateIds.has(template.id))
+        .map((template) => ({
+          caseId,
+          templateId: template.id,
+          title: template.title,
+          description: template.description,
+          dueAt: template.dueInDays !== null ? new Date(now + template.dueInDays * DAY_MS) : null,
+          createdById: createdById ?? null,
+        })),
+    });
+
+    if (created.count > 0) {
+      logger.info('Case tasks created from templates', { caseId, status, count: created.count });
+    }
+
+    return created.count;
+  } catch (error) {
+    logger.error('Failed to create case tasks from templates', error, { caseId, status });
+    return 0;
+  }
+}
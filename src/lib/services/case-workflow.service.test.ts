@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { CaseStatus, ServiceType } from '@prisma/client';
+import { Role } from '@/lib/types';
+import { ApiError } from '@/lib/utils/error-handler';
+import {
+  assertTransitionAllowed,
+  getAvailableTransitions,
+  getTransitionError,
+  getWorkflow,
+  type WorkflowCaseContext,
+} from './case-workflow.service';
+
+function caseContext(overrides: Partial<WorkflowCaseContext> = {}): WorkflowCaseContext {
+  return {
+    status: 'UNDER_REVIEW',
+    serviceType: 'TOURIST_VISA',
+    assignedAgentId: 'agent-1',
+    documents: [{ status: 'APPROVED' }],
+    ...overrides,
+  };
+}
+
+describe('getWorkflow', () => {
+  it('lets drafts and closed cases leave only through dedicated endpoints', () => {
+    const workflow = getWorkflow('TOURIST_VISA');
+    expect(workflow.DRAFT).toEqual([]);
+    expect(workflow.CLOSED).toEqual([]);
+  });
+
+  it.each<ServiceType>(['STUDENT_VISA', 'WORK_PERMIT', 'PERMANENT_RESIDENCY'])(
+    'sends %s cases through processing before approval',
+    (serviceType) => {
+      const targets = getWorkflow(serviceType).UNDER_REVIEW.map((t) => t.to);
+      expect(targets).not.toContain('APPROVED');
+      expect(targets).toContain('PROCESSING');
+    }
+  );
+
+  it('allows approval straight from review for other service types', () => {
+    const targets = getWorkflow('BUSINESS_VISA').UNDER_REVIEW.map((t) => t.to);
+    expect(targets).toContain('APPROVED');
+  });
+
+  it('only targets statuses that exist in the graph', () => {
+    const workflow = getWorkflow('FAMILY_REUNIFICATION');
+    const statuses = Object.keys(workflow) as CaseStatus[];
+    for (const transitions of Object.values(workflow)) {
+      for (const transition of transitions) {
+        expect(statuses).toContain(transition.to);
+      }
+    }
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  it('hides admin-only transitions from agents', () => {
+    const context = caseContext({ status: 'SUBMITTED' });
+
+    const forAgent = getAvailableTransitions(context, Role.AGENT).map((t) => t.status);
+    const forAdmin = getAvailableTransitions(context, Role.ADMIN).map((t) => t.status);
+
+    expect(forAgent).not.toContain('CLOSED');
+    expect(forAdmin).toContain('CLOSED');
+  });
+
+  it('blocks review until an agent is assigned', () => {
+    const [review] = getAvailableTransitions(
+      caseContext({ status: 'SUBMITTED', assignedAgentId: null }),
+      Role.ADMIN
+    ).filter((t) => t.status === 'UNDER_REVIEW');
+
+    expect(review.allowed).toBe(false);
+    expect(review.blockedReasons).toEqual(['The case must be assigned to an agent first']);
+  });
+
+  it('requires at least one document, all of them approved', () => {
+    const processing = (documents: WorkflowCaseContext['documents']) =>
+      getAvailableTransitions(caseContext({ documents }), Role.AGENT).find(
+        (t) => t.status === 'PROCESSING'
+      );
+
+    expect(processing([])?.allowed).toBe(false);
+    expect(processing([{ status: 'APPROVED' }, { status: 'PENDING' }])?.allowed).toBe(false);
+    expect(processing([{ status: 'APPROVED' }, { status: 'APPROVED' }])?.allowed).toBe(true);
+  });
+});
+
+describe('getTransitionError', () => {
+  it('refuses a transition to the current status', () => {
+    expect(getTransitionError(caseContext(), 'UNDER_REVIEW', Role.ADMIN)).toBe(
+      'Case is already under review'
+    );
+  });
+
+  it('refuses transitions missing from the graph', () => {
+    expect(getTransitionError(caseContext({ status: 'APPROVED' }), 'PROCESSING', Role.ADMIN)).toBe(
+      'Cannot move a case from APPROVED to PROCESSING'
+    );
+  });
+
+  it('returns null for a legal transition', () => {
+    expect(getTransitionError(caseContext(), 'APPROVED', Role.AGENT)).toBeNull();
+  });
+});
+
+describe('assertTransitionAllowed', () => {
+  it('throws a 422 ApiError for refused transitions', () => {
+    expect(() =>
+      assertTransitionAllowed(caseContext({ status: 'CLOSED' }), 'SUBMITTED', Role.ADMIN)
+    ).toThrow(ApiError);
+
+    try {
+      assertTransitionAllowed(caseContext({ status: 'CLOSED' }), 'SUBMITTED', Role.ADMIN);
+    } catch (error) {
+      expect((error as ApiError).statusCode).toBe(422);
+    }
+  });
+});
@@ -0,0 +1,214 @@
+// Case Workflow Service - Declarative case status state machine
+// Defines which status transitions are legal per service type and evaluates guard conditions
+
+import type { CaseStatus, DocumentStatus, Prisma, ServiceType } from '@prisma/client';
+import { Role } from '@/lib/types';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { CLEARED_SLA_FIELDS } from '@/lib/services/sla-policy.service';
+
+/**
+ * Guard conditions that must hold before a transition can be taken
+ * - ALL_DOCUMENTS_APPROVED: the case has at least one document and none are pending/rejected
+ * - AGENT_ASSIGNED: the case has an assigned agent
+ */
+export type TransitionGuard = 'ALL_DOCUMENTS_APPROVED' | 'AGENT_ASSIGNED';
+
+export interface StatusTransition {
+  to: CaseStatus;
+  guards?: TransitionGuard[];
+  adminOnly?: boolean; // Only administrators may take this transition
+}
+
+export type CaseWorkflow = Record<CaseStatus, StatusTransition[]>;
+
+/**
+ * Default transition graph, used by every service type without an override
+ */
+const DEFAULT_WORKFLOW: CaseWorkflow = {
+  // Drafts only leave through POST /api/cases/[id]/submit
+  DRAFT: [],
+  SUBMITTED: [
+    { to: 'UNDER_REVIEW', guards: ['AGENT_ASSIGNED'] },
+    { to: 'DOCUMENTS_REQUIRED' },
+    { to: 'REJECTED' },
+    { to: 'CLOSED', adminOnly: true },
+  ],
+  UNDER_REVIEW: [
+    { to: 'DOCUMENTS_REQUIRED' },
+    { to: 'PROCESSING', guards: ['ALL_DOCUMENTS_APPROVED'] },
+    { to: 'APPROVED', guards: ['ALL_DOCUMENTS_APPROVED'] },
+    { to: 'REJECTED' },
+  ],
+  DOCUMENTS_REQUIRED: [
+    { to: 'UNDER_REVIEW' },
+    { to: 'PROCESSING', guards: ['ALL_DOCUMENTS_APPROVED'] },
+    { to: 'REJECTED' },
+    { to: 'CLOSED', adminOnly: true },
+  ],
+  PROCESSING: [
+    { to: 'DOCUMENTS_REQUIRED' },
+    { to: 'APPROVED', guards: ['ALL_DOCUMENTS_APPROVED'] },
+    { to: 'REJECTED' },
+  ],
+  APPROVED: [{ to: 'CLOSED' }],
+  REJECTED: [{ to: 'CLOSED' }],
+  CLOSED: [],
+};
+
+/**
+ * Service types that must always pass through PROCESSING before a decision
+ * (no direct UNDER_REVIEW -> APPROVED shortcut)
+ */
+const STRICT_PROCESSING_WORKFLOW: CaseWorkflow = {
+  ...DEFAULT_WORKFLOW,
+  UNDER_REVIEW: DEFAULT_WORKFLOW.UNDER_REVIEW.filter((t) => t.to !== 'APPROVED'),
+};
+
+/**
+ * Per-service-type overrides of the default graph
+ */
+const SERVICE_TYPE_WORKFLOWS: Partial<Record<ServiceType, CaseWorkflow>> = {
+  STUDENT_VISA: STRICT_PROCESSING_WORKFLOW,
+  WORK_PERMIT: STRICT_PROCESSING_WORKFLOW,
+  PERMANENT_RESIDENCY: STRICT_PROCESSING_WORKFLOW,
+};
+
+export const GUARD_FAILURE_MESSAGES: Record<TransitionGuard, string> = {
+  ALL_DOCUMENTS_APPROVED: 'All documents must be approved first',
+  AGENT_ASSIGNED: 'The case must be assigned to an agent first',
+};
+
+/**
+ * Minimal case shape needed to evaluate transitions
+ */
+export interface WorkflowCaseContext {
+  status: CaseStatus;
+  serviceType: ServiceType;
+  assignedAgentId: string | null;
+  documents: { status: DocumentStatus }[];
+}
+
+export interface EvaluatedTransition {
+  status: CaseStatus;
+  allowed: boolean;
+  blockedReasons: string[];
+}
+
+/**
+ * Get the transition graph for a service type
+ */
+export function getWorkflow(serviceType: ServiceType): CaseWorkflow {
+  return SERVICE_TYPE_WORKFLOWS[serviceType] ?? DEFAULT_WORKFLOW;
+}
+
+function isGuardSatisfied(guard: TransitionGuard, caseContext: WorkflowCaseContext): boolean {
+  switch (guard) {
+    case 'ALL_DOCUMENTS_APPROVED':
+      return (
+        caseContext.documents.length > 0 &&
+        caseContext.documents.every((doc) => doc.status === 'APPROVED')
+      );
+    case 'AGENT_ASSIGNED':
+      return !!caseContext.assignedAgentId;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate every outgoing transition from the case's current status
+ * Transitions restricted to admins are omitted for other roles
+ */
+export function getAvailableTransitions(
+  caseContext: WorkflowCaseContext,
+  role: Role
+): EvaluatedTransition[] {
+  const transitions = getWorkflow(caseContext.serviceType)[caseContext.status] ?? [];
+
+  return transitions
+    .filter((transition) => !transition.adminOnly || role === Role.ADMIN)
+    .map((transition) => {
+      const blockedReasons = (transition.guards ?? [])
+        .filter((guard) => !isGuardSatisfied(guard, caseContext))
+        .map((guard) => GUARD_FAILURE_MESSAGES[guard]);
+
+      return {
+        status: transition.to,
+        allowed: blockedReasons.length === 0,
+        blockedReasons,
+      };
+    });
+}
+
+/**
+ * Check a single transition, returning the reason it is refused (or null if legal)
+ */
+export function getTransitionError(
+  caseContext: WorkflowCaseContext,
+  targetStatus: CaseStatus,
+  role: Role
+): string | null {
+  if (caseContext.status === targetStatus) {
+    return `Case is already ${targetStatus.replace(/_/g, ' ').toLowerCase()}`;
+  }
+
+  const transition = getAvailableTransitions(caseContext, role).find(
+    (t) => t.status === targetStatus
+  );
+
+  if (!transition) {
+    return `Cannot move a case from ${caseContext.status} to ${targetStatus}`;
+  }
+
+  if (!transition.allowed) {
+    return transition.blockedReasons.join('. ');
+  }
+
+  return null;
+}
+
+/**
+ * Throw an ApiError if the transition is not permitted by the workflow
+ */
+export function assertTransitionAllowed(
+  caseContext: WorkflowCaseContext,
+  targetStatus: CaseStatus,
+  role: Role
+): void {
+  const error = getTransitionError(caseContext, targetStatus, role);
+  if (error) {
+    throw new ApiError(error, HttpStatus.UNPROCESSABLE_ENTITY);
+  }
+}
+
+export const STATUS_CONFLICT_MESSAGE =
+  'The case status was changed by someone else. Reload the case and try again.';
+
+/**
+ * Write a status change only if the case is still in the status the transition was checked
+ * against, so two concurrent requests cannot both pass the check and chain illegal transitions
+ * Every status change restarts the SLA clock and is recorded in the status history
+ * Returns false (and writes nothing) when the case moved in the meantime
+ */
+export async function transitionCaseStatus(
+  db: Prisma.TransactionClient,
+  caseId: string,
+  fromStatus: CaseStatus,
+  toStatus: CaseStatus,
+  history: { changedBy: string; notes?: string | null }
+): Promise<boolean> {
+  const result = await db.case.updateMany({
+    where: { id: caseId, status: fromStatus },
+    data: { status: toStatus, ...CLEARED_SLA_FIELDS },
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await db.statusHistory.create({
+    data: { caseId, status: toStatus, changedBy: history.changedBy, notes: history.notes },
+  });
+
+  return true;
+}
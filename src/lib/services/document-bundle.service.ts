@@ -0,0 +1,413 @@
+// Document Bundle Service - All documents of a case as one download (embassy submissions)
+// ZIP bundles are streamed: files are fetched from storage one at a time and only read
+// when the client consumes the previous entry, with a manifest.csv written last.
+// PDF bundles merge everything behind a cover page and a table of contents; images get a
+// page each and files that cannot be converted (Word...) get a placeholder page. pdf-lib
+// builds the PDF in memory, so PDF bundles are capped at MAX_PDF_BUNDLE_BYTES
+
+import { once } from 'events';
+import { Readable } from 'stream';
+import { ZipArchive } from 'archiver';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import sharp from 'sharp';
+import type { Document, DocumentStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { sanitizeFilename } from '@/lib/utils/file-validation';
+import { getStorageDriver, resolveStorageLocation } from '@/lib/storage';
+import { LATEST_VERSION_FILTER } from './document-version.service';
+
+export type BundleFormat = 'zip' | 'pdf';
+
+export type BundleDocument = Pick<
+  Document,
+  | 'id'
+  | 'originalName'
+  | 'fileName'
+  | 'filePath'
+  | 'storageProvider'
+  | 'storageKey'
+  | 'mimeType'
+  | 'documentType'
+  | 'status'
+  | 'version'
+  | 'fileSize'
+  | 'uploadDate'
+  | 'verifiedAt'
+  | 'expiresAt'
+>;
+
+export interface BundleCase {
+  referenceNumber: string;
+  serviceType: string;
+  client: { firstName: string; lastName: string };
+}
+
+export const DEFAULT_BUNDLE_STATUSES: DocumentStatus[] = ['APPROVED'];
+
+// Sum of source file sizes accepted for a merged PDF - larger cases should use the ZIP
+export const MAX_PDF_BUNDLE_BYTES = 100 * 1024 * 1024;
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const TOC_LINES_PER_PAGE = 32;
+
+/**
+ * Latest version of each case document with one of the given statuses
+ * Quarantined files are never bundled
+ */
+export async function getBundleDocuments(
+  caseId: string,
+  statuses: DocumentStatus[] = DEFAULT_BUNDLE_STATUSES
+): Promise<BundleDocument[]> {
+  return prisma.document.findMany({
+    where: {
+      caseId,
+      ...LATEST_VERSION_FILTER,
+      status: { in: statuses.filter((status) => status !== 'QUARANTINED') },
+    },
+    select: {
+      id: true,
+      originalName: true,
+      fileName: true,
+      filePath: true,
+      storageProvider: true,
+      storageKey: true,
+      mimeType: true,
+      documentType: true,
+      status: true,
+      version: true,
+      fileSize: true,
+      uploadDate: true,
+      verifiedAt: true,
+      expiresAt: true,
+    },
+    orderBy: [{ documentType: 'asc' }, { uploadDate: 'asc' }],
+  });
+}
+
+async function readDocumentFile(document: BundleDocument): Promise<Buffer> {
+  const location = resolveStorageLocation(document);
+  if (!location) {
+    throw new Error('Document file location is unknown');
+  }
+  return getStorageDriver(location.provider).get(location.key);
+}
+
+function escapeCsvField(field: unknown): string {
+  if (field === null || field === undefined) return '';
+  const str = String(field);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Unique, filesystem-safe entry name: "01-PASSPORT-passport_scan.pdf"
+ */
+function zipEntryName(document: BundleDocument, index: number, total: number): string {
+  const position = String(index + 1).padStart(String(total).length, '0');
+  const name = sanitizeFilename(document.originalName || document.fileName) || 'document';
+  return `${position}-${document.documentType}-${name}`;
+}
+
+/**
+ * Stream a ZIP of the documents plus manifest.csv
+ * Files that cannot be read are left out and flagged in the manifest
+ */
+export function createZipBundle(documents: BundleDocument[]): ReadableStream<Uint8Array> {
+  const archive = new ZipArchive({ zlib: { level: 6 } });
+
+  const run = async () => {
+    const manifest = [
+      [
+        'File',
+        'Document Type',
+        'Status',
+        'Version',
+        'Original Name',
+        'Size (bytes)',
+        'Uploaded At',
+        'Verified At',
+        'Expires At',
+        'Included',
+      ].join(','),
+    ];
+
+    for (const [index, document] of documents.entries()) {
+      const name = zipEntryName(document, index, documents.length);
+      let included = true;
+
+      try {
+        const body = await readDocumentFile(document);
+        archive.append(body, { name, date: document.uploadDate });
+        // Wait for the entry to be written before fetching the next file
+        await once(archive, 'entry');
+      } catch (error) {
+        included = false;
+        logger.warn('Document left out of bundle', { error, documentId: document.id });
+      }
+
+      manifest.push(
+        [
+          included ? name : '',
+          document.documentType,
+          document.status,
+          document.version,
+          document.originalName,
+          document.fileSize,
+          document.uploadDate.toISOString(),
+          document.verifiedAt?.toISOString(),
+          document.expiresAt?.toISOString(),
+          included ? 'yes' : 'no - file unavailable',
+        ]
+          .map(escapeCsvField)
+          .join(',')
+      );
+    }
+
+    archive.append(manifest.join('\n'), { name: 'manifest.csv' });
+    await archive.finalize();
+  };
+
+  run().catch((error) => {
+    logger.error('Failed to build document bundle', error);
+    archive.destroy(error);
+  });
+
+  return Readable.toWeb(archive) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Standard PDF fonts only cover WinAnsi - replace anything else
+ */
+function pdfText(value: string): string {
+  return value.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function truncateToWidth(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let result = pdfText(text);
+  if (font.widthOfTextAtSize(result, size) <= maxWidth) {
+    return result;
+  }
+  while (result.length > 1 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}...`;
+}
+
+function addPlaceholderPage(
+  pdf: PDFDocument,
+  font: PDFFont,
+  document: BundleDocument,
+  reason: string
+): void {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  page.drawText(truncateToWidth(document.originalName, font, 16, PAGE_WIDTH - 2 * MARGIN), {
+    x: MARGIN,
+    y: PAGE_HEIGHT / 2 + 20,
+    size: 16,
+    font,
+  });
+  page.drawText(pdfText(reason), {
+    x: MARGIN,
+    y: PAGE_HEIGHT / 2 - 10,
+    size: 11,
+    font,
+    color: rgb(0.4, 0.4, 0.4),
+  });
+}
+
+/**
+ * Append a document's pages - PDFs are copied, images get a fitted A4 page
+ * Returns false when the file could only be represented by a placeholder
+ */
+async function appendDocument(
+  pdf: PDFDocument,
+  font: PDFFont,
+  document: BundleDocument,
+  body: Buffer
+): Promise<boolean> {
+  if (document.mimeType === 'application/pdf') {
+    const source = await PDFDocument.load(body, { ignoreEncryption: true });
+    const pages = await pdf.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => pdf.addPage(page));
+    return true;
+  }
+
+  if (document.mimeType.startsWith('image/')) {
+    const image =
+      document.mimeType === 'image/jpeg' || document.mimeType === 'image/jpg'
+        ? await pdf.embedJpg(body)
+        : await pdf.embedPng(await sharp(body).rotate().png().toBuffer());
+    const scale = Math.min(
+      (PAGE_WIDTH - 2 * MARGIN) / image.width,
+      (PAGE_HEIGHT - 2 * MARGIN) / image.height,
+      1
+    );
+    const width = image.width * scale;
+    const height = image.height * scale;
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawImage(image, {
+      x: (PAGE_WIDTH - width) / 2,
+      y: (PAGE_HEIGHT - height) / 2,
+      width,
+      height,
+    });
+    return true;
+  }
+
+  addPlaceholderPage(
+    pdf,
+    font,
+    document,
+    'This file type cannot be merged into the PDF - download it separately.'
+  );
+  return false;
+}
+
+function drawCoverPage(
+  page: PDFPage,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  caseData: BundleCase,
+  documentCount: number
+): void {
+  const lines: [string, string][] = [
+    ['Case', caseData.referenceNumber],
+    ['Client', `${caseData.client.firstName} ${caseData.client.lastName}`],
+    ['Service', caseData.serviceType.replace(/_/g, ' ')],
+    ['Documents', String(documentCount)],
+    ['Generated', new Date().toUTCString()],
+  ];
+
+  page.drawText('Document Bundle', {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 160,
+    size: 28,
+    font: fonts.bold,
+  });
+
+  lines.forEach(([label, value], index) => {
+    const y = PAGE_HEIGHT - 220 - index * 24;
+    page.drawText(`${label}:`, { x: MARGIN, y, size: 12, font: fonts.bold });
+    page.drawText(truncateToWidth(value, fonts.regular, 12, PAGE_WIDTH - 2 * MARGIN - 90), {
+      x: MARGIN + 90,
+      y,
+      size: 12,
+      font: fonts.regular,
+    });
+  });
+
+  page.drawText('Patrick Travel Services', {
+    x: MARGIN,
+    y: MARGIN,
+    size: 10,
+    font: fonts.regular,
+    color: rgb(0.4, 0.4, 0.4),
+  });
+}
+
+/**
+ * Merge the documents into one PDF: cover page, table of contents, then each document
+ */
+export async function createPdfBundle(
+  caseData: BundleCase,
+  documents: BundleDocument[]
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Document bundle - ${caseData.referenceNumber}`);
+  pdf.setCreator('Patrick Travel Services');
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  // Content first - the table of contents needs each document's page count
+  const entries: { document: BundleDocument; firstPage: number; note?: string }[] = [];
+
+  for (const document of documents) {
+    const firstPage = pdf.getPageCount();
+    let note: string | undefined;
+
+    try {
+      const body = await readDocumentFile(document);
+      if (!(await appendDocument(pdf, regular, document, body))) {
+        note = 'not convertible';
+      }
+    } catch (error) {
+      logger.warn('Document left out of PDF bundle', { error, documentId: document.id });
+      // Roll back pages added before the failure
+      while (pdf.getPageCount() > firstPage) {
+        pdf.removePage(pdf.getPageCount() - 1);
+      }
+      addPlaceholderPage(pdf, regular, document, 'This file could not be read or is damaged.');
+      note = 'unavailable';
+    }
+
+    entries.push({ document, firstPage, note });
+  }
+
+  const tocPageCount = Math.max(1, Math.ceil(entries.length / TOC_LINES_PER_PAGE));
+  const frontMatter = 1 + tocPageCount;
+
+  drawCoverPage(
+    pdf.insertPage(0, [PAGE_WIDTH, PAGE_HEIGHT]),
+    { regular, bold },
+    caseData,
+    entries.length
+  );
+
+  for (let tocIndex = 0; tocIndex < tocPageCount; tocIndex++) {
+    const page = pdf.insertPage(1 + tocIndex, [PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN - 20;
+
+    if (tocIndex === 0) {
+      page.drawText('Table of Contents', { x: MARGIN, y, size: 18, font: bold });
+    }
+    y -= 40;
+
+    const pageEntries = entries.slice(
+      tocIndex * TOC_LINES_PER_PAGE,
+      (tocIndex + 1) * TOC_LINES_PER_PAGE
+    );
+
+    for (const [offset, entry] of pageEntries.entries()) {
+      const number = tocIndex * TOC_LINES_PER_PAGE + offset + 1;
+      const pageLabel = String(entry.firstPage + frontMatter + 1);
+      const label = `${number}. ${entry.document.documentType.replace(/_/g, ' ')} - ${entry.document.originalName}${entry.note ? ` (${entry.note})` : ''}`;
+      const labelWidth = PAGE_WIDTH - 2 * MARGIN - 50;
+
+      page.drawText(truncateToWidth(label, regular, 11, labelWidth), {
+        x: MARGIN,
+        y,
+        size: 11,
+        font: regular,
+      });
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(pageLabel, 11),
+        y,
+        size: 11,
+        font: regular,
+      });
+      y -= 22;
+    }
+  }
+
+  // Page numbers in the footer
+  const pages = pdf.getPages();
+  pages.forEach((page, index) => {
+    const label = `${caseData.referenceNumber} - ${index + 1} / ${pages.length}`;
+    const { width } = page.getSize();
+    page.drawText(pdfText(label), {
+      x: width - MARGIN - regular.widthOfTextAtSize(pdfText(label), 8),
+      y: 20,
+      size: 8,
+      font: regular,
+      color: rgb(0.5, 0.5, 0.5),
+    });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,232 @@
+// Document Checklist Service - Computes which required documents a case still needs
+// Rules come from DocumentChecklistRule (service type + optional destination)
+
+import type {
+  DocumentChecklistRule,
+  DocumentStatus,
+  DocumentType,
+  ServiceType,
+} from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { LATEST_VERSION_FILTER } from './document-version.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ChecklistItemStatus =
+  | 'SATISFIED'
+  | 'PENDING_REVIEW'
+  | 'REJECTED'
+  | 'EXPIRED'
+  | 'MISSING';
+
+export interface ChecklistDocument {
+  id: string;
+  originalName: string;
+  documentType: DocumentType;
+  status: DocumentStatus;
+  uploadDate: Date;
+  expiresAt: Date | null;
+  rejectionReason: string | null;
+}
+
+export interface ChecklistItem {
+  ruleId: string;
+  documentType: DocumentType;
+  label: string | null;
+  description: string | null;
+  isRequired: boolean;
+  minCount: number;
+  maxAgeDays: number | null;
+  status: ChecklistItemStatus;
+  approvedCount: number;
+  pendingCount: number;
+  rejectedCount: number;
+  expiredCount: number;
+  documents: ChecklistDocument[];
+}
+
+export interface ChecklistSummary {
+  total: number;
+  required: number;
+  satisfied: number;
+  pending: number;
+  rejected: number;
+  expired: number;
+  missing: number;
+  progress: number; // Percentage of required items satisfied (0-100)
+  isComplete: boolean;
+}
+
+export interface CaseChecklist {
+  caseId: string;
+  serviceType: ServiceType;
+  destinationId: string | null;
+  items: ChecklistItem[];
+  summary: ChecklistSummary;
+}
+
+/**
+ * Load the active rules for a service type and destination
+ * Destination-specific rules replace the generic rule for the same document type
+ */
+export async function getChecklistRules(
+  serviceType: ServiceType,
+  destinationId: string | null
+): Promise<DocumentChecklistRule[]> {
+  const rules = await prisma.documentChecklistRule.findMany({
+    where: {
+      serviceType,
+      isActive: true,
+      OR: [{ destinationId: null }, ...(destinationId ? [{ destinationId }] : [])],
+    },
+    orderBy: [{ isRequired: 'desc' }, { documentType: 'asc' }],
+  });
+
+  const byDocumentType = new Map<DocumentType, DocumentChecklistRule>();
+  for (const rule of rules) {
+    const existing = byDocumentType.get(rule.documentType);
+    if (!existing || (!existing.destinationId && rule.destinationId)) {
+      byDocumentType.set(rule.documentType, rule);
+    }
+  }
+
+  return Array.from(byDocumentType.values());
+}
+
+/**
+ * Evaluate one rule against the case's documents
+ */
+function evaluateRule(
+  rule: DocumentChecklistRule,
+  documents: ChecklistDocument[],
+  now: Date
+): ChecklistItem {
+  const matching = documents.filter((doc) => doc.documentType === rule.documentType);
+  // A document is stale when past its own expiry date or older than the rule allows
+  const isExpired = (doc: ChecklistDocument) =>
+    (doc.expiresAt !== null && doc.expiresAt.getTime() <= now.getTime()) ||
+    (rule.maxAgeDays !== null &&
+      now.getTime() - doc.uploadDate.getTime() > rule.maxAgeDays * DAY_MS);
+
+  const current = matching.filter((doc) => !isExpired(doc));
+  const approvedCount = current.filter((doc) => doc.status === 'APPROVED').length;
+  const pendingCount = current.filter((doc) => doc.status === 'PENDING').length;
+  const rejectedCount = current.filter((doc) => doc.status === 'REJECTED').length;
+  const expiredCount = matching.length - current.length;
+
+  let status: ChecklistItemStatus;
+  if (approvedCount >= rule.minCount) {
+    status = 'SATISFIED';
+  } else if (approvedCount + pendingCount >= rule.minCount) {
+    status = 'PENDING_REVIEW';
+  } else if (rejectedCount > 0) {
+    status = 'REJECTED';
+  } else if (expiredCount > 0) {
+    status = 'EXPIRED';
+  } else {
+    status = 'MISSING';
+  }
+
+  return {
+    ruleId: rule.id,
+    documentType: rule.documentType,
+    label: rule.label,
+    description: rule.description,
+    isRequired: rule.isRequired,
+    minCount: rule.minCount,
+    maxAgeDays: rule.maxAgeDays,
+    status,
+    approvedCount,
+    pendingCount,
+    rejectedCount,
+    expiredCount,
+    documents: matching,
+  };
+}
+
+/**
+ * Evaluate a set of rules against documents (pure - no database access)
+ */
+export function evaluateChecklist(
+  rules: DocumentChecklistRule[],
+  documents: ChecklistDocument[],
+  now: Date = new Date()
+): { items: ChecklistItem[]; summary: ChecklistSummary } {
+  const items = rules.map((rule) => evaluateRule(rule, documents, now));
+  const required = items.filter((item) => item.isRequired);
+  const countRequired = (status: ChecklistItemStatus) =>
+    required.filter((item) => item.status === status).length;
+
+  const satisfied = countRequired('SATISFIED');
+
+  return {
+    items,
+    summary: {
+      total: items.length,
+      required: required.length,
+      satisfied,
+      pending: countRequired('PENDING_REVIEW'),
+      rejected: countRequired('REJECTED'),
+      expired: countRequired('EXPIRED'),
+      missing: countRequired('MISSING'),
+      progress: required.length === 0 ? 100 : Math.round((satisfied / required.length) * 100),
+      isComplete: satisfied === required.length,
+    },
+  };
+}
+
+/**
+ * Compute the checklist for a case, or null if the case does not exist
+ */
+export async function getCaseChecklist(caseId: string): Promise<CaseChecklist | null> {
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: {
+      id: true,
+      serviceType: true,
+      destinationId: true,
+      documents: {
+        where: LATEST_VERSION_FILTER,
+        select: {
+          id: true,
+          originalName: true,
+          documentType: true,
+          status: true,
+          uploadDate: true,
+          expiresAt: true,
+          rejectionReason: true,
+        },
+        orderBy: { uploadDate: 'desc' },
+      },
+    },
+  });
+
+  if (!caseData) {
+    return null;
+  }
+
+  const rules = await getChecklistRules(caseData.serviceType, caseData.destinationId);
+  const { items, summary } = evaluateChecklist(rules, caseData.documents);
+
+  return {
+    caseId: caseData.id,
+    serviceType: caseData.serviceType,
+    destinationId: caseData.destinationId,
+    items,
+    summary,
+  };
+}
+
+/**
+ * Required document types that still need a (new) upload from the client
+ * Items awaiting review are excluded - the client has already done their part
+ */
+export function getOutstandingDocumentTypes(checklist: CaseChecklist): DocumentType[] {
+  return checklist.items
+    .filter(
+      (item) =>
+        item.isRequired &&
+        (item.status === 'MISSING' || item.status === 'REJECTED' || item.status === 'EXPIRED')
+    )
+    .map((item) => item.documentType);
+}
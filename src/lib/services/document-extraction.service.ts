@@ -0,0 +1,419 @@
+// Document Extraction Service - Reads identity data from PASSPORT / ID_CARD scans
+// The scan goes through OCR, the MRZ is located and its check digits validated, then the
+// fields are compared with the client's profile and the case form data. Mismatches are
+// flagged for the agent, who can correct the fields; a checksum-valid expiry date fills
+// in the document's expiresAt when the client did not provide one.
+// Extractions are queued when a document is saved and processed by the extraction cron
+
+import type { DocumentExtraction, DocumentType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { parseMrz, type MrzFields } from '@/lib/utils/mrz';
+import { getStorageDriver, resolveStorageLocation } from '@/lib/storage';
+import { getOcrEngine, OCR_SUPPORTED_MIME_TYPES } from './ocr.service';
+
+export const EXTRACTABLE_DOCUMENT_TYPES: DocumentType[] = ['PASSPORT', 'ID_CARD'];
+
+export type ExtractedField = Exclude<keyof MrzFields, 'documentCode'>;
+export type ExtractedFields = Partial<Record<ExtractedField, string | null>>;
+
+export interface ExtractionMismatch {
+  field: ExtractedField;
+  source: 'PROFILE' | 'FORM';
+  expected: string;
+  extracted: string;
+}
+
+// Raw OCR output kept for troubleshooting
+const MAX_RAW_TEXT_LENGTH = 10_000;
+
+// Extractions stuck in PROCESSING longer than this (crashed worker) are retried
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+// Case form keys (lowercased, alphanumerics only) holding the same data as an MRZ field
+const FORM_FIELD_ALIASES: Partial<Record<ExtractedField, string[]>> = {
+  givenNames: ['firstname', 'givenname', 'givennames', 'prenom'],
+  surname: ['lastname', 'surname', 'familyname', 'nom'],
+  documentNumber: ['passportnumber', 'passportno', 'documentnumber', 'idnumber', 'idcardnumber'],
+  dateOfBirth: ['dateofbirth', 'birthdate', 'dob'],
+  nationality: ['nationality', 'citizenship'],
+  expiryDate: ['expirydate', 'expirationdate', 'passportexpiry', 'passportexpirydate'],
+};
+
+const DATE_FIELDS: ExtractedField[] = ['dateOfBirth', 'expiryDate'];
+
+/**
+ * Uppercase, strip diacritics and punctuation - "Éloïse-Marie" -> "ELOISE MARIE"
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+function normalizeDate(value: string): string | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Names match when every word of the expected name appears in the extracted one
+ * MRZ names are truncated at the end of long names, so only the last extracted word may
+ * match as a prefix
+ */
+function namesMatch(expected: string, extracted: string): boolean {
+  const extractedWords = normalizeText(extracted).split(' ').filter(Boolean);
+  const lastWord = extractedWords[extractedWords.length - 1];
+  return normalizeText(expected)
+    .split(' ')
+    .filter(Boolean)
+    .every(
+      (word) =>
+        extractedWords.includes(word) || (lastWord !== undefined && word.startsWith(lastWord))
+    );
+}
+
+function valuesMatch(field: ExtractedField, expected: string, extracted: string): boolean {
+  if (field === 'givenNames' || field === 'surname') {
+    return namesMatch(expected, extracted);
+  }
+  if (DATE_FIELDS.includes(field)) {
+    return normalizeDate(expected) === normalizeDate(extracted);
+  }
+  return normalizeText(expected).replace(/ /g, '') === normalizeText(extracted).replace(/ /g, '');
+}
+
+/**
+ * Flatten nested form data into lowercased alphanumeric keys -> string values
+ */
+function flattenFormData(
+  data: unknown,
+  into: Map<string, string> = new Map()
+): Map<string, string> {
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    for (const [key, value] of Object.entries(data)) {
+      if (value && typeof value === 'object') {
+        flattenFormData(value, into);
+      } else if (typeof value === 'string' && value.trim()) {
+        const normalizedKey = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+        if (!into.has(normalizedKey)) {
+          into.set(normalizedKey, value.trim());
+        }
+      }
+    }
+  }
+  return into;
+}
+
+/**
+ * Compare extracted fields with the client's profile and the case form data
+ */
+export function findExtractionMismatches(
+  fields: ExtractedFields,
+  profile: { firstName: string; lastName: string },
+  formData: unknown
+): ExtractionMismatch[] {
+  const mismatches: ExtractionMismatch[] = [];
+
+  const profileValues: Partial<Record<ExtractedField, string>> = {
+    givenNames: profile.firstName,
+    surname: profile.lastName,
+  };
+  for (const [field, expected] of Object.entries(profileValues) as [ExtractedField, string][]) {
+    const extracted = fields[field];
+    if (expected && extracted && !valuesMatch(field, expected, extracted)) {
+      mismatches.push({ field, source: 'PROFILE', expected, extracted });
+    }
+  }
+
+  const form = flattenFormData(formData);
+  for (const [field, aliases] of Object.entries(FORM_FIELD_ALIASES) as [
+    ExtractedField,
+    string[],
+  ][]) {
+    const extracted = fields[field];
+    const alias = aliases.find((key) => form.has(key));
+    if (!extracted || !alias) {
+      continue;
+    }
+
+    const expected = form.get(alias)!;
+    // Forms usually store the nationality as a country name - only compare ISO codes
+    if (field === 'nationality' && !/^[A-Za-z]{3}$/.test(expected)) {
+      continue;
+    }
+
+    if (!valuesMatch(field, expected, extracted)) {
+      mismatches.push({ field, source: 'FORM', expected, extracted });
+    }
+  }
+
+  return mismatches;
+}
+
+function toExtractedFields(fields: MrzFields): ExtractedFields {
+  const { documentCode: _documentCode, ...extracted } = fields;
+  return extracted;
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Queue an extraction for a newly saved document (no-op for other document types)
+ * Quarantined files are skipped - they are queued again once a rescan clears them
+ */
+export async function queueDocumentExtraction(document: {
+  id: string;
+  documentType: DocumentType;
+  status: string;
+}): Promise<void> {
+  if (!EXTRACTABLE_DOCUMENT_TYPES.includes(document.documentType)) {
+    return;
+  }
+  if (document.status === 'QUARANTINED') {
+    return;
+  }
+
+  await prisma.documentExtraction.upsert({
+    where: { documentId: document.id },
+    create: { documentId: document.id },
+    update: {
+      status: 'PENDING',
+      error: null,
+      reviewedById: null,
+      reviewedAt: null,
+    },
+  });
+}
+
+/**
+ * Run OCR + MRZ parsing for one queued extraction
+ * Returns null when another worker already claimed it
+ */
+export async function runDocumentExtraction(
+  documentId: string
+): Promise<DocumentExtraction | null> {
+  const claimed = await prisma.documentExtraction.updateMany({
+    where: { documentId, status: 'PENDING' },
+    data: { status: 'PROCESSING' },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    include: {
+      case: {
+        select: {
+          client: { select: { firstName: true, lastName: true } },
+          formData: { select: { data: true } },
+        },
+      },
+    },
+  });
+
+  const fail = (error: string, engine: string | null = null) => {
+    logger.warn('Document extraction failed', { documentId, error });
+    return prisma.documentExtraction.update({
+      where: { documentId },
+      data: { status: 'FAILED', engine, error, processedAt: new Date() },
+    });
+  };
+
+  if (!OCR_SUPPORTED_MIME_TYPES.includes(document.mimeType)) {
+    return fail(`Automatic extraction is not available for ${document.mimeType} files`);
+  }
+
+  const location = resolveStorageLocation(document);
+  if (!location) {
+    return fail('Document file location is unknown');
+  }
+
+  let engineName: string | null = null;
+  let rawText: string;
+  try {
+    const engine = getOcrEngine();
+    engineName = engine.name;
+    const image = await getStorageDriver(location.provider).get(location.key);
+    rawText = await engine.recognize(image);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'OCR failed', engineName);
+  }
+
+  const mrz = parseMrz(rawText);
+  if (!mrz) {
+    await prisma.documentExtraction.update({
+      where: { documentId },
+      data: { rawText: rawText.slice(0, MAX_RAW_TEXT_LENGTH) },
+    });
+    return fail('No machine readable zone found on the scan', engineName);
+  }
+
+  const fields = toExtractedFields(mrz.fields);
+  const mismatches = findExtractionMismatches(
+    fields,
+    document.case.client,
+    document.case.formData?.data
+  );
+
+  const expiresAt = mrz.valid ? toDate(fields.expiryDate) : null;
+
+  const [extraction] = await prisma.$transaction([
+    prisma.documentExtraction.update({
+      where: { documentId },
+      data: {
+        status: 'COMPLETED',
+        engine: engineName,
+        mrzFormat: mrz.format,
+        mrzValid: mrz.valid,
+        fields: fields as Prisma.InputJsonValue,
+        mismatches: mismatches as unknown as Prisma.InputJsonValue,
+        rawText: rawText.slice(0, MAX_RAW_TEXT_LENGTH),
+        error: null,
+        processedAt: new Date(),
+      },
+    }),
+    // Only fill the gap - a date entered by the client is kept
+    ...(expiresAt
+      ? [
+          prisma.document.updateMany({
+            where: { id: documentId, expiresAt: null },
+            data: { expiresAt, expiryReminderSentAt: null },
+          }),
+        ]
+      : []),
+  ]);
+
+  logger.info('Document extraction completed', {
+    documentId,
+    format: mrz.format,
+    valid: mrz.valid,
+    mismatches: mismatches.length,
+  });
+
+  return extraction;
+}
+
+/**
+ * Queue the extraction again and run it right away (agent "re-run" action)
+ */
+export async function retryDocumentExtraction(documentId: string): Promise<DocumentExtraction> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { id: true, documentType: true, status: true },
+  });
+
+  if (!document) {
+    throw new ApiError('Document not found', HttpStatus.NOT_FOUND);
+  }
+  if (!EXTRACTABLE_DOCUMENT_TYPES.includes(document.documentType)) {
+    throw new ApiError(
+      'Data extraction is only available for passports and ID cards',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+  if (document.status === 'QUARANTINED') {
+    throw new ApiError('Quarantined documents cannot be processed', HttpStatus.BAD_REQUEST);
+  }
+
+  await queueDocumentExtraction(document);
+  await runDocumentExtraction(documentId);
+
+  return prisma.documentExtraction.findUniqueOrThrow({ where: { documentId } });
+}
+
+/**
+ * Apply an agent's corrections and mark the extraction as reviewed
+ * Mismatches are recomputed against the corrected values
+ */
+export async function reviewDocumentExtraction(
+  documentId: string,
+  corrections: ExtractedFields,
+  reviewerId: string
+): Promise<DocumentExtraction> {
+  const extraction = await prisma.documentExtraction.findUnique({
+    where: { documentId },
+    include: {
+      document: {
+        select: {
+          case: {
+            select: {
+              client: { select: { firstName: true, lastName: true } },
+              formData: { select: { data: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!extraction) {
+    throw new ApiError('No extraction exists for this document', HttpStatus.NOT_FOUND);
+  }
+  if (extraction.status === 'PENDING' || extraction.status === 'PROCESSING') {
+    throw new ApiError('Extraction is still running', HttpStatus.CONFLICT);
+  }
+
+  const fields: ExtractedFields = {
+    ...((extraction.fields as ExtractedFields | null) ?? {}),
+    ...corrections,
+  };
+  const { case: caseData } = extraction.document;
+  const mismatches = findExtractionMismatches(fields, caseData.client, caseData.formData?.data);
+
+  const expiresAt = toDate(fields.expiryDate);
+
+  const [updated] = await prisma.$transaction([
+    prisma.documentExtraction.update({
+      where: { documentId },
+      data: {
+        fields: fields as Prisma.InputJsonValue,
+        mismatches: mismatches as unknown as Prisma.InputJsonValue,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      },
+    }),
+    // A reviewed expiry date is authoritative - and re-arms the expiry reminder
+    ...(corrections.expiryDate !== undefined
+      ? [
+          prisma.document.update({
+            where: { id: documentId },
+            data: { expiresAt, expiryReminderSentAt: null },
+          }),
+        ]
+      : []),
+  ]);
+
+  logger.info('Document extraction reviewed', {
+    documentId,
+    reviewerId,
+    corrected: Object.keys(corrections),
+    mismatches: mismatches.length,
+  });
+
+  return updated;
+}
+
+/**
+ * Put extractions abandoned mid-run (server restart) back in the queue
+ */
+export async function resetStaleExtractions(): Promise<number> {
+  const { count } = await prisma.documentExtraction.updateMany({
+    where: {
+      status: 'PROCESSING',
+      updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+    },
+    data: { status: 'PENDING' },
+  });
+  return count;
+}
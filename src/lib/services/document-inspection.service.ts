@@ -0,0 +1,333 @@
+// Document Inspection Service - Server-side checks on uploaded document files
+// Every file attached to a case goes through the same pipeline before agents can open it:
+// 1. Magic bytes must match the declared MIME type (no renamed executables)
+// 2. PDFs must be well-formed and free of JavaScript / launch actions
+// 3. Images are re-encoded, which drops EXIF/GPS metadata
+// 4. The virus scanner runs on the final bytes - detections and scanner outages put the
+//    document in QUARANTINED until an admin rescans it
+
+import { inflateSync } from 'zlib';
+import sharp from 'sharp';
+import type { Document } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import {
+  buildStorageKey,
+  DOCUMENT_KEY_PREFIX,
+  getStorageDriver,
+  PRIVATE_DOCUMENT_FIELDS,
+  resolveStorageLocation,
+  type PublicDocument,
+  type StorageLocation,
+} from '@/lib/storage';
+import { getVirusScanner, type VirusScanResult } from './virus-scan.service';
+import { queueDocumentExtraction } from './document-extraction.service';
+
+export type ContentInspectionResult =
+  | { ok: true; body: Buffer; sanitized: boolean }
+  | { ok: false; reason: string };
+
+export interface InspectedDocumentFile {
+  filePath: string;
+  storageProvider: StorageLocation['provider'];
+  storageKey: string;
+  fileSize: number;
+  status: Extract<Document['status'], 'PENDING' | 'QUARANTINED'>;
+  quarantineReason: string | null;
+  scannedAt: Date;
+}
+
+// PDF names that run code when the document is opened
+const FORBIDDEN_PDF_NAMES = new Set(['JavaScript', 'JS', 'Launch']);
+
+// Upper bound on decompressed PDF stream data inspected per file
+const MAX_INFLATED_PDF_BYTES = 64 * 1024 * 1024;
+
+const startsWith = (body: Buffer, signature: number[], offset = 0) =>
+  signature.every((byte, index) => body[offset + index] === byte);
+
+const containsAscii = (body: Buffer, text: string) => body.includes(Buffer.from(text, 'latin1'));
+
+const isJpeg = (body: Buffer) => startsWith(body, [0xff, 0xd8, 0xff]);
+const isPng = (body: Buffer) => startsWith(body, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const isGif = (body: Buffer) => ['GIF87a', 'GIF89a'].includes(body.toString('latin1', 0, 6));
+const isWebp = (body: Buffer) =>
+  body.toString('latin1', 0, 4) === 'RIFF' && body.toString('latin1', 8, 12) === 'WEBP';
+const isPdf = (body: Buffer) => body.subarray(0, 1024).includes(Buffer.from('%PDF-'));
+const isOleCompound = (body: Buffer) =>
+  startsWith(body, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const isZip = (body: Buffer) => startsWith(body, [0x50, 0x4b, 0x03, 0x04]);
+// Office Open XML - a zip with the expected part folder (entry names are stored uncompressed)
+const isOoxml = (folder: string) => (body: Buffer) =>
+  isZip(body) && containsAscii(body, '[Content_Types].xml') && containsAscii(body, folder);
+const isPlainText = (body: Buffer) => !body.subarray(0, 8192).includes(0);
+
+// Declared MIME type -> content check
+const CONTENT_SIGNATURES: Record<string, (body: Buffer) => boolean> = {
+  'image/jpeg': isJpeg,
+  'image/jpg': isJpeg,
+  'image/png': isPng,
+  'image/gif': isGif,
+  'image/webp': isWebp,
+  'application/pdf': isPdf,
+  'application/msword': isOleCompound,
+  'application/vnd.ms-excel': isOleCompound,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': isOoxml('word/'),
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': isOoxml('xl/'),
+  'text/plain': isPlainText,
+};
+
+const IMAGE_FORMATS: Record<string, 'jpeg' | 'png' | 'gif' | 'webp'> = {
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+/**
+ * Names used in a chunk of PDF syntax, with #xx escapes decoded (/J#61vaScript -> JavaScript)
+ */
+function findForbiddenPdfName(source: string): string | null {
+  for (const [, raw] of source.matchAll(/\/([^\s/<>[\]()%{}]+)/g)) {
+    const name = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+    if (FORBIDDEN_PDF_NAMES.has(name)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Structural sanity check for PDFs
+ * Compressed streams are inflated too, since object streams can hide whole dictionaries
+ */
+function inspectPdf(body: Buffer): string | null {
+  if (!body.subarray(-1024).includes(Buffer.from('%%EOF'))) {
+    return 'PDF file is truncated or malformed';
+  }
+
+  const source = body.toString('latin1');
+
+  const forbidden = findForbiddenPdfName(source);
+  if (forbidden) {
+    return `PDF files with embedded actions (/${forbidden}) are not allowed`;
+  }
+
+  let inflatedBytes = 0;
+  for (const match of source.matchAll(/<<((?:(?!<<|>>)[\s\S])*?)>>\s*stream\r?\n/g)) {
+    if (!match[1].includes('/FlateDecode')) {
+      continue;
+    }
+
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) {
+      return 'PDF file is truncated or malformed';
+    }
+
+    let inflated: Buffer;
+    try {
+      inflated = inflateSync(body.subarray(start, end), {
+        maxOutputLength: MAX_INFLATED_PDF_BYTES - inflatedBytes,
+      });
+    } catch {
+      // Damaged or oversized streams cannot hide anything a viewer would run
+      continue;
+    }
+
+    inflatedBytes += inflated.length;
+    const hidden = findForbiddenPdfName(inflated.toString('latin1'));
+    if (hidden) {
+      return `PDF files with embedded actions (/${hidden}) are not allowed`;
+    }
+    if (inflatedBytes >= MAX_INFLATED_PDF_BYTES) {
+      break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a file against its declared MIME type and strip what should not be kept
+ */
+export async function inspectFileContent(
+  body: Buffer,
+  mimeType: string
+): Promise<ContentInspectionResult> {
+  const matchesSignature = CONTENT_SIGNATURES[mimeType];
+
+  if (!matchesSignature) {
+    return { ok: false, reason: `File type "${mimeType}" is not allowed` };
+  }
+
+  if (body.length === 0 || !matchesSignature(body)) {
+    return { ok: false, reason: `File content does not match its declared type (${mimeType})` };
+  }
+
+  if (mimeType === 'application/pdf') {
+    const problem = inspectPdf(body);
+    return problem ? { ok: false, reason: problem } : { ok: true, body, sanitized: false };
+  }
+
+  if (containsAscii(body, 'vbaProject.bin')) {
+    return { ok: false, reason: 'Office documents with macros are not allowed' };
+  }
+
+  const imageFormat = IMAGE_FORMATS[mimeType];
+  if (imageFormat) {
+    try {
+      // Orientation is applied to the pixels first, since re-encoding drops the EXIF tag
+      const reencoded = await sharp(body, {
+        animated: imageFormat === 'gif' || imageFormat === 'webp',
+      })
+        .rotate()
+        .toFormat(imageFormat, { quality: 90 })
+        .toBuffer();
+      return { ok: true, body: reencoded, sanitized: true };
+    } catch (error) {
+      logger.warn('Image re-encoding failed', { error, mimeType });
+      return { ok: false, reason: 'Image file is corrupted or unsupported' };
+    }
+  }
+
+  return { ok: true, body, sanitized: false };
+}
+
+function quarantineReasonFor(scan: VirusScanResult): string | null {
+  if (scan.status === 'INFECTED') {
+    return `Malware detected: ${scan.signature ?? 'unknown signature'}`;
+  }
+  if (scan.status === 'ERROR') {
+    return 'Virus scan could not be completed - awaiting rescan';
+  }
+  return null;
+}
+
+/**
+ * Run the full pipeline on a freshly uploaded file, before its Document row is created
+ * Rejected files are deleted from storage and reported as 400; sanitized images replace
+ * the original upload. Callers must check isOwnedUpload first, so only the uploader's own
+ * files are ever deleted
+ */
+export async function inspectUploadedDocument(upload: {
+  filePath: string;
+  location: StorageLocation;
+  mimeType: string;
+  fileName: string;
+  userId: string;
+}): Promise<InspectedDocumentFile> {
+  const { location, mimeType, fileName, userId } = upload;
+  const driver = getStorageDriver(location.provider);
+
+  let body: Buffer;
+  try {
+    body = await driver.get(location.key);
+  } catch (error) {
+    logger.error('Failed to read uploaded document for inspection', { error, location });
+    throw new ApiError('Uploaded file could not be retrieved', HttpStatus.BAD_REQUEST);
+  }
+
+  const inspection = await inspectFileContent(body, mimeType);
+
+  if (!inspection.ok) {
+    logger.warn('Uploaded document rejected by inspection', {
+      reason: inspection.reason,
+      location,
+      userId,
+    });
+    await driver.delete(location.key).catch((error) => {
+      logger.warn('Failed to delete rejected upload', { error, location });
+    });
+    throw new ApiError(inspection.reason, HttpStatus.BAD_REQUEST);
+  }
+
+  let filePath = upload.filePath;
+  let storageKey = location.key;
+
+  if (inspection.sanitized) {
+    const stored = await driver.put(
+      buildStorageKey(DOCUMENT_KEY_PREFIX, userId, fileName),
+      inspection.body,
+      { contentType: mimeType, fileName }
+    );
+
+    filePath = stored.url;
+    storageKey = stored.key;
+
+    if (stored.key !== location.key) {
+      await driver.delete(location.key).catch((error) => {
+        logger.warn('Failed to delete original upload after sanitizing', { error, location });
+      });
+    }
+  }
+
+  const scan = await getVirusScanner().scan(inspection.body);
+  const quarantineReason = quarantineReasonFor(scan);
+
+  if (quarantineReason) {
+    logger.warn('Uploaded document quarantined', { ...scan, location, userId });
+  }
+
+  return {
+    filePath,
+    storageProvider: location.provider,
+    storageKey,
+    fileSize: inspection.body.length,
+    status: quarantineReason ? 'QUARANTINED' : 'PENDING',
+    quarantineReason,
+    scannedAt: new Date(),
+  };
+}
+
+/**
+ * Scan a quarantined document again (after a scanner outage or signature update)
+ * Clean documents go back to PENDING so agents can review them
+ */
+export async function rescanQuarantinedDocument(
+  documentId: string
+): Promise<{ document: PublicDocument; scan: VirusScanResult }> {
+  const document = await prisma.document.findUnique({ where: { id: documentId } });
+
+  if (!document) {
+    throw new ApiError('Document not found', HttpStatus.NOT_FOUND);
+  }
+
+  if (document.status !== 'QUARANTINED') {
+    throw new ApiError('Only quarantined documents can be rescanned', HttpStatus.BAD_REQUEST);
+  }
+
+  const location = resolveStorageLocation(document);
+  if (!location) {
+    throw new ApiError('Document file location is unknown', HttpStatus.UNPROCESSABLE_ENTITY);
+  }
+
+  const body = await getStorageDriver(location.provider).get(location.key);
+  const scan = await getVirusScanner().scan(body);
+  const quarantineReason = quarantineReasonFor(scan);
+
+  const updated = await prisma.document.update({
+    where: { id: documentId },
+    data: {
+      status: quarantineReason ? 'QUARANTINED' : 'PENDING',
+      quarantineReason,
+      scannedAt: new Date(),
+    },
+    omit: PRIVATE_DOCUMENT_FIELDS,
+  });
+
+  logger.info('Quarantined document rescanned', { documentId, ...scan });
+
+  // Released passports / ID cards get the extraction they skipped on upload
+  if (!quarantineReason) {
+    await queueDocumentExtraction(updated).catch((error) => {
+      logger.warn('Failed to queue document extraction', { error, documentId });
+    });
+  }
+
+  return { document: updated, scan };
+}
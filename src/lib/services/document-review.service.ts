@@ -0,0 +1,278 @@
+// Document Review Service - Bulk rejection and per-document review comment threads
+// Rejections start the document's comment thread with the reason, so the client can ask
+// for clarification right under the document instead of in the general chat.
+// Clients get one email and one notification per review batch, however many documents
+
+import type { Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { ERROR_MESSAGES, NOTIFICATION_ACTION_URLS } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+import { escapeHtml } from '@/lib/utils/helpers';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { createRealtimeNotification } from '@/lib/firebase/notifications.service.server';
+import {
+  sendDocumentRejectedEmail,
+  sendDocumentsRejectedEmail,
+} from '@/lib/notifications/email.service';
+import { isCaseHandler } from './agent-absence.service';
+
+export interface DocumentRejection {
+  documentId: string;
+  reason: string;
+}
+
+export interface BulkRejectionResult {
+  rejected: string[];
+  skipped: { documentId: string; reason: string }[];
+}
+
+interface ReviewActor {
+  userId: string;
+  role: Role;
+}
+
+const commentAuthorSelect = {
+  select: { id: true, firstName: true, lastName: true, role: true },
+} satisfies Prisma.UserDefaultArgs;
+
+type RejectedDocument = Prisma.DocumentGetPayload<{
+  include: { case: { include: { client: true } } };
+}>;
+
+/**
+ * Admins, the case client and the agents handling the case take part in a review thread
+ */
+export function canAccessDocumentReview(
+  caseData: { clientId: string; assignedAgentId: string | null; coveringAgentId: string | null },
+  actor: ReviewActor
+): boolean {
+  return (
+    actor.role === 'ADMIN' ||
+    (actor.role === 'CLIENT' && caseData.clientId === actor.userId) ||
+    (actor.role === 'AGENT' && isCaseHandler(caseData, actor.userId))
+  );
+}
+
+/**
+ * Tell each client about their rejected documents - one email and one notification per client
+ */
+export async function notifyClientsOfRejections(documents: RejectedDocument[]): Promise<void> {
+  const byClient = new Map<string, RejectedDocument[]>();
+  for (const document of documents) {
+    const clientDocuments = byClient.get(document.case.clientId) ?? [];
+    clientDocuments.push(document);
+    byClient.set(document.case.clientId, clientDocuments);
+  }
+
+  for (const [clientId, clientDocuments] of byClient) {
+    const { client } = clientDocuments[0].case;
+    const clientName = `${client.firstName} ${client.lastName}`;
+
+    try {
+      if (clientDocuments.length === 1) {
+        const [document] = clientDocuments;
+        await sendDocumentRejectedEmail(
+          client.email,
+          document.originalName,
+          document.rejectionReason ?? '',
+          clientName
+        );
+      } else {
+        await sendDocumentsRejectedEmail(
+          client.email,
+          clientName,
+          clientDocuments.map((document) => ({
+            documentName: document.originalName,
+            reason: document.rejectionReason ?? '',
+          }))
+        );
+      }
+    } catch (error) {
+      logger.warn('Failed to send rejection email', { error, clientId });
+    }
+
+    try {
+      await createRealtimeNotification(clientId, {
+        type: 'DOCUMENT_REJECTED',
+        title:
+          clientDocuments.length === 1
+            ? 'Document Requires Reupload'
+            : `${clientDocuments.length} Documents Require Reupload`,
+        message:
+          clientDocuments.length === 1
+            ? `Your ${clientDocuments[0].originalName} needs to be reuploaded. Reason: ${clientDocuments[0].rejectionReason}`
+            : `Needs reupload: ${clientDocuments.map((document) => document.originalName).join(', ')}`,
+        actionUrl: NOTIFICATION_ACTION_URLS.DOCUMENTS_PAGE,
+      });
+    } catch (error) {
+      logger.warn('Failed to send rejection notification', { error, clientId });
+    }
+  }
+}
+
+/**
+ * Reject several PENDING documents, each with its own reason
+ * Documents that are not pending, missing or outside the agent's cases are skipped
+ */
+export async function rejectDocuments(
+  rejections: DocumentRejection[],
+  reviewer: ReviewActor
+): Promise<BulkRejectionResult> {
+  const result: BulkRejectionResult = { rejected: [], skipped: [] };
+  const rejectedDocuments: RejectedDocument[] = [];
+
+  const documents = await prisma.document.findMany({
+    where: { id: { in: rejections.map((rejection) => rejection.documentId) } },
+    select: {
+      id: true,
+      status: true,
+      case: { select: { clientId: true, assignedAgentId: true, coveringAgentId: true } },
+    },
+  });
+  const documentsById = new Map(documents.map((document) => [document.id, document]));
+
+  for (const { documentId, reason } of rejections) {
+    const existing = documentsById.get(documentId);
+
+    if (!existing) {
+      result.skipped.push({ documentId, reason: 'Document not found' });
+      continue;
+    }
+    if (!canAccessDocumentReview(existing.case, reviewer)) {
+      result.skipped.push({ documentId, reason: ERROR_MESSAGES.FORBIDDEN });
+      continue;
+    }
+    if (existing.status !== 'PENDING') {
+      result.skipped.push({ documentId, reason: `Document is ${existing.status}` });
+      continue;
+    }
+
+    // Sanitize to prevent XSS attacks in emails/notifications (same as single rejection)
+    const rejectionReason = escapeHtml(reason.trim());
+
+    const document = await prisma.$transaction(async (tx) => {
+      const updated = await tx.document.updateMany({
+        where: { id: documentId, status: 'PENDING' },
+        data: { status: 'REJECTED', rejectionReason },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      await tx.documentComment.create({
+        data: { documentId, authorId: reviewer.userId, content: reason.trim() },
+      });
+
+      return tx.document.findUniqueOrThrow({
+        where: { id: documentId },
+        include: { case: { include: { client: true } } },
+      });
+    });
+
+    if (!document) {
+      result.skipped.push({ documentId, reason: 'Document was reviewed concurrently' });
+      continue;
+    }
+
+    result.rejected.push(documentId);
+    rejectedDocuments.push(document);
+  }
+
+  await notifyClientsOfRejections(rejectedDocuments);
+
+  logger.info('Bulk rejected', {
+    count: result.rejected.length,
+    skipped: result.skipped.length,
+    by: reviewer.userId,
+  });
+
+  return result;
+}
+
+/**
+ * Load a document's case and check the actor may read / write its review thread
+ */
+async function getReviewableDocument(documentId: string, actor: ReviewActor) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      id: true,
+      originalName: true,
+      caseId: true,
+      case: {
+        select: {
+          referenceNumber: true,
+          clientId: true,
+          assignedAgentId: true,
+          coveringAgentId: true,
+        },
+      },
+    },
+  });
+
+  if (!document) {
+    throw new ApiError('Document not found', HttpStatus.NOT_FOUND);
+  }
+
+  if (!canAccessDocumentReview(document.case, actor)) {
+    throw new ApiError(ERROR_MESSAGES.FORBIDDEN, HttpStatus.FORBIDDEN);
+  }
+
+  return document;
+}
+
+export async function listDocumentComments(documentId: string, actor: ReviewActor) {
+  await getReviewableDocument(documentId, actor);
+
+  return prisma.documentComment.findMany({
+    where: { documentId },
+    include: { author: commentAuthorSelect },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Post a comment and notify the other side of the thread
+ * Client comments go to the handling agents; agent / admin comments go to the client
+ */
+export async function addDocumentComment(documentId: string, actor: ReviewActor, content: string) {
+  const document = await getReviewableDocument(documentId, actor);
+
+  const comment = await prisma.documentComment.create({
+    data: { documentId, authorId: actor.userId, content },
+    include: { author: commentAuthorSelect },
+  });
+
+  const { case: caseData } = document;
+  const recipients =
+    actor.role === 'CLIENT'
+      ? [caseData.assignedAgentId, caseData.coveringAgentId]
+      : [caseData.clientId];
+  const authorName = `${comment.author.firstName} ${comment.author.lastName}`;
+  const preview = content.length > 120 ? `${content.slice(0, 117)}...` : content;
+
+  for (const recipientId of new Set(recipients)) {
+    if (!recipientId || recipientId === actor.userId) {
+      continue;
+    }
+
+    try {
+      await createRealtimeNotification(recipientId, {
+        type: 'NEW_MESSAGE',
+        title: `New comment on ${document.originalName}`,
+        message: `${authorName} (case ${caseData.referenceNumber}): ${preview}`,
+        actionUrl:
+          actor.role === 'CLIENT'
+            ? NOTIFICATION_ACTION_URLS.CASE_DETAILS(document.caseId)
+            : NOTIFICATION_ACTION_URLS.DOCUMENTS_PAGE,
+      });
+    } catch (error) {
+      logger.warn('Failed to send document comment notification', { error, recipientId });
+    }
+  }
+
+  logger.info('Document comment added', { documentId, authorId: actor.userId });
+
+  return comment;
+}
@@ -0,0 +1,92 @@
+// Document Version Service - Resubmission chains for documents
+// Each resubmitted document points at the version it replaces (supersedesId)
+
+import { Prisma } from '@prisma/client';
+import type { Document } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+
+// Guards against corrupted chains - no real document is resubmitted this many times
+const MAX_CHAIN_LENGTH = 100;
+
+/**
+ * Filter matching only the current version of each document
+ * Superseded versions are kept for history but ignored by checklists and workflow guards
+ */
+export const LATEST_VERSION_FILTER = {
+  supersededBy: { is: null },
+} satisfies Prisma.DocumentWhereInput;
+
+export type DocumentVersion = Pick<
+  Document,
+  | 'id'
+  | 'version'
+  | 'supersedesId'
+  | 'originalName'
+  | 'fileName'
+  | 'fileSize'
+  | 'mimeType'
+  | 'documentType'
+  | 'status'
+  | 'uploadDate'
+  | 'uploadedById'
+  | 'verifiedBy'
+  | 'verifiedAt'
+  | 'rejectionReason'
+>;
+
+const versionSelect = {
+  id: true,
+  version: true,
+  supersedesId: true,
+  originalName: true,
+  fileName: true,
+  fileSize: true,
+  mimeType: true,
+  documentType: true,
+  status: true,
+  uploadDate: true,
+  uploadedById: true,
+  verifiedBy: true,
+  verifiedAt: true,
+  rejectionReason: true,
+} satisfies Prisma.DocumentSelect;
+
+/**
+ * Full version history for any document in a chain, newest version first
+ */
+export async function getDocumentVersionHistory(documentId: string): Promise<DocumentVersion[]> {
+  const start = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: versionSelect,
+  });
+
+  if (!start) {
+    return [];
+  }
+
+  const older: DocumentVersion[] = [];
+  let previousId = start.supersedesId;
+  while (previousId && older.length < MAX_CHAIN_LENGTH) {
+    const previous = await prisma.document.findUnique({
+      where: { id: previousId },
+      select: versionSelect,
+    });
+    if (!previous) break;
+    older.push(previous);
+    previousId = previous.supersedesId;
+  }
+
+  const newer: DocumentVersion[] = [];
+  let currentId = start.id;
+  while (newer.length < MAX_CHAIN_LENGTH) {
+    const next = await prisma.document.findUnique({
+      where: { supersedesId: currentId },
+      select: versionSelect,
+    });
+    if (!next) break;
+    newer.unshift(next);
+    currentId = next.id;
+  }
+
+  return [...newer, start, ...older];
+}
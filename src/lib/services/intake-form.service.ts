@@ -0,0 +1,152 @@
+// Intake Form Service - Versioned intake questionnaires and case answer validation
+// One active version per service type + destination scope; a destination-specific form
+// replaces the generic form for that service type
+
+import type { IntakeFormSchema, Prisma, ServiceType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import {
+  intakeFormDefinitionSchema,
+  validateIntakeAnswers,
+  type IntakeAnswers,
+  type IntakeFormDefinition,
+} from '@/lib/utils/intake-form';
+
+export interface PublishIntakeFormInput {
+  serviceType: ServiceType;
+  destinationId: string | null;
+  title: string;
+  definition: IntakeFormDefinition;
+}
+
+export interface ValidatedIntake {
+  schemaId: string | null;
+  data: IntakeAnswers;
+}
+
+/**
+ * Active form a new case for this service type and destination must fill in
+ */
+export async function getActiveIntakeForm(
+  serviceType: ServiceType,
+  destinationId: string | null
+): Promise<IntakeFormSchema | null> {
+  const forms = await prisma.intakeFormSchema.findMany({
+    where: {
+      serviceType,
+      isActive: true,
+      OR: [{ destinationId: null }, ...(destinationId ? [{ destinationId }] : [])],
+    },
+    orderBy: { version: 'desc' },
+  });
+
+  return forms.find((form) => form.destinationId !== null) ?? forms[0] ?? null;
+}
+
+/**
+ * Publish a new version for the scope and retire the one currently in use
+ */
+export async function publishIntakeForm(
+  input: PublishIntakeFormInput,
+  createdById: string
+): Promise<IntakeFormSchema> {
+  const scope = { serviceType: input.serviceType, destinationId: input.destinationId };
+
+  const form = await prisma.$transaction(async (tx) => {
+    const latest = await tx.intakeFormSchema.findFirst({
+      where: scope,
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    await tx.intakeFormSchema.updateMany({
+      where: { ...scope, isActive: true },
+      data: { isActive: false },
+    });
+
+    return tx.intakeFormSchema.create({
+      data: {
+        ...scope,
+        title: input.title,
+        definition: input.definition as Prisma.InputJsonValue,
+        version: (latest?.version ?? 0) + 1,
+        createdById,
+      },
+    });
+  });
+
+  logger.info('Intake form published', {
+    formId: form.id,
+    serviceType: form.serviceType,
+    destinationId: form.destinationId,
+    version: form.version,
+    createdBy: createdById,
+  });
+
+  return form;
+}
+
+/**
+ * Turn a version on or off - activating an older version rolls the scope back to it
+ */
+export async function setIntakeFormActive(id: string, isActive: boolean) {
+  const form = await prisma.intakeFormSchema.findUnique({ where: { id } });
+
+  if (!form) {
+    throw new ApiError('Intake form not found', HttpStatus.NOT_FOUND);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (isActive) {
+      await tx.intakeFormSchema.updateMany({
+        where: {
+          serviceType: form.serviceType,
+          destinationId: form.destinationId,
+          isActive: true,
+          id: { not: id },
+        },
+        data: { isActive: false },
+      });
+    }
+
+    return tx.intakeFormSchema.update({ where: { id }, data: { isActive } });
+  });
+}
+
+/**
+ * Check a new case's answers against the active form
+ * Without an active form the answers are stored as given (legacy / mobile free-form data)
+ */
+export async function validateCaseIntake(
+  serviceType: ServiceType,
+  destinationId: string | null,
+  answers: unknown
+): Promise<ValidatedIntake | null> {
+  if (answers != null && (typeof answers !== 'object' || Array.isArray(answers))) {
+    throw new ApiError('formData must be an object', HttpStatus.BAD_REQUEST);
+  }
+
+  const form = await getActiveIntakeForm(serviceType, destinationId);
+
+  if (!form) {
+    return answers ? { schemaId: null, data: answers as IntakeAnswers } : null;
+  }
+
+  const definition = intakeFormDefinitionSchema.safeParse(form.definition);
+  if (!definition.success) {
+    // Definitions are validated on publish - this only happens after a manual DB edit
+    logger.error('Stored intake form definition is invalid', definition.error, {
+      formId: form.id,
+    });
+    throw new ApiError('Intake form is misconfigured', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  const result = validateIntakeAnswers(definition.data, (answers ?? {}) as Record<string, unknown>);
+
+  if (!result.isValid) {
+    throw new ApiError('Please complete the intake form', HttpStatus.BAD_REQUEST, result.errors);
+  }
+
+  return { schemaId: form.id, data: result.values };
+}
@@ -0,0 +1,440 @@
+// Login Security Service - account lockout and new-device login alerts
+// Password sign-in goes through the server (/api/auth/login/password), which checks the password
+// with Firebase and counts every wrong one. The lock is enforced by this backend: the login
+// endpoints refuse locked accounts and sign-ins made during a lock are recorded as signed out
+// (session service), whichever way they reached Firebase
+
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/db/prisma';
+import { adminAuth } from '@/lib/firebase/firebase-admin';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { normalizeEmail } from '@/lib/utils/email';
+import { sendNewLoginAlertEmail } from '@/lib/notifications/email.service';
+import { getRequestDevice } from '@/lib/services/session.service';
+import { getRateLimitStore } from '@/lib/middleware/rate-limit-store';
+
+export const LOGIN_SECURITY_ERROR_CODES = {
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+} as const;
+
+// Failed attempts only count towards a lockout when they are this close together
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// Each lockout since the last successful sign-in lasts longer - the last step repeats
+const LOCKOUT_DURATIONS_MS = [15 * 60 * 1000, 60 * 60 * 1000, 24 * 60 * 60 * 1000];
+// Password sign-ins per account, whichever IPs they come from
+const MAX_SIGN_IN_ATTEMPTS_PER_ACCOUNT = 20;
+
+export interface LoginLockState {
+  locked: boolean;
+  lockedUntil: Date | null;
+}
+
+const UNLOCKED: LoginLockState = { locked: false, lockedUntil: null };
+
+function getClientIp(request: Request): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null;
+}
+
+// Country header set by the hosting edge (Vercel, Cloudflare) - "XX" means unknown
+function getClientCountry(request: Request): string | null {
+  const country = (
+    request.headers.get('x-vercel-ip-country') ?? request.headers.get('cf-ipcountry')
+  )?.toUpperCase();
+  return country && /^[A-Z]{2}$/.test(country) && country !== 'XX' ? country : null;
+}
+
+// Web and mobile clients send a random per-install X-Device-Id; others are told apart by user agent
+function getDeviceKey(request: Request): string {
+  const deviceId = request.headers.get('x-device-id')?.trim();
+  const source = deviceId ? `id:${deviceId}` : `ua:${request.headers.get('user-agent') ?? ''}`;
+  return createHash('sha256').update(source).digest('hex');
+}
+
+/**
+ * Check a password with Firebase - returns the Firebase uid, or null when the email or
+ * password is wrong
+ */
+async function verifyFirebasePassword(email: string, password: string): Promise<string | null> {
+  const apiKey = process.env.FIREBASE_API_KEY;
+
+  if (!apiKey) {
+    throw new ApiError('Password sign-in unavailable', HttpStatus.SERVICE_UNAVAILABLE);
+  }
+
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password, returnSecureToken: false }),
+    }
+  );
+
+  const payload = (await response.json().catch(() => undefined)) as
+    | { localId?: string; error?: { message?: string } }
+    | undefined;
+
+  if (response.ok && payload?.localId) {
+    return payload.localId;
+  }
+
+  const errorMessage = payload?.error?.message ?? '';
+
+  // Newer projects answer INVALID_LOGIN_CREDENTIALS for both unknown emails and wrong passwords
+  if (
+    errorMessage === 'INVALID_PASSWORD' ||
+    errorMessage === 'INVALID_LOGIN_CREDENTIALS' ||
+    errorMessage === 'EMAIL_NOT_FOUND'
+  ) {
+    return null;
+  }
+
+  if (errorMessage === 'USER_DISABLED') {
+    throw new ApiError('This account has been disabled', HttpStatus.FORBIDDEN);
+  }
+
+  if (errorMessage.startsWith('TOO_MANY_ATTEMPTS_TRY_LATER')) {
+    throw new ApiError('Too many failed login attempts', HttpStatus.TOO_MANY_REQUESTS);
+  }
+
+  logger.error('Unexpected Firebase password sign-in error', { error: errorMessage });
+
+  throw new ApiError('Password sign-in failed', HttpStatus.SERVICE_UNAVAILABLE);
+}
+
+function accountLockedError(lockedUntil: Date): ApiError {
+  return new ApiError(
+    'This account is temporarily locked after too many failed login attempts',
+    HttpStatus.TOO_MANY_REQUESTS,
+    { lockedUntil: lockedUntil.toISOString() },
+    LOGIN_SECURITY_ERROR_CODES.ACCOUNT_LOCKED
+  );
+}
+
+// Matches accounts without a running lock
+function notLockedAt(now: Date) {
+  return { OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] };
+}
+
+// Clears a lock whose time is up - the lockout counter is kept so the next one lasts longer
+async function releaseLock(userId: string): Promise<boolean> {
+  const result = await prisma.user.updateMany({
+    where: { id: userId, lockedUntil: { lte: new Date() } },
+    data: { lockedUntil: null, failedLoginCount: 0 },
+  });
+
+  return result.count > 0;
+}
+
+const LOCK_SELECT = {
+  id: true,
+  lockedUntil: true,
+  failedLoginCount: true,
+  lastFailedLoginAt: true,
+  lockoutCount: true,
+} as const;
+
+/**
+ * Lock state of the account behind an email, checked by clients before signing in
+ * Unknown emails read as unlocked so the endpoint does not reveal which accounts exist
+ */
+export async function getLoginLockState(email: string): Promise<LoginLockState> {
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+    select: LOCK_SELECT,
+  });
+
+  if (!user?.lockedUntil) return UNLOCKED;
+
+  if (user.lockedUntil <= new Date()) {
+    await releaseLock(user.id);
+    return UNLOCKED;
+  }
+
+  return { locked: true, lockedUntil: user.lockedUntil };
+}
+
+/**
+ * Count a wrong password and lock the account once the limit is reached
+ * Every step is a conditional update, so concurrent failures can neither lose a count nor lock
+ * the account twice
+ */
+async function recordFailedLogin(
+  user: { id: string; lockoutCount: number },
+  request: Request
+): Promise<LoginLockState> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+
+  // Count within the current window, or start a new one - retried once when a concurrent
+  // failure started the window between the two statements
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const counted = await prisma.user.updateMany({
+      where: { id: user.id, lastFailedLoginAt: { gte: windowStart }, ...notLockedAt(now) },
+      data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    });
+    if (counted.count > 0) break;
+
+    const started = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        AND: [
+          { OR: [{ lastFailedLoginAt: null }, { lastFailedLoginAt: { lt: windowStart } }] },
+          notLockedAt(now),
+        ],
+      },
+      data: { failedLoginCount: 1, lastFailedLoginAt: now },
+    });
+    if (started.count > 0) break;
+  }
+
+  const duration =
+    LOCKOUT_DURATIONS_MS[Math.min(user.lockoutCount, LOCKOUT_DURATIONS_MS.length - 1)];
+  const lockedUntil = new Date(now.getTime() + duration);
+
+  // Only the failure that reaches the limit locks - the others find the account locked already
+  const locked = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      failedLoginCount: { gte: MAX_FAILED_ATTEMPTS },
+      lockoutCount: user.lockoutCount,
+      ...notLockedAt(now),
+    },
+    data: { failedLoginCount: 0, lockedUntil, lockoutCount: { increment: 1 } },
+  });
+
+  if (locked.count === 0) {
+    const current = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { lockedUntil: true },
+    });
+    return current?.lockedUntil && current.lockedUntil > now
+      ? { locked: true, lockedUntil: current.lockedUntil }
+      : UNLOCKED;
+  }
+
+  await prisma.activityLog.create({
+    data: {
+      userId: user.id,
+      action: 'ACCOUNT_LOCKED',
+      description: `Account locked for ${Math.round(duration / 60000)} minutes after ${MAX_FAILED_ATTEMPTS} failed login attempts`,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+      metadata: {
+        lockedUntil: lockedUntil.toISOString(),
+        lockoutCount: user.lockoutCount + 1,
+      },
+    },
+  });
+
+  logger.warn('Account locked after failed login attempts', {
+    userId: user.id,
+    lockedUntil: lockedUntil.toISOString(),
+  });
+
+  return { locked: true, lockedUntil };
+}
+
+/**
+ * Password sign-in on behalf of the client - every wrong password counts towards the lockout
+ * Returns a Firebase custom token the client signs in with
+ */
+export async function signInWithPassword(
+  email: string,
+  password: string,
+  request: Request
+): Promise<string> {
+  if (!adminAuth) {
+    throw new ApiError('Authentication service unavailable', HttpStatus.SERVICE_UNAVAILABLE);
+  }
+
+  const normalizedEmail = normalizeEmail(email);
+
+  const { count } = await getRateLimitStore().hit(
+    `login-password:${createHash('sha256').update(normalizedEmail).digest('hex')}`,
+    FAILURE_WINDOW_MS,
+    MAX_SIGN_IN_ATTEMPTS_PER_ACCOUNT
+  );
+  if (count > MAX_SIGN_IN_ATTEMPTS_PER_ACCOUNT) {
+    throw new ApiError(
+      'Too many failed login attempts. Please try again later.',
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: LOCK_SELECT,
+  });
+
+  // A locked account is refused before its password is even checked
+  if (user?.lockedUntil) {
+    if (user.lockedUntil > new Date()) {
+      throw accountLockedError(user.lockedUntil);
+    }
+    await releaseLock(user.id);
+  }
+
+  const firebaseUid = await verifyFirebasePassword(normalizedEmail, password);
+
+  if (!firebaseUid) {
+    if (user) {
+      const state = await recordFailedLogin(user, request);
+      if (state.locked && state.lockedUntil) {
+        throw accountLockedError(state.lockedUntil);
+      }
+    }
+
+    // Not 401 - clients treat that as an expired token of a signed-in user
+    throw new ApiError(
+      'Invalid email or password',
+      HttpStatus.BAD_REQUEST,
+      undefined,
+      LOGIN_SECURITY_ERROR_CODES.INVALID_CREDENTIALS
+    );
+  }
+
+  return adminAuth.createCustomToken(firebaseUid);
+}
+
+/**
+ * Reject a sign-in to a locked account - used by the login endpoints, as Firebase itself still
+ * accepts the password during a lock
+ */
+export async function assertAccountNotLocked(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: LOCK_SELECT,
+  });
+
+  if (!user?.lockedUntil) return;
+
+  if (user.lockedUntil <= new Date()) {
+    await releaseLock(user.id);
+    return;
+  }
+
+  throw accountLockedError(user.lockedUntil);
+}
+
+/**
+ * Reset the failure counters and remember the device; the user is emailed when a known
+ * account signs in from a new device or country
+ */
+export async function recordSuccessfulLogin(
+  user: { id: string; email: string; firstName: string },
+  request: Request
+): Promise<void> {
+  try {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: 0, lastFailedLoginAt: null, lockoutCount: 0 },
+    });
+
+    const deviceKey = getDeviceKey(request);
+    const country = getClientCountry(request);
+    const { deviceName } = getRequestDevice(request);
+
+    const [knownDevice, deviceCount, countryCount] = await Promise.all([
+      prisma.loginDevice.findUnique({
+        where: { userId_deviceKey: { userId: user.id, deviceKey } },
+        select: { id: true },
+      }),
+      prisma.loginDevice.count({ where: { userId: user.id } }),
+      country ? prisma.loginDevice.count({ where: { userId: user.id, country } }) : 1,
+    ]);
+
+    await prisma.loginDevice.upsert({
+      where: { userId_deviceKey: { userId: user.id, deviceKey } },
+      update: { lastSeenAt: new Date(), ...(country && { country }) },
+      create: { userId: user.id, deviceKey, deviceName, country },
+    });
+
+    // The very first sign-in has nothing to compare against
+    const newDevice = !knownDevice;
+    const newCountry = countryCount === 0;
+    if (deviceCount === 0 || (!newDevice && !newCountry)) return;
+
+    const ipAddress = getClientIp(request);
+
+    await prisma.activityLog.create({
+      data: {
+        userId: user.id,
+        action: 'NEW_DEVICE_LOGIN',
+        description: newCountry
+          ? `Signed in from a new country (${country})`
+          : `Signed in from a new device (${deviceName ?? 'unknown device'})`,
+        ipAddress,
+        userAgent: request.headers.get('user-agent'),
+        metadata: { deviceName, country, newDevice, newCountry },
+      },
+    });
+
+    sendNewLoginAlertEmail({
+      to: user.email,
+      recipientName: user.firstName,
+      deviceName,
+      country,
+      ipAddress,
+      newCountry,
+      at: new Date(),
+    }).catch((error) => {
+      logger.error('Failed to send new login alert email', error, { userId: user.id });
+    });
+  } catch (error) {
+    // Alerts are best effort - never fail a valid sign-in because of them
+    logger.error('Failed to record successful login', error, { userId: user.id });
+  }
+}
+
+export async function listLockedAccounts() {
+  return prisma.user.findMany({
+    where: { lockedUntil: { gt: new Date() } },
+    orderBy: { lockedUntil: 'asc' },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      role: true,
+      lockedUntil: true,
+      lockoutCount: true,
+      lastFailedLoginAt: true,
+    },
+  });
+}
+
+/**
+ * Lift a lockout before it expires - also resets the progressive duration
+ */
+export async function unlockAccount(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: LOCK_SELECT,
+  });
+
+  if (!user?.lockedUntil) return false;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: null, failedLoginCount: 0, lastFailedLoginAt: null, lockoutCount: 0 },
+  });
+
+  return true;
+}
+
+/**
+ * Clear locks that have run out (cron) - locks are also released lazily on the next login
+ * attempt, this resets the failure counters of accounts nobody tried again
+ */
+export async function releaseExpiredLockouts(): Promise<number> {
+  const result = await prisma.user.updateMany({
+    where: { lockedUntil: { lte: new Date() } },
+    data: { lockedUntil: null, failedLoginCount: 0 },
+  });
+
+  return result.count;
+}
@@ -12,10 +12,15 @@ export interface CreateNotificationParams {
     | 'CASE_STATUS_UPDATE'
     | 'DOCUMENT_UPLOADED'
     | 'CASE_ASSIGNED'
-    | 'SYSTEM_ANNOUNCEMENT';
+    | 'SYSTEM_ANNOUNCEMENT'
+    | 'DOCUMENT_EXPIRING'
+    | 'APPOINTMENT_REMINDER'
+    | 'SLA_ALERT'
+    | 'TASK_OVERDUE';
   title: string;
   message: string;
   caseId?: string;
+  appointmentId?: string;
   actionUrl?: string;
   priority?: 'low' | 'medium' | 'high';
 }
@@ -68,6 +73,7 @@ async function processBatch(): Promise<void> {
         title: n.title,
         message: n.message,
         caseId: n.caseId || null,
+        appointmentId: n.appointmentId || null,
         actionUrl: n.actionUrl || null,
         isRead: false,
       })),
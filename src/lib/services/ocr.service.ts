@@ -0,0 +1,100 @@
+// OCR Service - Pluggable text recognition for identity document scans
+// OCR_ENGINE picks the engine: "tesseract" (default) runs the local tesseract CLI
+// (TESSERACT_PATH, TESSERACT_LANG); "none" disables recognition.
+// Only images are supported - PDFs must be rasterized before they reach an engine
+
+import { spawn } from 'child_process';
+import sharp from 'sharp';
+
+export interface OcrEngine {
+  readonly name: string;
+  recognize(image: Buffer): Promise<string>;
+}
+
+export const OCR_SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// MRZ characters are small - scans narrower than this are upscaled before recognition
+const MIN_OCR_WIDTH = 2000;
+
+/**
+ * Grayscale, stretch contrast and upscale small scans - tesseract reads PNG from stdin
+ */
+async function preprocessImage(image: Buffer): Promise<Buffer> {
+  const pipeline = sharp(image).rotate().grayscale().normalize();
+  const { width } = await pipeline.clone().metadata();
+
+  if (width && width < MIN_OCR_WIDTH) {
+    pipeline.resize({ width: MIN_OCR_WIDTH });
+  }
+
+  return pipeline.png().toBuffer();
+}
+
+function runTesseract(image: Buffer): Promise<string> {
+  const timeoutMs = Number(process.env.OCR_TIMEOUT_MS) || 60_000;
+  const binary = process.env.TESSERACT_PATH || 'tesseract';
+  const language = process.env.TESSERACT_LANG || 'eng';
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, ['stdin', 'stdout', '--psm', '6', '-l', language]);
+    const output: Buffer[] = [];
+    const errors: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`tesseract did not finish within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk) => output.push(chunk));
+    child.stderr.on('data', (chunk) => errors.push(chunk));
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(output).toString('utf8'));
+      } else {
+        const details = Buffer.concat(errors).toString('utf8').trim();
+        reject(new Error(`tesseract exited with code ${code}${details ? `: ${details}` : ''}`));
+      }
+    });
+
+    // The process may exit early (bad language pack) - ignore the broken pipe
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(image);
+  });
+}
+
+const tesseractEngine: OcrEngine = {
+  name: 'tesseract',
+
+  async recognize(image) {
+    return runTesseract(await preprocessImage(image));
+  },
+};
+
+const noopEngine: OcrEngine = {
+  name: 'none',
+
+  async recognize() {
+    throw new Error('OCR is disabled (OCR_ENGINE=none)');
+  },
+};
+
+export const OCR_ENGINES: Record<string, OcrEngine> = {
+  tesseract: tesseractEngine,
+  none: noopEngine,
+};
+
+export function getOcrEngine(): OcrEngine {
+  const name = process.env.OCR_ENGINE || 'tesseract';
+  const engine = OCR_ENGINES[name];
+
+  if (!engine) {
+    throw new Error(`Unknown OCR_ENGINE "${name}"`);
+  }
+
+  return engine;
+}
@@ -0,0 +1,254 @@
+// Session Service - signed-in devices of a user
+// Every authenticated request touches the row of its Firebase sign-in (userId + auth_time), which
+// gives users a list of their devices and lets them or an admin sign a device out. Firebase cannot
+// revoke a single refresh token, so revoked sign-ins are rejected here instead
+
+import type { SessionPlatform } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { adminAuth } from '@/lib/firebase/firebase-admin';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+
+export const SESSION_ERROR_CODES = {
+  REVOKED: 'SESSION_REVOKED',
+} as const;
+
+// Last-seen is written at most once a minute per sign-in and process; revocations made on
+// another instance take effect within the same delay
+const TOUCH_INTERVAL_MS = 60 * 1000;
+// Sign-ins not seen for this long are dropped from the list
+const SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionSummary {
+  id: string;
+  platform: SessionPlatform;
+  deviceName: string | null;
+  ipAddress: string | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+  current: boolean;
+}
+
+const touchCache = new Map<string, { revoked: boolean; touchedAt: number }>();
+
+function clearSessionCache(userId: string): void {
+  for (const key of touchCache.keys()) {
+    if (key.startsWith(`${userId}:`)) {
+      touchCache.delete(key);
+    }
+  }
+}
+
+// The Expo app sends X-Client-Platform; older builds are recognised by their HTTP client
+function detectPlatform(request: Request, userAgent: string | null): SessionPlatform {
+  const header = request.headers.get('x-client-platform')?.toLowerCase();
+  if (header === 'mobile' || header === 'ios' || header === 'android') {
+    return 'MOBILE';
+  }
+  return userAgent && /okhttp|expo|cfnetwork|dalvik/i.test(userAgent) ? 'MOBILE' : 'WEB';
+}
+
+// First match wins - order matters (Edge and Chrome both mention Safari, Android mentions Linux)
+const OS_PATTERNS: [RegExp, string][] = [
+  [/iphone|ipad|cfnetwork/i, 'iOS'],
+  [/android|okhttp|dalvik/i, 'Android'],
+  [/windows/i, 'Windows'],
+  [/mac os|macintosh/i, 'macOS'],
+  [/linux/i, 'Linux'],
+];
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/edg\//i, 'Edge'],
+  [/firefox\//i, 'Firefox'],
+  [/chrome\//i, 'Chrome'],
+  [/safari\//i, 'Safari'],
+];
+
+function describeDevice(userAgent: string | null, platform: SessionPlatform): string | null {
+  if (!userAgent) return null;
+
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (platform === 'MOBILE') {
+    return os ? `Mobile app on ${os}` : 'Mobile app';
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Browser';
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Platform and readable name of the device that sent a request (sessions, login alerts)
+ */
+export function getRequestDevice(request: Request): {
+  platform: SessionPlatform;
+  deviceName: string | null;
+} {
+  const userAgent = request.headers.get('user-agent');
+  const platform = detectPlatform(request, userAgent);
+  return { platform, deviceName: describeDevice(userAgent, platform) };
+}
+
+/**
+ * Record activity of the current sign-in and reject it if it was signed out remotely
+ * Called by authenticateToken for every request
+ */
+export async function trackSession(
+  userId: string,
+  authTime: number,
+  request: Request
+): Promise<void> {
+  const cacheKey = `${userId}:${authTime}`;
+  let cached = touchCache.get(cacheKey);
+
+  if (!cached || Date.now() - cached.touchedAt > TOUCH_INTERVAL_MS) {
+    const userAgent = request.headers.get('user-agent');
+    const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null;
+    const { platform, deviceName } = getRequestDevice(request);
+
+    try {
+      // A sign-in made while the account is locked (login security service) starts out
+      // signed out, even if it never went through the login endpoint
+      const account = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { lockedUntil: true },
+      });
+
+      // Tokens minted before the userId claim existed carry the Firebase uid instead - such a
+      // sign-in has no session that could have been revoked, so there is nothing to check
+      if (!account) {
+        return;
+      }
+
+      const lockedNow = Boolean(account.lockedUntil && account.lockedUntil > new Date());
+
+      const session = await prisma.userSession.upsert({
+        where: { userId_authTime: { userId, authTime } },
+        update: { lastSeenAt: new Date(), ipAddress },
+        create: {
+          userId,
+          authTime,
+          platform,
+          deviceName,
+          userAgent,
+          ipAddress,
+          revokedAt: lockedNow ? new Date() : null,
+        },
+        select: { revokedAt: true },
+      });
+
+      cached = { revoked: Boolean(session.revokedAt), touchedAt: Date.now() };
+    } catch (error) {
+      // Fail closed and retry on the next request - a signed-out or locked device must not get
+      // through while the database is unavailable
+      logger.warn('Failed to record session activity', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new ApiError('Unable to verify this session', HttpStatus.SERVICE_UNAVAILABLE);
+    }
+
+    touchCache.set(cacheKey, cached);
+  }
+
+  if (cached.revoked) {
+    throw new ApiError(
+      'This session was signed out',
+      HttpStatus.UNAUTHORIZED,
+      undefined,
+      SESSION_ERROR_CODES.REVOKED
+    );
+  }
+}
+
+export async function listSessions(userId: string, currentAuthTime?: number) {
+  const sessions = await prisma.userSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      lastSeenAt: { gte: new Date(Date.now() - SESSION_RETENTION_MS) },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+    select: {
+      id: true,
+      authTime: true,
+      platform: true,
+      deviceName: true,
+      ipAddress: true,
+      lastSeenAt: true,
+      createdAt: true,
+    },
+  });
+
+  return sessions.map(
+    ({ authTime, ...session }): SessionSummary => ({
+      ...session,
+      current: authTime === currentAuthTime,
+    })
+  );
+}
+
+/**
+ * Sign out one device - returns false when the session does not exist or is already gone
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  clearSessionCache(userId);
+
+  return result.count > 0;
+}
+
+export async function revokeCurrentSession(userId: string, authTime: number): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { userId, authTime, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  clearSessionCache(userId);
+}
+
+/**
+ * Sign out every device, optionally keeping the current sign-in
+ * Without an exception the Firebase refresh tokens are revoked too, so no device can mint new
+ * ID tokens for an old sign-in
+ */
+export async function revokeAllSessions(
+  userId: string,
+  options: { keepAuthTime?: number } = {}
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.keepAuthTime !== undefined && { authTime: { not: options.keepAuthTime } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  clearSessionCache(userId);
+
+  if (options.keepAuthTime === undefined) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { firebaseId: true },
+    });
+
+    if (user?.firebaseId && adminAuth) {
+      try {
+        await adminAuth.revokeRefreshTokens(user.firebaseId);
+      } catch (error) {
+        // The session rows are already revoked - log and carry on
+        logger.warn('Failed to revoke Firebase refresh tokens', {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return result.count;
+}
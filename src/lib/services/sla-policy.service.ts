@@ -0,0 +1,110 @@
+// SLA Policy Service - Measures how long a case has been in its current status
+// Policies set a target per status (optionally per priority); the evaluator cron uses
+// these helpers to mark cases ON_TRACK, AT_RISK or BREACHED
+
+import type { CaseStatus, Priority, SlaPolicy, SlaState } from '@prisma/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Statuses outside the handled lifecycle (not yet submitted, or finished) - no SLA applies
+export const SLA_EXEMPT_STATUSES: CaseStatus[] = ['DRAFT', 'APPROVED', 'REJECTED', 'CLOSED'];
+
+// Spread into a status change so stale badges disappear until the next evaluation
+export const CLEARED_SLA_FIELDS = {
+  slaState: null,
+  slaDueAt: null,
+  slaStatus: null,
+} as const;
+
+const SLA_STATE_SEVERITY: Record<SlaState, number> = {
+  ON_TRACK: 0,
+  AT_RISK: 1,
+  BREACHED: 2,
+};
+
+export interface SlaEvaluation {
+  state: SlaState;
+  dueAt: Date;
+  atRiskAt: Date;
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function startOfNextUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS + DAY_MS);
+}
+
+/**
+ * Add a number of hours to a date, optionally skipping Saturdays and Sundays (UTC)
+ * With business days only, a case entering a status on Saturday starts counting on Monday
+ */
+export function addSlaHours(start: Date, hours: number, businessDaysOnly: boolean): Date {
+  if (!businessDaysOnly) {
+    return new Date(start.getTime() + hours * HOUR_MS);
+  }
+
+  let remaining = hours * HOUR_MS;
+  let cursor = new Date(start);
+
+  while (true) {
+    if (isWeekend(cursor)) {
+      cursor = startOfNextUtcDay(cursor);
+      continue;
+    }
+
+    const dayEnd = startOfNextUtcDay(cursor);
+    const available = dayEnd.getTime() - cursor.getTime();
+
+    if (remaining <= available) {
+      return new Date(cursor.getTime() + remaining);
+    }
+
+    remaining -= available;
+    cursor = dayEnd;
+  }
+}
+
+/**
+ * Pick the policy for a status and priority
+ * A priority-specific policy wins over the catch-all (priority = null) one
+ */
+export function findSlaPolicy(
+  policies: SlaPolicy[],
+  status: CaseStatus,
+  priority: Priority
+): SlaPolicy | null {
+  const candidates = policies.filter((policy) => policy.isActive && policy.status === status);
+
+  return (
+    candidates.find((policy) => policy.priority === priority) ??
+    candidates.find((policy) => policy.priority === null) ??
+    null
+  );
+}
+
+/**
+ * Evaluate a case that entered its current status at `enteredAt`
+ */
+export function evaluateSla(policy: SlaPolicy, enteredAt: Date, now: Date): SlaEvaluation {
+  const dueAt = addSlaHours(enteredAt, policy.targetHours, policy.businessDaysOnly);
+  const atRiskAt = addSlaHours(
+    enteredAt,
+    (policy.targetHours * policy.atRiskPercent) / 100,
+    policy.businessDaysOnly
+  );
+
+  const state: SlaState = now >= dueAt ? 'BREACHED' : now >= atRiskAt ? 'AT_RISK' : 'ON_TRACK';
+
+  return { state, dueAt, atRiskAt };
+}
+
+/**
+ * True when the new state is worse than the previous one and should trigger an alert
+ */
+export function isSlaEscalation(previous: SlaState | null, next: SlaState): boolean {
+  return SLA_STATE_SEVERITY[next] > (previous ? SLA_STATE_SEVERITY[previous] : 0);
+}
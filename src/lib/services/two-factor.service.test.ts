@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@/lib/utils/error-handler';
+
+// In-memory stand-in for the few user / session queries the service makes
+const db = vi.hoisted(() => {
+  type StoredUser = {
+    id: string;
+    email: string;
+    twoFactorSecret: string | null;
+    twoFactorEnabledAt: Date | null;
+    twoFactorLastStep: number | null;
+    recoveryCodeHashes: string[];
+  };
+
+  const users = new Map<string, StoredUser>();
+
+  const client = {
+    user: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const user = users.get(where.id);
+        return user ? { ...user, recoveryCodeHashes: [...user.recoveryCodeHashes] } : null;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredUser> }) => {
+        const user = users.get(where.id)!;
+        Object.assign(user, data);
+        return user;
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; recoveryCodeHashes?: { equals: string[] } };
+        data: Partial<StoredUser>;
+      }) => {
+        const user = users.get(where.id);
+        const expected = where.recoveryCodeHashes?.equals;
+        if (!user || (expected && expected.join() !== user.recoveryCodeHashes.join())) {
+          return { count: 0 };
+        }
+        Object.assign(user, data);
+        return { count: 1 };
+      },
+    },
+    twoFactorSession: {
+      upsert: async () => ({}),
+      deleteMany: async () => ({ count: 0 }),
+    },
+    $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+  };
+
+  return { users, client };
+});
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: db.client }));
+
+const {
+  TWO_FACTOR_ERROR_CODES,
+  beginTwoFactorEnrollment,
+  consumeTwoFactorAttempt,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} = await import('./two-factor.service');
+
+const USER_ID = 'user-1';
+const AUTH_TIME = 1_700_000_000;
+
+async function enrolledUser(): Promise<string[]> {
+  db.users.set(USER_ID, {
+    id: USER_ID,
+    email: 'agent@example.com',
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastStep: null,
+    recoveryCodeHashes: [],
+  });
+  await beginTwoFactorEnrollment(USER_ID);
+  db.users.get(USER_ID)!.twoFactorEnabledAt = new Date();
+  return regenerateRecoveryCodes(USER_ID);
+}
+
+beforeEach(() => {
+  vi.stubEnv('TWO_FACTOR_ENCRYPTION_KEY', 'test-encryption-key');
+  db.users.clear();
+});
+
+describe('recovery codes', () => {
+  it('issues ten distinct codes and stores only keyed hashes', async () => {
+    const codes = await enrolledUser();
+    const stored = db.users.get(USER_ID)!;
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(stored.recoveryCodeHashes).toHaveLength(10);
+    const plainHash = createHash('sha256').update(codes[0].replace('-', '')).digest('hex');
+    expect(stored.recoveryCodeHashes).not.toContain(plainHash);
+    expect(stored.recoveryCodeHashes.some((hash) => codes.includes(hash))).toBe(false);
+  });
+
+  it('accepts a code once, ignoring case, spaces and dashes', async () => {
+    const [code] = await enrolledUser();
+    const typed = ` ${code.replace('-', ' ').toUpperCase()} `;
+
+    await expect(verifySecondFactor(USER_ID, typed, AUTH_TIME)).resolves.toEqual({
+      method: 'recovery_code',
+      recoveryCodesLeft: 9,
+    });
+    await expect(verifySecondFactor(USER_ID, code, AUTH_TIME)).resolves.toBeNull();
+  });
+
+  it('rejects unknown codes without spending any', async () => {
+    await enrolledUser();
+
+    await expect(verifySecondFactor(USER_ID, '00000-00000', AUTH_TIME)).resolves.toBeNull();
+    expect(db.users.get(USER_ID)!.recoveryCodeHashes).toHaveLength(10);
+  });
+
+  it('lets only one of two concurrent requests spend the same code', async () => {
+    const [code] = await enrolledUser();
+
+    const results = await Promise.all([
+      verifySecondFactor(USER_ID, code, AUTH_TIME),
+      verifySecondFactor(USER_ID, code, AUTH_TIME),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(db.users.get(USER_ID)!.recoveryCodeHashes).toHaveLength(9);
+  });
+
+  it('replaces every code when regenerated', async () => {
+    const [oldCode] = await enrolledUser();
+    await regenerateRecoveryCodes(USER_ID);
+
+    await expect(verifySecondFactor(USER_ID, oldCode, AUTH_TIME)).resolves.toBeNull();
+  });
+});
+
+describe('consumeTwoFactorAttempt', () => {
+  it('throttles the sixth attempt and gives attempts back on success', async () => {
+    const userId = `throttle-${Date.now()}`;
+    const refunds = [];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      refunds.push(await consumeTwoFactorAttempt(userId));
+    }
+
+    const error = await consumeTwoFactorAttempt(userId).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).statusCode).toBe(429);
+    expect((error as ApiError).code).toBe(TWO_FACTOR_ERROR_CODES.THROTTLED);
+
+    await refunds[0]();
+    await expect(consumeTwoFactorAttempt(userId)).resolves.toBeTypeOf('function');
+  });
+});
@@ -0,0 +1,498 @@
+// Two-Factor Service - TOTP second factor for staff accounts
+// A Firebase sign-in is identified by the `auth_time` of its ID tokens; once a code is accepted for
+// it, a TwoFactorSession row lets every request of that sign-in through. Whether staff must enroll
+// is a per-role setting stored in SystemSetting
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+import type { Prisma, Role } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { logger } from '@/lib/utils/logger';
+import { ApiError, HttpStatus } from '@/lib/utils/error-handler';
+import { getRateLimitStore } from '@/lib/middleware/rate-limit-store';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '@/lib/auth/totp';
+
+export type TwoFactorRole = Extract<Role, 'AGENT' | 'ADMIN'>;
+
+// Clients never get a second factor
+export const TWO_FACTOR_ROLES: TwoFactorRole[] = ['AGENT', 'ADMIN'];
+
+// Sensitive actions need a code entered this recently
+export const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+export const TWO_FACTOR_ERROR_CODES = {
+  ENROLLMENT_REQUIRED: 'TWO_FACTOR_ENROLLMENT_REQUIRED',
+  REQUIRED: 'TWO_FACTOR_REQUIRED',
+  STEP_UP_REQUIRED: 'TWO_FACTOR_STEP_UP_REQUIRED',
+  THROTTLED: 'TWO_FACTOR_THROTTLED',
+} as const;
+
+const ISSUER = 'Patrick Travel Services';
+const RECOVERY_CODE_COUNT = 10;
+const POLICY_KEY_PREFIX = 'security:twoFactorRequired:';
+const CACHE_TTL_MS = 60 * 1000;
+// Verified sign-ins older than this are pruned when the user verifies again
+const SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+// Invalid codes allowed per account within the window before verification is paused
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  verified: boolean;
+  verifiedAt: Date | null;
+}
+
+interface TwoFactorSubject {
+  userId: string;
+  role: `${Role}`;
+}
+
+export function isTwoFactorRole(role: string): role is TwoFactorRole {
+  return (TWO_FACTOR_ROLES as string[]).includes(role);
+}
+
+function getServerSecret(): string {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new ApiError(
+      'Two-factor authentication is not configured',
+      HttpStatus.SERVICE_UNAVAILABLE
+    );
+  }
+  return secret;
+}
+
+function getEncryptionKey(): Buffer {
+  return createHash('sha256').update(getServerSecret()).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// Keyed with the server secret so a leaked database alone cannot be used to brute-force the codes
+function hashRecoveryCode(code: string): string {
+  return createHmac('sha256', `recovery-code:${getServerSecret()}`)
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+let policyCache: { policy: Record<TwoFactorRole, boolean>; expiresAt: number } | null = null;
+const statusCache = new Map<string, { status: TwoFactorStatus; expiresAt: number }>();
+
+export async function getTwoFactorPolicy(): Promise<Record<TwoFactorRole, boolean>> {
+  if (policyCache && policyCache.expiresAt > Date.now()) {
+    return policyCache.policy;
+  }
+
+  const settings = await prisma.systemSetting.findMany({
+    where: { key: { startsWith: POLICY_KEY_PREFIX } },
+    select: { key: true, value: true },
+  });
+
+  const policy: Record<TwoFactorRole, boolean> = { AGENT: false, ADMIN: false };
+  for (const setting of settings) {
+    const role = setting.key.slice(POLICY_KEY_PREFIX.length);
+    if (isTwoFactorRole(role)) {
+      policy[role] = setting.value === 'true';
+    }
+  }
+
+  policyCache = { policy, expiresAt: Date.now() + CACHE_TTL_MS };
+
+  return policy;
+}
+
+export async function setTwoFactorPolicy(
+  policy: Partial<Record<TwoFactorRole, boolean>>,
+  updatedBy: string
+): Promise<Record<TwoFactorRole, boolean>> {
+  await prisma.$transaction(
+    Object.entries(policy).map(([role, required]) =>
+      prisma.systemSetting.upsert({
+        where: { key: `${POLICY_KEY_PREFIX}${role}` },
+        update: { value: String(required), updatedBy },
+        create: {
+          key: `${POLICY_KEY_PREFIX}${role}`,
+          value: String(required),
+          category: 'security',
+          updatedBy,
+        },
+      })
+    )
+  );
+
+  policyCache = null;
+  statusCache.clear();
+
+  return getTwoFactorPolicy();
+}
+
+/**
+ * Forget cached statuses of a user - call after enrolling, verifying or resetting
+ */
+export function clearTwoFactorCache(userId: string): void {
+  for (const key of statusCache.keys()) {
+    if (key.startsWith(`${userId}:`)) {
+      statusCache.delete(key);
+    }
+  }
+}
+
+export async function getTwoFactorStatus(
+  user: TwoFactorSubject,
+  authTime: number
+): Promise<TwoFactorStatus> {
+  if (!isTwoFactorRole(user.role)) {
+    return { enabled: false, required: false, verified: false, verifiedAt: null };
+  }
+
+  const cacheKey = `${user.userId}:${authTime}`;
+  const cached = statusCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.status;
+  }
+
+  const [policy, record] = await Promise.all([
+    getTwoFactorPolicy(),
+    prisma.user.findUnique({
+      where: { id: user.userId },
+      select: {
+        twoFactorEnabledAt: true,
+        twoFactorSessions: { where: { authTime }, select: { verifiedAt: true } },
+      },
+    }),
+  ]);
+
+  const verifiedAt = record?.twoFactorSessions[0]?.verifiedAt ?? null;
+  const status: TwoFactorStatus = {
+    enabled: Boolean(record?.twoFactorEnabledAt),
+    required: policy[user.role],
+    verified: Boolean(verifiedAt),
+    verifiedAt,
+  };
+
+  statusCache.set(cacheKey, { status, expiresAt: Date.now() + CACHE_TTL_MS });
+
+  return status;
+}
+
+/**
+ * Reject requests from a sign-in that still owes its second factor
+ * Enrolled users are always challenged; others only when their role requires 2FA
+ */
+export async function assertTwoFactorSatisfied(
+  user: TwoFactorSubject,
+  authTime: number
+): Promise<void> {
+  if (!isTwoFactorRole(user.role)) {
+    return;
+  }
+
+  const status = await getTwoFactorStatus(user, authTime);
+
+  if (status.enabled && !status.verified) {
+    throw new ApiError(
+      'Two-factor verification required',
+      HttpStatus.FORBIDDEN,
+      undefined,
+      TWO_FACTOR_ERROR_CODES.REQUIRED
+    );
+  }
+
+  if (!status.enabled && status.required) {
+    throw new ApiError(
+      'Two-factor authentication must be set up for your account',
+      HttpStatus.FORBIDDEN,
+      undefined,
+      TWO_FACTOR_ERROR_CODES.ENROLLMENT_REQUIRED
+    );
+  }
+}
+
+/**
+ * Step-up check for sensitive actions - the code must have been entered in the last few minutes
+ * Only applies to users who enrolled or whose role requires 2FA; the latter are sent to set it up
+ */
+export async function requireRecentTwoFactor(
+  user: TwoFactorSubject,
+  authTime: number | undefined
+): Promise<void> {
+  const status = await getTwoFactorStatus(user, authTime ?? 0);
+
+  if (!status.enabled && !status.required) {
+    return;
+  }
+
+  if (!status.enabled) {
+    throw new ApiError(
+      'Set up two-factor authentication to perform this action',
+      HttpStatus.FORBIDDEN,
+      undefined,
+      TWO_FACTOR_ERROR_CODES.ENROLLMENT_REQUIRED
+    );
+  }
+
+  if (!status.verifiedAt || Date.now() - status.verifiedAt.getTime() > STEP_UP_WINDOW_MS) {
+    throw new ApiError(
+      'Confirm this action with your authentication code',
+      HttpStatus.FORBIDDEN,
+      undefined,
+      TWO_FACTOR_ERROR_CODES.STEP_UP_REQUIRED
+    );
+  }
+}
+
+/**
+ * Count a code attempt against the per-account limit before the code is checked - the count is
+ * taken atomically in the rate-limit store, so parallel guesses cannot all slip under it
+ * Returns a callback that gives the attempt back once the code turned out to be valid
+ */
+export async function consumeTwoFactorAttempt(userId: string): Promise<() => Promise<void>> {
+  const store = getRateLimitStore();
+  const key = `two-factor:${userId}`;
+
+  const { count, hitId } = await store.hit(key, FAILED_ATTEMPT_WINDOW_MS, MAX_FAILED_ATTEMPTS);
+
+  if (!hitId || count > MAX_FAILED_ATTEMPTS) {
+    throw new ApiError(
+      'Too many invalid codes. Please try again later.',
+      HttpStatus.TOO_MANY_REQUESTS,
+      undefined,
+      TWO_FACTOR_ERROR_CODES.THROTTLED
+    );
+  }
+
+  return () => store.undo(key, hitId);
+}
+
+async function markSessionVerified(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  authTime: number
+): Promise<void> {
+  const now = new Date();
+
+  await tx.twoFactorSession.upsert({
+    where: { userId_authTime: { userId, authTime } },
+    update: { verifiedAt: now },
+    create: { userId, authTime, verifiedAt: now },
+  });
+
+  await tx.twoFactorSession.deleteMany({
+    where: { userId, verifiedAt: { lt: new Date(now.getTime() - SESSION_RETENTION_MS) } },
+  });
+}
+
+/**
+ * Start enrollment - stores a new pending secret and returns it for the authenticator app
+ */
+export async function beginTwoFactorEnrollment(
+  userId: string
+): Promise<{ secret: string; otpauthUrl: string }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabledAt: true },
+  });
+
+  if (!user) {
+    throw new ApiError('User not found', HttpStatus.NOT_FOUND);
+  }
+
+  if (user.twoFactorEnabledAt) {
+    throw new ApiError('Two-factor authentication is already enabled', HttpStatus.CONFLICT);
+  }
+
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  });
+
+  return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email, ISSUER) };
+}
+
+/**
+ * Finish enrollment with a first code - the current sign-in counts as verified
+ * Returns the recovery codes, which are only shown this once
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string,
+  authTime: number
+): Promise<string[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+  });
+
+  if (!user?.twoFactorSecret || user.twoFactorEnabledAt) {
+    throw new ApiError('No two-factor enrollment in progress', HttpStatus.BAD_REQUEST);
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    throw new ApiError('Invalid authentication code', HttpStatus.BAD_REQUEST);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step, recoveryCodeHashes: hashes },
+    });
+    await markSessionVerified(tx, userId, authTime);
+  });
+
+  clearTwoFactorCache(userId);
+
+  return codes;
+}
+
+/**
+ * Check a TOTP or recovery code for the current sign-in (login challenge and step-up)
+ * Recovery codes are single use
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+  authTime: number
+): Promise<{ method: 'totp' | 'recovery_code'; recoveryCodesLeft: number } | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorSecret: true,
+      twoFactorEnabledAt: true,
+      twoFactorLastStep: true,
+      recoveryCodeHashes: true,
+    },
+  });
+
+  if (!user?.twoFactorSecret || !user.twoFactorEnabledAt) {
+    throw new ApiError('Two-factor authentication is not enabled', HttpStatus.BAD_REQUEST);
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code, user.twoFactorLastStep);
+
+  if (step !== null) {
+    // Guard so the same code cannot be used by two concurrent requests
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    await prisma.$transaction((tx) => markSessionVerified(tx, userId, authTime));
+    clearTwoFactorCache(userId);
+
+    return { method: 'totp', recoveryCodesLeft: user.recoveryCodeHashes.length };
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!user.recoveryCodeHashes.includes(hash)) {
+    return null;
+  }
+
+  const remaining = user.recoveryCodeHashes.filter((existing) => existing !== hash);
+
+  // Only spend the code if the list is still the one we read - a concurrent request using the
+  // same code (or any other) makes this match nothing
+  const spent = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.updateMany({
+      where: { id: userId, recoveryCodeHashes: { equals: user.recoveryCodeHashes } },
+      data: { recoveryCodeHashes: remaining },
+    });
+    if (updated.count === 0) {
+      return false;
+    }
+    await markSessionVerified(tx, userId, authTime);
+    return true;
+  });
+
+  if (!spent) {
+    return null;
+  }
+
+  clearTwoFactorCache(userId);
+
+  return { method: 'recovery_code', recoveryCodesLeft: remaining.length };
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { recoveryCodeHashes: hashes },
+  });
+
+  return codes;
+}
+
+/**
+ * Remove the second factor - used by the user themselves and by admins for locked-out staff
+ */
+export async function removeTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+        recoveryCodeHashes: [],
+      },
+    }),
+    prisma.twoFactorSession.deleteMany({ where: { userId } }),
+  ]);
+
+  clearTwoFactorCache(userId);
+
+  logger.info('Two-factor authentication removed', { userId });
+}
+
+export async function logTwoFactorEvent(
+  request: Request,
+  userId: string,
+  action: string,
+  description: string,
+  metadata?: Prisma.InputJsonValue
+): Promise<void> {
+  await prisma.activityLog.create({
+    data: {
+      userId,
+      action,
+      description,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+      metadata,
+    },
+  });
+}
@@ -0,0 +1,101 @@
+// Cloudinary storage driver - used by the mobile app uploads
+// Keys are "<resource_type>/<public_id>[.<format>]"; raw files keep their extension in
+// the public id, images and videos carry it as a separate format
+
+import path from 'path';
+import { cloudinary, uploadToCloudinary } from '@/lib/cloudinary/config';
+import type { StorageDriver } from './types';
+
+type CloudinaryResourceType = 'image' | 'video' | 'raw';
+
+const RESOURCE_TYPES: CloudinaryResourceType[] = ['image', 'video', 'raw'];
+
+// Matches /<cloud>/<resource_type>/upload/[s--signature--/][v123/]<public_id>
+const DELIVERY_PATH = /^\/[^/]+\/(image|video|raw)\/upload\/(?:s--[^/]+--\/)?(?:v\d+\/)?(.+)$/;
+
+function splitKey(key: string): {
+  resourceType: CloudinaryResourceType;
+  publicId: string;
+  format: string;
+} {
+  const separator = key.indexOf('/');
+  const resourceType = key.slice(0, separator) as CloudinaryResourceType;
+  const rest = key.slice(separator + 1);
+
+  if (separator === -1 || !RESOURCE_TYPES.includes(resourceType) || !rest) {
+    throw new Error('Invalid Cloudinary storage key');
+  }
+
+  if (resourceType === 'raw') {
+    return { resourceType, publicId: rest, format: '' };
+  }
+
+  const extension = path.extname(rest);
+  return {
+    resourceType,
+    publicId: extension ? rest.slice(0, -extension.length) : rest,
+    format: extension.slice(1),
+  };
+}
+
+export const cloudinaryDriver: StorageDriver = {
+  provider: 'CLOUDINARY',
+
+  async put(key, body, { contentType }) {
+    const resourceType: CloudinaryResourceType = contentType.startsWith('image/')
+      ? 'image'
+      : contentType.startsWith('video/')
+        ? 'video'
+        : 'raw';
+    const fileName = path.posix.basename(key);
+
+    const result = await uploadToCloudinary(body, {
+      folder: path.posix.dirname(key),
+      publicId:
+        resourceType === 'raw' ? fileName : path.posix.basename(key, path.posix.extname(key)),
+      resourceType,
+    });
+
+    const storedKey = this.parseUrl(new URL(result.secure_url));
+    if (!storedKey) {
+      throw new Error('Unexpected Cloudinary delivery URL');
+    }
+
+    return { key: storedKey, url: result.secure_url, size: result.bytes };
+  },
+
+  async get(key) {
+    const response = await fetch(await this.getSignedUrl(key, { expiresIn: 60 }));
+
+    if (!response.ok) {
+      throw new Error(`Cloudinary download of ${key} failed with status ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async delete(key) {
+    const { resourceType, publicId } = splitKey(key);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+  },
+
+  // Cloudinary names the attachment after the public id - downloadName is not supported
+  async getSignedUrl(key, { expiresIn, downloadName }) {
+    const { resourceType, publicId, format } = splitKey(key);
+
+    return cloudinary.utils.private_download_url(publicId, format, {
+      resource_type: resourceType,
+      type: 'upload',
+      expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+      attachment: !!downloadName,
+    });
+  },
+
+  parseUrl(url) {
+    if (url.hostname !== 'res.cloudinary.com') {
+      return null;
+    }
+    const match = DELIVERY_PATH.exec(url.pathname);
+    return match ? `${match[1]}/${decodeURIComponent(match[2])}` : null;
+  },
+};
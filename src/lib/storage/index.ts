@@ -0,0 +1,168 @@
+// Storage - picks the backend document bytes are written to and resolves where existing
+// documents live. New uploads go to STORAGE_PROVIDER (uploadthing | cloudinary | local | s3);
+// documents keep the provider they were stored with, so switching backends never breaks
+// older files. `pnpm storage:migrate` moves existing documents between backends
+
+import { randomUUID } from 'crypto';
+import type { Document, Prisma, StorageProvider } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { sanitizeFilename } from '@/lib/utils/file-validation';
+import { cloudinaryDriver } from './cloudinary.driver';
+import { localDriver } from './local.driver';
+import { s3Driver } from './s3.driver';
+import { uploadthingDriver } from './uploadthing.driver';
+import type { StorageDriver, StorageLocation } from './types';
+
+export type {
+  PutObjectOptions,
+  SignedUrlOptions,
+  StorageDriver,
+  StorageLocation,
+  StoredObject,
+} from './types';
+export { LOCAL_STORAGE_ROUTE, getLocalContentType, verifyLocalSignature } from './local.driver';
+
+// Prefix of every document object key: documents/<userId>/...
+export const DOCUMENT_KEY_PREFIX = 'documents';
+
+// Lifetime of download links handed out by /api/documents/[id]/download
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+/**
+ * Where a document's bytes live never leaves the server - clients go through the signed
+ * download route. Pass as `omit` to every document query whose result is returned
+ */
+export const PRIVATE_DOCUMENT_FIELDS = {
+  filePath: true,
+  storageKey: true,
+} satisfies Prisma.DocumentOmit;
+
+export type PublicDocument = Omit<Document, keyof typeof PRIVATE_DOCUMENT_FIELDS>;
+
+/**
+ * Template as returned to clients - the stored URL is replaced by whether a file is present,
+ * downloads go through /api/templates/[id]/file
+ */
+export function toPublicTemplate<T extends { fileUrl: string }>({
+  fileUrl,
+  ...template
+}: T): Omit<T, 'fileUrl'> & { hasFile: boolean } {
+  return { ...template, hasFile: inferStorageLocation(fileUrl) !== null };
+}
+
+const STORAGE_DRIVERS: Record<StorageProvider, StorageDriver> = {
+  UPLOADTHING: uploadthingDriver,
+  CLOUDINARY: cloudinaryDriver,
+  LOCAL: localDriver,
+  S3: s3Driver,
+};
+
+export function isStorageProvider(value: string): value is StorageProvider {
+  return value in STORAGE_DRIVERS;
+}
+
+/**
+ * Provider new uploads are written to
+ */
+export function getDefaultStorageProvider(): StorageProvider {
+  const configured = (process.env.STORAGE_PROVIDER || 'uploadthing').toUpperCase();
+
+  if (!isStorageProvider(configured)) {
+    throw new Error(`Unknown STORAGE_PROVIDER "${process.env.STORAGE_PROVIDER}"`);
+  }
+
+  return configured;
+}
+
+export function getStorageDriver(provider: StorageProvider = getDefaultStorageProvider()) {
+  return STORAGE_DRIVERS[provider];
+}
+
+/**
+ * Work out which backend a URL points to (client-side uploads, rows created before
+ * storageProvider existed). Returns null for URLs no driver recognises
+ */
+export function inferStorageLocation(filePath: string): StorageLocation | null {
+  let url: URL;
+  try {
+    // Local files are stored with a relative URL
+    url = new URL(filePath, 'http://localhost');
+  } catch {
+    return null;
+  }
+
+  for (const driver of Object.values(STORAGE_DRIVERS)) {
+    let key: string | null = null;
+    try {
+      key = driver.parseUrl(url);
+    } catch {
+      // Backend not configured - it cannot own this URL
+    }
+    if (key) {
+      return { provider: driver.provider, key };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Location of a stored document - explicit columns first, the file URL otherwise
+ */
+export function resolveStorageLocation(document: {
+  filePath: string;
+  storageProvider: StorageProvider | null;
+  storageKey: string | null;
+}): StorageLocation | null {
+  if (document.storageProvider && document.storageKey) {
+    return { provider: document.storageProvider, key: document.storageKey };
+  }
+  return inferStorageLocation(document.filePath);
+}
+
+/**
+ * Object key for a new upload: "<prefix>/<userId>/<uuid>-<sanitized file name>"
+ */
+export function buildStorageKey(prefix: string, userId: string, fileName: string): string {
+  const safeName = sanitizeFilename(fileName).slice(-100) || 'file';
+  return `${prefix}/${userId}/${randomUUID()}-${safeName}`;
+}
+
+/**
+ * Remember who uploaded a file, for backends whose keys do not carry the uploader
+ */
+export async function recordUploadOwner(location: StorageLocation, userId: string): Promise<void> {
+  await prisma.uploadedFile.upsert({
+    where: { provider_key: { provider: location.provider, key: location.key } },
+    create: { provider: location.provider, key: location.key, userId },
+    update: {},
+  });
+}
+
+/**
+ * Whether a client-supplied upload location may be attached (and deleted) by this user.
+ * Keys on our own backends (local, S3) are predictable, so they must sit under the
+ * uploader's prefix; UploadThing and Cloudinary keys must have been recorded for the user
+ * when the file was uploaded - otherwise anyone could register or delete someone else's file
+ */
+export async function isOwnedUpload(
+  location: StorageLocation | null,
+  userId: string
+): Promise<boolean> {
+  if (!location) {
+    return false;
+  }
+
+  if (location.provider === 'LOCAL' || location.provider === 'S3') {
+    return (
+      location.key.startsWith(`${DOCUMENT_KEY_PREFIX}/${userId}/`) &&
+      !location.key.split('/').includes('..')
+    );
+  }
+
+  const upload = await prisma.uploadedFile.findUnique({
+    where: { provider_key: { provider: location.provider, key: location.key } },
+    select: { userId: true },
+  });
+  return upload?.userId === userId;
+}
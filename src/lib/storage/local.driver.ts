@@ -0,0 +1,121 @@
+// Local disk storage driver - keeps files under STORAGE_LOCAL_DIR (default ./storage)
+// Files are only served through /api/storage/local with an HMAC-signed, expiring URL
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StorageDriver } from './types';
+
+export const LOCAL_STORAGE_ROUTE = '/api/storage/local';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+function getRootDir(): string {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || 'storage');
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Resolve a key inside the storage root - rejects keys escaping it ("../")
+ */
+function resolveKeyPath(key: string): string {
+  const root = getRootDir();
+  const fullPath = path.resolve(root, key);
+
+  if (!fullPath.startsWith(root + path.sep)) {
+    throw new Error('Invalid storage key');
+  }
+
+  return fullPath;
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
+
+function sign(key: string, expires: number, downloadName: string): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${key}\n${expires}\n${downloadName}`)
+    .digest('hex');
+}
+
+export function getLocalContentType(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Check a signed local URL - false when expired or tampered with
+ */
+export function verifyLocalSignature(
+  key: string,
+  expires: number,
+  signature: string,
+  downloadName = ''
+): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, expires, downloadName), 'hex');
+  const received = Buffer.from(signature, 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export const localDriver: StorageDriver = {
+  provider: 'LOCAL',
+
+  async put(key, body) {
+    const fullPath = resolveKeyPath(key);
+    await mkdir(path.dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, body);
+
+    return { key, url: `${LOCAL_STORAGE_ROUTE}/${encodeKey(key)}`, size: body.length };
+  },
+
+  async get(key) {
+    return readFile(resolveKeyPath(key));
+  },
+
+  async delete(key) {
+    await rm(resolveKeyPath(key), { force: true });
+  },
+
+  async getSignedUrl(key, { expiresIn, downloadName = '' }) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: sign(key, expires, downloadName),
+    });
+    if (downloadName) {
+      params.set('name', downloadName);
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? '';
+    return `${baseUrl}${LOCAL_STORAGE_ROUTE}/${encodeKey(key)}?${params.toString()}`;
+  },
+
+  parseUrl(url) {
+    const prefix = `${LOCAL_STORAGE_ROUTE}/`;
+    if (!url.pathname.startsWith(prefix)) {
+      return null;
+    }
+    return url.pathname.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+  },
+};
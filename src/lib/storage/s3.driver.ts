@@ -0,0 +1,252 @@
+// S3-compatible storage driver (AWS S3, MinIO, Cloudflare R2...)
+// Requests are signed with AWS Signature Version 4 - no SDK needed
+// Path-style addressing is the default so a local MinIO works out of the box
+
+import { createHash, createHmac } from 'crypto';
+import type { StorageDriver } from './types';
+
+interface S3Config {
+  endpoint: URL;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function getConfig(): S3Config {
+  const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error(
+      'S3 storage is not configured (S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)'
+    );
+  }
+
+  const region = S3_REGION || 'us-east-1';
+
+  return {
+    endpoint: new URL(S3_ENDPOINT || `https://s3.${region}.amazonaws.com`),
+    region,
+    bucket: S3_BUCKET,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+  };
+}
+
+// RFC 3986 encoding as required by SigV4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function objectUrl(config: S3Config, key: string): URL {
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+  const url = new URL(config.endpoint.toString());
+  const basePath = url.pathname.replace(/\/$/, '');
+
+  if (config.forcePathStyle) {
+    url.pathname = `${basePath}/${encodeRfc3986(config.bucket)}/${encodedKey}`;
+  } else {
+    url.hostname = `${config.bucket}.${url.hostname}`;
+    url.pathname = `${basePath}/${encodedKey}`;
+  }
+
+  return url;
+}
+
+function toAmzDate(date: Date): { amzDate: string; dateStamp: string } {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+/**
+ * Compute a SigV4 signature
+ * `url` must already carry every query parameter that takes part in the signature
+ */
+function signRequest(
+  config: S3Config,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  amzDate: string
+): { signature: string; signedHeaders: string; credentialScope: string } {
+  const dateStamp = amzDate.slice(0, 8);
+  const credentialScope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const sortedHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim()] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = sortedHeaders.map(([name]) => name).join(';');
+
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)] as const)
+    .sort(([a, av], [b, bv]) => (a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    sortedHeaders.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    credentialScope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'),
+    'aws4_request'
+  );
+
+  return {
+    signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex'),
+    signedHeaders,
+    credentialScope,
+  };
+}
+
+/**
+ * Build a presigned URL (query-string authentication)
+ */
+function presignS3Url(
+  config: S3Config,
+  method: string,
+  key: string,
+  expiresIn: number,
+  extraQuery: Record<string, string> = {},
+  now = new Date()
+): string {
+  const url = objectUrl(config, key);
+  const { amzDate, dateStamp } = toAmzDate(now);
+
+  url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  url.searchParams.set(
+    'X-Amz-Credential',
+    `${config.accessKeyId}/${dateStamp}/${config.region}/s3/aws4_request`
+  );
+  url.searchParams.set('X-Amz-Date', amzDate);
+  url.searchParams.set('X-Amz-Expires', String(expiresIn));
+  url.searchParams.set('X-Amz-SignedHeaders', 'host');
+  for (const [name, value] of Object.entries(extraQuery)) {
+    url.searchParams.set(name, value);
+  }
+
+  const { signature } = signRequest(
+    config,
+    method,
+    url,
+    { host: url.host },
+    UNSIGNED_PAYLOAD,
+    amzDate
+  );
+  url.searchParams.set('X-Amz-Signature', signature);
+
+  return url.toString();
+}
+
+async function s3Request(
+  method: 'GET' | 'PUT' | 'DELETE',
+  key: string,
+  body?: Buffer,
+  contentType?: string
+): Promise<Response> {
+  const config = getConfig();
+  const url = objectUrl(config, key);
+  const { amzDate } = toAmzDate(new Date());
+  const payloadHash = sha256Hex(body ?? '');
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (contentType) {
+    headers['content-type'] = contentType;
+  }
+
+  const { signature, signedHeaders, credentialScope } = signRequest(
+    config,
+    method,
+    url,
+    headers,
+    payloadHash,
+    amzDate
+  );
+
+  const { host: _host, ...requestHeaders } = headers;
+  const response = await fetch(url, {
+    method,
+    headers: {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  });
+
+  if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+    throw new Error(`S3 ${method} ${key} failed with status ${response.status}`);
+  }
+
+  return response;
+}
+
+export const s3Driver: StorageDriver = {
+  provider: 'S3',
+
+  async put(key, body, { contentType }) {
+    await s3Request('PUT', key, body, contentType);
+    return { key, url: objectUrl(getConfig(), key).toString(), size: body.length };
+  },
+
+  async get(key) {
+    const response = await s3Request('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async delete(key) {
+    await s3Request('DELETE', key);
+  },
+
+  async getSignedUrl(key, { expiresIn, downloadName }) {
+    const extraQuery: Record<string, string> = downloadName
+      ? {
+          'response-content-disposition': `attachment; filename*=UTF-8''${encodeRfc3986(downloadName)}`,
+        }
+      : {};
+    return presignS3Url(getConfig(), 'GET', key, expiresIn, extraQuery);
+  },
+
+  parseUrl(url) {
+    const config = getConfig();
+    const bucketUrl = objectUrl(config, '');
+
+    if (url.host !== bucketUrl.host || !url.pathname.startsWith(bucketUrl.pathname)) {
+      return null;
+    }
+
+    const key = url.pathname.slice(bucketUrl.pathname.length);
+    return key ? key.split('/').map(decodeURIComponent).join('/') : null;
+  },
+};
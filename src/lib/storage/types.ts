@@ -0,0 +1,34 @@
+// Storage driver contract shared by every backend (UploadThing, Cloudinary, local disk, S3)
+
+import type { StorageProvider } from '@prisma/client';
+
+export interface PutObjectOptions {
+  contentType: string;
+  fileName: string;
+}
+
+export interface StoredObject {
+  key: string; // Provider-specific object key - persisted as Document.storageKey
+  url: string; // Canonical (unsigned) location - persisted as Document.filePath
+  size: number;
+}
+
+export interface SignedUrlOptions {
+  expiresIn: number; // Seconds
+  downloadName?: string; // Sent as Content-Disposition when the backend supports it
+}
+
+export interface StorageLocation {
+  provider: StorageProvider;
+  key: string;
+}
+
+export interface StorageDriver {
+  readonly provider: StorageProvider;
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<StoredObject>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+  // Recognise a URL produced by this backend and extract its key (legacy rows, client uploads)
+  parseUrl(url: URL): string | null;
+}
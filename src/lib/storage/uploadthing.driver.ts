@@ -0,0 +1,98 @@
+// UploadThing storage driver - the default backend, also used by the browser uploader
+// UploadThing generates its own file keys, so the requested key is ignored on put
+// Documents are stored private - they can only be read through signed URLs
+
+import { UTApi, UTFile } from 'uploadthing/server';
+import type { StorageDriver } from './types';
+
+const utapi = new UTApi();
+
+// Legacy CDN host shared by every app
+const UPLOADTHING_LEGACY_HOST = 'utfs.io';
+// Apps serve their files from <appId>.ufs.sh
+const UPLOADTHING_APP_HOST_SUFFIX = '.ufs.sh';
+
+/**
+ * The app id is embedded in UPLOADTHING_TOKEN (base64 encoded JSON)
+ * Returns null when the token is missing or cannot be decoded
+ */
+function getUploadThingAppId(): string | null {
+  const token = process.env.UPLOADTHING_TOKEN;
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const { appId } = JSON.parse(Buffer.from(token, 'base64').toString('utf8'));
+    return typeof appId === 'string' && appId ? appId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exact host match - utfs.io, or this app's ufs.sh subdomain (any ufs.sh subdomain when the
+ * app id is unknown)
+ */
+function isUploadThingHost(hostname: string): boolean {
+  if (hostname === UPLOADTHING_LEGACY_HOST) {
+    return true;
+  }
+
+  const appId = getUploadThingAppId();
+  if (appId) {
+    return hostname === `${appId}${UPLOADTHING_APP_HOST_SUFFIX}`;
+  }
+
+  const subdomain = hostname.slice(0, -UPLOADTHING_APP_HOST_SUFFIX.length);
+  return hostname.endsWith(UPLOADTHING_APP_HOST_SUFFIX) && /^[a-z0-9-]+$/i.test(subdomain);
+}
+
+export const uploadthingDriver: StorageDriver = {
+  provider: 'UPLOADTHING',
+
+  async put(_key, body, { contentType, fileName }) {
+    const { data, error } = await utapi.uploadFiles(
+      new UTFile([new Uint8Array(body)], fileName, { type: contentType }),
+      { acl: 'private' }
+    );
+
+    if (error || !data) {
+      throw new Error(`UploadThing upload failed: ${error?.message ?? 'no data returned'}`);
+    }
+
+    return { key: data.key, url: data.ufsUrl, size: data.size };
+  },
+
+  async get(key) {
+    const { ufsUrl } = await utapi.generateSignedURL(key, { expiresIn: 60 });
+    const response = await fetch(ufsUrl);
+
+    if (!response.ok) {
+      throw new Error(`UploadThing download of ${key} failed with status ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async delete(key) {
+    const result = await utapi.deleteFiles(key);
+    if (!result.success) {
+      throw new Error(`UploadThing deletion of ${key} failed`);
+    }
+  },
+
+  // UploadThing does not support overriding the download file name
+  async getSignedUrl(key, { expiresIn }) {
+    const { ufsUrl } = await utapi.generateSignedURL(key, { expiresIn });
+    return ufsUrl;
+  },
+
+  parseUrl(url) {
+    if (url.protocol !== 'https:' || !isUploadThingHost(url.hostname)) {
+      return null;
+    }
+    const segments = url.pathname.split('/').filter(Boolean);
+    return segments[segments.length - 1] ?? null;
+  },
+};
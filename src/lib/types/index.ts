@@ -1,5 +1,7 @@
 // Shared TypeScript types for Patrick Travel Services
 
+import type { Permission } from '@/lib/auth/permissions';
+
 export enum Role {
   CLIENT = 'CLIENT',
   AGENT = 'AGENT',
@@ -16,6 +18,7 @@ export enum ServiceType {
 }
 
 export enum CaseStatus {
+  DRAFT = 'DRAFT',
   SUBMITTED = 'SUBMITTED',
   UNDER_REVIEW = 'UNDER_REVIEW',
   DOCUMENTS_REQUIRED = 'DOCUMENTS_REQUIRED',
@@ -49,6 +52,7 @@ export enum DocumentStatus {
   PENDING = 'PENDING',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  QUARANTINED = 'QUARANTINED',
 }
 
 // Attachment Interface for Messages
@@ -71,6 +75,11 @@ export enum NotificationType {
   DOCUMENT_REJECTED = 'DOCUMENT_REJECTED',
   CASE_ASSIGNED = 'CASE_ASSIGNED',
   SYSTEM_ANNOUNCEMENT = 'SYSTEM_ANNOUNCEMENT',
+  DOCUMENT_EXPIRING = 'DOCUMENT_EXPIRING',
+  APPOINTMENT_UPDATED = 'APPOINTMENT_UPDATED',
+  APPOINTMENT_REMINDER = 'APPOINTMENT_REMINDER',
+  SLA_ALERT = 'SLA_ALERT',
+  TASK_OVERDUE = 'TASK_OVERDUE',
 }
 
 export enum TransferReason {
@@ -81,6 +90,14 @@ export enum TransferReason {
   OTHER = 'OTHER',
 }
 
+// Two-factor state of a staff sign-in
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  verified: boolean;
+  verifiedAt: Date | string | null;
+}
+
 // User Interface
 export interface User {
   id: string;
@@ -93,6 +110,12 @@ export interface User {
   country?: string | null;
   profilePicture?: string | null;
   role: Role;
+  // Custom role on top of the base role, if any
+  customRole?: { id: string; name: string } | null;
+  // Resolved permissions - only on GET /api/auth/me
+  permissions?: Permission[];
+  // Second factor state of the current sign-in - only on login and GET /api/auth/me
+  twoFactor?: TwoFactorStatus;
   isActive: boolean;
   isVerified: boolean;
   lastLogin?: Date | null;
@@ -251,6 +274,20 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+// Error thrown by apiClient (axios) or Firebase, as seen by react-query onError handlers
+export interface ApiError {
+  response?: {
+    data?: {
+      error?: string;
+      message?: string;
+      code?: string;
+      errors?: Record<string, string[]>;
+    };
+  };
+  message?: string;
+  code?: string;
+}
+
 export interface PaginatedResponse<T> {
   success: boolean;
   data: T[];
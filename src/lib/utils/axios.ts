@@ -5,6 +5,28 @@ import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { API_CONFIG } from '../constants';
 import { logger } from './logger';
 import { getFreshToken } from '../auth/token-manager';
+import { auth } from '../firebase/firebase-client';
+import { requestStepUp, STEP_UP_ERROR_CODE } from '../auth/step-up';
+
+// Matches SESSION_ERROR_CODES.REVOKED in the session service
+const SESSION_REVOKED_ERROR_CODE = 'SESSION_REVOKED';
+
+// Random per-browser id so login alerts can tell known devices apart - not a secret
+const DEVICE_ID_STORAGE_KEY = 'deviceId';
+
+function getDeviceId(): string | null {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage can be unavailable (private mode) - fall back to the user agent on the server
+    return null;
+  }
+}
 
 // Create axios instance
 export const apiClient = axios.create({
@@ -30,6 +52,11 @@ apiClient.interceptors.request.use(
       } catch (error) {
         logger.warn('Failed to get Firebase token', error);
       }
+
+      const deviceId = getDeviceId();
+      if (deviceId && config.headers) {
+        config.headers['X-Device-Id'] = deviceId;
+      }
     }
 
     logger.debug('API Request', {
@@ -57,8 +84,26 @@ apiClient.interceptors.response.use(
   async (error: AxiosError) => {
     const originalRequest = error.config as InternalAxiosRequestConfig & {
       _retry?: boolean;
+      _stepUp?: boolean;
     };
 
+    // Handle 401 revoked session - this device was signed out from another one
+    const errorCode = (error.response?.data as { code?: string } | undefined)?.code;
+    if (
+      error.response?.status === 401 &&
+      errorCode === SESSION_REVOKED_ERROR_CODE &&
+      typeof window !== 'undefined'
+    ) {
+      logger.info('Session was revoked - signing out');
+      try {
+        await auth?.signOut();
+      } catch (signOutError) {
+        logger.warn('Firebase sign-out failed', signOutError);
+      }
+      window.location.href = '/login';
+      return Promise.reject(error);
+    }
+
     // Handle 401 Unauthorized - token might need refresh
     // SECURITY: Force token refresh from Firebase (not localStorage)
     if (
@@ -94,6 +139,21 @@ apiClient.interceptors.response.use(
       }
     }
 
+    // Handle 403 step-up - sensitive action needs a fresh two-factor code
+    if (
+      error.response?.status === 403 &&
+      errorCode === STEP_UP_ERROR_CODE &&
+      originalRequest &&
+      !originalRequest._stepUp &&
+      typeof window !== 'undefined'
+    ) {
+      originalRequest._stepUp = true;
+
+      if (await requestStepUp()) {
+        return apiClient(originalRequest);
+      }
+    }
+
     // Log error
     logger.error('API Error', error, {
       status: error.response?.status,
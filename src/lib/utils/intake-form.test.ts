@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getVisibleFields,
+  intakeFormDefinitionSchema,
+  isConditionMet,
+  validateIntakeAnswers,
+  type IntakeFormDefinition,
+} from './intake-form';
+
+const definition: IntakeFormDefinition = {
+  sections: [
+    {
+      key: 'applicant',
+      title: 'Applicant',
+      fields: [
+        { key: 'fullName', label: 'Full name', type: 'text', required: true },
+        { key: 'email', label: 'Email', type: 'email', required: true },
+        {
+          key: 'age',
+          label: 'Age',
+          type: 'number',
+          validation: { min: 18, max: 120 },
+        },
+        {
+          key: 'maritalStatus',
+          label: 'Marital status',
+          type: 'radio',
+          options: [
+            { value: 'single', label: 'Single' },
+            { value: 'married', label: 'Married' },
+          ],
+        },
+        {
+          key: 'spouseName',
+          label: 'Spouse name',
+          type: 'text',
+          required: true,
+          showIf: { field: 'maritalStatus', equals: 'married' },
+        },
+      ],
+    },
+    {
+      key: 'travel',
+      title: 'Travel',
+      showIf: { field: 'email', notEmpty: true },
+      fields: [
+        {
+          key: 'departure',
+          label: 'Departure',
+          type: 'date',
+          validation: { minDate: '2026-01-01' },
+        },
+        {
+          key: 'languages',
+          label: 'Languages',
+          type: 'multiselect',
+          options: [
+            { value: 'en', label: 'English' },
+            { value: 'fr', label: 'French' },
+          ],
+          validation: { maxSelected: 2 },
+        },
+        { key: 'consent', label: 'Consent', type: 'checkbox', required: true },
+      ],
+    },
+  ],
+};
+
+const validAnswers = {
+  fullName: '  Anna Eriksson ',
+  email: 'anna@example.com',
+  age: '34',
+  maritalStatus: 'single',
+  departure: '2026-05-01',
+  languages: ['en', 'fr', 'en'],
+  consent: true,
+};
+
+describe('intakeFormDefinitionSchema', () => {
+  it('accepts a well-formed definition', () => {
+    expect(intakeFormDefinitionSchema.safeParse(definition).success).toBe(true);
+  });
+
+  it('rejects duplicate keys, missing options and forward conditions', () => {
+    const result = intakeFormDefinitionSchema.safeParse({
+      sections: [
+        {
+          key: 'main',
+          title: 'Main',
+          fields: [
+            {
+              key: 'first',
+              label: 'First',
+              type: 'text',
+              showIf: { field: 'second', equals: 'yes' },
+            },
+            { key: 'second', label: 'Second', type: 'select' },
+            { key: 'second', label: 'Again', type: 'text' },
+          ],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    const messages = result.error?.issues.map((issue) => issue.message) ?? [];
+    expect(messages).toContain('Condition refers to unknown or later field "second"');
+    expect(messages).toContain('Field "second" needs options');
+    expect(messages).toContain('Duplicate field key "second"');
+  });
+
+  it('rejects invalid regular expressions', () => {
+    const result = intakeFormDefinitionSchema.safeParse({
+      sections: [
+        {
+          key: 'main',
+          title: 'Main',
+          fields: [{ key: 'code', label: 'Code', type: 'text', validation: { pattern: '(' } }],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('isConditionMet', () => {
+  it('matches equals, in and notEmpty conditions', () => {
+    expect(isConditionMet({ field: 'a', equals: 'x' }, { a: 'x' })).toBe(true);
+    expect(isConditionMet({ field: 'a', in: ['x', 'y'] }, { a: ['z', 'y'] })).toBe(true);
+    expect(isConditionMet({ field: 'a', notEmpty: true }, { a: [] })).toBe(false);
+    expect(isConditionMet({ field: 'a', notEmpty: false }, {})).toBe(true);
+    expect(isConditionMet(undefined, {})).toBe(true);
+  });
+});
+
+describe('getVisibleFields', () => {
+  it('hides fields and sections whose condition is not met', () => {
+    const keys = getVisibleFields(definition, { maritalStatus: 'single' }).map((f) => f.key);
+
+    expect(keys).not.toContain('spouseName');
+    expect(keys).not.toContain('departure');
+  });
+
+  it('shows conditional fields once the answer matches', () => {
+    const keys = getVisibleFields(definition, {
+      maritalStatus: 'married',
+      email: 'anna@example.com',
+    }).map((f) => f.key);
+
+    expect(keys).toContain('spouseName');
+    expect(keys).toContain('departure');
+  });
+});
+
+describe('validateIntakeAnswers', () => {
+  it('normalizes valid answers and drops unknown keys', () => {
+    const result = validateIntakeAnswers(definition, { ...validAnswers, unexpected: 'value' });
+
+    expect(result.isValid).toBe(true);
+    expect(result.values).toEqual({
+      fullName: 'Anna Eriksson',
+      email: 'anna@example.com',
+      age: 34,
+      maritalStatus: 'single',
+      departure: '2026-05-01',
+      languages: ['en', 'fr'],
+      consent: true,
+    });
+  });
+
+  it('drops answers to hidden fields', () => {
+    const result = validateIntakeAnswers(definition, { ...validAnswers, spouseName: 'Someone' });
+
+    expect(result.values.spouseName).toBeUndefined();
+  });
+
+  it('requires visible required fields, including conditional ones', () => {
+    const result = validateIntakeAnswers(definition, {
+      ...validAnswers,
+      fullName: '',
+      maritalStatus: 'married',
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.fullName).toEqual(['Full name is required']);
+    expect(result.errors.spouseName).toEqual(['Spouse name is required']);
+  });
+
+  it('checks each field type against its rules', () => {
+    const result = validateIntakeAnswers(definition, {
+      ...validAnswers,
+      email: 'not-an-email',
+      age: 12,
+      maritalStatus: 'divorced',
+      departure: '2025-12-31',
+      languages: ['en', 'de'],
+      consent: false,
+    });
+
+    expect(result.errors).toEqual({
+      email: ['Email must be a valid email address'],
+      age: ['Age must be at least 18'],
+      maritalStatus: ['Marital status contains an invalid choice'],
+      departure: ['Departure must be on or after 2026-01-01'],
+      languages: ['Languages contains an invalid choice'],
+      consent: ['Consent must be checked'],
+    });
+  });
+});
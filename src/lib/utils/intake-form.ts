@@ -0,0 +1,317 @@
+// Intake form definitions - admin-defined case questionnaires per service type / destination
+// Shared by the API (validation in POST /api/cases) and the web renderer, so the client sees
+// exactly the errors the server would return
+
+import { z } from 'zod';
+
+export const INTAKE_FIELD_TYPES = [
+  'text',
+  'textarea',
+  'email',
+  'phone',
+  'number',
+  'date',
+  'select',
+  'multiselect',
+  'radio',
+  'checkbox',
+] as const;
+
+export type IntakeFieldType = (typeof INTAKE_FIELD_TYPES)[number];
+
+const OPTION_FIELD_TYPES: IntakeFieldType[] = ['select', 'multiselect', 'radio'];
+
+const KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,63}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9 ().-]{6,20}$/;
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Show a field / section only when an earlier answer matches
+const conditionSchema = z
+  .object({
+    field: z.string().regex(KEY_PATTERN),
+    equals: scalarSchema.optional(),
+    in: z.array(scalarSchema).min(1).optional(),
+    notEmpty: z.boolean().optional(),
+  })
+  .refine(
+    (condition) =>
+      [condition.equals, condition.in, condition.notEmpty].filter((v) => v !== undefined).length ===
+      1,
+    { message: 'A condition needs exactly one of equals, in or notEmpty' }
+  );
+
+const fieldSchema = z.object({
+  key: z.string().regex(KEY_PATTERN, 'Field keys must be alphanumeric identifiers'),
+  label: z.string().trim().min(1).max(200),
+  type: z.enum(INTAKE_FIELD_TYPES),
+  helpText: z.string().max(500).optional(),
+  placeholder: z.string().max(200).optional(),
+  required: z.boolean().optional(),
+  options: z
+    .array(z.object({ value: z.string().min(1).max(100), label: z.string().min(1).max(200) }))
+    .max(100)
+    .optional(),
+  validation: z
+    .object({
+      minLength: z.number().int().min(0).optional(),
+      maxLength: z.number().int().min(1).max(10000).optional(),
+      pattern: z.string().max(500).optional(),
+      patternMessage: z.string().max(200).optional(),
+      min: z.number().optional(),
+      max: z.number().optional(),
+      minDate: z.string().regex(DATE_PATTERN).optional(),
+      maxDate: z.string().regex(DATE_PATTERN).optional(),
+      minSelected: z.number().int().min(0).optional(),
+      maxSelected: z.number().int().min(1).optional(),
+    })
+    .optional(),
+  showIf: conditionSchema.optional(),
+});
+
+const sectionSchema = z.object({
+  key: z.string().regex(KEY_PATTERN, 'Section keys must be alphanumeric identifiers'),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  showIf: conditionSchema.optional(),
+  fields: z.array(fieldSchema).min(1).max(100),
+});
+
+export const intakeFormDefinitionSchema = z
+  .object({ sections: z.array(sectionSchema).min(1).max(30) })
+  .superRefine((definition, ctx) => {
+    const seen = new Map<string, IntakeFieldType>();
+
+    // Conditions may only point at fields asked before them, so the form reads top to bottom
+    const checkCondition = (condition: IntakeCondition | undefined, path: (string | number)[]) => {
+      if (condition && !seen.has(condition.field)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [...path, 'showIf', 'field'],
+          message: `Condition refers to unknown or later field "${condition.field}"`,
+        });
+      }
+    };
+
+    definition.sections.forEach((section, sectionIndex) => {
+      checkCondition(section.showIf, ['sections', sectionIndex]);
+
+      section.fields.forEach((field, fieldIndex) => {
+        const path = ['sections', sectionIndex, 'fields', fieldIndex];
+        checkCondition(field.showIf, path);
+
+        if (seen.has(field.key)) {
+          ctx.addIssue({ code: 'custom', path, message: `Duplicate field key "${field.key}"` });
+        }
+        if (OPTION_FIELD_TYPES.includes(field.type) && !field.options?.length) {
+          ctx.addIssue({ code: 'custom', path, message: `Field "${field.key}" needs options` });
+        }
+        if (field.validation?.pattern) {
+          try {
+            new RegExp(field.validation.pattern);
+          } catch {
+            ctx.addIssue({ code: 'custom', path, message: `Invalid pattern on "${field.key}"` });
+          }
+        }
+
+        seen.set(field.key, field.type);
+      });
+    });
+  });
+
+export type IntakeCondition = z.infer<typeof conditionSchema>;
+export type IntakeField = z.infer<typeof fieldSchema>;
+export type IntakeSection = z.infer<typeof sectionSchema>;
+export type IntakeFormDefinition = z.infer<typeof intakeFormDefinitionSchema>;
+
+export type IntakeAnswer = string | number | boolean | string[];
+export type IntakeAnswers = Record<string, IntakeAnswer>;
+
+export interface IntakeValidationResult {
+  values: IntakeAnswers;
+  errors: Record<string, string[]>;
+  isValid: boolean;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export function isConditionMet(
+  condition: IntakeCondition | undefined,
+  values: Record<string, unknown>
+): boolean {
+  if (!condition) {
+    return true;
+  }
+
+  const value = values[condition.field];
+  if (condition.notEmpty !== undefined) {
+    return condition.notEmpty !== isEmpty(value);
+  }
+
+  const candidates = condition.in ?? [condition.equals];
+  const answers = Array.isArray(value) ? value : [value];
+  return answers.some((answer) => candidates.some((candidate) => candidate === answer));
+}
+
+/**
+ * Fields currently shown to the client, in form order
+ * A field hidden by its condition (or its section's) is neither validated nor stored
+ */
+export function getVisibleFields(
+  definition: IntakeFormDefinition,
+  values: Record<string, unknown>
+): IntakeField[] {
+  const visible: IntakeField[] = [];
+  const shownValues: Record<string, unknown> = {};
+
+  for (const section of definition.sections) {
+    if (!isConditionMet(section.showIf, shownValues)) {
+      continue;
+    }
+    for (const field of section.fields) {
+      if (isConditionMet(field.showIf, shownValues)) {
+        visible.push(field);
+        shownValues[field.key] = values[field.key];
+      }
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Coerce a raw answer to the field's type and check it against the field's rules
+ * Returns the normalized value, or an error message
+ */
+function validateField(field: IntakeField, raw: unknown): { value?: IntakeAnswer; error?: string } {
+  const rules = field.validation ?? {};
+  const optionValues = field.options?.map((option) => option.value) ?? [];
+
+  switch (field.type) {
+    case 'checkbox': {
+      const value = raw === true || raw === 'true';
+      if (field.required && !value) {
+        return { error: `${field.label} must be checked` };
+      }
+      return { value };
+    }
+
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) {
+        return { error: `${field.label} must be a number` };
+      }
+      if (rules.min !== undefined && value < rules.min) {
+        return { error: `${field.label} must be at least ${rules.min}` };
+      }
+      if (rules.max !== undefined && value > rules.max) {
+        return { error: `${field.label} must be at most ${rules.max}` };
+      }
+      return { value };
+    }
+
+    case 'multiselect': {
+      const value = [...new Set((Array.isArray(raw) ? raw : [raw]).map(String))];
+      if (value.some((item) => !optionValues.includes(item))) {
+        return { error: `${field.label} contains an invalid choice` };
+      }
+      if (rules.minSelected !== undefined && value.length < rules.minSelected) {
+        return { error: `Select at least ${rules.minSelected} for ${field.label}` };
+      }
+      if (rules.maxSelected !== undefined && value.length > rules.maxSelected) {
+        return { error: `Select at most ${rules.maxSelected} for ${field.label}` };
+      }
+      return { value };
+    }
+
+    case 'select':
+    case 'radio': {
+      const value = String(raw);
+      if (!optionValues.includes(value)) {
+        return { error: `${field.label} contains an invalid choice` };
+      }
+      return { value };
+    }
+
+    case 'date': {
+      const value = String(raw);
+      if (!DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())) {
+        return { error: `${field.label} must be a valid date` };
+      }
+      if (rules.minDate && value < rules.minDate) {
+        return { error: `${field.label} must be on or after ${rules.minDate}` };
+      }
+      if (rules.maxDate && value > rules.maxDate) {
+        return { error: `${field.label} must be on or before ${rules.maxDate}` };
+      }
+      return { value };
+    }
+
+    default: {
+      if (typeof raw !== 'string' && typeof raw !== 'number') {
+        return { error: `${field.label} must be text` };
+      }
+      const value = String(raw).trim();
+      const maxLength = rules.maxLength ?? (field.type === 'textarea' ? 5000 : 500);
+
+      if (field.type === 'email' && !EMAIL_PATTERN.test(value)) {
+        return { error: `${field.label} must be a valid email address` };
+      }
+      if (field.type === 'phone' && !PHONE_PATTERN.test(value)) {
+        return { error: `${field.label} must be a valid phone number` };
+      }
+      if (rules.minLength !== undefined && value.length < rules.minLength) {
+        return { error: `${field.label} must be at least ${rules.minLength} characters` };
+      }
+      if (value.length > maxLength) {
+        return { error: `${field.label} must be at most ${maxLength} characters` };
+      }
+      if (rules.pattern && !new RegExp(rules.pattern).test(value)) {
+        return { error: rules.patternMessage ?? `${field.label} has an invalid format` };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Validate answers against a form definition
+ * Unknown keys and answers to hidden fields are dropped from the returned values
+ */
+export function validateIntakeAnswers(
+  definition: IntakeFormDefinition,
+  answers: Record<string, unknown>
+): IntakeValidationResult {
+  const values: IntakeAnswers = {};
+  const errors: Record<string, string[]> = {};
+
+  for (const field of getVisibleFields(definition, answers)) {
+    const raw = answers[field.key];
+
+    // An unticked checkbox is an answer (false), not a missing one
+    if (isEmpty(raw) && field.type !== 'checkbox') {
+      if (field.required) {
+        errors[field.key] = [`${field.label} is required`];
+      }
+      continue;
+    }
+
+    const { value, error } = validateField(field, raw);
+    if (error) {
+      errors[field.key] = [error];
+    } else if (value !== undefined) {
+      values[field.key] = value;
+    }
+  }
+
+  return { values, errors, isValid: Object.keys(errors).length === 0 };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { mrzCheckDigit, parseMrz } from './mrz';
+
+// ICAO 9303 specimen documents
+const TD3 = [
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10',
+];
+const TD2 = ['I<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<', 'D231458907UTO7408122F1204159<<<<<<<6'];
+const TD1 = [
+  'I<UTOD231458907<<<<<<<<<<<<<<<',
+  '7408122F1204159UTO<<<<<<<<<<<6',
+  'ERIKSSON<<ANNA<MARIA<<<<<<<<<<',
+];
+
+describe('mrzCheckDigit', () => {
+  it('computes ICAO check digits', () => {
+    expect(mrzCheckDigit('L898902C3')).toBe(6);
+    expect(mrzCheckDigit('740812')).toBe(2);
+    expect(mrzCheckDigit('120415')).toBe(9);
+  });
+
+  it('treats fillers as zero', () => {
+    expect(mrzCheckDigit('<<<<<<')).toBe(0);
+  });
+});
+
+describe('parseMrz', () => {
+  it('parses a TD3 passport', () => {
+    const result = parseMrz(TD3.join('\n'));
+
+    expect(result?.format).toBe('TD3');
+    expect(result?.valid).toBe(true);
+    expect(result?.fields).toEqual({
+      documentCode: 'P',
+      issuingCountry: 'UTO',
+      documentNumber: 'L898902C3',
+      surname: 'ERIKSSON',
+      givenNames: 'ANNA MARIA',
+      nationality: 'UTO',
+      dateOfBirth: '1974-08-12',
+      sex: 'F',
+      expiryDate: '2012-04-15',
+      personalNumber: 'ZE184226B',
+    });
+  });
+
+  it('parses a TD2 document', () => {
+    const result = parseMrz(TD2.join('\n'));
+
+    expect(result?.format).toBe('TD2');
+    expect(result?.valid).toBe(true);
+    expect(result?.fields.documentNumber).toBe('D23145890');
+    expect(result?.checks.personalNumber).toBeNull();
+  });
+
+  it('parses a TD1 ID card', () => {
+    const result = parseMrz(TD1.join('\n'));
+
+    expect(result?.format).toBe('TD1');
+    expect(result?.valid).toBe(true);
+    expect(result?.fields.surname).toBe('ERIKSSON');
+    expect(result?.fields.givenNames).toBe('ANNA MARIA');
+    expect(result?.fields.documentNumber).toBe('D23145890');
+    expect(result?.fields.dateOfBirth).toBe('1974-08-12');
+  });
+
+  it('finds the MRZ among other OCR text and fixes digit lookalikes', () => {
+    const noisy = [
+      'PASSPORT  PASSEPORT',
+      'Surname / Nom: ERIKSSON',
+      TD3[0].replace(/</g, '«'),
+      // O instead of 0 and S instead of 5 in numeric fields, trailing fillers dropped
+      'L898902C36UTO74O8122F12O4159ZE184226B<<<<<10'.replace('4159', '41S9'),
+    ].join('\n');
+
+    const result = parseMrz(noisy);
+
+    expect(result?.valid).toBe(true);
+    expect(result?.fields.dateOfBirth).toBe('1974-08-12');
+    expect(result?.fields.expiryDate).toBe('2012-04-15');
+  });
+
+  it('pads lines that lost their trailing fillers', () => {
+    const result = parseMrz([TD3[0].slice(0, 42), TD3[1]].join('\n'));
+
+    expect(result?.format).toBe('TD3');
+    expect(result?.valid).toBe(true);
+    expect(result?.fields.givenNames).toBe('ANNA MARIA');
+  });
+
+  it('reports failed check digits instead of discarding the result', () => {
+    const tampered = TD3[1].replace('7408122', '7408132');
+    const result = parseMrz([TD3[0], tampered].join('\n'));
+
+    expect(result?.valid).toBe(false);
+    expect(result?.checks.dateOfBirth).toBe(false);
+    expect(result?.checks.documentNumber).toBe(true);
+  });
+
+  it('rejects impossible dates', () => {
+    const result = parseMrz([TD3[0], TD3[1].replace('740812', '741332')].join('\n'));
+
+    expect(result?.fields.dateOfBirth).toBeNull();
+  });
+
+  it('returns null when there is no MRZ', () => {
+    expect(parseMrz('Just some text\nwithout machine readable lines')).toBeNull();
+  });
+});
@@ -0,0 +1,308 @@
+// Machine Readable Zone (ICAO 9303) parsing for passports and ID cards
+// Supports TD3 (passports, 2x44), TD2 (2x36) and TD1 (ID cards, 3x30) with check digit
+// validation. Input is raw OCR text - the MRZ lines are located and cleaned up here
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export interface MrzFields {
+  documentCode: string;
+  issuingCountry: string;
+  documentNumber: string;
+  surname: string;
+  givenNames: string;
+  nationality: string;
+  dateOfBirth: string | null; // YYYY-MM-DD
+  sex: 'M' | 'F' | 'X';
+  expiryDate: string | null; // YYYY-MM-DD
+  personalNumber: string | null;
+}
+
+export interface MrzChecks {
+  documentNumber: boolean;
+  dateOfBirth: boolean;
+  expiryDate: boolean;
+  personalNumber: boolean | null; // null when the format has no separate check
+  composite: boolean;
+}
+
+export interface MrzResult {
+  format: MrzFormat;
+  lines: string[];
+  fields: MrzFields;
+  checks: MrzChecks;
+  valid: boolean; // Every check digit matched
+}
+
+const LINE_LENGTHS: Record<MrzFormat, { length: number; lines: number }> = {
+  TD3: { length: 44, lines: 2 },
+  TD2: { length: 36, lines: 2 },
+  TD1: { length: 30, lines: 3 },
+};
+
+// Letters OCR commonly returns in place of digits
+const DIGIT_LOOKALIKES: Record<string, string> = {
+  O: '0',
+  Q: '0',
+  D: '0',
+  I: '1',
+  L: '1',
+  Z: '2',
+  S: '5',
+  G: '6',
+  B: '8',
+};
+
+function charValue(char: string): number {
+  if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+  if (char >= 'A' && char <= 'Z') return char.charCodeAt(0) - 55;
+  return 0; // Filler '<'
+}
+
+/**
+ * ICAO 9303 check digit (weights 7, 3, 1)
+ */
+export function mrzCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let index = 0; index < value.length; index++) {
+    sum += charValue(value[index]) * weights[index % 3];
+  }
+  return sum % 10;
+}
+
+function toDigits(value: string): string {
+  return value.replace(/[A-Z]/g, (char) => DIGIT_LOOKALIKES[char] ?? char);
+}
+
+/**
+ * Apply digit lookalike fixes to the numeric ranges of a line ([start, end) pairs)
+ */
+function fixDigits(line: string, ranges: [number, number][]): string {
+  let fixed = line;
+  for (const [start, end] of ranges) {
+    fixed = fixed.slice(0, start) + toDigits(fixed.slice(start, end)) + fixed.slice(end);
+  }
+  return fixed;
+}
+
+function matchesCheck(value: string, check: string): boolean {
+  const digit = toDigits(check);
+  // An empty optional field may carry '<' instead of 0
+  if (digit === '<') {
+    return /^<*$/.test(value);
+  }
+  return digit === String(mrzCheckDigit(value));
+}
+
+function trimFiller(value: string): string {
+  return value.replace(/<+$/, '').replace(/</g, ' ').trim();
+}
+
+/**
+ * YYMMDD -> YYYY-MM-DD. Birth dates are never in the future; expiry dates are assumed
+ * to fall within 50 years of today
+ */
+function parseMrzDate(value: string, kind: 'birth' | 'expiry'): string | null {
+  const digits = toDigits(value);
+  if (!/^\d{6}$/.test(digits)) {
+    return null;
+  }
+
+  const yy = Number(digits.slice(0, 2));
+  const month = Number(digits.slice(2, 4));
+  const day = Number(digits.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+
+  const currentYear = new Date().getUTCFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  let year = century + yy;
+  if (kind === 'birth' && year > currentYear) year -= 100;
+  if (kind === 'expiry' && year > currentYear + 50) year -= 100;
+
+  return `${year}-${digits.slice(2, 4)}-${digits.slice(4, 6)}`;
+}
+
+function parseName(value: string): { surname: string; givenNames: string } {
+  const [surname = '', ...rest] = value.split('<<');
+  return { surname: trimFiller(surname), givenNames: trimFiller(rest.join('<<')) };
+}
+
+function parseSex(value: string): MrzFields['sex'] {
+  return value === 'M' || value === 'F' ? value : 'X';
+}
+
+function parseTd3([line1, rawLine2]: string[]): Omit<MrzResult, 'format' | 'lines' | 'valid'> {
+  const line2 = fixDigits(rawLine2, [
+    [9, 10],
+    [13, 20],
+    [21, 28],
+    [42, 44],
+  ]);
+  const personalNumber = line2.slice(28, 42);
+  return {
+    fields: {
+      documentCode: trimFiller(line1.slice(0, 2)),
+      issuingCountry: trimFiller(line1.slice(2, 5)),
+      ...parseName(line1.slice(5)),
+      documentNumber: trimFiller(line2.slice(0, 9)),
+      nationality: trimFiller(line2.slice(10, 13)),
+      dateOfBirth: parseMrzDate(line2.slice(13, 19), 'birth'),
+      sex: parseSex(line2[20]),
+      expiryDate: parseMrzDate(line2.slice(21, 27), 'expiry'),
+      personalNumber: trimFiller(personalNumber) || null,
+    },
+    checks: {
+      documentNumber: matchesCheck(line2.slice(0, 9), line2[9]),
+      dateOfBirth: matchesCheck(line2.slice(13, 19), line2[19]),
+      expiryDate: matchesCheck(line2.slice(21, 27), line2[27]),
+      personalNumber: matchesCheck(personalNumber, line2[42]),
+      composite: matchesCheck(
+        line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43),
+        line2[43]
+      ),
+    },
+  };
+}
+
+function parseTd2([line1, rawLine2]: string[]): Omit<MrzResult, 'format' | 'lines' | 'valid'> {
+  const line2 = fixDigits(rawLine2, [
+    [9, 10],
+    [13, 20],
+    [21, 28],
+    [35, 36],
+  ]);
+  return {
+    fields: {
+      documentCode: trimFiller(line1.slice(0, 2)),
+      issuingCountry: trimFiller(line1.slice(2, 5)),
+      ...parseName(line1.slice(5)),
+      documentNumber: trimFiller(line2.slice(0, 9)),
+      nationality: trimFiller(line2.slice(10, 13)),
+      dateOfBirth: parseMrzDate(line2.slice(13, 19), 'birth'),
+      sex: parseSex(line2[20]),
+      expiryDate: parseMrzDate(line2.slice(21, 27), 'expiry'),
+      personalNumber: trimFiller(line2.slice(28, 35)) || null,
+    },
+    checks: {
+      documentNumber: matchesCheck(line2.slice(0, 9), line2[9]),
+      dateOfBirth: matchesCheck(line2.slice(13, 19), line2[19]),
+      expiryDate: matchesCheck(line2.slice(21, 27), line2[27]),
+      personalNumber: null,
+      composite: matchesCheck(
+        line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 35),
+        line2[35]
+      ),
+    },
+  };
+}
+
+function parseTd1([line1, rawLine2, line3]: string[]): Omit<
+  MrzResult,
+  'format' | 'lines' | 'valid'
+> {
+  const line2 = fixDigits(rawLine2, [
+    [0, 7],
+    [8, 15],
+    [29, 30],
+  ]);
+  let documentNumber = line1.slice(5, 14);
+  let documentNumberCheck = line1[14];
+  let optional = line1.slice(15, 30);
+
+  // Numbers longer than 9 characters continue in the optional field, followed by their check
+  if (documentNumberCheck === '<' && /^[A-Z0-9]/.test(optional)) {
+    const overflow = optional.slice(0, optional.indexOf('<') === -1 ? 15 : optional.indexOf('<'));
+    documentNumber += overflow.slice(0, -1);
+    documentNumberCheck = overflow.slice(-1);
+    optional = optional.slice(overflow.length);
+  }
+
+  return {
+    fields: {
+      documentCode: trimFiller(line1.slice(0, 2)),
+      issuingCountry: trimFiller(line1.slice(2, 5)),
+      documentNumber: trimFiller(documentNumber),
+      ...parseName(line3),
+      nationality: trimFiller(line2.slice(15, 18)),
+      dateOfBirth: parseMrzDate(line2.slice(0, 6), 'birth'),
+      sex: parseSex(line2[7]),
+      expiryDate: parseMrzDate(line2.slice(8, 14), 'expiry'),
+      personalNumber: trimFiller(optional) || null,
+    },
+    checks: {
+      documentNumber: matchesCheck(documentNumber, documentNumberCheck),
+      dateOfBirth: matchesCheck(line2.slice(0, 6), line2[6]),
+      expiryDate: matchesCheck(line2.slice(8, 14), line2[14]),
+      personalNumber: null,
+      composite: matchesCheck(
+        line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29),
+        line2[29]
+      ),
+    },
+  };
+}
+
+const PARSERS: Record<MrzFormat, typeof parseTd3> = {
+  TD3: parseTd3,
+  TD2: parseTd2,
+  TD1: parseTd1,
+};
+
+/**
+ * Normalize an OCR line to the MRZ alphabet (A-Z, 0-9, <)
+ */
+function normalizeLine(line: string): string {
+  return line
+    .toUpperCase()
+    .replace(/[«‹]/g, '<')
+    .replace(/\s+/g, '')
+    .replace(/[^A-Z0-9<]/g, '');
+}
+
+/**
+ * Locate and parse the MRZ in OCR output
+ * Lines may be up to two characters short (OCR drops trailing fillers) - they are padded
+ */
+export function parseMrz(text: string): MrzResult | null {
+  const lines = text
+    .split(/\r?\n/)
+    .map(normalizeLine)
+    .filter((line) => line.length >= 28 && line.includes('<'));
+
+  const fit = (line: string, length: number) =>
+    line.length > length + 2 || line.length < length - 2
+      ? null
+      : line.slice(0, length).padEnd(length, '<');
+
+  let best: MrzResult | null = null;
+
+  for (const format of ['TD3', 'TD2', 'TD1'] as MrzFormat[]) {
+    const { length, lines: count } = LINE_LENGTHS[format];
+
+    for (let start = 0; start + count <= lines.length; start++) {
+      const candidate = lines.slice(start, start + count).map((line) => fit(line, length));
+      if (candidate.some((line) => line === null)) {
+        continue;
+      }
+
+      const mrzLines = candidate as string[];
+      // The first line starts with the document code (P, I, A, C or V)
+      if (!/^[PIACV]/.test(mrzLines[0])) {
+        continue;
+      }
+
+      const { fields, checks } = PARSERS[format](mrzLines);
+      const valid = Object.values(checks).every((check) => check !== false);
+      const result: MrzResult = { format, lines: mrzLines, fields, checks, valid };
+
+      if (valid) {
+        return result;
+      }
+      best ??= result;
+    }
+  }
+
+  return best;
+}
@@ -1,8 +1,10 @@
 // Role-based permissions and navigation
+// Sidebar entries are gated by the same permissions as the API routes behind them
 
 import {
   LayoutDashboard,
   Briefcase,
+  CalendarClock,
   FileText,
   MessageSquare,
   Bell,
@@ -16,6 +18,7 @@ import {
   FolderTree,
   LucideIcon,
 } from 'lucide-react';
+import { getEffectivePermissions, type Permission } from '@/lib/auth/permissions';
 
 export type UserRole = 'CLIENT' | 'AGENT' | 'ADMIN';
 
@@ -23,126 +26,143 @@ export interface NavItem {
   title: string;
   href: string;
   icon: LucideIcon;
-  roles: UserRole[];
+  // Shown to everyone signed in when omitted
+  permission?: Permission;
   description?: string;
 }
 
-// Navigation items with role-based access
+// Navigation items with permission-based access
 export const navigationItems: NavItem[] = [
   {
     title: 'Dashboard',
     href: '/dashboard',
     icon: LayoutDashboard,
-    roles: ['CLIENT', 'AGENT', 'ADMIN'],
     description: 'Overview and quick actions',
   },
   {
     title: 'My Cases',
     href: '/dashboard/my-cases',
     icon: Briefcase,
-    roles: ['CLIENT'],
+    permission: 'case.view_own',
     description: 'View your immigration cases',
   },
   {
     title: 'Cases',
     href: '/dashboard/cases',
     icon: Briefcase,
-    roles: ['AGENT', 'ADMIN'],
+    permission: 'case.view',
     description: 'Manage immigration cases',
   },
   {
     title: 'Templates',
     href: '/dashboard/resources',
     icon: FileCheck,
-    roles: ['CLIENT'],
+    permission: 'case.view_own',
     description: 'Download templates and forms',
   },
   {
     title: 'Messages',
     href: '/dashboard/messages',
     icon: MessageSquare,
-    roles: ['CLIENT', 'AGENT', 'ADMIN'],
     description: 'Communication center',
   },
   {
     title: 'Notifications',
     href: '/dashboard/notifications',
     icon: Bell,
-    roles: ['CLIENT', 'AGENT', 'ADMIN'],
     description: 'View notifications',
   },
+  {
+    title: 'Availability',
+    href: '/dashboard/availability',
+    icon: CalendarClock,
+    permission: 'appointment.manage',
+    description: 'Appointment availability',
+  },
   {
     title: 'Clients',
     href: '/dashboard/clients',
     icon: Users,
-    roles: ['AGENT', 'ADMIN'],
+    permission: 'client.view',
     description: 'Manage clients',
   },
   {
     title: 'Users',
     href: '/dashboard/users',
     icon: Users,
-    roles: ['ADMIN'],
+    permission: 'user.manage',
     description: 'User management',
   },
   {
     title: 'Invite Codes',
     href: '/dashboard/invite-codes',
     icon: FileCheck,
-    roles: ['ADMIN'],
+    permission: 'invite_code.manage',
     description: 'Generate staff invite codes',
   },
   {
     title: 'Analytics',
     href: '/dashboard/analytics',
     icon: BarChart3,
-    roles: ['AGENT', 'ADMIN'],
+    permission: 'analytics.view',
     description: 'Performance metrics',
   },
   {
     title: 'Audit Logs',
     href: '/dashboard/audit-logs',
     icon: Shield,
-    roles: ['ADMIN'],
+    permission: 'audit.view',
     description: 'System audit trail',
   },
   {
     title: 'FAQ',
     href: '/dashboard/faq',
     icon: HelpCircle,
-    roles: ['ADMIN'],
+    permission: 'faq.manage',
     description: 'Manage FAQ content',
   },
   {
     title: 'Templates',
     href: '/dashboard/templates',
     icon: FolderTree,
-    roles: ['ADMIN'],
+    permission: 'template.manage',
     description: 'Manage document templates',
   },
   {
     title: 'Profile',
     href: '/dashboard/profile',
     icon: User,
-    roles: ['CLIENT', 'AGENT', 'ADMIN'],
     description: 'Your profile',
   },
   {
     title: 'Settings',
     href: '/dashboard/settings',
     icon: Settings,
-    roles: ['CLIENT', 'AGENT', 'ADMIN'],
     description: 'Preferences',
   },
 ];
 
-// Filter navigation items by role
+// Filter navigation items by the user's permissions (custom role or built-in bundle)
+export function getNavigationForUser(user: {
+  role: UserRole;
+  permissions?: Permission[] | null;
+}): NavItem[] {
+  const permissions = getEffectivePermissions(user);
+  return navigationItems.filter(
+    (item) => !item.permission || permissions.includes(item.permission)
+  );
+}
+
+// Filter navigation items by the built-in bundle of a role
 export function getNavigationForRole(role: UserRole): NavItem[] {
-  return navigationItems.filter((item) => item.roles.includes(role));
+  return getNavigationForUser({ role });
 }
 
 // Check if user has access to a route
-export function hasAccessToRoute(role: UserRole, route: string): boolean {
+export function hasAccessToRoute(
+  user: { role: UserRole; permissions?: Permission[] | null },
+  route: string
+): boolean {
   // Filter all matching items where route starts with item.href
   const matchingItems = navigationItems.filter((item) => route.startsWith(item.href));
 
@@ -154,8 +174,14 @@ export function hasAccessToRoute(role: UserRole, route: string): boolean {
     return best;
   }, null);
 
-  // Check if the most specific item's roles include the user's role
-  return mostSpecificItem ? mostSpecificItem.roles.includes(role) : false;
+  // Check if the user holds the most specific item's permission
+  if (!mostSpecificItem) {
+    return false;
+  }
+  return (
+    !mostSpecificItem.permission ||
+    getEffectivePermissions(user).includes(mostSpecificItem.permission)
+  );
 }
 
 // Role display names
@@ -30,6 +30,17 @@ export const nameSchema = z
   .min(2, 'Name must be at least 2 characters')
   .max(50, 'Name must be less than 50 characters');
 
+// Document validity dates (passports, bank statements, certificates...)
+export const documentValiditySchema = z
+  .object({
+    issuedAt: z.coerce.date({ error: 'Invalid issue date' }).nullish(),
+    expiresAt: z.coerce.date({ error: 'Invalid expiry date' }).nullish(),
+  })
+  .refine((data) => !data.issuedAt || !data.expiresAt || data.issuedAt < data.expiresAt, {
+    message: 'Expiry date must be after the issue date',
+    path: ['expiresAt'],
+  });
+
 // File size validation
 export const isFileSizeValid = (fileSize: number): boolean => {
   return fileSize <= FILE_UPLOAD.MAX_SIZE;